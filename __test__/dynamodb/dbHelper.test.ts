@@ -1,5 +1,18 @@
-import { removeDynamoDocumentVersion } from '../../src/dynamodb/dbHelper';
-import { TEST_GAME_OBJECT1 } from '../testConstants';
+import {
+  getHandIndexByConnectionId,
+  getNextSeatInPlay,
+  getQuadCount,
+  getTileIndexesInHand,
+  removeDynamoDocumentVersion,
+} from '../../src/dynamodb/dbHelper';
+import { MeldEnum } from '../../src/enums/MeldEnum';
+import {
+  FAKE_CONNECTION_ID1,
+  FAKE_CONNECTION_ID2,
+  FAKE_CONNECTION_ID3,
+  FAKE_CONNECTION_ID4,
+  TEST_GAME_OBJECT1,
+} from '../testConstants';
 
 describe('test removeGameDocumentVersion', () => {
   test('it should remove document version', () => {
@@ -14,3 +27,71 @@ describe('test removeGameDocumentVersion', () => {
     expect(response).toStrictEqual(expectedResponse);
   });
 });
+
+describe('test getHandIndexByConnectionId', () => {
+  const hands = [
+    { connectionId: FAKE_CONNECTION_ID1, hand: [] },
+    { connectionId: FAKE_CONNECTION_ID2, hand: [] },
+  ];
+
+  test('it should return the index of the hand of a user', () => {
+    expect(getHandIndexByConnectionId(hands, FAKE_CONNECTION_ID2)).toBe(1);
+  });
+
+  test('it should return -1 when the user has no hand', () => {
+    expect(getHandIndexByConnectionId(hands, 'NON_EXISTING_CONNECTION_ID')).toBe(-1);
+  });
+});
+
+describe('test getNextSeatInPlay', () => {
+  const hands = [
+    { connectionId: FAKE_CONNECTION_ID1, hand: [] },
+    { connectionId: FAKE_CONNECTION_ID2, hand: [], hasWon: true },
+    { connectionId: FAKE_CONNECTION_ID3, hand: [], hasWon: true },
+    { connectionId: FAKE_CONNECTION_ID4, hand: [] },
+  ];
+
+  test('it should skip the users who have already won', () => {
+    expect(getNextSeatInPlay(hands, 0)).toBe(3);
+    expect(getNextSeatInPlay(hands, 3)).toBe(0);
+  });
+
+  test('it should go back to the current user if every other user has won', () => {
+    expect(getNextSeatInPlay([...hands.slice(0, 3), { ...hands[3], hasWon: true }], 0)).toBe(0);
+  });
+});
+
+describe('test getTileIndexesInHand', () => {
+  const hand = ['1_DOT', 'EAST', '1_DOT', '5_BAMBOO'];
+
+  test('it should return a different index for each copy of a tile', () => {
+    expect(getTileIndexesInHand(hand, ['1_DOT', '5_BAMBOO', '1_DOT'])).toStrictEqual([0, 3, 2]);
+  });
+
+  test('it should return undefined when a tile is missing', () => {
+    expect(getTileIndexesInHand(hand, ['EAST', 'EAST'])).toBeUndefined();
+  });
+});
+
+describe('test getQuadCount', () => {
+  test('it should count the quads declared by all users', () => {
+    const hands = [
+      {
+        connectionId: FAKE_CONNECTION_ID1,
+        hand: [],
+        exposedMelds: [
+          { tiles: ['1_DOT', '1_DOT', '1_DOT', '1_DOT'], type: MeldEnum.QUAD },
+          { tiles: ['EAST', 'EAST', 'EAST'], type: MeldEnum.TRIPLET },
+        ],
+      },
+      { connectionId: FAKE_CONNECTION_ID2, hand: [] },
+      {
+        connectionId: 'FAKE_CONNECTION_ID3',
+        hand: [],
+        exposedMelds: [{ tiles: ['NORTH', 'NORTH', 'NORTH', 'NORTH'], type: MeldEnum.QUAD, concealed: true }],
+      },
+    ];
+
+    expect(getQuadCount(hands)).toBe(2);
+  });
+});
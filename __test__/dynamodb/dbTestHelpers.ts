@@ -4,6 +4,10 @@ import { CONNECTIONS_TABLE, GAMES_TABLE, GAME_STATE_TABLE } from '../../src/util
 import { GameState } from '../../src/models/GameState';
 import { getGameStateByGameId } from '../../src/dynamodb/gameStateDBService';
 import { DB } from '../../src/dynamodb/db';
+import { Game } from '../../src/models/Game';
+import { addUserToGame, createGame, getGameByGameId } from '../../src/dynamodb/gameDBService';
+import { saveConnection } from '../../src/dynamodb/userDBService';
+import { GameTypeEnum } from '../../src/enums/GameTypeEnum';
 
 /* ----------------------------------------------------------------------------
  * Helper functions
@@ -53,3 +57,41 @@ export const testReplaceGameState = async (newGameState: GameState): Promise<Gam
   await DB.put(putItemParam).promise();
   return getGameStateByGameId(newGameState.gameId);
 };
+
+/*
+ * Create a mahjong game of the given version with a user for each connection id, the first user being the host.
+ * Mainly to be used to test functions reading the users and the ruleset of a game.
+ * FOR USE IN TESTING ONLY.
+ */
+export const testCreateGame = async (connectionIds: string[], gameVersion?: string): Promise<Game> => {
+  await Promise.all(connectionIds.map((connectionId) => saveConnection(connectionId)));
+  const { gameId } = await createGame({
+    creatorConnectionId: connectionIds[0],
+    gameType: GameTypeEnum.MAHJONG,
+    gameVersion,
+  });
+
+  // Users join one by one, as each join updates the version of the game
+  await connectionIds.slice(1).reduce(async (previousJoin: Promise<unknown>, connectionId) => {
+    await previousJoin;
+    return addUserToGame(gameId, connectionId);
+  }, Promise.resolve());
+
+  return (await getGameByGameId(gameId)) as Game;
+};
+
+/*
+ * Remove the player count of a game, like games created before the player count was stored.
+ * FOR USE IN TESTING ONLY.
+ */
+export const testRemovePlayerCount = async (gameId: string): Promise<void> => {
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAMES_TABLE,
+    Key: {
+      gameId,
+    },
+    UpdateExpression: 'REMOVE playerCount',
+  };
+
+  await DB.update(updateParam).promise();
+};
@@ -4,6 +4,7 @@ import {
   addUserToGame,
   createGame,
   deleteGame,
+  finishGame,
   getAllGames,
   getGameByGameId,
   getUsersInGame,
@@ -11,11 +12,14 @@ import {
   removeUserFromGame,
   startGame,
 } from '../../src/dynamodb/gameDBService';
-import { cleanupTestGame } from './dbTestHelpers';
+import { cleanupTestGame, testRemovePlayerCount } from './dbTestHelpers';
 import { Game } from '../../src/models/Game';
 import * as userDBFunctions from '../../src/dynamodb/userDBService';
 import * as gameDBFunctions from '../../src/dynamodb/gameDBService';
 import { User } from '../../src/models/User';
+import { GameStatesEnum } from '../../src/enums/states';
+import { MatchLengthEnum } from '../../src/enums/MatchLengthEnum';
+import { MahjongVersions } from '../../src/games/mahjong/Wall/version/Versions';
 import {
   CONDITIONAL_FAILED_MSG,
   FAKE_CONNECTION_ID1,
@@ -52,6 +56,7 @@ describe('test createGame', () => {
     expect(gameName).toBe('');
     expect(gameType).toBe('');
     expect(gameVersion).toBe('');
+    expect(response.matchLength).toBe(MatchLengthEnum.FULL);
   });
 
   test('it should create a game with all attributes and save the game to db', async () => {
@@ -69,6 +74,7 @@ describe('test createGame', () => {
     expect(gameName).toBe(FAKE_GAME_NAME1);
     expect(gameType).toBe(FAKE_GAME_TYPE1);
     expect(gameVersion).toBe(FAKE_GAME_VERSION1);
+    expect(response.matchLength).toBe(TEST_GAME_OBJECT1.matchLength);
   });
 
   test('it should throw error if user creating the game does not exist', async () => {
@@ -243,6 +249,23 @@ describe('test addUserToGame', () => {
     expect(((await getGameByGameId(gameId)) as Game).users).toIncludeSameMembers(expectedUsersInGame);
   });
 
+  test('it should not allow to add a user to a full game', async () => {
+    await saveConnection(FAKE_CONNECTION_ID2);
+    await saveConnection(FAKE_CONNECTION_ID3);
+    await saveConnection(FAKE_CONNECTION_ID4);
+    const sanmaGame = await createGame({
+      creatorConnectionId: FAKE_CONNECTION_ID1,
+      gameVersion: MahjongVersions.Sanma,
+    });
+    await addUserToGame(sanmaGame.gameId, FAKE_CONNECTION_ID2);
+    await addUserToGame(sanmaGame.gameId, FAKE_CONNECTION_ID3);
+
+    const func = addUserToGame(sanmaGame.gameId, FAKE_CONNECTION_ID4);
+    await expect(func).rejects.toThrow('addUserToGame: game is full');
+
+    await cleanupTestGame(sanmaGame.gameId);
+  });
+
   test('it should not allow to add the same user to a game', async () => {
     const func = addUserToGame(gameId, FAKE_CONNECTION_ID1);
     const errorMsg = 'addUserToGame: user is already in the game';
@@ -539,6 +562,52 @@ describe('test startGame', () => {
     const func = startGame(gameId, FAKE_CONNECTION_ID2);
     await expect(func).rejects.toThrow(CONDITIONAL_FAILED_MSG);
   });
+
+  test('it should start a sanma game with 3 users', async () => {
+    const sanmaGame = await createGame({
+      creatorConnectionId: FAKE_CONNECTION_ID1,
+      gameVersion: MahjongVersions.Sanma,
+    });
+    await addUserToGame(sanmaGame.gameId, FAKE_CONNECTION_ID2);
+    await expect(startGame(sanmaGame.gameId, FAKE_CONNECTION_ID1)).rejects.toThrow(CONDITIONAL_FAILED_MSG);
+
+    await addUserToGame(sanmaGame.gameId, FAKE_CONNECTION_ID3);
+    const response = (await startGame(sanmaGame.gameId, FAKE_CONNECTION_ID1)) as Game;
+    expect(response.playerCount).toBe(3);
+    expect(response.started).toBeTruthy();
+
+    await cleanupTestGame(sanmaGame.gameId);
+  });
+
+  test('it should start a game created without a player count with 4 users', async () => {
+    await testRemovePlayerCount(gameId);
+
+    const response = (await startGame(gameId, FAKE_CONNECTION_ID1)) as Game;
+    expect(response.playerCount).toBeUndefined();
+    expect(response.started).toBeTruthy();
+  });
+});
+
+/* ----------------------------------------------------------------------------
+ * Test finishGame
+ * ------------------------------------------------------------------------- */
+describe('test finishGame', () => {
+  test('it should mark the game as finished', async () => {
+    await saveConnection(FAKE_CONNECTION_ID1);
+    const { gameId } = await createGame({
+      ...TEST_GAME_OBJECT1,
+      creatorConnectionId: FAKE_CONNECTION_ID1,
+    });
+
+    const response = (await finishGame(gameId)) as Game;
+
+    expect(response.state).toBe(GameStatesEnum.FINISHED);
+    expect(((await getGameByGameId(gameId)) as Game).state).toBe(GameStatesEnum.FINISHED);
+  });
+
+  test('it should throw error when the game does not exist', async () => {
+    await expect(finishGame(NON_EXISTING_GAME_ID)).rejects.toThrow(CONDITIONAL_FAILED_MSG);
+  });
 });
 
 /* ----------------------------------------------------------------------------
@@ -608,6 +677,18 @@ describe('test incrementUserReadyCount', () => {
     expect(incrementUserReadyCountSpy).toHaveBeenCalledTimes(5);
   });
 
+  test('it should count up to 4 users in a game created without a player count', async () => {
+    await testRemovePlayerCount(gameId);
+
+    await incrementGameLoadedCount(gameId);
+    await incrementGameLoadedCount(gameId);
+    await incrementGameLoadedCount(gameId);
+    const response = (await incrementGameLoadedCount(gameId)) as Game;
+    expect(response.gameLoadedCount).toBe(4);
+
+    await expect(incrementGameLoadedCount(gameId)).rejects.toThrow(CONDITIONAL_FAILED_MSG);
+  });
+
   test('it should increment count when function is called concurrently', async () => {
     // Initial count should be 0
     expect(game.gameLoadedCount).toBe(0);
@@ -2,7 +2,14 @@ import * as gameStateDBFunctions from '../../src/dynamodb/gameStateDBService';
 import {
   changeDealer,
   changeWind,
+  claimWinningTile,
+  declareAddedKong,
+  declareMissingSuit,
+  declareWin,
+  discardTile,
+  drawReplacementTile,
   drawTile,
+  exchangeCharlestonTiles,
   getCurrentDealer,
   getCurrentTileIndex,
   getCurrentPlayedTile,
@@ -10,11 +17,21 @@ import {
   getCurrentWind,
   getGameStateByGameId,
   getInteractionCount,
+  getRemainingTileCount,
   getUserHandsInGame,
   incrementCurrentTileIndex,
   initGameState,
+  meldDiscardedTile,
+  passCharlestonTiles,
+  removeLastDiscard,
+  replaceBonusTiles,
   resetPlayedTileInteraction,
+  selfPlayTile,
+  setCurrentTurn,
+  setDiscardWinners,
   setPlayedTileInteraction,
+  settleRound,
+  setFuriten,
   startNewGameRound,
 } from '../../src/dynamodb/gameStateDBService';
 import {
@@ -24,16 +41,25 @@ import {
   FAKE_CONNECTION_ID3,
   FAKE_CONNECTION_ID4,
   FAKE_GAME_ID,
+  NON_EXISTING_CONNECTION_ID,
   NON_EXISTING_GAME_ID,
   TEST_TILES_CONSECUTIVE,
   TEST_TILES_TRIPLET,
 } from '../testConstants';
-import { DEFAULT_HAND_LENGTH, DEFAULT_MAX_USERS_IN_GAME } from '../../src/utils/constants';
-import { GameState, PlayedTile, UserHand } from '../../src/models/GameState';
+import { DEFAULT_HAND_LENGTH, DEFAULT_MAX_USERS_IN_GAME, JAPANESE_STARTING_SCORE } from '../../src/utils/constants';
+import { CharlestonState, GameState, PlayedTile, UserHand } from '../../src/models/GameState';
 import { TileMapper } from '../../src/games/mahjong/Tile/map/TileMapper';
 import { MeldEnum } from '../../src/enums/MeldEnum';
+import { WinTypeEnum } from '../../src/enums/WinTypeEnum';
 import { testReplaceGameState } from './dbTestHelpers';
 import { Wall } from '../../src/games/mahjong/Wall/Wall';
+import { JapaneseWall } from '../../src/games/mahjong/Wall/version/JapaneseWall';
+import { JapaneseRuleset } from '../../src/games/mahjong/Ruleset/version/JapaneseRuleset';
+import { AmericanRuleset } from '../../src/games/mahjong/Ruleset/version/AmericanRuleset';
+import { AmericanWall } from '../../src/games/mahjong/Wall/version/AmericanWall';
+import { SichuanRuleset } from '../../src/games/mahjong/Ruleset/version/SichuanRuleset';
+import { SanmaRuleset } from '../../src/games/mahjong/Ruleset/version/SanmaRuleset';
+import { SichuanWall } from '../../src/games/mahjong/Wall/version/SichuanWall';
 
 const CONNECTION_IDS = [FAKE_CONNECTION_ID1, FAKE_CONNECTION_ID2, FAKE_CONNECTION_ID3, FAKE_CONNECTION_ID4];
 
@@ -63,6 +89,40 @@ describe('test initGameState', () => {
 
     expect(hand4.connectionId).toBe(FAKE_CONNECTION_ID4);
     expect(hand4.hand).toHaveLength(DEFAULT_HAND_LENGTH);
+
+    // Test scores
+    expect(response.scores).toStrictEqual([0, 0, 0, 0]);
+    expect(response.scoreSheet).toStrictEqual([]);
+  });
+
+  test('it should init a Japanese game with a dead wall and no bonus tiles', async () => {
+    const response = await initGameState(FAKE_GAME_ID, CONNECTION_IDS, JapaneseRuleset, true);
+
+    const { wall, deadWall = [], hands } = response;
+    expect(wall).toHaveLength(136 - JapaneseWall.DEAD_WALL_LENGTH);
+    expect(deadWall).toHaveLength(JapaneseWall.DEAD_WALL_LENGTH);
+    expect(response.currentIndex).toBe(DEFAULT_HAND_LENGTH * CONNECTION_IDS.length);
+    hands.forEach(({ hand, playedTiles }) => {
+      expect(hand).toHaveLength(DEFAULT_HAND_LENGTH);
+      expect(playedTiles).toStrictEqual([]);
+    });
+    expect(response.scores).toStrictEqual(CONNECTION_IDS.map(() => JAPANESE_STARTING_SCORE));
+  });
+
+  test('it should init an American game with jokers and a Charleston', async () => {
+    const response = await initGameState(FAKE_GAME_ID, CONNECTION_IDS, AmericanRuleset);
+
+    expect(response.wall).toHaveLength(Wall.DEFAULT_WALL_LENGTH + AmericanWall.JOKER_COUNT);
+    expect(response.charleston).toStrictEqual({ passIndex: 0, passedTiles: [[], [], [], []], stopCount: 0 });
+    expect((await initGameState(FAKE_GAME_ID, CONNECTION_IDS)).charleston).toBeUndefined();
+  });
+
+  test('it should init a Sichuan game with 108 tiles and missing suits to declare', async () => {
+    const response = await initGameState(FAKE_GAME_ID, CONNECTION_IDS, SichuanRuleset);
+
+    expect(response.wall).toHaveLength(SichuanWall.WALL_LENGTH);
+    expect(response.declaringMissingSuit).toBe(true);
+    expect((await initGameState(FAKE_GAME_ID, CONNECTION_IDS)).declaringMissingSuit).toBeUndefined();
   });
 });
 
@@ -96,11 +156,17 @@ describe('test getGameStateByGameId, getCurrentWallByGameId, getUserHandInGame',
     const expectedResponse = {
       gameId,
       wall,
+      deadWall: [],
       hands,
       currentIndex: await getCurrentTileIndex(gameId),
       currentTurn: 0,
       currentWind: 0,
       dealer: 0,
+      dealerRepeatCount: 0,
+      replacementCount: 0,
+      scores: [0, 0, 0, 0],
+      scoreSheet: [],
+      riichiSticks: 0,
     };
 
     // Test function calls
@@ -246,7 +312,7 @@ describe('test drawsTile', () => {
 
   test('it should draw tiles from the wall based on the current index', async () => {
     const tileToBeDrawn = wall[currentIndex];
-    const tileDrawn = await drawTile(gameId);
+    const tileDrawn = await drawTile(gameId, FAKE_CONNECTION_ID1);
     const newGameState = (await getGameStateByGameId(gameId)) as GameState;
 
     // Test function calls
@@ -258,6 +324,41 @@ describe('test drawsTile', () => {
     expect(newGameState.currentIndex).toBe(currentIndex + 1);
   });
 
+  test('it should add the tile drawn to the user hand', async () => {
+    const tileDrawn = await drawTile(gameId, FAKE_CONNECTION_ID1);
+    const newGameState = (await getGameStateByGameId(gameId)) as GameState;
+
+    expect(newGameState.hands[0].hand).toStrictEqual([...gameState.hands[0].hand, tileDrawn]);
+    expect(newGameState.hands[1].hand).toStrictEqual(gameState.hands[1].hand);
+  });
+
+  test('it should save the tile drawn as the last draw of the user', async () => {
+    const tileDrawn = await drawTile(gameId, FAKE_CONNECTION_ID1);
+    const newGameState = (await getGameStateByGameId(gameId)) as GameState;
+
+    expect(newGameState.lastDraw).toStrictEqual({ connectionId: FAKE_CONNECTION_ID1, tile: tileDrawn });
+  });
+
+  test('it should not draw a tile when it is not the turn of the user', async () => {
+    await expect(drawTile(gameId, FAKE_CONNECTION_ID2)).rejects.toThrow(CONDITIONAL_FAILED_MSG);
+
+    const newGameState = (await getGameStateByGameId(gameId)) as GameState;
+    expect(newGameState.currentIndex).toBe(currentIndex);
+    expect(newGameState.hands[1].hand).toStrictEqual(gameState.hands[1].hand);
+  });
+
+  test('it should not draw a tile while other users can still take the last discard', async () => {
+    await testReplaceGameState({ ...gameState, lastDiscard: { connectionId: FAKE_CONNECTION_ID4, tile: '1_DOT' } });
+
+    await expect(drawTile(gameId, FAKE_CONNECTION_ID1)).rejects.toThrow(CONDITIONAL_FAILED_MSG);
+    expect(await getCurrentTileIndex(gameId)).toBe(currentIndex);
+  });
+
+  test('it should throw error when the user is not in the game', async () => {
+    await expect(drawTile(gameId, 'NON_EXISTING_CONNECTION_ID')).rejects.toThrow('drawTile: user hand not found');
+    expect(await getCurrentTileIndex(gameId)).toBe(currentIndex);
+  });
+
   test('it should return last tile when max wall index (143) is reached', async () => {
     // Increment currentIndex to 143
     const promises = [];
@@ -269,10 +370,10 @@ describe('test drawsTile', () => {
 
     // Try to draw a tile
     const lastTile = wall[wall.length - 1];
-    const tileDrawn = await drawTile(gameId);
+    const tileDrawn = await drawTile(gameId, FAKE_CONNECTION_ID1);
 
     // Test function calls
-    expect(incrementCurrentTileIndexSpy).toHaveBeenCalledTimes(Wall.DEFAULT_WALL_LENGTH - currentIndex); // drawTile calls incrementCurrentTileIndex once
+    expect(incrementCurrentTileIndexSpy).toHaveBeenCalledTimes(Wall.DEFAULT_WALL_LENGTH - currentIndex - 1);
     expect(drawTileSpy).toHaveBeenCalledTimes(1);
     expect(getGameStateByGameIdSpy).toHaveBeenCalledTimes(2);
 
@@ -291,7 +392,7 @@ describe('test drawsTile', () => {
     expect(await getCurrentTileIndex(gameId)).toBe(144);
 
     // Try to draw a tile
-    const tileDrawn = await drawTile(gameId);
+    const tileDrawn = await drawTile(gameId, FAKE_CONNECTION_ID1);
 
     // Test function calls
     expect(incrementCurrentTileIndexSpy).toHaveBeenCalledTimes(Wall.DEFAULT_WALL_LENGTH - currentIndex);
@@ -304,6 +405,374 @@ describe('test drawsTile', () => {
   });
 });
 
+/* ----------------------------------------------------------------------------
+ * Test drawReplacementTile, getRemainingTileCount
+ * ------------------------------------------------------------------------- */
+describe('test drawReplacementTile, getRemainingTileCount', () => {
+  let gameState: GameState;
+  let gameId: string;
+  let wall: string[];
+  let currentIndex: number;
+
+  beforeEach(async () => {
+    gameState = await initGameState(FAKE_GAME_ID, CONNECTION_IDS);
+    gameId = gameState.gameId;
+    wall = gameState.wall;
+    currentIndex = gameState.currentIndex;
+  });
+
+  test('it should draw replacement tiles from the back of the wall', async () => {
+    const firstTileDrawn = await drawReplacementTile(gameId, FAKE_CONNECTION_ID1);
+    const secondTileDrawn = await drawReplacementTile(gameId, FAKE_CONNECTION_ID1);
+    const newGameState = (await getGameStateByGameId(gameId)) as GameState;
+
+    expect(firstTileDrawn).toBe(wall[wall.length - 1]);
+    expect(secondTileDrawn).toBe(wall[wall.length - 2]);
+    expect(newGameState.hands[0].hand).toStrictEqual([...gameState.hands[0].hand, firstTileDrawn, secondTileDrawn]);
+    expect(newGameState.replacementCount).toBe(2);
+    expect(newGameState.currentIndex).toBe(currentIndex);
+    expect(await getRemainingTileCount(gameId)).toBe(Wall.DEFAULT_WALL_LENGTH - currentIndex - 2);
+  });
+
+  test('it should save a replacement tile drawn for a quad as the last draw', async () => {
+    const tileDrawn = await drawReplacementTile(gameId, FAKE_CONNECTION_ID1, true);
+    const newGameState = (await getGameStateByGameId(gameId)) as GameState;
+
+    expect(newGameState.lastDraw).toStrictEqual({ connectionId: FAKE_CONNECTION_ID1, tile: tileDrawn, fromKong: true });
+  });
+
+  test('it should keep a bonus tile replaced after a quad as a replacement for the quad', async () => {
+    const testWall = [...wall];
+    testWall[Wall.DEFAULT_WALL_LENGTH - 1] = '1_FLOWER';
+    testWall[Wall.DEFAULT_WALL_LENGTH - 2] = '5_DOT';
+    await testReplaceGameState({ ...gameState, wall: testWall });
+
+    const tileDrawn = await drawReplacementTile(gameId, FAKE_CONNECTION_ID1, true);
+    await replaceBonusTiles(gameId, FAKE_CONNECTION_ID1, tileDrawn);
+    const newGameState = (await getGameStateByGameId(gameId)) as GameState;
+
+    expect(newGameState.lastDraw).toStrictEqual({ connectionId: FAKE_CONNECTION_ID1, tile: '5_DOT', fromKong: true });
+  });
+
+  test('it should not draw a replacement tile when it is not the turn of the user', async () => {
+    await expect(drawReplacementTile(gameId, FAKE_CONNECTION_ID2)).rejects.toThrow(CONDITIONAL_FAILED_MSG);
+  });
+
+  test('it should replace bonus tiles drawn until a playable tile is drawn', async () => {
+    const testWall = [...wall];
+    testWall[currentIndex] = '1_FLOWER';
+    testWall[Wall.DEFAULT_WALL_LENGTH - 1] = '2_SEASON';
+    testWall[Wall.DEFAULT_WALL_LENGTH - 2] = '5_DOT';
+    await testReplaceGameState({ ...gameState, wall: testWall });
+
+    const tileDrawn = await drawTile(gameId, FAKE_CONNECTION_ID1);
+    const drawnTile = await replaceBonusTiles(gameId, FAKE_CONNECTION_ID1, tileDrawn);
+    const newGameState = (await getGameStateByGameId(gameId)) as GameState;
+
+    expect(drawnTile).toStrictEqual({ tile: '5_DOT', bonusTiles: ['1_FLOWER', '2_SEASON'] });
+    expect(newGameState.hands[0].hand).toStrictEqual([...gameState.hands[0].hand, '5_DOT']);
+    expect(newGameState.hands[0].playedTiles).toStrictEqual([
+      ...(gameState.hands[0].playedTiles as string[]),
+      '1_FLOWER',
+      '2_SEASON',
+    ]);
+    expect(newGameState.replacementCount).toBe(2);
+    expect(newGameState.lastDraw).toStrictEqual({ connectionId: FAKE_CONNECTION_ID1, tile: '5_DOT', fromKong: false });
+  });
+
+  test('it should replace tiles extracted by the ruleset like bonus tiles', async () => {
+    const testWall = [...wall];
+    testWall[currentIndex] = 'NORTH';
+    testWall[Wall.DEFAULT_WALL_LENGTH - 1] = '5_DOT';
+    await testReplaceGameState({ ...gameState, wall: testWall });
+
+    const tileDrawn = await drawTile(gameId, FAKE_CONNECTION_ID1);
+    expect(await replaceBonusTiles(gameId, FAKE_CONNECTION_ID1, tileDrawn, [], ['NORTH'])).toStrictEqual({
+      tile: '5_DOT',
+      bonusTiles: ['NORTH'],
+    });
+  });
+
+  test('it should not replace a tile that is not a bonus tile', async () => {
+    expect(await replaceBonusTiles(gameId, FAKE_CONNECTION_ID1, '5_DOT')).toStrictEqual({
+      tile: '5_DOT',
+      bonusTiles: [],
+    });
+  });
+
+  test('it should end the live wall earlier after replacement tiles are drawn', async () => {
+    await testReplaceGameState({ ...gameState, currentIndex: Wall.DEFAULT_WALL_LENGTH - 2, replacementCount: 1 });
+
+    expect(await getRemainingTileCount(gameId)).toBe(1);
+    expect(await drawTile(gameId, FAKE_CONNECTION_ID1)).toBe(wall[Wall.DEFAULT_WALL_LENGTH - 2]);
+    expect(await getRemainingTileCount(gameId)).toBe(0);
+    expect(await drawTile(gameId, FAKE_CONNECTION_ID1)).toBe('');
+    expect(await drawReplacementTile(gameId, FAKE_CONNECTION_ID1)).toBe('');
+  });
+});
+
+/* ----------------------------------------------------------------------------
+ * Test discardTile, meldDiscardedTile
+ * ------------------------------------------------------------------------- */
+describe('test discardTile, meldDiscardedTile', () => {
+  let gameState: GameState;
+  let gameId: string;
+
+  beforeEach(async () => {
+    gameState = await initGameState(FAKE_GAME_ID, CONNECTION_IDS);
+    gameId = gameState.gameId;
+
+    const hands: UserHand[] = [
+      { connectionId: FAKE_CONNECTION_ID1, hand: ['1_DOT', '2_DOT', '5_BAMBOO', 'EAST'], exposedMelds: [] },
+      { connectionId: FAKE_CONNECTION_ID2, hand: ['5_BAMBOO', '5_BAMBOO', '9_DOT'], exposedMelds: [] },
+      { connectionId: FAKE_CONNECTION_ID3, hand: ['3_BAMBOO', '4_BAMBOO', '9_DOT'], exposedMelds: [] },
+      { connectionId: FAKE_CONNECTION_ID4, hand: ['1_CHARACTER'], exposedMelds: [] },
+    ];
+    await testReplaceGameState({ ...gameState, hands });
+  });
+
+  test('it should remove the discarded tile from the hand and save it as the last discard', async () => {
+    const updatedGameState = (await discardTile(gameId, FAKE_CONNECTION_ID1, '5_BAMBOO')) as GameState;
+
+    expect(updatedGameState.hands[0].hand).toStrictEqual(['1_DOT', '2_DOT', 'EAST']);
+    expect(updatedGameState.hands[0].discards).toStrictEqual(['5_BAMBOO']);
+    expect(updatedGameState.lastDiscard).toStrictEqual({ connectionId: FAKE_CONNECTION_ID1, tile: '5_BAMBOO' });
+    expect(updatedGameState.currentTurn).toBe(1);
+  });
+
+  test('it should clear the last draw of the user discarding the tile', async () => {
+    await testReplaceGameState({
+      ...((await getGameStateByGameId(gameId)) as GameState),
+      lastDraw: { connectionId: FAKE_CONNECTION_ID1, tile: '5_BAMBOO' },
+    });
+    const updatedGameState = (await discardTile(gameId, FAKE_CONNECTION_ID1, '5_BAMBOO')) as GameState;
+
+    expect(updatedGameState.lastDraw).toBeUndefined();
+  });
+
+  test('it should record the riichi discard and put a riichi stick on the table', async () => {
+    await testReplaceGameState({
+      ...((await getGameStateByGameId(gameId)) as GameState),
+      scores: [25000, 25000, 25000, 25000],
+    });
+    const updatedGameState = (await discardTile(gameId, FAKE_CONNECTION_ID1, '5_BAMBOO', true)) as GameState;
+
+    expect(updatedGameState.hands[0].riichi).toStrictEqual({ tile: '5_BAMBOO', discardIndex: 0 });
+    expect(updatedGameState.scores).toStrictEqual([24000, 25000, 25000, 25000]);
+    expect(updatedGameState.riichiSticks).toBe(1);
+    expect(updatedGameState.lastDiscard).toStrictEqual({ connectionId: FAKE_CONNECTION_ID1, tile: '5_BAMBOO' });
+  });
+
+  test('it should not declare riichi without enough points or twice', async () => {
+    await expect(discardTile(gameId, FAKE_CONNECTION_ID1, '5_BAMBOO', true)).rejects.toThrow(CONDITIONAL_FAILED_MSG);
+
+    const state = (await getGameStateByGameId(gameId)) as GameState;
+    const hands = state.hands.map((userHand, i) =>
+      i === 0 ? { ...userHand, riichi: { tile: 'WEST', discardIndex: 0 } } : userHand,
+    );
+    await testReplaceGameState({ ...state, hands, scores: [25000, 25000, 25000, 25000] });
+    await expect(discardTile(gameId, FAKE_CONNECTION_ID1, '5_BAMBOO', true)).rejects.toThrow(CONDITIONAL_FAILED_MSG);
+  });
+
+  test('it should end temporary furiten with the turn of the user, unless the user is in riichi', async () => {
+    await expect(setFuriten(gameId, [NON_EXISTING_CONNECTION_ID])).rejects.toThrow('setFuriten: user hand not found');
+    await setFuriten(gameId, [FAKE_CONNECTION_ID1, FAKE_CONNECTION_ID2]);
+    let updatedGameState = (await discardTile(gameId, FAKE_CONNECTION_ID1, '5_BAMBOO')) as GameState;
+    expect(updatedGameState.hands[0].furiten).toBeUndefined();
+    expect(updatedGameState.hands[1].furiten).toBe(true);
+
+    const hands = updatedGameState.hands.map((userHand, i) =>
+      i === 1 ? { ...userHand, riichi: { tile: 'WEST', discardIndex: 0 } } : userHand,
+    );
+    await testReplaceGameState({ ...updatedGameState, hands, lastDiscard: undefined });
+    updatedGameState = (await discardTile(gameId, FAKE_CONNECTION_ID2, '9_DOT')) as GameState;
+    expect(updatedGameState.hands[1].furiten).toBe(true);
+  });
+
+  test('it should not discard a tile when it is not the turn of the user', async () => {
+    await expect(discardTile(gameId, FAKE_CONNECTION_ID2, '9_DOT')).rejects.toThrow(CONDITIONAL_FAILED_MSG);
+  });
+
+  test('it should skip the users who have already won when moving on to the next turn', async () => {
+    const { hands } = (await getGameStateByGameId(gameId)) as GameState;
+    const wonHands = hands.map((userHand, i) => (i === 1 || i === 2 ? { ...userHand, hasWon: true } : userHand));
+    await testReplaceGameState({ ...gameState, hands: wonHands });
+    const updatedGameState = (await discardTile(gameId, FAKE_CONNECTION_ID1, '5_BAMBOO')) as GameState;
+
+    expect(updatedGameState.currentTurn).toBe(3);
+  });
+
+  test('it should throw error when the discarded tile is not in hand', async () => {
+    await expect(discardTile(gameId, FAKE_CONNECTION_ID1, '9_DOT')).rejects.toThrow(
+      'discardTile: tiles not found in hand',
+    );
+  });
+
+  test('it should move the meld tiles from the hand to the exposed melds', async () => {
+    await discardTile(gameId, FAKE_CONNECTION_ID1, '5_BAMBOO');
+    const updatedGameState = (await meldDiscardedTile(
+      gameId,
+      FAKE_CONNECTION_ID2,
+      ['5_BAMBOO', '5_BAMBOO', '5_BAMBOO'],
+      MeldEnum.TRIPLET,
+    )) as GameState;
+
+    expect(updatedGameState.hands[1].hand).toStrictEqual(['9_DOT']);
+    expect(updatedGameState.hands[1].exposedMelds).toStrictEqual([
+      { tiles: ['5_BAMBOO', '5_BAMBOO', '5_BAMBOO'], type: MeldEnum.TRIPLET, fromSeat: 0, claimedTile: '5_BAMBOO' },
+    ]);
+    expect(updatedGameState.hands[0].discards).toStrictEqual([]);
+    expect(updatedGameState.hands[0].calledDiscards).toStrictEqual(['5_BAMBOO']);
+    expect(updatedGameState.lastDiscard).toBeUndefined();
+    expect(updatedGameState.currentTurn).toBe(1);
+  });
+
+  test('it should give the turn to the user making a meld out of turn', async () => {
+    await discardTile(gameId, FAKE_CONNECTION_ID1, '5_BAMBOO');
+    await setCurrentTurn(gameId, 3);
+    const updatedGameState = (await meldDiscardedTile(
+      gameId,
+      FAKE_CONNECTION_ID2,
+      ['5_BAMBOO', '5_BAMBOO', '5_BAMBOO'],
+      MeldEnum.TRIPLET,
+    )) as GameState;
+
+    expect(updatedGameState.currentTurn).toBe(1);
+  });
+
+  test('it should remove the last discard when all users skip it', async () => {
+    await discardTile(gameId, FAKE_CONNECTION_ID1, '5_BAMBOO');
+    const updatedGameState = (await removeLastDiscard(gameId)) as GameState;
+
+    expect(updatedGameState.lastDiscard).toBeUndefined();
+    expect(updatedGameState.currentTurn).toBe(1);
+  });
+
+  test('it should throw error when the meld is made without the last discard', async () => {
+    await discardTile(gameId, FAKE_CONNECTION_ID1, 'EAST');
+
+    await expect(
+      meldDiscardedTile(gameId, FAKE_CONNECTION_ID3, ['3_BAMBOO', '4_BAMBOO', '5_BAMBOO'], MeldEnum.CONSECUTIVE),
+    ).rejects.toThrow('meldDiscardedTile: meld does not contain the discarded tile');
+  });
+
+  test('it should throw error when there is no discarded tile', async () => {
+    await expect(
+      meldDiscardedTile(gameId, FAKE_CONNECTION_ID3, ['3_BAMBOO', '4_BAMBOO', '5_BAMBOO'], MeldEnum.CONSECUTIVE),
+    ).rejects.toThrow('meldDiscardedTile: no discarded tile to make a meld with');
+  });
+});
+
+/* ----------------------------------------------------------------------------
+ * Test selfPlayTile
+ * ------------------------------------------------------------------------- */
+describe('test selfPlayTile', () => {
+  let gameState: GameState;
+  let gameId: string;
+
+  beforeEach(async () => {
+    gameState = await initGameState(FAKE_GAME_ID, CONNECTION_IDS);
+    gameId = gameState.gameId;
+
+    const hands: UserHand[] = [
+      {
+        connectionId: FAKE_CONNECTION_ID1,
+        hand: ['1_FLOWER', 'EAST', 'EAST', 'EAST', 'EAST', '7_DOT'],
+        playedTiles: [],
+        exposedMelds: [{ tiles: ['7_DOT', '7_DOT', '7_DOT'], type: MeldEnum.TRIPLET }],
+      },
+      ...gameState.hands.slice(1),
+    ];
+    await testReplaceGameState({ ...gameState, hands });
+  });
+
+  test('it should move a bonus tile to the played tiles', async () => {
+    const updatedGameState = (await selfPlayTile(gameId, FAKE_CONNECTION_ID1, '1_FLOWER', false, false)) as GameState;
+
+    expect(updatedGameState.hands[0].hand).toStrictEqual(['EAST', 'EAST', 'EAST', 'EAST', '7_DOT']);
+    expect(updatedGameState.hands[0].playedTiles).toStrictEqual(['1_FLOWER']);
+  });
+
+  test('it should move a concealed quad to the exposed melds', async () => {
+    const updatedGameState = (await selfPlayTile(gameId, FAKE_CONNECTION_ID1, 'EAST', true, false)) as GameState;
+
+    expect(updatedGameState.hands[0].hand).toStrictEqual(['1_FLOWER', '7_DOT']);
+    expect(updatedGameState.hands[0].exposedMelds).toStrictEqual([
+      { tiles: ['7_DOT', '7_DOT', '7_DOT'], type: MeldEnum.TRIPLET },
+      { tiles: ['EAST', 'EAST', 'EAST', 'EAST'], type: MeldEnum.QUAD, concealed: true },
+    ]);
+  });
+
+  test('it should turn an exposed triplet into a quad', async () => {
+    const updatedGameState = (await selfPlayTile(gameId, FAKE_CONNECTION_ID1, '7_DOT', true, true)) as GameState;
+
+    expect(updatedGameState.hands[0].hand).toStrictEqual(['1_FLOWER', 'EAST', 'EAST', 'EAST', 'EAST']);
+    expect(updatedGameState.hands[0].exposedMelds).toStrictEqual([
+      { tiles: ['7_DOT', '7_DOT', '7_DOT', '7_DOT'], type: MeldEnum.QUAD },
+    ]);
+  });
+
+  test('it should offer a tile added to an exposed triplet to the other users before making the quad', async () => {
+    const updatedGameState = (await declareAddedKong(gameId, FAKE_CONNECTION_ID1, '7_DOT')) as GameState;
+
+    expect(updatedGameState.lastDiscard).toStrictEqual({
+      connectionId: FAKE_CONNECTION_ID1,
+      tile: '7_DOT',
+      fromKong: true,
+    });
+    expect(updatedGameState.hands[0].hand).toContain('7_DOT');
+    expect(updatedGameState.hands[0].exposedMelds).toStrictEqual([
+      { tiles: ['7_DOT', '7_DOT', '7_DOT'], type: MeldEnum.TRIPLET },
+    ]);
+  });
+
+  test('it should not offer a tile that does not make a quad with an exposed triplet', async () => {
+    await expect(declareAddedKong(gameId, FAKE_CONNECTION_ID1, 'EAST')).rejects.toThrow(
+      'declareAddedKong: exposed triplet not found',
+    );
+  });
+
+  test('it should throw error when there is no exposed triplet to make a quad with', async () => {
+    await expect(selfPlayTile(gameId, FAKE_CONNECTION_ID1, 'EAST', true, true)).rejects.toThrow(
+      'selfPlayTile: exposed triplet not found',
+    );
+  });
+
+  test('it should throw error when the hand does not hold four tiles for a concealed quad', async () => {
+    await expect(selfPlayTile(gameId, FAKE_CONNECTION_ID1, '7_DOT', true, false)).rejects.toThrow(
+      'selfPlayTile: tiles not found in hand',
+    );
+  });
+
+  test('it should make quads with red fives', async () => {
+    const hands: UserHand[] = [
+      {
+        connectionId: FAKE_CONNECTION_ID1,
+        hand: ['5_DOT', '5_DOT_RED', '5_DOT', '5_DOT', '5_BAMBOO_RED'],
+        playedTiles: [],
+        exposedMelds: [{ tiles: ['5_BAMBOO', '5_BAMBOO', '5_BAMBOO'], type: MeldEnum.TRIPLET }],
+      },
+      ...gameState.hands.slice(1),
+    ];
+    await testReplaceGameState({ ...gameState, hands });
+
+    const concealedQuadState = (await selfPlayTile(gameId, FAKE_CONNECTION_ID1, '5_DOT', true, false)) as GameState;
+    expect(concealedQuadState.hands[0].hand).toStrictEqual(['5_BAMBOO_RED']);
+    expect(concealedQuadState.hands[0].exposedMelds?.[1].tiles).toHaveLength(4);
+    expect(concealedQuadState.hands[0].exposedMelds?.[1].tiles).toContain('5_DOT_RED');
+
+    const addedKongState = (await declareAddedKong(gameId, FAKE_CONNECTION_ID1, '5_BAMBOO_RED')) as GameState;
+    expect(addedKongState.lastDiscard?.tile).toBe('5_BAMBOO_RED');
+
+    const quadState = (await selfPlayTile(gameId, FAKE_CONNECTION_ID1, '5_BAMBOO_RED', true, true)) as GameState;
+    expect(quadState.hands[0].hand).toStrictEqual([]);
+    expect(quadState.hands[0].exposedMelds?.[0]).toStrictEqual({
+      tiles: ['5_BAMBOO', '5_BAMBOO', '5_BAMBOO', '5_BAMBOO_RED'],
+      type: MeldEnum.QUAD,
+    });
+  });
+});
+
 /* ----------------------------------------------------------------------------
  * Test changeDealer, getCurrentDealer
  * ------------------------------------------------------------------------- */
@@ -373,6 +842,21 @@ describe('test changeDealer, getCurrentDealer', () => {
     expect(await getCurrentWind(gameId)).toBe(1);
   });
 
+  test('it should rotate the wind back to east after the west round in a three-player game', async () => {
+    const sanmaGameState = await initGameState(FAKE_GAME_ID, CONNECTION_IDS.slice(0, 3), SanmaRuleset);
+    await testReplaceGameState({ ...sanmaGameState, dealer: 2, currentWind: 1 });
+
+    const southResponse = (await changeDealer(gameId)) as GameState;
+    expect(southResponse.dealer).toBe(0);
+    expect(southResponse.currentWind).toBe(2);
+
+    await testReplaceGameState({ ...sanmaGameState, dealer: 2, currentWind: 2 });
+    const westResponse = (await changeDealer(gameId)) as GameState;
+    expect(westResponse.dealer).toBe(0);
+    expect(westResponse.currentWind).toBe(0);
+    expect(changeWindSpy).toHaveBeenCalledTimes(2);
+  });
+
   test('it should throw error when the game does not exist', async () => {
     // Initial dealer should be user at the 0 index
     expect(currentDealerIndex).toBe(0);
@@ -481,8 +965,12 @@ describe('test setPlayedTileInteraction, getCurrentPlayedTile, getInteractionCou
   let getCurrentPlayedTileSpy: jest.SpyInstance;
 
   beforeEach(async () => {
-    gameState = await initGameState(FAKE_GAME_ID, CONNECTION_IDS);
+    gameState = {
+      ...(await initGameState(FAKE_GAME_ID, CONNECTION_IDS)),
+      lastDiscard: { connectionId: FAKE_CONNECTION_ID4, tile: '3_DOT' },
+    };
     gameId = gameState.gameId;
+    await testReplaceGameState(gameState);
 
     setPlayedTileInteractionSpy = jest.spyOn(gameStateDBFunctions, 'setPlayedTileInteraction');
     getInteractionCountSpy = jest.spyOn(gameStateDBFunctions, 'getInteractionCount');
@@ -522,7 +1010,7 @@ describe('test setPlayedTileInteraction, getCurrentPlayedTile, getInteractionCou
     expect(await getCurrentPlayedTile(gameId)).toStrictEqual([]);
 
     await Promise.all(
-      CONNECTION_IDS.map((connectionId) => {
+      [FAKE_CONNECTION_ID1, FAKE_CONNECTION_ID2, FAKE_CONNECTION_ID3].map((connectionId) => {
         return setPlayedTileInteraction(gameId, connectionId, TEST_TILES_CONSECUTIVE, MeldEnum.CONSECUTIVE);
       }),
     );
@@ -536,35 +1024,26 @@ describe('test setPlayedTileInteraction, getCurrentPlayedTile, getInteractionCou
       expectedPlayedTile,
       { ...expectedPlayedTile, connectionId: FAKE_CONNECTION_ID2 },
       { ...expectedPlayedTile, connectionId: FAKE_CONNECTION_ID3 },
-      { ...expectedPlayedTile, connectionId: FAKE_CONNECTION_ID4 },
     ];
 
     // Test function call
     expect(getInteractionCountSpy).toHaveBeenCalledTimes(1);
     expect(getCurrentPlayedTileSpy).toHaveBeenCalledTimes(1);
-    expect(setPlayedTileInteractionSpy).toHaveBeenCalledTimes(4);
+    expect(setPlayedTileInteractionSpy).toHaveBeenCalledTimes(3);
 
     // Test response
-    expect(await getInteractionCount(gameId)).toBe(4);
+    expect(await getInteractionCount(gameId)).toBe(3);
     expect(await getCurrentPlayedTile(gameId)).toIncludeSameMembers(expectedPlayedTileList);
+    expect((await getGameStateByGameId(gameId))?.lastDiscard?.interactedConnectionIds).toIncludeSameMembers([
+      FAKE_CONNECTION_ID1,
+      FAKE_CONNECTION_ID2,
+      FAKE_CONNECTION_ID3,
+    ]);
   });
 
-  test('it should throw error when interaction count exceeds 4', async () => {
-    // Initial count should be 0
-    expect(await getInteractionCount(gameId)).toBe(0);
-    expect(await getCurrentPlayedTile(gameId)).toStrictEqual([]);
-
+  test('it should throw error when the user has already interacted with the played tile', async () => {
     await setPlayedTileInteraction(gameId, FAKE_CONNECTION_ID1, TEST_TILES_CONSECUTIVE, MeldEnum.CONSECUTIVE, false);
-    await setPlayedTileInteraction(gameId, FAKE_CONNECTION_ID1, TEST_TILES_CONSECUTIVE, MeldEnum.CONSECUTIVE, false);
-    await setPlayedTileInteraction(gameId, FAKE_CONNECTION_ID1, TEST_TILES_CONSECUTIVE, MeldEnum.CONSECUTIVE, false);
-    await setPlayedTileInteraction(gameId, FAKE_CONNECTION_ID1, TEST_TILES_CONSECUTIVE, MeldEnum.CONSECUTIVE, false);
-    const func = setPlayedTileInteraction(
-      gameId,
-      FAKE_CONNECTION_ID1,
-      TEST_TILES_CONSECUTIVE,
-      MeldEnum.CONSECUTIVE,
-      false,
-    );
+    const func = setPlayedTileInteraction(gameId, FAKE_CONNECTION_ID1, [], '', true);
     const expectedPlayedTile: PlayedTile = {
       playedTiles: TEST_TILES_CONSECUTIVE,
       connectionId: FAKE_CONNECTION_ID1,
@@ -572,20 +1051,24 @@ describe('test setPlayedTileInteraction, getCurrentPlayedTile, getInteractionCou
       skipInteraction: false,
     };
 
-    // Test function call
-    expect(getInteractionCountSpy).toHaveBeenCalledTimes(1);
-    expect(getCurrentPlayedTileSpy).toHaveBeenCalledTimes(1);
-    expect(setPlayedTileInteractionSpy).toHaveBeenCalledTimes(5);
-
     // Test response
     await expect(func).rejects.toThrow(CONDITIONAL_FAILED_MSG);
-    expect(await getInteractionCount(gameId)).toBe(4);
-    expect(await getCurrentPlayedTile(gameId)).toIncludeSameMembers([
-      expectedPlayedTile,
-      expectedPlayedTile,
-      expectedPlayedTile,
-      expectedPlayedTile,
-    ]);
+    expect(await getInteractionCount(gameId)).toBe(1);
+    expect(await getCurrentPlayedTile(gameId)).toStrictEqual([expectedPlayedTile]);
+  });
+
+  test('it should throw error when the discarder interacts with the played tile', async () => {
+    await expect(setPlayedTileInteraction(gameId, FAKE_CONNECTION_ID4, [], '', true)).rejects.toThrow(
+      CONDITIONAL_FAILED_MSG,
+    );
+    expect(await getInteractionCount(gameId)).toBe(0);
+  });
+
+  test('it should throw error when there is no played tile', async () => {
+    await testReplaceGameState({ ...gameState, lastDiscard: undefined });
+    // The interacted users cannot be added to a missing played tile, so the update fails before the condition
+    await expect(setPlayedTileInteraction(gameId, FAKE_CONNECTION_ID1, [], '', true)).rejects.toThrow();
+    expect(await getInteractionCount(gameId)).toBe(0);
   });
 });
 
@@ -602,8 +1085,12 @@ describe('test resetPlayedTileInteraction', () => {
   let resetPlayedTileInteractionSpy: jest.SpyInstance;
 
   beforeEach(async () => {
-    gameState = await initGameState(FAKE_GAME_ID, CONNECTION_IDS);
+    gameState = {
+      ...(await initGameState(FAKE_GAME_ID, CONNECTION_IDS)),
+      lastDiscard: { connectionId: FAKE_CONNECTION_ID4, tile: '3_DOT' },
+    };
     gameId = gameState.gameId;
+    await testReplaceGameState(gameState);
 
     setPlayedTileInteractionSpy = jest.spyOn(gameStateDBFunctions, 'setPlayedTileInteraction');
     getInteractionCountSpy = jest.spyOn(gameStateDBFunctions, 'getInteractionCount');
@@ -637,6 +1124,278 @@ describe('test resetPlayedTileInteraction', () => {
   });
 });
 
+/* ----------------------------------------------------------------------------
+ * Test passCharlestonTiles and exchangeCharlestonTiles
+ * ------------------------------------------------------------------------- */
+describe('test passCharlestonTiles, exchangeCharlestonTiles', () => {
+  let gameId: string;
+  let hands: UserHand[];
+
+  const passAllTiles = async (stopCharleston = false): Promise<CharlestonState> => {
+    const passes = hands.map(({ connectionId, hand }) =>
+      passCharlestonTiles(gameId, connectionId, hand.slice(0, 3), stopCharleston),
+    );
+    await Promise.all(passes);
+
+    return ((await getGameStateByGameId(gameId)) as GameState).charleston as CharlestonState;
+  };
+
+  beforeEach(async () => {
+    const gameState = await initGameState(FAKE_GAME_ID, CONNECTION_IDS, AmericanRuleset);
+    gameId = gameState.gameId;
+    hands = gameState.hands;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('it should keep the passed tiles out of the hand until every user has passed', async () => {
+    const [{ hand }] = hands;
+    const updatedGameState = (await passCharlestonTiles(gameId, FAKE_CONNECTION_ID1, hand.slice(0, 3))) as GameState;
+
+    expect(updatedGameState.hands[0].hand).toStrictEqual(hand.slice(3));
+    expect(updatedGameState.charleston?.passedTiles).toStrictEqual([hand.slice(0, 3), [], [], []]);
+  });
+
+  test('it should only let a user pass once in each pass', async () => {
+    const [{ hand }] = hands;
+    await passCharlestonTiles(gameId, FAKE_CONNECTION_ID1, hand.slice(0, 3));
+
+    await expect(passCharlestonTiles(gameId, FAKE_CONNECTION_ID1, hand.slice(3, 6))).rejects.toThrow(
+      CONDITIONAL_FAILED_MSG,
+    );
+  });
+
+  test('it should give the passed tiles to the user on the right in the first pass', async () => {
+    const charleston = await passAllTiles();
+    const updatedGameState = (await exchangeCharlestonTiles(gameId, charleston)) as GameState;
+
+    expect(updatedGameState.hands[1].hand).toStrictEqual([...hands[1].hand.slice(3), ...hands[0].hand.slice(0, 3)]);
+    expect(updatedGameState.hands[0].hand).toStrictEqual([...hands[0].hand.slice(3), ...hands[3].hand.slice(0, 3)]);
+    expect(updatedGameState.charleston).toStrictEqual({ passIndex: 1, passedTiles: [[], [], [], []], stopCount: 0 });
+  });
+
+  test('it should end the Charleston after the first Charleston if a user stopped it', async () => {
+    const passAndExchange = async (): Promise<GameState> => {
+      const charleston = await passAllTiles(true);
+      hands = ((await exchangeCharlestonTiles(gameId, charleston)) as GameState).hands;
+      return (await getGameStateByGameId(gameId)) as GameState;
+    };
+
+    expect((await passAndExchange()).charleston?.stopCount).toBe(4);
+    await passAndExchange();
+    const updatedGameState = await passAndExchange();
+
+    expect(updatedGameState.charleston).toBeUndefined();
+    updatedGameState.hands.forEach(({ hand }) => expect(hand).toHaveLength(DEFAULT_HAND_LENGTH));
+  });
+
+  test('it should throw error when not every user has passed tiles', async () => {
+    const [{ hand }] = hands;
+    const { charleston } = (await passCharlestonTiles(gameId, FAKE_CONNECTION_ID1, hand.slice(0, 3))) as GameState;
+
+    await expect(exchangeCharlestonTiles(gameId, charleston as CharlestonState)).rejects.toThrow(
+      'exchangeCharlestonTiles: not every user has passed tiles',
+    );
+  });
+});
+
+/* ----------------------------------------------------------------------------
+ * Test declareMissingSuit
+ * ------------------------------------------------------------------------- */
+describe('test declareMissingSuit', () => {
+  let gameId: string;
+
+  beforeEach(async () => {
+    gameId = (await initGameState(FAKE_GAME_ID, CONNECTION_IDS, SichuanRuleset)).gameId;
+  });
+
+  test('it should keep declaring missing suits until every user has declared', async () => {
+    let updatedGameState = (await declareMissingSuit(gameId, FAKE_CONNECTION_ID1, 'DOT')) as GameState;
+    expect(updatedGameState.hands[0].missingSuit).toBe('DOT');
+    expect(updatedGameState.declaringMissingSuit).toBe(true);
+
+    await declareMissingSuit(gameId, FAKE_CONNECTION_ID2, 'BAMBOO');
+    await declareMissingSuit(gameId, FAKE_CONNECTION_ID3, 'DOT');
+    updatedGameState = (await declareMissingSuit(gameId, FAKE_CONNECTION_ID4, 'CHARACTER')) as GameState;
+
+    expect(updatedGameState.hands.map(({ missingSuit }) => missingSuit)).toStrictEqual([
+      'DOT',
+      'BAMBOO',
+      'DOT',
+      'CHARACTER',
+    ]);
+    expect(updatedGameState.declaringMissingSuit).toBeUndefined();
+  });
+
+  test('it should only let a user declare a missing suit once', async () => {
+    await declareMissingSuit(gameId, FAKE_CONNECTION_ID1, 'DOT');
+
+    await expect(declareMissingSuit(gameId, FAKE_CONNECTION_ID1, 'BAMBOO')).rejects.toThrow(CONDITIONAL_FAILED_MSG);
+    await expect(declareMissingSuit(gameId, NON_EXISTING_CONNECTION_ID, 'DOT')).rejects.toThrow(
+      'declareMissingSuit: user hand not found',
+    );
+  });
+});
+
+/* ----------------------------------------------------------------------------
+ * Test claimWinningTile
+ * ------------------------------------------------------------------------- */
+describe('test claimWinningTile', () => {
+  let gameState: GameState;
+  let gameId: string;
+
+  beforeEach(async () => {
+    gameState = await initGameState(FAKE_GAME_ID, CONNECTION_IDS);
+    gameId = gameState.gameId;
+  });
+
+  test('it should only let one win on a self-drawn tile', async () => {
+    await testReplaceGameState({ ...gameState, lastDraw: { connectionId: FAKE_CONNECTION_ID1, tile: '5_DOT' } });
+    const winSource = { winType: WinTypeEnum.SELF_DRAWN, winningTile: '5_DOT' };
+    const updatedGameState = (await claimWinningTile(gameId, FAKE_CONNECTION_ID1, winSource)) as GameState;
+
+    expect(updatedGameState.lastDraw).toBeUndefined();
+    await expect(claimWinningTile(gameId, FAKE_CONNECTION_ID1, winSource)).rejects.toThrow(CONDITIONAL_FAILED_MSG);
+  });
+
+  test('it should only let one user win on a played tile and keep the played tile', async () => {
+    const lastDiscard = { connectionId: FAKE_CONNECTION_ID1, tile: '5_DOT' };
+    await testReplaceGameState({ ...gameState, currentTurn: 1, lastDiscard });
+    const winSource = {
+      winType: WinTypeEnum.DISCARD,
+      winningTile: '5_DOT',
+      discarderConnectionId: FAKE_CONNECTION_ID1,
+    };
+    const updatedGameState = (await claimWinningTile(gameId, FAKE_CONNECTION_ID3, winSource)) as GameState;
+
+    expect(updatedGameState.lastDiscard).toStrictEqual({ ...lastDiscard, winnerConnectionIds: [FAKE_CONNECTION_ID3] });
+    await expect(claimWinningTile(gameId, FAKE_CONNECTION_ID2, winSource)).rejects.toThrow(CONDITIONAL_FAILED_MSG);
+  });
+
+  test('it should not let a user win on a tile that is not the last tile played', async () => {
+    await testReplaceGameState({ ...gameState, lastDiscard: { connectionId: FAKE_CONNECTION_ID1, tile: '5_DOT' } });
+    const winSource = {
+      winType: WinTypeEnum.DISCARD,
+      winningTile: '6_DOT',
+      discarderConnectionId: FAKE_CONNECTION_ID1,
+    };
+
+    await expect(claimWinningTile(gameId, FAKE_CONNECTION_ID2, winSource)).rejects.toThrow(CONDITIONAL_FAILED_MSG);
+  });
+});
+
+/* ----------------------------------------------------------------------------
+ * Test setDiscardWinners, declareWin
+ * ------------------------------------------------------------------------- */
+describe('test setDiscardWinners, declareWin', () => {
+  let gameState: GameState;
+  let gameId: string;
+
+  beforeEach(async () => {
+    gameState = await initGameState(FAKE_GAME_ID, CONNECTION_IDS, SichuanRuleset);
+    gameId = gameState.gameId;
+  });
+
+  test('it should pass the turn to the user after the winner of a self-drawn win', async () => {
+    await testReplaceGameState({
+      ...gameState,
+      declaringMissingSuit: undefined,
+      currentTurn: 1,
+      lastDraw: { connectionId: FAKE_CONNECTION_ID2, tile: '5_DOT' },
+    });
+    const updatedGameState = (await declareWin(gameId, FAKE_CONNECTION_ID2)) as GameState;
+
+    expect(updatedGameState.hands[1].hasWon).toBe(true);
+    expect(updatedGameState.currentTurn).toBe(2);
+    expect(updatedGameState.lastDraw).toBeUndefined();
+    await expect(declareWin(gameId, FAKE_CONNECTION_ID2)).rejects.toThrow(CONDITIONAL_FAILED_MSG);
+  });
+
+  test('it should keep the discard until every user who claimed it has won', async () => {
+    await testReplaceGameState({
+      ...gameState,
+      declaringMissingSuit: undefined,
+      currentTurn: 2,
+      lastDiscard: { connectionId: FAKE_CONNECTION_ID2, tile: '5_DOT' },
+    });
+    await setDiscardWinners(gameId, [FAKE_CONNECTION_ID4, FAKE_CONNECTION_ID1]);
+
+    let updatedGameState = (await declareWin(gameId, FAKE_CONNECTION_ID4)) as GameState;
+    expect(updatedGameState.lastDiscard?.winnerConnectionIds).toStrictEqual([FAKE_CONNECTION_ID4, FAKE_CONNECTION_ID1]);
+    expect(updatedGameState.currentTurn).toBe(2);
+
+    // The turn goes to the user after the winner furthest from the discarder
+    updatedGameState = (await declareWin(gameId, FAKE_CONNECTION_ID1)) as GameState;
+    expect(updatedGameState.lastDiscard).toBeUndefined();
+    expect(updatedGameState.currentTurn).toBe(1);
+  });
+
+  test('it should only set the winners of a discard while there is one', async () => {
+    await expect(setDiscardWinners(gameId, [FAKE_CONNECTION_ID1])).rejects.toThrow(CONDITIONAL_FAILED_MSG);
+  });
+});
+
+/* ----------------------------------------------------------------------------
+ * Test settleRound
+ * ------------------------------------------------------------------------- */
+describe('test settleRound', () => {
+  let gameId: string;
+
+  beforeEach(async () => {
+    const gameState = await initGameState(FAKE_GAME_ID, CONNECTION_IDS);
+    gameId = gameState.gameId;
+  });
+
+  test('it should add the deltas of each round to the scores and the score sheet', async () => {
+    const firstRound = {
+      dealer: 0,
+      wind: 0,
+      winnerConnectionId: FAKE_CONNECTION_ID2,
+      winType: WinTypeEnum.DISCARD,
+      discarderConnectionId: FAKE_CONNECTION_ID1,
+      points: 3,
+      deltas: [-8, 8, 0, 0],
+    };
+    const secondRound = {
+      dealer: 1,
+      wind: 0,
+      winnerConnectionId: FAKE_CONNECTION_ID1,
+      winType: WinTypeEnum.SELF_DRAWN,
+      points: 1,
+      deltas: [6, -2, -2, -2],
+    };
+    await settleRound(gameId, firstRound);
+    const updatedGameState = (await settleRound(gameId, secondRound)) as GameState;
+
+    expect(updatedGameState.scores).toStrictEqual([-2, 6, -2, -2]);
+    expect(updatedGameState.scoreSheet).toStrictEqual([firstRound, secondRound]);
+  });
+
+  test('it should clear the riichi sticks when a user wins the round', async () => {
+    await testReplaceGameState({ ...((await getGameStateByGameId(gameId)) as GameState), riichiSticks: 2 });
+
+    const drawRound = { dealer: 0, wind: 0, points: 0, deltas: [0, 0, 0, 0] };
+    expect(((await settleRound(gameId, drawRound)) as GameState).riichiSticks).toBe(2);
+
+    const winRound = { ...drawRound, winnerConnectionId: FAKE_CONNECTION_ID1, winType: WinTypeEnum.SELF_DRAWN };
+    expect(((await settleRound(gameId, winRound)) as GameState).riichiSticks).toBe(0);
+  });
+
+  test('it should keep the scores when a new round starts', async () => {
+    await settleRound(gameId, { dealer: 0, wind: 0, points: 0, deltas: [4, -4, 0, 0] });
+    const updatedGameState = (await startNewGameRound(gameId, CONNECTION_IDS, false)) as GameState;
+
+    expect(updatedGameState.scores).toStrictEqual([4, -4, 0, 0]);
+    expect(updatedGameState.scoreSheet).toHaveLength(1);
+  });
+
+  test('it should throw error when the game does not exist', async () => {
+    await expect(settleRound(NON_EXISTING_GAME_ID, { dealer: 0, wind: 0, points: 0, deltas: [] })).rejects.toThrow();
+  });
+});
+
 /* ----------------------------------------------------------------------------
  * Test startNewGameRound
  * ------------------------------------------------------------------------- */
@@ -689,7 +1448,9 @@ describe('test startNewGameRound', () => {
     expect(updatedGameState.interactionCount).toBe(0);
     expect(updatedGameState.playedTileInteractions).toStrictEqual([]);
     expect(updatedGameState.dealer).toBe(0);
+    expect(updatedGameState.currentTurn).toBe(0);
     expect(updatedGameState.currentWind).toBe(prevGameState.currentWind + 1);
+    expect(updatedGameState.dealerRepeatCount).toBe(0);
   });
 
   test('it should not change dealer if isDealerChanged is false', async () => {
@@ -701,6 +1462,29 @@ describe('test startNewGameRound', () => {
     const updatedGameState = (await startNewGameRound(gameId, CONNECTION_IDS, false)) as GameState;
     // test response
     expect(updatedGameState.dealer).toBe(prevGameState.dealer);
+    expect(updatedGameState.currentTurn).toBe(prevGameState.dealer);
     expect(updatedGameState.currentWind).toBe(prevGameState.currentWind);
   });
+
+  test('it should count the rounds in a row the dealer keeps the seat', async () => {
+    await startNewGameRound(gameId, CONNECTION_IDS, false);
+    expect(((await startNewGameRound(gameId, CONNECTION_IDS, false)) as GameState).dealerRepeatCount).toBe(2);
+
+    // The count is reset when the dealer changes
+    expect(((await startNewGameRound(gameId, CONNECTION_IDS, true)) as GameState).dealerRepeatCount).toBe(0);
+  });
+
+  test('it should start a new Charleston in an American game', async () => {
+    const updatedGameState = (await startNewGameRound(gameId, CONNECTION_IDS, false, AmericanRuleset)) as GameState;
+
+    expect(updatedGameState.charleston).toStrictEqual({ passIndex: 0, passedTiles: [[], [], [], []], stopCount: 0 });
+  });
+
+  test('it should declare missing suits again in a Sichuan game', async () => {
+    await testReplaceGameState({ ...((await getGameStateByGameId(gameId)) as GameState), declaringMissingSuit: false });
+    const updatedGameState = (await startNewGameRound(gameId, CONNECTION_IDS, false, SichuanRuleset)) as GameState;
+
+    expect(updatedGameState.declaringMissingSuit).toBe(true);
+    expect(updatedGameState.hands.every(({ missingSuit, hasWon }) => !missingSuit && !hasWon)).toBe(true);
+  });
 });
@@ -0,0 +1,203 @@
+import {
+  findNextUser,
+  getSeatWind,
+  isWinningHandInGame,
+  validateLockedHand,
+  validateMissingSuitDiscard,
+  validateTurn,
+} from '../../src/functions/functionsHelper';
+import { GameState } from '../../src/models/GameState';
+import { MeldEnum } from '../../src/enums/MeldEnum';
+import { HongKongRuleset } from '../../src/games/mahjong/Ruleset/version/HongKongRuleset';
+import { AmericanRuleset } from '../../src/games/mahjong/Ruleset/version/AmericanRuleset';
+import { SichuanRuleset } from '../../src/games/mahjong/Ruleset/version/SichuanRuleset';
+import { FAKE_CONNECTION_ID1, FAKE_CONNECTION_ID2, FAKE_CONNECTION_ID3, FAKE_GAME_ID } from '../testConstants';
+
+describe('test getSeatWind', () => {
+  test('it should return East for the dealer and count the other winds from the dealer', () => {
+    expect(getSeatWind(2, 2)).toBe(0);
+    expect(getSeatWind(3, 2)).toBe(1);
+    expect(getSeatWind(0, 2)).toBe(2);
+  });
+
+  test('it should only count three winds in a three-player game', () => {
+    expect(getSeatWind(0, 2, 3)).toBe(1);
+    expect(getSeatWind(1, 2, 3)).toBe(2);
+  });
+});
+
+describe('test findNextUser', () => {
+  test('it should go back to the first user after the last user', () => {
+    const connectionIds = [FAKE_CONNECTION_ID1, FAKE_CONNECTION_ID2, FAKE_CONNECTION_ID3];
+    expect(findNextUser(FAKE_CONNECTION_ID1, connectionIds)).toBe(FAKE_CONNECTION_ID2);
+    expect(findNextUser(FAKE_CONNECTION_ID3, connectionIds)).toBe(FAKE_CONNECTION_ID1);
+  });
+});
+
+describe('test validateTurn', () => {
+  const gameState: GameState = {
+    gameId: FAKE_GAME_ID,
+    wall: [],
+    hands: [
+      { connectionId: FAKE_CONNECTION_ID1, hand: ['1_DOT', '2_DOT', '3_DOT', 'EAST'] },
+      {
+        connectionId: FAKE_CONNECTION_ID2,
+        hand: ['1_DOT', '2_DOT', '3_DOT', 'EAST', 'EAST'],
+        exposedMelds: [{ tiles: ['5_DOT', '5_DOT', '5_DOT', '5_DOT'], type: MeldEnum.QUAD }],
+      },
+    ],
+    currentIndex: 0,
+    dealer: 0,
+    currentWind: 0,
+    currentTurn: 0,
+  };
+
+  test('it should allow the user whose turn it is to draw a tile', () => {
+    expect(validateTurn(gameState, FAKE_CONNECTION_ID1, false)).toBeUndefined();
+  });
+
+  test('it should reject users when it is not their turn', () => {
+    expect(validateTurn(gameState, FAKE_CONNECTION_ID2, true)).toBe('It is not your turn');
+  });
+
+  test('it should reject playing a tile before drawing one', () => {
+    expect(validateTurn(gameState, FAKE_CONNECTION_ID1, true)).toBe('Draw a tile before playing a tile');
+  });
+
+  test('it should count each exposed meld as 3 tiles', () => {
+    const state = { ...gameState, currentTurn: 1 };
+    expect(validateTurn(state, FAKE_CONNECTION_ID2, true)).toBeUndefined();
+    expect(validateTurn(state, FAKE_CONNECTION_ID2, false)).toBe('A tile has already been drawn in this turn');
+  });
+
+  test('it should count the tiles of each exposed meld when quads are not replaced (American)', () => {
+    const [hand1, hand2] = gameState.hands;
+    const hand = ['1_DOT', '2_DOT', '3_DOT', '4_DOT', '5_DOT', '6_DOT', '7_DOT', '8_DOT', '9_DOT', 'EAST'];
+    const state = { ...gameState, hands: [hand1, { ...hand2, hand }], currentTurn: 1 };
+    expect(validateTurn(state, FAKE_CONNECTION_ID2, true, AmericanRuleset)).toBeUndefined();
+    expect(validateTurn(state, FAKE_CONNECTION_ID2, true)).toBe('Draw a tile before playing a tile');
+  });
+
+  test('it should reject drawing while other users can still take the last discard', () => {
+    const state = { ...gameState, lastDiscard: { connectionId: FAKE_CONNECTION_ID2, tile: 'EAST' } };
+    expect(validateTurn(state, FAKE_CONNECTION_ID1, false)).toBe(
+      'Waiting for other users to interact with the played tile',
+    );
+  });
+
+  test('it should reject drawing until every user has finished the Charleston', () => {
+    const state = { ...gameState, charleston: { passIndex: 0, passedTiles: [[], []], stopCount: 0 } };
+    expect(validateTurn(state, FAKE_CONNECTION_ID1, false)).toBe('Waiting for every user to finish the Charleston');
+  });
+
+  test('it should reject drawing until every user has declared a missing suit', () => {
+    const state = { ...gameState, declaringMissingSuit: true };
+    expect(validateTurn(state, FAKE_CONNECTION_ID1, false)).toBe('Waiting for every user to declare a missing suit');
+  });
+
+  test('it should reject users who have already won the round', () => {
+    const [hand1, hand2] = gameState.hands;
+    const state = { ...gameState, hands: [{ ...hand1, hasWon: true }, hand2] };
+    expect(validateTurn(state, FAKE_CONNECTION_ID1, false)).toBe('You have already won this round');
+  });
+});
+
+describe('test validateLockedHand', () => {
+  const gameState: GameState = {
+    gameId: FAKE_GAME_ID,
+    wall: [],
+    hands: [
+      {
+        connectionId: FAKE_CONNECTION_ID1,
+        hand: ['1_DOT', '2_DOT', '3_DOT', 'EAST', 'WEST'],
+        riichi: { tile: 'NORTH', discardIndex: 0 },
+      },
+      { connectionId: FAKE_CONNECTION_ID2, hand: ['1_DOT', '2_DOT', '3_DOT', 'EAST', 'WEST'] },
+    ],
+    currentIndex: 0,
+    dealer: 0,
+    currentWind: 0,
+    currentTurn: 0,
+    lastDraw: { connectionId: FAKE_CONNECTION_ID1, tile: 'WEST' },
+  };
+
+  test('it should only allow the drawn tile to be played after riichi', () => {
+    expect(validateLockedHand(gameState, FAKE_CONNECTION_ID1, 'WEST')).toBeUndefined();
+    expect(validateLockedHand(gameState, FAKE_CONNECTION_ID1, 'EAST')).toBe(
+      'Only the drawn tile can be played after riichi',
+    );
+    expect(validateLockedHand(gameState, FAKE_CONNECTION_ID1)).toBe('Cannot declare a meld after riichi');
+  });
+
+  test('it should not lock the hand of a user who has not declared riichi', () => {
+    expect(validateLockedHand(gameState, FAKE_CONNECTION_ID2, 'EAST')).toBeUndefined();
+    expect(validateLockedHand(gameState, FAKE_CONNECTION_ID2)).toBeUndefined();
+  });
+});
+
+describe('test validateMissingSuitDiscard', () => {
+  const gameState: GameState = {
+    gameId: FAKE_GAME_ID,
+    wall: [],
+    hands: [
+      { connectionId: FAKE_CONNECTION_ID1, hand: ['1_DOT', '2_DOT', '3_BAMBOO', '9_DOT'], missingSuit: 'DOT' },
+      { connectionId: FAKE_CONNECTION_ID2, hand: ['1_DOT', '2_DOT', '3_BAMBOO'], missingSuit: 'CHARACTER' },
+      { connectionId: FAKE_CONNECTION_ID3, hand: ['1_DOT', '2_DOT', '3_BAMBOO'] },
+    ],
+    currentIndex: 0,
+    dealer: 0,
+    currentWind: 0,
+    currentTurn: 0,
+  };
+
+  test('it should only allow tiles of the missing suit to be played while the hand has some', () => {
+    expect(validateMissingSuitDiscard(gameState, FAKE_CONNECTION_ID1, '9_DOT')).toBeUndefined();
+    expect(validateMissingSuitDiscard(gameState, FAKE_CONNECTION_ID1, '3_BAMBOO')).toBe(
+      'Tiles of the missing suit must be played first',
+    );
+  });
+
+  test('it should allow any tile without tiles of the missing suit or a missing suit', () => {
+    expect(validateMissingSuitDiscard(gameState, FAKE_CONNECTION_ID2, '3_BAMBOO')).toBeUndefined();
+    expect(validateMissingSuitDiscard(gameState, FAKE_CONNECTION_ID3, '3_BAMBOO')).toBeUndefined();
+  });
+});
+
+describe('test isWinningHandInGame', () => {
+  const windsHand = [
+    ...Array(4).fill('NORTH'),
+    ...Array(3).fill('EAST'),
+    ...Array(3).fill('WEST'),
+    ...Array(4).fill('SOUTH'),
+  ];
+  const meldsHand = [
+    ...['1_DOT', '2_DOT', '3_DOT', '4_DOT', '5_DOT', '6_DOT'],
+    ...Array(3).fill('EAST'),
+    ...Array(3).fill('REDDRAGON'),
+    ...Array(2).fill('WEST'),
+  ];
+
+  test('it should check the hand against the card of a game played with a card', () => {
+    expect(isWinningHandInGame(AmericanRuleset, windsHand)).toBe(true);
+    expect(isWinningHandInGame(AmericanRuleset, meldsHand)).toBe(false);
+  });
+
+  test('it should check the melds of the hand in other games', () => {
+    expect(isWinningHandInGame(HongKongRuleset, meldsHand)).toBe(true);
+    expect(isWinningHandInGame(HongKongRuleset, windsHand)).toBe(false);
+  });
+
+  test('it should reject a hand with a tile of the missing suit', () => {
+    const suitsHand = [
+      ...['1_DOT', '2_DOT', '3_DOT', '4_DOT', '5_DOT', '6_DOT'],
+      ...Array(3).fill('7_BAMBOO'),
+      ...Array(3).fill('8_BAMBOO'),
+      ...Array(2).fill('9_DOT'),
+    ];
+    const exposedMelds = [{ tiles: ['1_CHARACTER', '1_CHARACTER', '1_CHARACTER'], type: MeldEnum.TRIPLET }];
+
+    expect(isWinningHandInGame(SichuanRuleset, suitsHand, [], 'CHARACTER')).toBe(true);
+    expect(isWinningHandInGame(SichuanRuleset, suitsHand, [], 'BAMBOO')).toBe(false);
+    expect(isWinningHandInGame(SichuanRuleset, suitsHand.slice(3), exposedMelds, 'CHARACTER')).toBe(false);
+  });
+});
@@ -1,4 +1,5 @@
 import { WebSocketAPIGatewayEvent, WebSocketAPIGatewayEventRequestContext } from '../../src/types/event';
+import { WebSocketClient } from '../../src/websocket/WebSocketClient';
 
 /* ----------------------------------------------------------------------------
  * Interface
@@ -37,3 +38,15 @@ export const createEvent = ({
     body: JSON.stringify(eventBodyJSON),
   };
 };
+
+/* ----------------------------------------------------------------------------
+ * WebSocket client
+ * ------------------------------------------------------------------------- */
+/*
+ * Create a websocket client whose sent responses are recorded instead of being posted to the users.
+ */
+export const createTestWebSocketClient = (connectionId = 'test-id'): WebSocketClient => {
+  const ws = new WebSocketClient(createRequestContext(connectionId, 'test-domain-name', 'dev'));
+  jest.spyOn(ws, 'send').mockResolvedValue(null);
+  return ws;
+};
@@ -0,0 +1,436 @@
+import * as LambdaTester from 'lambda-tester';
+import {
+  compareTileInteractionAndSendUpdate,
+  handler,
+  validateMeldClaim,
+  validatePlayedTileInteraction,
+} from '../../../src/functions/game/onPlayedTileInteraction';
+import { validateTurn } from '../../../src/functions/functionsHelper';
+import { getGameStateByGameId, getInteractionCount, initGameState } from '../../../src/dynamodb/gameStateDBService';
+import { GameState, PlayedTile, UserHand } from '../../../src/models/GameState';
+import { MeldEnum } from '../../../src/enums/MeldEnum';
+import { WebSocketActionsEnum } from '../../../src/enums/WebSocketActionsEnum';
+import { MahjongVersions } from '../../../src/games/mahjong/Wall/version/Versions';
+import { Ruleset } from '../../../src/games/mahjong/Ruleset/Ruleset';
+import { RulesetFactory } from '../../../src/games/mahjong/Ruleset/RulesetFactory';
+import { JapaneseRuleset } from '../../../src/games/mahjong/Ruleset/version/JapaneseRuleset';
+import { GameTypeEnum } from '../../../src/enums/GameTypeEnum';
+import { testCreateGame, testReplaceGameState } from '../../dynamodb/dbTestHelpers';
+import { createEvent, createTestWebSocketClient } from '../functionsTestHelpers';
+import { createInteractionSuccessResponse } from '../../../src/websocket/createWSResponse';
+import { response } from '../../../src/utils/responseHelper';
+import { LambdaResponse } from '../../../src/types/response';
+import {
+  FAKE_CONNECTION_ID1,
+  FAKE_CONNECTION_ID2,
+  FAKE_CONNECTION_ID3,
+  FAKE_CONNECTION_ID4,
+  FAKE_GAME_ID,
+} from '../../testConstants';
+
+jest.mock('../../../src/websocket/WebSocketClient');
+
+const CONNECTION_IDS = [FAKE_CONNECTION_ID1, FAKE_CONNECTION_ID2, FAKE_CONNECTION_ID3, FAKE_CONNECTION_ID4];
+// Waiting on 5_DOT once a pung of honors is added
+const WAITING_HAND = ['1_DOT', '2_DOT', '3_DOT', '4_DOT', '6_DOT', '7_DOT', '8_DOT', '9_DOT', '9_DOT', '9_DOT'];
+const FILLER_TILES = ['1_DOT', '2_DOT', '3_DOT', '4_DOT', '5_DOT', '6_DOT', '7_DOT', '8_DOT', '9_DOT', 'EAST'];
+
+/*
+ * Create a game of the given version where the first user has just played a tile,
+ * and every other user has interacted with it. Attributes of each hand can be overridden in seat order.
+ */
+const createInteractionGame = async (
+  version: MahjongVersions,
+  hands: string[][],
+  discardedTile: string,
+  interactions: PlayedTile[],
+  handOverrides: Partial<UserHand>[] = [],
+): Promise<{ gameId: string; ruleset: Ruleset }> => {
+  const { gameId } = await testCreateGame(CONNECTION_IDS, version);
+  const ruleset = RulesetFactory.getRuleset(GameTypeEnum.MAHJONG, version);
+  const gameState = await initGameState(gameId, CONNECTION_IDS, ruleset);
+  await testReplaceGameState({
+    ...gameState,
+    charleston: undefined,
+    declaringMissingSuit: undefined,
+    hands: CONNECTION_IDS.map((connectionId, seatIndex) => ({
+      connectionId,
+      hand: hands[seatIndex],
+      discards: seatIndex === 0 ? [discardedTile] : [],
+      ...handOverrides[seatIndex],
+    })),
+    currentTurn: 1,
+    lastDiscard: { connectionId: FAKE_CONNECTION_ID1, tile: discardedTile },
+    playedTileInteractions: interactions,
+    interactionCount: interactions.length,
+  });
+
+  return { gameId, ruleset };
+};
+
+const skip = (connectionId: string): PlayedTile => ({
+  connectionId,
+  playedTiles: [],
+  meldType: '',
+  skipInteraction: true,
+});
+
+/* ----------------------------------------------------------------------------
+ * Test validatePlayedTileInteraction
+ * ------------------------------------------------------------------------- */
+describe('test validatePlayedTileInteraction', () => {
+  const gameState: GameState = {
+    gameId: FAKE_GAME_ID,
+    wall: [],
+    hands: CONNECTION_IDS.map((connectionId) => ({ connectionId, hand: FILLER_TILES })),
+    currentIndex: 0,
+    dealer: 0,
+    currentWind: 0,
+    currentTurn: 1,
+    lastDiscard: { connectionId: FAKE_CONNECTION_ID1, tile: '5_DOT', interactedConnectionIds: [FAKE_CONNECTION_ID2] },
+  };
+
+  test('it should let each other user interact with the played tile', () => {
+    expect(validatePlayedTileInteraction(gameState, FAKE_CONNECTION_ID3)).toBeUndefined();
+    expect(validatePlayedTileInteraction(gameState, FAKE_CONNECTION_ID4)).toBeUndefined();
+  });
+
+  test('it should reject an interaction when there is no played tile', () => {
+    const state = { ...gameState, lastDiscard: undefined };
+    expect(validatePlayedTileInteraction(state, FAKE_CONNECTION_ID3)).toBe('There is no played tile to interact with');
+  });
+
+  test('it should reject an interaction from the discarder', () => {
+    expect(validatePlayedTileInteraction(gameState, FAKE_CONNECTION_ID1)).toBe(
+      'Cannot interact with your own played tile',
+    );
+  });
+
+  test('it should reject a second interaction from the same user', () => {
+    expect(validatePlayedTileInteraction(gameState, FAKE_CONNECTION_ID2)).toBe(
+      'You have already interacted with the played tile',
+    );
+  });
+
+  test('it should reject an interaction from a user who has already won', () => {
+    const hands = gameState.hands.map((userHand, i) => (i === 2 ? { ...userHand, hasWon: true } : userHand));
+    expect(validatePlayedTileInteraction({ ...gameState, hands }, FAKE_CONNECTION_ID3)).toBe(
+      'You have already won this round',
+    );
+  });
+});
+
+/* ----------------------------------------------------------------------------
+ * Test validateMeldClaim
+ * ------------------------------------------------------------------------- */
+describe('test validateMeldClaim', () => {
+  const gameState: GameState = {
+    gameId: FAKE_GAME_ID,
+    wall: [],
+    hands: [
+      { connectionId: FAKE_CONNECTION_ID1, hand: FILLER_TILES },
+      {
+        connectionId: FAKE_CONNECTION_ID2,
+        hand: [
+          '1_BAMBOO',
+          '1_BAMBOO',
+          '1_BAMBOO',
+          '2_BAMBOO',
+          '3_BAMBOO',
+          '4_BAMBOO',
+          '5_BAMBOO',
+          '6_BAMBOO',
+          '7_BAMBOO',
+          '8_BAMBOO',
+          '9_BAMBOO',
+          '9_BAMBOO',
+          '9_BAMBOO',
+        ],
+      },
+    ],
+    currentIndex: 0,
+    dealer: 0,
+    currentWind: 0,
+    currentTurn: 1,
+    lastDiscard: { connectionId: FAKE_CONNECTION_ID1, tile: '1_BAMBOO' },
+  };
+
+  test('it should accept a meld made with the played tile and tiles in hand', () => {
+    const triplet = ['1_BAMBOO', '1_BAMBOO', '1_BAMBOO'];
+    expect(validateMeldClaim(gameState, FAKE_CONNECTION_ID2, triplet, MeldEnum.TRIPLET)).toBeUndefined();
+  });
+
+  test('it should accept a win claim completing a winning hand', () => {
+    expect(validateMeldClaim(gameState, FAKE_CONNECTION_ID2, ['1_BAMBOO'], MeldEnum.WIN)).toBeUndefined();
+  });
+
+  test('it should reject a claim when there is no played tile', () => {
+    const state = { ...gameState, lastDiscard: undefined };
+    expect(validateMeldClaim(state, FAKE_CONNECTION_ID2, ['1_BAMBOO', '1_BAMBOO', '1_BAMBOO'], MeldEnum.TRIPLET)).toBe(
+      'There is no played tile to interact with',
+    );
+  });
+
+  test('it should reject a claim on the own played tile of the user', () => {
+    expect(validateMeldClaim(gameState, FAKE_CONNECTION_ID1, ['1_BAMBOO', '1_BAMBOO'], MeldEnum.TRIPLET)).toBe(
+      'Cannot interact with your own played tile',
+    );
+  });
+
+  test('it should reject a meld with tiles that are not in hand', () => {
+    const state = { ...gameState, lastDiscard: { connectionId: FAKE_CONNECTION_ID1, tile: '5_DOT' } };
+    expect(validateMeldClaim(state, FAKE_CONNECTION_ID2, ['5_DOT', '5_DOT', '5_DOT'], MeldEnum.TRIPLET)).toBe(
+      'Claimed tiles are not in hand',
+    );
+  });
+
+  test('it should reject a meld that does not include the played tile', () => {
+    expect(
+      validateMeldClaim(gameState, FAKE_CONNECTION_ID2, ['9_BAMBOO', '9_BAMBOO', '9_BAMBOO'], MeldEnum.TRIPLET),
+    ).toBe('Claimed tiles do not include the played tile');
+  });
+
+  test('it should reject tiles that do not form a meld of the claimed type', () => {
+    expect(
+      validateMeldClaim(gameState, FAKE_CONNECTION_ID2, ['1_BAMBOO', '1_BAMBOO', '2_BAMBOO'], MeldEnum.TRIPLET),
+    ).toBe('Claimed tiles do not form a valid TRIPLET');
+    expect(
+      validateMeldClaim(gameState, FAKE_CONNECTION_ID2, ['1_BAMBOO', '2_BAMBOO', '4_BAMBOO'], MeldEnum.CONSECUTIVE),
+    ).toBe('Claimed tiles do not form a valid CONSECUTIVE');
+  });
+
+  test('it should reject a win claim on a tile the user discarded, even if another user claimed it (furiten)', () => {
+    const [discarderHand, userHand] = gameState.hands;
+    const hands = [discarderHand, { ...userHand, discards: [], calledDiscards: ['9_BAMBOO'] }];
+    expect(validateMeldClaim({ ...gameState, hands }, FAKE_CONNECTION_ID2, ['1_BAMBOO'], MeldEnum.WIN)).toBeUndefined();
+    expect(
+      validateMeldClaim({ ...gameState, hands }, FAKE_CONNECTION_ID2, ['1_BAMBOO'], MeldEnum.WIN, JapaneseRuleset),
+    ).toBe('Cannot win on a played tile while furiten');
+  });
+
+  test('it should reject a win claim that does not complete a winning hand', () => {
+    const state = { ...gameState, lastDiscard: { connectionId: FAKE_CONNECTION_ID1, tile: 'EAST' } };
+    expect(validateMeldClaim(state, FAKE_CONNECTION_ID2, ['EAST'], MeldEnum.WIN)).toBe(
+      'Played tile does not complete a winning hand',
+    );
+  });
+});
+
+/* ----------------------------------------------------------------------------
+ * Test compareTileInteractionAndSendUpdate
+ * ------------------------------------------------------------------------- */
+describe('test compareTileInteractionAndSendUpdate', () => {
+  test('it should give the played tile to the closest user when triplets are claimed by two users', async () => {
+    const triplet = ['5_DOT', '5_DOT', '5_DOT'];
+    const { gameId, ruleset } = await createInteractionGame(
+      MahjongVersions.HongKong,
+      [FILLER_TILES, FILLER_TILES, ['5_DOT', '5_DOT', 'EAST'], ['5_DOT', '5_DOT', 'EAST']],
+      '5_DOT',
+      [
+        { connectionId: FAKE_CONNECTION_ID4, playedTiles: triplet, meldType: MeldEnum.TRIPLET, skipInteraction: false },
+        { connectionId: FAKE_CONNECTION_ID3, playedTiles: triplet, meldType: MeldEnum.TRIPLET, skipInteraction: false },
+        skip(FAKE_CONNECTION_ID2),
+      ],
+    );
+
+    await compareTileInteractionAndSendUpdate(gameId, createTestWebSocketClient(), ruleset);
+    const { hands, currentTurn } = (await getGameStateByGameId(gameId)) as GameState;
+
+    expect(hands[2].exposedMelds?.[0].tiles).toStrictEqual(triplet);
+    expect(hands[3].exposedMelds).toBeUndefined();
+    expect(currentTurn).toBe(2);
+  });
+
+  test('it should give the win to the closest user when two users claim the played tile to win', async () => {
+    const winClaim = (connectionId: string): PlayedTile => ({
+      connectionId,
+      playedTiles: ['5_DOT'],
+      meldType: MeldEnum.WIN,
+      skipInteraction: false,
+    });
+    const { gameId, ruleset } = await createInteractionGame(
+      MahjongVersions.HongKong,
+      [FILLER_TILES, FILLER_TILES, FILLER_TILES, FILLER_TILES],
+      '5_DOT',
+      [winClaim(FAKE_CONNECTION_ID4), winClaim(FAKE_CONNECTION_ID3), skip(FAKE_CONNECTION_ID2)],
+    );
+
+    const ws = createTestWebSocketClient();
+    await compareTileInteractionAndSendUpdate(gameId, ws, ruleset);
+
+    expect(ws.send).toHaveBeenCalledWith(
+      createInteractionSuccessResponse(winClaim(FAKE_CONNECTION_ID3)),
+      FAKE_CONNECTION_ID1,
+    );
+    expect(ws.send).not.toHaveBeenCalledWith(
+      createInteractionSuccessResponse(winClaim(FAKE_CONNECTION_ID4)),
+      expect.anything(),
+    );
+  });
+
+  test('it should only let the next user claim a consecutive meld', async () => {
+    const consecutive = ['3_DOT', '4_DOT', '5_DOT'];
+    const { gameId, ruleset } = await createInteractionGame(
+      MahjongVersions.HongKong,
+      [FILLER_TILES, FILLER_TILES, FILLER_TILES, FILLER_TILES],
+      '5_DOT',
+      [
+        {
+          connectionId: FAKE_CONNECTION_ID3,
+          playedTiles: consecutive,
+          meldType: MeldEnum.CONSECUTIVE,
+          skipInteraction: false,
+        },
+        skip(FAKE_CONNECTION_ID2),
+        skip(FAKE_CONNECTION_ID4),
+      ],
+    );
+
+    await compareTileInteractionAndSendUpdate(gameId, createTestWebSocketClient(), ruleset);
+    const { hands, lastDiscard, currentTurn } = (await getGameStateByGameId(gameId)) as GameState;
+
+    expect(hands[2].exposedMelds).toBeUndefined();
+    expect(hands[2].hand).toStrictEqual(FILLER_TILES);
+    expect(lastDiscard).toBeUndefined();
+    expect(currentTurn).toBe(1);
+  });
+
+  test('it should only mark users who could have won with the passed tile as furiten', async () => {
+    const { gameId, ruleset } = await createInteractionGame(
+      MahjongVersions.Japanese,
+      [
+        FILLER_TILES,
+        FILLER_TILES,
+        [...WAITING_HAND, 'EAST', 'EAST', 'EAST'],
+        [...WAITING_HAND, 'WEST', 'WEST', 'WEST'],
+      ],
+      '5_DOT',
+      [skip(FAKE_CONNECTION_ID2), skip(FAKE_CONNECTION_ID3), skip(FAKE_CONNECTION_ID4)],
+    );
+    await compareTileInteractionAndSendUpdate(gameId, createTestWebSocketClient(), ruleset);
+    const { hands } = (await getGameStateByGameId(gameId)) as GameState;
+
+    expect(hands.map(({ furiten }) => !!furiten)).toStrictEqual([false, false, true, true]);
+  });
+
+  test('it should not mark users who cannot win with the passed tile as furiten', async () => {
+    const { gameId, ruleset } = await createInteractionGame(
+      MahjongVersions.Japanese,
+      [
+        FILLER_TILES,
+        FILLER_TILES,
+        [...WAITING_HAND, 'EAST', 'EAST', 'EAST'],
+        [...WAITING_HAND, 'WEST', 'WEST', 'WEST'],
+      ],
+      '5_DOT',
+      [skip(FAKE_CONNECTION_ID2), skip(FAKE_CONNECTION_ID3), skip(FAKE_CONNECTION_ID4)],
+      // One user has already won the round, the other cannot win with tiles of the missing suit
+      [{}, {}, { hasWon: true }, { missingSuit: 'DOT' }],
+    );
+    await compareTileInteractionAndSendUpdate(gameId, createTestWebSocketClient(), ruleset);
+    const { hands } = (await getGameStateByGameId(gameId)) as GameState;
+
+    expect(hands.map(({ furiten }) => !!furiten)).toStrictEqual([false, false, false, false]);
+  });
+
+  test('it should not deal a replacement tile for a quad claimed in an American game', async () => {
+    const quad = ['5_DOT', '5_DOT', '5_DOT', '5_DOT'];
+    const { gameId, ruleset } = await createInteractionGame(
+      MahjongVersions.American,
+      [FILLER_TILES, ['5_DOT', '5_DOT', '5_DOT', ...FILLER_TILES], FILLER_TILES, FILLER_TILES],
+      '5_DOT',
+      [
+        { connectionId: FAKE_CONNECTION_ID2, playedTiles: quad, meldType: MeldEnum.QUAD, skipInteraction: false },
+        skip(FAKE_CONNECTION_ID3),
+        skip(FAKE_CONNECTION_ID4),
+      ],
+    );
+    const { replacementCount } = (await getGameStateByGameId(gameId)) as GameState;
+
+    const ws = createTestWebSocketClient();
+    await compareTileInteractionAndSendUpdate(gameId, ws, ruleset);
+    const newGameState = (await getGameStateByGameId(gameId)) as GameState;
+
+    expect(newGameState.hands[1].hand).toStrictEqual(FILLER_TILES);
+    expect(newGameState.hands[1].exposedMelds?.[0].tiles).toStrictEqual(quad);
+    expect(newGameState.replacementCount).toBe(replacementCount);
+    expect(newGameState.lastDraw).toBeUndefined();
+    expect(ws.send).not.toHaveBeenCalledWith(
+      expect.objectContaining({ action: WebSocketActionsEnum.DRAW_TILE }),
+      expect.anything(),
+    );
+
+    // The claimant plays a tile next
+    expect(validateTurn(newGameState, FAKE_CONNECTION_ID2, true, ruleset)).toBeUndefined();
+  });
+});
+
+/* ----------------------------------------------------------------------------
+ * Test onPlayedTileInteraction
+ * ------------------------------------------------------------------------- */
+describe('test onPlayedTileInteraction', () => {
+  const createSkipEvent = (gameId: string, connectionId: string) =>
+    createEvent({
+      connectionId,
+      eventBodyJSON: {
+        action: WebSocketActionsEnum.PLAYED_TILE_INTERACTION,
+        payload: { gameId, playedTiles: [], meldType: '', skipInteraction: true },
+      },
+    });
+
+  test('it should only count one skip from each user other than the discarder', async () => {
+    const { gameId } = await createInteractionGame(
+      MahjongVersions.HongKong,
+      [FILLER_TILES, FILLER_TILES, FILLER_TILES, FILLER_TILES],
+      '5_DOT',
+      [],
+    );
+
+    await LambdaTester(handler)
+      .event(createSkipEvent(gameId, FAKE_CONNECTION_ID1))
+      .expectResult((result: LambdaResponse) => {
+        expect(result).toStrictEqual(response(400, 'Cannot interact with your own played tile'));
+      });
+    await LambdaTester(handler)
+      .event(createSkipEvent(gameId, FAKE_CONNECTION_ID2))
+      .expectResult((result: LambdaResponse) => {
+        expect(result).toStrictEqual(response(200, 'Tile interaction is successful'));
+      });
+    await LambdaTester(handler)
+      .event(createSkipEvent(gameId, FAKE_CONNECTION_ID2))
+      .expectResult((result: LambdaResponse) => {
+        expect(result).toStrictEqual(response(400, 'You have already interacted with the played tile'));
+      });
+
+    expect(await getInteractionCount(gameId)).toBe(1);
+    expect((await getGameStateByGameId(gameId))?.lastDiscard).toStrictEqual({
+      connectionId: FAKE_CONNECTION_ID1,
+      tile: '5_DOT',
+      interactedConnectionIds: [FAKE_CONNECTION_ID2],
+    });
+  });
+
+  test('it should reject a skip when there is no played tile', async () => {
+    const { gameId } = await createInteractionGame(
+      MahjongVersions.HongKong,
+      [FILLER_TILES, FILLER_TILES, FILLER_TILES, FILLER_TILES],
+      '5_DOT',
+      [],
+    );
+    const gameState = (await getGameStateByGameId(gameId)) as GameState;
+    await testReplaceGameState({
+      ...gameState,
+      lastDiscard: undefined,
+      interactionCount: 0,
+      playedTileInteractions: [],
+    });
+
+    await LambdaTester(handler)
+      .event(createSkipEvent(gameId, FAKE_CONNECTION_ID2))
+      .expectResult((result: LambdaResponse) => {
+        expect(result).toStrictEqual(response(400, 'There is no played tile to interact with'));
+      });
+
+    expect(await getInteractionCount(gameId)).toBe(0);
+  });
+});
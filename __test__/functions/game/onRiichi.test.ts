@@ -0,0 +1,226 @@
+import * as LambdaTester from 'lambda-tester';
+import { handler, validateRiichi } from '../../../src/functions/game/onRiichi';
+import * as gameBroadcastFunctions from '../../../src/websocket/broadcast/gameBroadcast';
+import { getGameStateByGameId, initGameState } from '../../../src/dynamodb/gameStateDBService';
+import { GameState } from '../../../src/models/GameState';
+import { MeldEnum } from '../../../src/enums/MeldEnum';
+import { WebSocketActionsEnum } from '../../../src/enums/WebSocketActionsEnum';
+import { MahjongVersions } from '../../../src/games/mahjong/Wall/version/Versions';
+import { JapaneseRuleset } from '../../../src/games/mahjong/Ruleset/version/JapaneseRuleset';
+import { HongKongRuleset } from '../../../src/games/mahjong/Ruleset/version/HongKongRuleset';
+import { JAPANESE_STARTING_SCORE, RIICHI_STICK_POINTS } from '../../../src/utils/constants';
+import { response } from '../../../src/utils/responseHelper';
+import { LambdaResponse } from '../../../src/types/response';
+import { testCreateGame, testReplaceGameState } from '../../dynamodb/dbTestHelpers';
+import { createEvent } from '../functionsTestHelpers';
+import {
+  FAKE_CONNECTION_ID1,
+  FAKE_CONNECTION_ID2,
+  FAKE_CONNECTION_ID3,
+  FAKE_CONNECTION_ID4,
+  FAKE_GAME_ID,
+} from '../../testConstants';
+
+jest.mock('../../../src/websocket/WebSocketClient');
+
+const CONNECTION_IDS = [FAKE_CONNECTION_ID1, FAKE_CONNECTION_ID2, FAKE_CONNECTION_ID3, FAKE_CONNECTION_ID4];
+// Waiting on EAST and WEST once NORTH is played
+const READY_HAND = [
+  '1_DOT',
+  '2_DOT',
+  '3_DOT',
+  '4_DOT',
+  '5_DOT',
+  '6_DOT',
+  '7_DOT',
+  '8_DOT',
+  '9_DOT',
+  'EAST',
+  'EAST',
+  'WEST',
+  'WEST',
+  'NORTH',
+];
+const OTHER_HAND = ['1_BAMBOO', '2_BAMBOO', '3_BAMBOO', '4_BAMBOO', '5_BAMBOO', '6_BAMBOO', '7_BAMBOO'];
+
+/* ----------------------------------------------------------------------------
+ * Test validateRiichi
+ * ------------------------------------------------------------------------- */
+describe('test validateRiichi', () => {
+  const gameState: GameState = {
+    gameId: FAKE_GAME_ID,
+    wall: Array(100).fill('1_DOT'),
+    hands: [
+      { connectionId: FAKE_CONNECTION_ID1, hand: READY_HAND },
+      { connectionId: FAKE_CONNECTION_ID2, hand: OTHER_HAND },
+    ],
+    currentIndex: 52,
+    replacementCount: 0,
+    dealer: 0,
+    currentWind: 0,
+    currentTurn: 0,
+    scores: [JAPANESE_STARTING_SCORE, JAPANESE_STARTING_SCORE],
+  };
+
+  test('it should accept a riichi discard leaving a ready concealed hand', () => {
+    expect(validateRiichi(gameState, FAKE_CONNECTION_ID1, 'NORTH')).toBeUndefined();
+  });
+
+  test('it should accept a hand with concealed quads only', () => {
+    const hand = READY_HAND.slice(3);
+    const exposedMelds = [{ tiles: ['1_DOT', '1_DOT', '1_DOT', '1_DOT'], type: MeldEnum.QUAD, concealed: true }];
+    const hands = [{ connectionId: FAKE_CONNECTION_ID1, hand, exposedMelds }, gameState.hands[1]];
+    expect(validateRiichi({ ...gameState, hands }, FAKE_CONNECTION_ID1, 'NORTH')).toBeUndefined();
+  });
+
+  test('it should reject a riichi declaration out of turn', () => {
+    expect(validateRiichi(gameState, FAKE_CONNECTION_ID2, '1_BAMBOO')).toBe('It is not your turn');
+  });
+
+  test('it should reject a second riichi declaration', () => {
+    const hands = [{ ...gameState.hands[0], riichi: { tile: 'SOUTH', discardIndex: 0 } }, gameState.hands[1]];
+    expect(validateRiichi({ ...gameState, hands }, FAKE_CONNECTION_ID1, 'NORTH')).toBe(
+      'Riichi has already been declared',
+    );
+  });
+
+  test('it should reject a hand with an exposed meld', () => {
+    const hand = READY_HAND.slice(3);
+    const exposedMelds = [{ tiles: ['1_DOT', '2_DOT', '3_DOT'], type: MeldEnum.CONSECUTIVE }];
+    const hands = [{ connectionId: FAKE_CONNECTION_ID1, hand, exposedMelds }, gameState.hands[1]];
+    expect(validateRiichi({ ...gameState, hands }, FAKE_CONNECTION_ID1, 'NORTH')).toBe(
+      'Riichi can only be declared with a concealed hand',
+    );
+  });
+
+  test('it should reject a user without the points for the riichi stick', () => {
+    const state = { ...gameState, scores: [RIICHI_STICK_POINTS - 1, JAPANESE_STARTING_SCORE] };
+    expect(validateRiichi(state, FAKE_CONNECTION_ID1, 'NORTH')).toBe('Not enough points to declare riichi');
+  });
+
+  test('it should reject a riichi declaration when the wall is nearly empty', () => {
+    const state = { ...gameState, currentIndex: 97 };
+    expect(validateRiichi(state, FAKE_CONNECTION_ID1, 'NORTH')).toBe(
+      'Not enough tiles left in the wall to declare riichi',
+    );
+    expect(validateRiichi(state, FAKE_CONNECTION_ID1, 'NORTH', 3)).toBeUndefined();
+  });
+
+  test('it should reject a tile that is not in hand or a hand that is not ready', () => {
+    expect(validateRiichi(gameState, FAKE_CONNECTION_ID1, 'SOUTH')).toBe('Tile is not in hand');
+    expect(validateRiichi(gameState, FAKE_CONNECTION_ID1, '5_DOT')).toBe('Hand is not ready after playing the tile');
+  });
+});
+
+/* ----------------------------------------------------------------------------
+ * Test onRiichi
+ * ------------------------------------------------------------------------- */
+describe('test onRiichi', () => {
+  let broadcastRiichiSpy: jest.SpyInstance;
+  let broadcastPlayedTileSpy: jest.SpyInstance;
+
+  /*
+   * Create a game of the given version where the first user has drawn the last tile of a ready hand.
+   */
+  const createRiichiGame = async (version: MahjongVersions): Promise<string> => {
+    const { gameId } = await testCreateGame(CONNECTION_IDS, version);
+    const gameState = await initGameState(
+      gameId,
+      CONNECTION_IDS,
+      version === MahjongVersions.Japanese ? JapaneseRuleset : HongKongRuleset,
+    );
+    await testReplaceGameState({
+      ...gameState,
+      hands: CONNECTION_IDS.map((connectionId, seatIndex) => ({
+        connectionId,
+        hand: seatIndex === 0 ? READY_HAND : OTHER_HAND,
+        discards: [],
+      })),
+    });
+
+    return gameId;
+  };
+
+  const createRiichiEvent = (gameId: string, tile: string) =>
+    createEvent({
+      connectionId: FAKE_CONNECTION_ID1,
+      eventBodyJSON: { action: WebSocketActionsEnum.RIICHI, payload: { gameId, tile } },
+    });
+
+  beforeEach(() => {
+    broadcastRiichiSpy = jest.spyOn(gameBroadcastFunctions, 'broadcastRiichi');
+    broadcastPlayedTileSpy = jest.spyOn(gameBroadcastFunctions, 'broadcastPlayedTileToUsers');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('it should declare riichi from the starting score and play the tile', async () => {
+    const gameId = await createRiichiGame(MahjongVersions.Japanese);
+
+    await LambdaTester(handler)
+      .event(createRiichiEvent(gameId, 'NORTH'))
+      .expectResult((result: LambdaResponse) => {
+        expect(result).toStrictEqual(response(200, 'Riichi declared successfully'));
+      });
+
+    const { hands, scores, riichiSticks, lastDiscard } = (await getGameStateByGameId(gameId)) as GameState;
+    expect(hands[0].riichi).toStrictEqual({ tile: 'NORTH', discardIndex: 0 });
+    expect(scores).toStrictEqual([
+      JAPANESE_STARTING_SCORE - RIICHI_STICK_POINTS,
+      JAPANESE_STARTING_SCORE,
+      JAPANESE_STARTING_SCORE,
+      JAPANESE_STARTING_SCORE,
+    ]);
+    expect(riichiSticks).toBe(1);
+    expect(lastDiscard).toStrictEqual({ connectionId: FAKE_CONNECTION_ID1, tile: 'NORTH' });
+    expect(broadcastRiichiSpy).toHaveBeenCalledWith(expect.anything(), CONNECTION_IDS, {
+      connectionId: FAKE_CONNECTION_ID1,
+      tile: 'NORTH',
+      riichiSticks: 1,
+      scores,
+    });
+    expect(broadcastPlayedTileSpy).toHaveBeenCalledWith(
+      expect.anything(),
+      'NORTH',
+      FAKE_CONNECTION_ID1,
+      CONNECTION_IDS,
+    );
+  });
+
+  test('it should reject a riichi discard that does not leave a ready hand', async () => {
+    const gameId = await createRiichiGame(MahjongVersions.Japanese);
+
+    await LambdaTester(handler)
+      .event(createRiichiEvent(gameId, '5_DOT'))
+      .expectResult((result: LambdaResponse) => {
+        expect(result).toStrictEqual(response(400, 'Hand is not ready after playing the tile'));
+      });
+
+    const { hands, riichiSticks } = (await getGameStateByGameId(gameId)) as GameState;
+    expect(hands[0].riichi).toBeUndefined();
+    expect(riichiSticks).toBe(0);
+    expect(broadcastRiichiSpy).not.toHaveBeenCalled();
+  });
+
+  test('it should reject riichi outside of Japanese games', async () => {
+    const gameId = await createRiichiGame(MahjongVersions.HongKong);
+
+    await LambdaTester(handler)
+      .event(createRiichiEvent(gameId, 'NORTH'))
+      .expectResult((result: LambdaResponse) => {
+        expect(result).toStrictEqual(response(400, 'Riichi can only be declared in a Japanese game'));
+      });
+
+    expect(broadcastRiichiSpy).not.toHaveBeenCalled();
+  });
+
+  test('it should reject riichi in a game that does not exist', async () => {
+    await LambdaTester(handler)
+      .event(createRiichiEvent(FAKE_GAME_ID, 'NORTH'))
+      .expectResult((result: LambdaResponse) => {
+        expect(result).toStrictEqual(response(400, 'Cannot find the game to declare riichi'));
+      });
+  });
+});
@@ -0,0 +1,145 @@
+import * as LambdaTester from 'lambda-tester';
+import { handler, validateBonusTile } from '../../../src/functions/game/onSelfPlayTile';
+import * as gameBroadcastFunctions from '../../../src/websocket/broadcast/gameBroadcast';
+import { getGameStateByGameId, initGameState } from '../../../src/dynamodb/gameStateDBService';
+import { GameState } from '../../../src/models/GameState';
+import { WebSocketActionsEnum } from '../../../src/enums/WebSocketActionsEnum';
+import { GameTypeEnum } from '../../../src/enums/GameTypeEnum';
+import { MahjongVersions } from '../../../src/games/mahjong/Wall/version/Versions';
+import { RulesetFactory } from '../../../src/games/mahjong/Ruleset/RulesetFactory';
+import { HongKongRuleset } from '../../../src/games/mahjong/Ruleset/version/HongKongRuleset';
+import { JapaneseRuleset } from '../../../src/games/mahjong/Ruleset/version/JapaneseRuleset';
+import { SanmaRuleset } from '../../../src/games/mahjong/Ruleset/version/SanmaRuleset';
+import { AmericanRuleset } from '../../../src/games/mahjong/Ruleset/version/AmericanRuleset';
+import { response } from '../../../src/utils/responseHelper';
+import { LambdaResponse } from '../../../src/types/response';
+import { testCreateGame, testReplaceGameState } from '../../dynamodb/dbTestHelpers';
+import { createEvent } from '../functionsTestHelpers';
+import {
+  FAKE_CONNECTION_ID1,
+  FAKE_CONNECTION_ID2,
+  FAKE_CONNECTION_ID3,
+  FAKE_CONNECTION_ID4,
+} from '../../testConstants';
+
+jest.mock('../../../src/websocket/WebSocketClient');
+
+const CONNECTION_IDS = [FAKE_CONNECTION_ID1, FAKE_CONNECTION_ID2, FAKE_CONNECTION_ID3, FAKE_CONNECTION_ID4];
+const HAND = [
+  '1_DOT',
+  '2_DOT',
+  '3_DOT',
+  '4_DOT',
+  '5_DOT',
+  '6_DOT',
+  '7_DOT',
+  '8_DOT',
+  '9_DOT',
+  'EAST',
+  'EAST',
+  'WEST',
+  'WEST',
+];
+
+/* ----------------------------------------------------------------------------
+ * Test validateBonusTile
+ * ------------------------------------------------------------------------- */
+describe('test validateBonusTile', () => {
+  test('it should accept bonus tiles in rulesets with bonus tiles', () => {
+    expect(validateBonusTile('1_FLOWER', HongKongRuleset)).toBeUndefined();
+    expect(validateBonusTile('2_SEASON', HongKongRuleset)).toBeUndefined();
+  });
+
+  test('it should accept extracted tiles (sanma)', () => {
+    expect(validateBonusTile('NORTH', SanmaRuleset)).toBeUndefined();
+    expect(validateBonusTile('NORTH', JapaneseRuleset)).toBe('Only bonus tiles can be replaced without making a quad');
+  });
+
+  test('it should reject tiles that are not bonus tiles', () => {
+    expect(validateBonusTile('5_DOT', HongKongRuleset)).toBe('Only bonus tiles can be replaced without making a quad');
+    expect(validateBonusTile('5_DOT', JapaneseRuleset)).toBe('Only bonus tiles can be replaced without making a quad');
+  });
+
+  test('it should reject bonus tiles in rulesets keeping them in the hand (American)', () => {
+    expect(validateBonusTile('1_FLOWER', AmericanRuleset)).toBe('Bonus tiles are kept in the hand in this game');
+  });
+});
+
+/* ----------------------------------------------------------------------------
+ * Test onSelfPlayTile
+ * ------------------------------------------------------------------------- */
+describe('test onSelfPlayTile', () => {
+  let broadcastSelfPlayTileSpy: jest.SpyInstance;
+
+  /*
+   * Create a game of the given version where the first user has drawn the given tile.
+   */
+  const createSelfPlayGame = async (version: MahjongVersions, drawnTile: string): Promise<string> => {
+    const { gameId } = await testCreateGame(CONNECTION_IDS, version);
+    const gameState = await initGameState(
+      gameId,
+      CONNECTION_IDS,
+      RulesetFactory.getRuleset(GameTypeEnum.MAHJONG, version),
+    );
+    await testReplaceGameState({
+      ...gameState,
+      hands: CONNECTION_IDS.map((connectionId, seatIndex) => ({
+        connectionId,
+        hand: seatIndex === 0 ? [...HAND, drawnTile] : HAND,
+        playedTiles: [],
+      })),
+    });
+
+    return gameId;
+  };
+
+  const createSelfPlayEvent = (gameId: string, playedTile: string) =>
+    createEvent({
+      connectionId: FAKE_CONNECTION_ID1,
+      eventBodyJSON: { action: WebSocketActionsEnum.SELF_PLAY_TILE, payload: { gameId, playedTile, isQuad: false } },
+    });
+
+  beforeEach(() => {
+    broadcastSelfPlayTileSpy = jest.spyOn(gameBroadcastFunctions, 'broadcastSelfPlayTile');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('it should set a bonus tile aside and deal a replacement tile', async () => {
+    const gameId = await createSelfPlayGame(MahjongVersions.HongKong, '1_FLOWER');
+    const { replacementCount = 0 } = (await getGameStateByGameId(gameId)) as GameState;
+
+    await LambdaTester(handler)
+      .event(createSelfPlayEvent(gameId, '1_FLOWER'))
+      .expectResult((result: LambdaResponse) => {
+        expect(result).toStrictEqual(response(200, 'Self play tile function is run successfully'));
+      });
+
+    const updatedGameState = (await getGameStateByGameId(gameId)) as GameState;
+    expect(updatedGameState.hands[0].playedTiles).toContain('1_FLOWER');
+    expect(updatedGameState.hands[0].hand).not.toContain('1_FLOWER');
+    expect(updatedGameState.replacementCount).toBeGreaterThan(replacementCount);
+    expect(broadcastSelfPlayTileSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test.each([MahjongVersions.HongKong, MahjongVersions.Japanese])(
+    'it should reject a tile that is not a bonus tile without a replacement tile (%s)',
+    async (version) => {
+      const gameId = await createSelfPlayGame(version, '5_DOT');
+      const gameState = (await getGameStateByGameId(gameId)) as GameState;
+
+      await LambdaTester(handler)
+        .event(createSelfPlayEvent(gameId, '5_DOT'))
+        .expectResult((result: LambdaResponse) => {
+          expect(result).toStrictEqual(response(400, 'Only bonus tiles can be replaced without making a quad'));
+        });
+
+      const updatedGameState = (await getGameStateByGameId(gameId)) as GameState;
+      expect(updatedGameState.hands[0]).toStrictEqual(gameState.hands[0]);
+      expect(updatedGameState.replacementCount).toBe(gameState.replacementCount);
+      expect(broadcastSelfPlayTileSpy).not.toHaveBeenCalled();
+    },
+  );
+});
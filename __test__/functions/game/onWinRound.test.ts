@@ -0,0 +1,365 @@
+import * as LambdaTester from 'lambda-tester';
+import {
+  createWinningHandContext,
+  getWinSource,
+  handler,
+  isLastTileOfKind,
+  validateWinningHand,
+} from '../../../src/functions/game/onWinRound';
+import * as gameBroadcastFunctions from '../../../src/websocket/broadcast/gameBroadcast';
+import { getGameStateByGameId, initGameState } from '../../../src/dynamodb/gameStateDBService';
+import { GameState, UserHand } from '../../../src/models/GameState';
+import { HandPointResults, TileObject } from '../../../src/games/mahjong/types/MahjongTypes';
+import { MeldEnum } from '../../../src/enums/MeldEnum';
+import { WinTypeEnum } from '../../../src/enums/WinTypeEnum';
+import { WebSocketActionsEnum } from '../../../src/enums/WebSocketActionsEnum';
+import { MahjongVersions } from '../../../src/games/mahjong/Wall/version/Versions';
+import { RulesetFactory } from '../../../src/games/mahjong/Ruleset/RulesetFactory';
+import { GameTypeEnum } from '../../../src/enums/GameTypeEnum';
+import { SichuanRuleset } from '../../../src/games/mahjong/Ruleset/version/SichuanRuleset';
+import { MCR_MINIMUM_POINTS } from '../../../src/games/mahjong/Score/MCRFanTable';
+import { response } from '../../../src/utils/responseHelper';
+import { LambdaResponse } from '../../../src/types/response';
+import { testCreateGame, testReplaceGameState } from '../../dynamodb/dbTestHelpers';
+import { createEvent } from '../functionsTestHelpers';
+import {
+  FAKE_CONNECTION_ID1,
+  FAKE_CONNECTION_ID2,
+  FAKE_CONNECTION_ID3,
+  FAKE_CONNECTION_ID4,
+  FAKE_GAME_ID,
+} from '../../testConstants';
+
+jest.mock('../../../src/websocket/WebSocketClient');
+
+const CONNECTION_IDS = [FAKE_CONNECTION_ID1, FAKE_CONNECTION_ID2, FAKE_CONNECTION_ID3, FAKE_CONNECTION_ID4];
+// Waiting on 9_DOT, scores 5 fan (MCR) on a discard
+const WAITING_HAND = [
+  '1_DOT',
+  '2_DOT',
+  '3_DOT',
+  '5_BAMBOO',
+  '6_BAMBOO',
+  '7_BAMBOO',
+  '6_CHARACTER',
+  '7_CHARACTER',
+  '8_CHARACTER',
+  '2_CHARACTER',
+  '3_CHARACTER',
+  '4_CHARACTER',
+  '9_DOT',
+];
+const WINNING_TILES = [...WAITING_HAND, '9_DOT'];
+
+const createHandPointResults = (tiles: string[]): HandPointResults => ({ tiles } as HandPointResults);
+
+/* ----------------------------------------------------------------------------
+ * Test validateWinningHand
+ * ------------------------------------------------------------------------- */
+describe('test validateWinningHand', () => {
+  const userHand: UserHand = { connectionId: FAKE_CONNECTION_ID1, hand: WAITING_HAND };
+
+  test('it should accept the stored hand and one winning tile', () => {
+    expect(validateWinningHand(createHandPointResults(WINNING_TILES), userHand)).toBeUndefined();
+  });
+
+  test('it should accept a winning hand with exposed melds', () => {
+    const hand = { ...userHand, hand: WAITING_HAND.slice(3) };
+    const exposedMelds = [{ tiles: ['1_DOT', '2_DOT', '3_DOT'], type: MeldEnum.CONSECUTIVE }];
+    expect(validateWinningHand(createHandPointResults(WINNING_TILES), { ...hand, exposedMelds })).toBeUndefined();
+  });
+
+  test('it should reject declared tiles that do not match the stored hand', () => {
+    const declaredTiles = [...WAITING_HAND.slice(1), '1_BAMBOO', '9_DOT'];
+    expect(validateWinningHand(createHandPointResults(declaredTiles), userHand)).toBe(
+      'Declared tiles do not match the tiles in hand',
+    );
+  });
+
+  test('it should reject more than one tile that is not in the stored hand', () => {
+    const hand = { ...userHand, hand: WAITING_HAND.slice(1) };
+    expect(validateWinningHand(createHandPointResults(WINNING_TILES), hand)).toBe(
+      'Declared tiles contain more than one tile that is not in hand',
+    );
+  });
+
+  test('it should reject declared tiles that do not form a winning hand', () => {
+    expect(validateWinningHand(createHandPointResults([...WAITING_HAND, '8_DOT']), userHand)).toBe(
+      'Declared tiles do not form a winning hand',
+    );
+  });
+
+  test('it should reject a winning hand with a tile of the missing suit (Sichuan)', () => {
+    const hand = { ...userHand, missingSuit: 'DOT' };
+    expect(validateWinningHand(createHandPointResults(WINNING_TILES), hand, SichuanRuleset)).toBe(
+      'Declared tiles do not form a winning hand',
+    );
+  });
+
+  test('it should reject users without a hand or who have already won', () => {
+    expect(validateWinningHand(createHandPointResults(WINNING_TILES), undefined)).toBe(
+      'Cannot find the hand of the user in game state',
+    );
+    expect(validateWinningHand(createHandPointResults(WINNING_TILES), { ...userHand, hasWon: true })).toBe(
+      'You have already won this round',
+    );
+  });
+});
+
+/* ----------------------------------------------------------------------------
+ * Test getWinSource
+ * ------------------------------------------------------------------------- */
+describe('test getWinSource', () => {
+  const waitingHand: UserHand = { connectionId: FAKE_CONNECTION_ID1, hand: WAITING_HAND };
+  const drawnHand: UserHand = { connectionId: FAKE_CONNECTION_ID1, hand: WINNING_TILES };
+  const gameState: GameState = {
+    gameId: FAKE_GAME_ID,
+    wall: [],
+    hands: [waitingHand],
+    currentIndex: 0,
+    dealer: 0,
+    currentWind: 0,
+    currentTurn: 0,
+  };
+  const handPointResults = createHandPointResults(WINNING_TILES);
+
+  test('it should find a self drawn winning tile', () => {
+    const state = { ...gameState, lastDraw: { connectionId: FAKE_CONNECTION_ID1, tile: '9_DOT' } };
+    expect(getWinSource(state, handPointResults, drawnHand)).toStrictEqual({
+      winType: WinTypeEnum.SELF_DRAWN,
+      winningTile: '9_DOT',
+    });
+  });
+
+  test('it should find a winning replacement tile drawn for a quad', () => {
+    const state = { ...gameState, lastDraw: { connectionId: FAKE_CONNECTION_ID1, tile: '9_DOT', fromKong: true } };
+    expect(getWinSource(state, handPointResults, drawnHand)).toStrictEqual({
+      winType: WinTypeEnum.KONG_REPLACEMENT,
+      winningTile: '9_DOT',
+    });
+  });
+
+  test('it should find a winning tile discarded by another user', () => {
+    const state = { ...gameState, lastDiscard: { connectionId: FAKE_CONNECTION_ID2, tile: '9_DOT' } };
+    expect(getWinSource(state, handPointResults, waitingHand)).toStrictEqual({
+      winType: WinTypeEnum.DISCARD,
+      winningTile: '9_DOT',
+      discarderConnectionId: FAKE_CONNECTION_ID2,
+    });
+  });
+
+  test('it should find a winning tile robbed from a kong', () => {
+    const state = { ...gameState, lastDiscard: { connectionId: FAKE_CONNECTION_ID2, tile: '9_DOT', fromKong: true } };
+    expect(getWinSource(state, handPointResults, waitingHand)).toStrictEqual({
+      winType: WinTypeEnum.ROBBING_THE_KONG,
+      winningTile: '9_DOT',
+      discarderConnectionId: FAKE_CONNECTION_ID2,
+    });
+  });
+
+  test('it should not find a self drawn winning tile drawn by another user or while a tile is played', () => {
+    const drawnByOther = { ...gameState, lastDraw: { connectionId: FAKE_CONNECTION_ID2, tile: '9_DOT' } };
+    expect(getWinSource(drawnByOther, handPointResults, drawnHand)).toBeUndefined();
+    expect(getWinSource(gameState, handPointResults, drawnHand)).toBeUndefined();
+
+    const played = {
+      ...gameState,
+      lastDraw: { connectionId: FAKE_CONNECTION_ID1, tile: '9_DOT' },
+      lastDiscard: { connectionId: FAKE_CONNECTION_ID2, tile: 'EAST' },
+    };
+    expect(getWinSource(played, handPointResults, drawnHand)).toBeUndefined();
+  });
+
+  test('it should not find a winning tile that is not the played tile, or played by the winner', () => {
+    const otherTile = { ...gameState, lastDiscard: { connectionId: FAKE_CONNECTION_ID2, tile: '6_DOT' } };
+    expect(getWinSource(otherTile, handPointResults, waitingHand)).toBeUndefined();
+
+    const ownTile = { ...gameState, lastDiscard: { connectionId: FAKE_CONNECTION_ID1, tile: '9_DOT' } };
+    expect(getWinSource(ownTile, handPointResults, waitingHand)).toBeUndefined();
+  });
+
+  test('it should only let users who claimed the played tile win on it when several users can win', () => {
+    const state = {
+      ...gameState,
+      lastDiscard: { connectionId: FAKE_CONNECTION_ID2, tile: '9_DOT', winnerConnectionIds: [FAKE_CONNECTION_ID3] },
+    };
+    expect(getWinSource(state, handPointResults, waitingHand)).toBeUndefined();
+    expect(getWinSource(state, handPointResults, { ...waitingHand, connectionId: FAKE_CONNECTION_ID3 })).toStrictEqual({
+      winType: WinTypeEnum.DISCARD,
+      winningTile: '9_DOT',
+      discarderConnectionId: FAKE_CONNECTION_ID2,
+    });
+  });
+});
+
+/* ----------------------------------------------------------------------------
+ * Test isLastTileOfKind and createWinningHandContext
+ * ------------------------------------------------------------------------- */
+describe('test isLastTileOfKind, createWinningHandContext', () => {
+  const gameState: GameState = {
+    gameId: FAKE_GAME_ID,
+    wall: Array(100).fill('1_DOT'),
+    hands: [
+      { connectionId: FAKE_CONNECTION_ID1, hand: WAITING_HAND, playedTiles: ['1_FLOWER', 'NORTH'] },
+      { connectionId: FAKE_CONNECTION_ID2, hand: [], discards: ['9_DOT', '9_DOT'] },
+      {
+        connectionId: FAKE_CONNECTION_ID3,
+        hand: [],
+        exposedMelds: [{ tiles: ['7_DOT', '8_DOT', '9_DOT'], type: MeldEnum.CONSECUTIVE }],
+      },
+    ],
+    currentIndex: 60,
+    replacementCount: 0,
+    dealer: 0,
+    currentWind: 1,
+    currentTurn: 0,
+  };
+  const discardSource = { winType: WinTypeEnum.DISCARD, winningTile: '9_DOT', discarderConnectionId: 'id' };
+  const selfDrawnSource = { winType: WinTypeEnum.SELF_DRAWN, winningTile: '9_DOT' };
+
+  test('it should count the discarded and melded copies of the winning tile', () => {
+    // The discard won on is one of the revealed copies
+    expect(isLastTileOfKind(gameState, discardSource)).toBe(false);
+    expect(isLastTileOfKind(gameState, selfDrawnSource)).toBe(true);
+  });
+
+  test('it should create the context of a self drawn winning hand', () => {
+    const context = createWinningHandContext(
+      createHandPointResults(WINNING_TILES),
+      gameState.hands[0],
+      2,
+      selfDrawnSource,
+      gameState,
+    );
+
+    expect(context).toStrictEqual({
+      concealedTiles: WINNING_TILES,
+      exposedMelds: [],
+      bonusTiles: ['1_FLOWER'],
+      seatWind: 2,
+      prevalentWind: 1,
+      selfDrawn: true,
+      winningTile: '9_DOT',
+      robbingKong: false,
+      kongReplacement: false,
+      lastTileOfWall: false,
+      lastTileOfKind: true,
+      noFlowersInWall: false,
+    });
+  });
+
+  test('it should create the context of a hand won by robbing the kong on the last tile of the wall', () => {
+    const state = { ...gameState, currentIndex: 100 };
+    const context = createWinningHandContext(
+      createHandPointResults(WINNING_TILES),
+      gameState.hands[0],
+      2,
+      { ...discardSource, winType: WinTypeEnum.ROBBING_THE_KONG },
+      state,
+    );
+
+    expect(context.selfDrawn).toBe(false);
+    expect(context.robbingKong).toBe(true);
+    expect(context.kongReplacement).toBe(false);
+    expect(context.lastTileOfWall).toBe(true);
+  });
+});
+
+/* ----------------------------------------------------------------------------
+ * Test onWinRound
+ * ------------------------------------------------------------------------- */
+describe('test onWinRound', () => {
+  let broadcastWinningTilesSpy: jest.SpyInstance;
+
+  /*
+   * Create a game of the given version where the second user has played a tile, the winning tile of the first user
+   * by default.
+   */
+  const createWinGame = async (version: MahjongVersions, discardedTile = '9_DOT'): Promise<string> => {
+    const { gameId } = await testCreateGame(CONNECTION_IDS, version);
+    const gameState = await initGameState(
+      gameId,
+      CONNECTION_IDS,
+      RulesetFactory.getRuleset(GameTypeEnum.MAHJONG, version),
+    );
+    await testReplaceGameState({
+      ...gameState,
+      hands: CONNECTION_IDS.map((connectionId, seatIndex) => ({
+        connectionId,
+        hand: seatIndex === 0 ? WAITING_HAND : [],
+        discards: seatIndex === 1 ? [discardedTile] : [],
+      })),
+      currentTurn: 2,
+      lastDiscard: { connectionId: FAKE_CONNECTION_ID2, tile: discardedTile },
+    });
+
+    return gameId;
+  };
+
+  const createWinEvent = (gameId: string, tiles: string[]) =>
+    createEvent({
+      connectionId: FAKE_CONNECTION_ID1,
+      eventBodyJSON: {
+        action: WebSocketActionsEnum.WIN_ROUND,
+        payload: {
+          gameId,
+          handPointResults: {
+            tiles: tiles.map(
+              (tile): TileObject => {
+                const [value, type] = tile.split('_');
+                return { value: Number(value), type };
+              },
+            ),
+          },
+        },
+      },
+    });
+
+  beforeEach(() => {
+    broadcastWinningTilesSpy = jest.spyOn(gameBroadcastFunctions, 'broadcastWinningTiles');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('it should reject a hand that does not score the minimum points of the ruleset', async () => {
+    const gameId = await createWinGame(MahjongVersions.MCR);
+
+    await LambdaTester(handler)
+      .event(createWinEvent(gameId, WINNING_TILES))
+      .expectResult((result: LambdaResponse) => {
+        expect(result).toStrictEqual(
+          response(400, `The hand does not score the ${MCR_MINIMUM_POINTS} points needed to win`),
+        );
+      });
+
+    const { lastDiscard } = (await getGameStateByGameId(gameId)) as GameState;
+    expect(lastDiscard).toStrictEqual({ connectionId: FAKE_CONNECTION_ID2, tile: '9_DOT' });
+    expect(broadcastWinningTilesSpy).not.toHaveBeenCalled();
+  });
+
+  test('it should reject declared tiles that do not match the stored hand', async () => {
+    const gameId = await createWinGame(MahjongVersions.MCR);
+
+    await LambdaTester(handler)
+      .event(createWinEvent(gameId, [...WAITING_HAND.slice(1), '1_BAMBOO', '9_DOT']))
+      .expectResult((result: LambdaResponse) => {
+        expect(result).toStrictEqual(response(400, 'Declared tiles do not match the tiles in hand'));
+      });
+
+    expect(broadcastWinningTilesSpy).not.toHaveBeenCalled();
+  });
+
+  test('it should reject a winning tile that was not drawn or played in this turn', async () => {
+    const gameId = await createWinGame(MahjongVersions.MCR, '6_DOT');
+
+    await LambdaTester(handler)
+      .event(createWinEvent(gameId, WINNING_TILES))
+      .expectResult((result: LambdaResponse) => {
+        expect(result).toStrictEqual(response(400, 'The winning tile was not drawn or played in this turn'));
+      });
+
+    expect(broadcastWinningTilesSpy).not.toHaveBeenCalled();
+  });
+});
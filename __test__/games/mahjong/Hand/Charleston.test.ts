@@ -0,0 +1,48 @@
+import { Charleston } from '../../../../src/games/mahjong/Hand/Charleston';
+import { CharlestonDirectionEnum } from '../../../../src/enums/CharlestonDirectionEnum';
+
+describe('test getReceiverSeat', () => {
+  test('it should pass tiles to the right, across and to the left', () => {
+    expect(Charleston.getReceiverSeat(0, CharlestonDirectionEnum.RIGHT)).toBe(1);
+    expect(Charleston.getReceiverSeat(3, CharlestonDirectionEnum.ACROSS)).toBe(1);
+    expect(Charleston.getReceiverSeat(1, CharlestonDirectionEnum.LEFT)).toBe(0);
+  });
+});
+
+describe('test exchangeTiles', () => {
+  const passedTiles = [
+    ['1_DOT', '2_DOT', '3_DOT'],
+    ['EAST', 'EAST', 'WEST'],
+    ['1_FLOWER', '9_BAMBOO', 'REDDRAGON'],
+    ['4_CHARACTER', '5_CHARACTER', '6_CHARACTER'],
+  ];
+
+  test('it should give each user the tiles passed by the user on the left in the first pass', () => {
+    expect(Charleston.getDirection(0)).toBe(CharlestonDirectionEnum.RIGHT);
+    expect(Charleston.exchangeTiles(passedTiles, 0)).toStrictEqual([
+      passedTiles[3],
+      passedTiles[0],
+      passedTiles[1],
+      passedTiles[2],
+    ]);
+  });
+
+  test('it should pass to the left first in the second Charleston', () => {
+    expect(Charleston.getDirection(3)).toBe(CharlestonDirectionEnum.LEFT);
+    expect(Charleston.exchangeTiles(passedTiles, 3)).toStrictEqual([
+      passedTiles[1],
+      passedTiles[2],
+      passedTiles[3],
+      passedTiles[0],
+    ]);
+  });
+});
+
+describe('test isFinished', () => {
+  test('it should stop after the first Charleston only if a user stopped it', () => {
+    expect(Charleston.isFinished(2, 1)).toBeFalsy();
+    expect(Charleston.isFinished(3, 1)).toBeTruthy();
+    expect(Charleston.isFinished(3, 0)).toBeFalsy();
+    expect(Charleston.isFinished(6, 0)).toBeTruthy();
+  });
+});
@@ -0,0 +1,58 @@
+import { HandHelper } from '../../../../src/games/mahjong/Hand/HandHelper';
+
+describe('test tile type checks', () => {
+  test('it should tell simple, honor, bonus and terminal tiles apart', () => {
+    expect(HandHelper.isSimpleTile('5_DOT')).toBeTruthy();
+    expect(HandHelper.isSimpleTile('EAST')).toBeFalsy();
+    expect(HandHelper.isHonorTile('REDDRAGON')).toBeTruthy();
+    expect(HandHelper.isHonorTile('1_FLOWER')).toBeFalsy();
+    expect(HandHelper.isBonusTile('2_SEASON')).toBeTruthy();
+    expect(HandHelper.isTerminalTile('9_CHARACTER')).toBeTruthy();
+    expect(HandHelper.isTerminalTile('2_CHARACTER')).toBeFalsy();
+    expect(HandHelper.isTerminalTile('1_FLOWER')).toBeFalsy();
+    expect(HandHelper.isJokerTile('JOKER')).toBeTruthy();
+    expect(HandHelper.isJokerTile('1_FLOWER')).toBeFalsy();
+  });
+
+  test('it should throw an error for an invalid tile', () => {
+    expect(() => HandHelper.getTileDefinition('10_DOT')).toThrow('HandHelper: invalid tile 10_DOT');
+  });
+});
+
+describe('test sortTiles and countTiles', () => {
+  test('it should sort tiles by suit and value without changing the original array', () => {
+    const tiles = ['EAST', '3_BAMBOO', '1_DOT', '1_BAMBOO', '9_DOT'];
+    const sortedTiles = HandHelper.sortTiles(tiles);
+
+    expect(sortedTiles).toStrictEqual(['1_DOT', '9_DOT', '1_BAMBOO', '3_BAMBOO', 'EAST']);
+    expect(tiles).toStrictEqual(['EAST', '3_BAMBOO', '1_DOT', '1_BAMBOO', '9_DOT']);
+  });
+
+  test('it should count copies of each tile', () => {
+    expect(HandHelper.countTiles(['1_DOT', 'EAST', '1_DOT'])).toStrictEqual({ '1_DOT': 2, EAST: 1 });
+  });
+});
+
+describe('test removeTiles and containsTiles', () => {
+  const tiles = ['1_DOT', '1_DOT', '2_DOT', 'EAST'];
+
+  test('it should remove one copy of each tile', () => {
+    expect(HandHelper.removeTiles(tiles, ['1_DOT', 'EAST'])).toStrictEqual(['1_DOT', '2_DOT']);
+    expect(HandHelper.containsTiles(tiles, ['1_DOT', '1_DOT'])).toBeTruthy();
+  });
+
+  test('it should return undefined if a tile is missing', () => {
+    expect(HandHelper.removeTiles(tiles, ['2_DOT', '2_DOT'])).toBeUndefined();
+    expect(HandHelper.containsTiles(tiles, ['WEST'])).toBeFalsy();
+  });
+});
+
+describe('test getBaseTile and isRedFive', () => {
+  test('it should play a red five as the regular five of the same suit', () => {
+    expect(HandHelper.getBaseTile('5_DOT_RED')).toBe('5_DOT');
+    expect(HandHelper.getBaseTile('5_DOT')).toBe('5_DOT');
+    expect(HandHelper.getBaseTile('EAST')).toBe('EAST');
+    expect(HandHelper.isRedFive('5_BAMBOO_RED')).toBeTruthy();
+    expect(HandHelper.isRedFive('5_BAMBOO')).toBeFalsy();
+  });
+});
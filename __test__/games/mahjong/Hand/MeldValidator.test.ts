@@ -0,0 +1,51 @@
+import { MeldValidator } from '../../../../src/games/mahjong/Hand/MeldValidator';
+import { MeldEnum } from '../../../../src/enums/MeldEnum';
+
+describe('test MeldValidator', () => {
+  test('it should validate pairs, triplets and quads', () => {
+    expect(MeldValidator.isPair(['EAST', 'EAST'])).toBeTruthy();
+    expect(MeldValidator.isTriplet(['9_BAMBOO', '9_BAMBOO', '9_BAMBOO'])).toBeTruthy();
+    expect(MeldValidator.isTriplet(['9_BAMBOO', '9_BAMBOO', '8_BAMBOO'])).toBeFalsy();
+    expect(MeldValidator.isQuad(['REDDRAGON', 'REDDRAGON', 'REDDRAGON', 'REDDRAGON'])).toBeTruthy();
+    expect(MeldValidator.isQuad(['REDDRAGON', 'REDDRAGON', 'REDDRAGON'])).toBeFalsy();
+  });
+
+  test('it should not allow bonus tiles in a meld', () => {
+    expect(MeldValidator.isTriplet(['1_FLOWER', '1_FLOWER', '1_FLOWER'])).toBeFalsy();
+  });
+
+  test('it should allow jokers in triplets and quads with at least one other tile', () => {
+    expect(MeldValidator.isTriplet(['JOKER', '2_DOT', 'JOKER'], true)).toBeTruthy();
+    expect(MeldValidator.isQuad(['EAST', 'JOKER', 'EAST', 'JOKER'], true)).toBeTruthy();
+    expect(MeldValidator.isValidMeld(['EAST', 'JOKER', 'EAST'], MeldEnum.TRIPLET, true)).toBeTruthy();
+    expect(MeldValidator.isTriplet(['JOKER', 'JOKER', 'JOKER'], true)).toBeFalsy();
+    expect(MeldValidator.isTriplet(['JOKER', '2_DOT', '3_DOT'], true)).toBeFalsy();
+    expect(MeldValidator.isPair(['JOKER', '2_DOT'])).toBeFalsy();
+    expect(MeldValidator.isConsecutive(['1_DOT', 'JOKER', '3_DOT'])).toBeFalsy();
+  });
+
+  test('it should not allow jokers in melds when the ruleset has no jokers', () => {
+    expect(MeldValidator.isTriplet(['JOKER', '2_DOT', 'JOKER'])).toBeFalsy();
+    expect(MeldValidator.isQuad(['EAST', 'JOKER', 'EAST', 'EAST'])).toBeFalsy();
+    expect(MeldValidator.isValidMeld(['EAST', 'JOKER', 'EAST'], MeldEnum.TRIPLET)).toBeFalsy();
+  });
+
+  test('it should validate consecutive tiles in any order', () => {
+    expect(MeldValidator.isConsecutive(['3_DOT', '1_DOT', '2_DOT'])).toBeTruthy();
+    expect(MeldValidator.isConsecutive(['1_DOT', '2_DOT', '3_BAMBOO'])).toBeFalsy();
+    expect(MeldValidator.isConsecutive(['1_DOT', '2_DOT', '4_DOT'])).toBeFalsy();
+    expect(MeldValidator.isConsecutive(['EAST', 'SOUTH', 'WEST'])).toBeFalsy();
+  });
+
+  test('it should count red fives as regular fives', () => {
+    expect(MeldValidator.isTriplet(['5_DOT', '5_DOT_RED', '5_DOT'])).toBeTruthy();
+    expect(MeldValidator.isConsecutive(['4_DOT', '5_DOT_RED', '6_DOT'])).toBeTruthy();
+  });
+
+  test('it should validate a meld by meld type', () => {
+    expect(MeldValidator.isValidMeld(['1_DOT', '2_DOT', '3_DOT'], MeldEnum.CONSECUTIVE)).toBeTruthy();
+    expect(MeldValidator.isValidMeld(['1_DOT', '2_DOT', '3_DOT'], MeldEnum.TRIPLET)).toBeFalsy();
+    expect(MeldValidator.isValidMeld(['1_DOT', '1_DOT', '1_DOT', '1_DOT'], MeldEnum.QUAD)).toBeTruthy();
+    expect(MeldValidator.isValidMeld(['1_DOT', '1_DOT', '1_DOT'], MeldEnum.WIN)).toBeFalsy();
+  });
+});
@@ -0,0 +1,24 @@
+import { MissingSuit } from '../../../../src/games/mahjong/Hand/MissingSuit';
+import { SimpleTileTypes } from '../../../../src/games/mahjong/Tile/types/SimpleTileTypes';
+
+describe('test isSuit', () => {
+  test('it should only accept dots, bamboo and characters', () => {
+    expect(MissingSuit.isSuit(SimpleTileTypes.DOT)).toBe(true);
+    expect(MissingSuit.isSuit(SimpleTileTypes.CHARACTER)).toBe(true);
+    expect(MissingSuit.isSuit('EAST')).toBe(false);
+    expect(MissingSuit.isSuit('')).toBe(false);
+  });
+});
+
+describe('test getTilesOfSuit', () => {
+  const hand = ['1_DOT', '5_BAMBOO', '9_DOT', '2_CHARACTER'];
+
+  test('it should return the tiles of the missing suit', () => {
+    expect(MissingSuit.getTilesOfSuit(hand, SimpleTileTypes.DOT)).toStrictEqual(['1_DOT', '9_DOT']);
+    expect(MissingSuit.getTilesOfSuit(hand, SimpleTileTypes.BAMBOO)).toStrictEqual(['5_BAMBOO']);
+  });
+
+  test('it should return no tile when no missing suit is declared', () => {
+    expect(MissingSuit.getTilesOfSuit(hand)).toStrictEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import { PatternCardValidator } from '../../../../src/games/mahjong/Hand/PatternCardValidator';
+import { AmericanScorer } from '../../../../src/games/mahjong/Score/AmericanScorer';
+import { MeldEnum } from '../../../../src/enums/MeldEnum';
+
+const { CARD } = AmericanScorer;
+
+const repeat = (tile: string, count: number): string[] => Array(count).fill(tile);
+
+const WINDS_HAND = [...repeat('NORTH', 4), ...repeat('EAST', 3), ...repeat('WEST', 3), ...repeat('SOUTH', 4)];
+
+const RUN_HAND = [
+  ...repeat('3_DOT', 2),
+  ...repeat('4_DOT', 3),
+  ...repeat('5_DOT', 4),
+  ...repeat('6_DOT', 3),
+  ...repeat('7_DOT', 2),
+];
+
+describe('test getMatchingPatterns', () => {
+  test('it should match a pattern of fixed tiles', () => {
+    const matches = PatternCardValidator.getMatchingPatterns(CARD, WINDS_HAND);
+
+    expect(matches.map(({ pattern }) => pattern.name)).toStrictEqual(['Winds']);
+    expect(matches[0].jokerCount).toBe(0);
+  });
+
+  test('it should let jokers stand in for tiles of groups of three or more tiles', () => {
+    const hand = [...WINDS_HAND.slice(1, 4), 'JOKER', ...WINDS_HAND.slice(5), 'JOKER'];
+    const matches = PatternCardValidator.getMatchingPatterns(CARD, hand);
+
+    expect(matches.map(({ pattern }) => pattern.name)).toStrictEqual(['Winds']);
+    expect(matches[0].jokerCount).toBe(2);
+  });
+
+  test('it should not let jokers stand in for tiles of a single or a pair', () => {
+    expect(PatternCardValidator.isWinningHand(CARD, RUN_HAND)).toBeTruthy();
+    expect(PatternCardValidator.isWinningHand(CARD, ['JOKER', ...RUN_HAND.slice(1)])).toBeFalsy();
+  });
+
+  test('it should play every flower and season as a flower', () => {
+    const hand = ['1_FLOWER', '3_SEASON', ...repeat('2_BAMBOO', 2), ...repeat('4_BAMBOO', 3)];
+    const matches = PatternCardValidator.getMatchingPatterns(CARD, [
+      ...hand,
+      ...repeat('6_BAMBOO', 3),
+      ...repeat('8_BAMBOO', 4),
+    ]);
+
+    expect(matches.map(({ pattern }) => pattern.name)).toStrictEqual(['2468 - Flowers and Even Numbers']);
+  });
+
+  test('it should give a different suit to each suit variable', () => {
+    const likeNumbers = ['1_FLOWER', '2_FLOWER', ...repeat('5_DOT', 4), ...repeat('5_BAMBOO', 4)];
+
+    expect(PatternCardValidator.isWinningHand(CARD, [...likeNumbers, ...repeat('5_CHARACTER', 4)])).toBeTruthy();
+    expect(PatternCardValidator.isWinningHand(CARD, [...likeNumbers, '5_DOT', '5_DOT', 'JOKER', 'JOKER'])).toBeFalsy();
+  });
+
+  test('it should only accept exposed melds that are whole groups of the pattern', () => {
+    const exposedEast = { tiles: ['EAST', 'JOKER', 'EAST'], type: MeldEnum.TRIPLET };
+    const withoutEast = WINDS_HAND.filter((tile) => tile !== 'EAST');
+    expect(PatternCardValidator.isWinningHand(CARD, withoutEast, [exposedEast])).toBeTruthy();
+
+    const exposedNorth = { tiles: repeat('NORTH', 3), type: MeldEnum.TRIPLET };
+    const withoutNorth = [...WINDS_HAND.slice(3)];
+    expect(PatternCardValidator.isWinningHand(CARD, withoutNorth, [exposedNorth])).toBeFalsy();
+  });
+
+  test('it should not match a concealed pattern with exposed melds', () => {
+    const [windsPattern] = CARD.patterns.filter(({ name }) => name === 'Winds');
+    const concealedCard = { name: 'Concealed Card', patterns: [{ ...windsPattern, concealed: true }] };
+    const withoutEast = WINDS_HAND.filter((tile) => tile !== 'EAST');
+    const eastTriplet = { tiles: repeat('EAST', 3), type: MeldEnum.TRIPLET };
+
+    expect(PatternCardValidator.isWinningHand(concealedCard, WINDS_HAND)).toBeTruthy();
+    expect(PatternCardValidator.isWinningHand(concealedCard, withoutEast, [eastTriplet])).toBeFalsy();
+  });
+
+  test('it should match singles and pairs without jokers', () => {
+    const pairs = ['NORTH', 'EAST', 'WEST', 'SOUTH', '1_DOT', '2_DOT', '3_DOT'];
+    const hand = pairs.reduce((tiles: string[], tile) => [...tiles, tile, tile], []);
+    const matches = PatternCardValidator.getMatchingPatterns(CARD, hand);
+
+    expect(matches.map(({ pattern }) => pattern.name)).toStrictEqual(['Singles and Pairs - Winds and Run']);
+    expect(PatternCardValidator.isWinningHand(CARD, ['JOKER', ...hand.slice(1)])).toBeFalsy();
+  });
+});
+
+describe('test getWaitingTiles', () => {
+  test('it should find the tiles that complete a pattern with the unseen copies', () => {
+    const waitingTiles = PatternCardValidator.getWaitingTiles(CARD, WINDS_HAND.slice(0, -1), [], ['SOUTH']);
+
+    expect(waitingTiles).toStrictEqual([{ tile: 'SOUTH', unseenCount: 0 }]);
+  });
+
+  test('it should wait for any flower as the first flower', () => {
+    const hand = ['3_SEASON', ...repeat('2_BAMBOO', 2), ...repeat('4_BAMBOO', 3), ...repeat('6_BAMBOO', 3)];
+    const waitingTiles = PatternCardValidator.getWaitingTiles(CARD, [...hand, ...repeat('8_BAMBOO', 4)]);
+
+    expect(waitingTiles).toStrictEqual([{ tile: '1_FLOWER', unseenCount: 7 }]);
+  });
+});
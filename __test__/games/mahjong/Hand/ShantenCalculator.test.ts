@@ -0,0 +1,171 @@
+import { ShantenCalculator } from '../../../../src/games/mahjong/Hand/ShantenCalculator';
+
+const READY_HAND = [
+  '1_DOT',
+  '2_DOT',
+  '3_DOT',
+  '4_DOT',
+  '5_DOT',
+  '6_DOT',
+  '7_DOT',
+  '8_DOT',
+  '9_DOT',
+  '1_BAMBOO',
+  '2_BAMBOO',
+  '3_BAMBOO',
+  'EAST',
+];
+
+const SCATTERED_HAND = [
+  '1_DOT',
+  '4_DOT',
+  '7_DOT',
+  '1_BAMBOO',
+  '4_BAMBOO',
+  '7_BAMBOO',
+  '1_CHARACTER',
+  '4_CHARACTER',
+  '7_CHARACTER',
+  'EAST',
+  'SOUTH',
+  'WEST',
+  'NORTH',
+];
+
+const ORPHANS_HAND = [
+  '1_DOT',
+  '9_DOT',
+  '1_BAMBOO',
+  '9_BAMBOO',
+  '1_CHARACTER',
+  '9_CHARACTER',
+  'EAST',
+  'SOUTH',
+  'WEST',
+  'NORTH',
+  'REDDRAGON',
+  'GREENDRAGON',
+  '5_DOT',
+];
+
+const PAIRS_HAND = [
+  '1_DOT',
+  '1_DOT',
+  '5_DOT',
+  '5_DOT',
+  '9_BAMBOO',
+  '9_BAMBOO',
+  '2_CHARACTER',
+  '2_CHARACTER',
+  '7_CHARACTER',
+  '7_CHARACTER',
+  'EAST',
+  'EAST',
+  'WEST',
+];
+
+describe('test getShanten', () => {
+  test('it should return -1 for a winning hand', () => {
+    expect(ShantenCalculator.getShanten([...READY_HAND, 'EAST'])).toBe(-1);
+  });
+
+  test('it should return 0 for a ready hand', () => {
+    expect(ShantenCalculator.getShanten(READY_HAND)).toBe(0);
+  });
+
+  test('it should use the lowest shanten of all the shapes', () => {
+    expect(ShantenCalculator.getShanten(SCATTERED_HAND)).toBe(6);
+    expect(ShantenCalculator.getShanten(ORPHANS_HAND)).toBe(1);
+    expect(ShantenCalculator.getShanten(PAIRS_HAND)).toBe(0);
+  });
+
+  test('it should only use the regular shape if the hand has exposed melds', () => {
+    expect(ShantenCalculator.getShanten(['1_DOT', '1_DOT', '5_DOT', '5_DOT', 'EAST', 'EAST', 'WEST'], 2)).toBe(1);
+    expect(ShantenCalculator.getShanten(['2_DOT', '3_DOT', 'WEST', 'WEST'], 3)).toBe(0);
+  });
+
+  test('it should ignore bonus tiles', () => {
+    expect(ShantenCalculator.getShanten([...READY_HAND, '1_FLOWER'])).toBe(0);
+  });
+});
+
+describe('test getRegularShanten', () => {
+  test('it should count melds, partial melds and the pair', () => {
+    expect(ShantenCalculator.getRegularShanten(SCATTERED_HAND)).toBe(8);
+    expect(ShantenCalculator.getRegularShanten(PAIRS_HAND)).toBe(3);
+    expect(
+      ShantenCalculator.getRegularShanten([
+        '1_DOT',
+        '2_DOT',
+        '4_DOT',
+        '6_DOT',
+        '1_BAMBOO',
+        '1_BAMBOO',
+        '5_BAMBOO',
+        '6_BAMBOO',
+        '7_BAMBOO',
+        '9_CHARACTER',
+        'EAST',
+        'SOUTH',
+        'WEST',
+      ]),
+    ).toBe(3);
+  });
+
+  test('it should not count more partial melds than melds needed', () => {
+    expect(
+      ShantenCalculator.getRegularShanten([
+        '1_DOT',
+        '2_DOT',
+        '4_DOT',
+        '5_DOT',
+        '7_DOT',
+        '8_DOT',
+        '1_BAMBOO',
+        '2_BAMBOO',
+        '4_BAMBOO',
+        '5_BAMBOO',
+        '7_BAMBOO',
+        '8_BAMBOO',
+        'EAST',
+      ]),
+    ).toBe(4);
+  });
+});
+
+describe('test getSevenPairsShanten', () => {
+  test('it should count pairs and different tiles', () => {
+    expect(ShantenCalculator.getSevenPairsShanten(PAIRS_HAND)).toBe(0);
+    expect(ShantenCalculator.getSevenPairsShanten([...PAIRS_HAND, 'WEST'])).toBe(-1);
+    expect(ShantenCalculator.getSevenPairsShanten(SCATTERED_HAND)).toBe(6);
+  });
+
+  test('it should count a triplet as one pair', () => {
+    const hand = ['1_DOT', '1_DOT', '1_DOT', '1_DOT', '2_DOT', '2_DOT', '2_DOT', '3_DOT', '3_DOT', '3_DOT', 'EAST'];
+    expect(ShantenCalculator.getSevenPairsShanten([...hand, 'EAST', 'WEST'])).toBe(4);
+  });
+});
+
+describe('test getThirteenOrphansShanten', () => {
+  test('it should count the different terminal and honor tiles', () => {
+    expect(ShantenCalculator.getThirteenOrphansShanten(ORPHANS_HAND)).toBe(1);
+    expect(ShantenCalculator.getThirteenOrphansShanten([...ORPHANS_HAND.slice(0, 12), 'WHITEDRAGON'])).toBe(0);
+    expect(ShantenCalculator.getThirteenOrphansShanten([...ORPHANS_HAND.slice(0, 12), 'EAST'])).toBe(0);
+    expect(ShantenCalculator.getThirteenOrphansShanten(SCATTERED_HAND)).toBe(6);
+  });
+});
+
+describe('test getBestDiscards', () => {
+  test('it should list the discards that leave the hand ready', () => {
+    expect(ShantenCalculator.getBestDiscards([...READY_HAND, 'NORTH'])).toStrictEqual(['EAST', 'NORTH']);
+  });
+
+  test('it should list each tile once in tile order', () => {
+    const hand = ['1_DOT', '2_DOT', '3_DOT', '4_DOT', '5_DOT', '6_DOT', '7_DOT', '8_DOT', '9_DOT', 'EAST', 'EAST'];
+    expect(ShantenCalculator.getBestDiscards([...hand, 'NORTH', 'NORTH', 'WEST'])).toStrictEqual(['WEST']);
+  });
+
+  test('it should take exposed melds into account', () => {
+    expect(ShantenCalculator.getBestDiscards(['2_DOT', '3_DOT', 'WEST', 'WEST', 'NORTH'], 3)).toStrictEqual(['NORTH']);
+  });
+});
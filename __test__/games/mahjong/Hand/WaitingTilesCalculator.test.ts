@@ -0,0 +1,107 @@
+import { WaitingTilesCalculator } from '../../../../src/games/mahjong/Hand/WaitingTilesCalculator';
+import { MeldEnum } from '../../../../src/enums/MeldEnum';
+
+describe('test getWaitingTiles', () => {
+  test('it should find both tiles of an open-ended wait', () => {
+    const hand = ['2_DOT', '3_DOT', '4_DOT', '5_DOT', '6_DOT', '7_DOT', '7_BAMBOO', '8_BAMBOO', '9_BAMBOO'];
+    const waitingTiles = WaitingTilesCalculator.getWaitingTiles(
+      [...hand, '2_CHARACTER', '3_CHARACTER', 'EAST', 'EAST'],
+      [],
+    );
+
+    expect(waitingTiles).toStrictEqual([
+      { tile: '1_CHARACTER', unseenCount: 4 },
+      { tile: '4_CHARACTER', unseenCount: 4 },
+    ]);
+  });
+
+  test('it should count the copies the user can see', () => {
+    const hand = ['1_DOT', '2_DOT', '3_DOT', '4_DOT', '5_DOT', '6_DOT', '7_BAMBOO', '8_BAMBOO', '9_BAMBOO'];
+    const waitingTiles = WaitingTilesCalculator.getWaitingTiles(
+      [...hand, 'REDDRAGON', 'REDDRAGON', 'EAST', 'EAST'],
+      [],
+      ['REDDRAGON', 'EAST', '1_DOT'],
+    );
+
+    expect(waitingTiles).toStrictEqual([
+      { tile: 'EAST', unseenCount: 1 },
+      { tile: 'REDDRAGON', unseenCount: 1 },
+    ]);
+  });
+
+  test('it should use the exposed melds of the user', () => {
+    const exposedMelds = [
+      { tiles: ['1_DOT', '1_DOT', '1_DOT'], type: MeldEnum.TRIPLET },
+      { tiles: ['5_BAMBOO', '6_BAMBOO', '7_BAMBOO'], type: MeldEnum.CONSECUTIVE },
+      { tiles: ['9_CHARACTER', '9_CHARACTER', '9_CHARACTER'], type: MeldEnum.TRIPLET },
+    ];
+    const waitingTiles = WaitingTilesCalculator.getWaitingTiles(['2_DOT', '3_DOT', '4_DOT', 'WEST'], exposedMelds);
+
+    expect(waitingTiles).toStrictEqual([{ tile: 'WEST', unseenCount: 3 }]);
+  });
+
+  test('it should not wait for a fifth copy of a tile', () => {
+    const waitingTiles = WaitingTilesCalculator.getWaitingTiles(
+      [
+        '1_DOT',
+        '1_DOT',
+        '1_DOT',
+        '1_DOT',
+        '2_DOT',
+        '3_DOT',
+        '4_DOT',
+        '5_DOT',
+        '6_DOT',
+        '7_DOT',
+        '8_DOT',
+        '9_DOT',
+        '9_DOT',
+      ],
+      [],
+    );
+
+    expect(waitingTiles.map(({ tile }) => tile)).not.toContain('1_DOT');
+    expect(waitingTiles.length).toBeGreaterThan(0);
+  });
+
+  test('it should return an empty list if the hand is not ready', () => {
+    const waitingTiles = WaitingTilesCalculator.getWaitingTiles(
+      [
+        '1_DOT',
+        '4_DOT',
+        '7_DOT',
+        '1_BAMBOO',
+        '4_BAMBOO',
+        '7_BAMBOO',
+        '1_CHARACTER',
+        '4_CHARACTER',
+        '7_CHARACTER',
+        'EAST',
+        'SOUTH',
+        'WEST',
+        'NORTH',
+      ],
+      [],
+    );
+
+    expect(waitingTiles).toStrictEqual([]);
+  });
+});
+
+describe('test isFuriten', () => {
+  const readyHand = ['2_DOT', '3_DOT', '4_BAMBOO', '5_BAMBOO', '6_BAMBOO', 'EAST', 'EAST'];
+  const exposedMelds = [
+    { tiles: ['1_CHARACTER', '2_CHARACTER', '3_CHARACTER'], type: MeldEnum.CONSECUTIVE },
+    { tiles: ['WEST', 'WEST', 'WEST'], type: MeldEnum.TRIPLET },
+  ];
+
+  test('it should be furiten when a waiting tile has been discarded', () => {
+    expect(WaitingTilesCalculator.isFuriten(readyHand, exposedMelds, ['9_BAMBOO', '4_DOT'])).toBeTruthy();
+    expect(WaitingTilesCalculator.isFuriten(readyHand, exposedMelds, ['1_DOT'])).toBeTruthy();
+  });
+
+  test('it should not be furiten when no waiting tile has been discarded', () => {
+    expect(WaitingTilesCalculator.isFuriten(readyHand, exposedMelds, ['9_BAMBOO', '5_DOT'])).toBeFalsy();
+    expect(WaitingTilesCalculator.isFuriten(readyHand, exposedMelds)).toBeFalsy();
+  });
+});
@@ -0,0 +1,207 @@
+import { WinningHandValidator } from '../../../../src/games/mahjong/Hand/WinningHandValidator';
+import { MeldEnum } from '../../../../src/enums/MeldEnum';
+import { SpecialHandEnum } from '../../../../src/enums/SpecialHandEnum';
+
+const ALL_CONSECUTIVE_HAND = [
+  '1_DOT',
+  '2_DOT',
+  '3_DOT',
+  '4_DOT',
+  '5_DOT',
+  '6_DOT',
+  '7_BAMBOO',
+  '8_BAMBOO',
+  '9_BAMBOO',
+  '2_CHARACTER',
+  '3_CHARACTER',
+  '4_CHARACTER',
+  'EAST',
+  'EAST',
+];
+
+const THIRTEEN_ORPHANS_HAND = [
+  '1_DOT',
+  '9_DOT',
+  '1_BAMBOO',
+  '9_BAMBOO',
+  '1_CHARACTER',
+  '9_CHARACTER',
+  'EAST',
+  'SOUTH',
+  'WEST',
+  'NORTH',
+  'REDDRAGON',
+  'GREENDRAGON',
+  'WHITEDRAGON',
+  'WHITEDRAGON',
+];
+
+describe('test getDecompositions', () => {
+  test('it should split a hand into four melds and a pair', () => {
+    const decompositions = WinningHandValidator.getDecompositions(ALL_CONSECUTIVE_HAND);
+
+    expect(decompositions).toHaveLength(1);
+    const [{ melds, pair }] = decompositions;
+    expect(pair).toStrictEqual(['EAST', 'EAST']);
+    expect(melds).toHaveLength(4);
+    melds.forEach((meld) => expect(meld.type).toBe(MeldEnum.CONSECUTIVE));
+  });
+
+  test('it should find every possible decomposition', () => {
+    // 111222333 can be three triplets or three consecutive melds
+    const hand = [
+      '1_DOT',
+      '1_DOT',
+      '1_DOT',
+      '2_DOT',
+      '2_DOT',
+      '2_DOT',
+      '3_DOT',
+      '3_DOT',
+      '3_DOT',
+      'NORTH',
+      'NORTH',
+      'NORTH',
+      'WEST',
+      'WEST',
+    ];
+
+    expect(WinningHandValidator.getDecompositions(hand)).toHaveLength(2);
+  });
+
+  test('it should use exposed melds and concealed quads', () => {
+    const exposedMelds = [{ tiles: ['EAST', 'EAST', 'EAST', 'EAST'], type: MeldEnum.QUAD }];
+    const concealedTiles = [
+      '9_BAMBOO',
+      '9_BAMBOO',
+      '9_BAMBOO',
+      '9_BAMBOO',
+      '1_DOT',
+      '2_DOT',
+      '3_DOT',
+      '5_DOT',
+      '6_DOT',
+      '7_DOT',
+      'WEST',
+      'WEST',
+    ];
+
+    const decompositions = WinningHandValidator.getDecompositions(concealedTiles, exposedMelds);
+    expect(decompositions).toHaveLength(1);
+    expect(decompositions[0].melds[0]).toStrictEqual(exposedMelds[0]);
+    expect(decompositions[0].melds).toContainEqual({
+      tiles: ['9_BAMBOO', '9_BAMBOO', '9_BAMBOO', '9_BAMBOO'],
+      type: MeldEnum.QUAD,
+      concealed: true,
+    });
+  });
+
+  test('it should reject invalid exposed melds and bonus tiles', () => {
+    const invalidMelds = [{ tiles: ['EAST', 'SOUTH', 'WEST'], type: MeldEnum.CONSECUTIVE }];
+    expect(WinningHandValidator.getDecompositions(ALL_CONSECUTIVE_HAND.slice(3), invalidMelds)).toStrictEqual([]);
+    expect(WinningHandValidator.getDecompositions([...ALL_CONSECUTIVE_HAND.slice(1), '1_FLOWER'])).toStrictEqual([]);
+  });
+
+  test('it should detect special hands', () => {
+    const [orphans] = WinningHandValidator.getDecompositions(THIRTEEN_ORPHANS_HAND);
+    expect(orphans.specialHand).toBe(SpecialHandEnum.THIRTEEN_ORPHANS);
+
+    const sevenPairs = [
+      '1_DOT',
+      '1_DOT',
+      '4_DOT',
+      '4_DOT',
+      '6_BAMBOO',
+      '6_BAMBOO',
+      '8_BAMBOO',
+      '8_BAMBOO',
+      '2_CHARACTER',
+      '2_CHARACTER',
+      'EAST',
+      'EAST',
+      'REDDRAGON',
+      'REDDRAGON',
+    ];
+    const [pairs] = WinningHandValidator.getDecompositions(sevenPairs);
+    expect(pairs.specialHand).toBe(SpecialHandEnum.SEVEN_PAIRS);
+  });
+
+  test('it should only detect knitted hands when the version accepts them', () => {
+    const knittedStraight = [
+      ...WinningHandValidator.getKnittedStraight(WinningHandValidator.KNITTED_SUITS[0]),
+      'EAST',
+      'EAST',
+      'EAST',
+      'REDDRAGON',
+      'REDDRAGON',
+    ];
+    const knittedHands = [SpecialHandEnum.KNITTED_STRAIGHT, SpecialHandEnum.HONORS_AND_KNITTED_TILES];
+    expect(WinningHandValidator.getDecompositions(knittedStraight)).toStrictEqual([]);
+
+    const [straight] = WinningHandValidator.getDecompositions(knittedStraight, [], 4, knittedHands);
+    expect(straight.specialHand).toBe(SpecialHandEnum.KNITTED_STRAIGHT);
+    expect(straight.pair).toStrictEqual(['REDDRAGON', 'REDDRAGON']);
+    expect(straight.melds).toHaveLength(1);
+
+    const exposedMeld = { tiles: ['EAST', 'EAST', 'EAST'], type: MeldEnum.TRIPLET };
+    expect(
+      WinningHandValidator.isWinningHand(
+        knittedStraight.slice(0, 9).concat(['REDDRAGON', 'REDDRAGON']),
+        [exposedMeld],
+        4,
+        knittedHands,
+      ),
+    ).toBeTruthy();
+
+    const honorsAndKnitted = [
+      '1_DOT',
+      '4_DOT',
+      '8_BAMBOO',
+      '3_CHARACTER',
+      '9_CHARACTER',
+      'EAST',
+      'SOUTH',
+      'WEST',
+      'NORTH',
+      'REDDRAGON',
+      'GREENDRAGON',
+      'WHITEDRAGON',
+      '2_BAMBOO',
+      '6_CHARACTER',
+    ];
+    expect(WinningHandValidator.isWinningHand(honorsAndKnitted)).toBeFalsy();
+    const [knitted] = WinningHandValidator.getDecompositions(honorsAndKnitted, [], 4, knittedHands);
+    expect(knitted.specialHand).toBe(SpecialHandEnum.HONORS_AND_KNITTED_TILES);
+    expect(
+      WinningHandValidator.isWinningHand(['2_DOT', ...honorsAndKnitted.slice(1)], [], 4, knittedHands),
+    ).toBeFalsy();
+  });
+});
+
+describe('test isWinningHand', () => {
+  test('it should return true for a winning hand', () => {
+    expect(WinningHandValidator.isWinningHand(ALL_CONSECUTIVE_HAND)).toBeTruthy();
+    expect(WinningHandValidator.isWinningHand(THIRTEEN_ORPHANS_HAND)).toBeTruthy();
+  });
+
+  test('it should play red fives as regular fives', () => {
+    const hand = ['4_DOT', '5_DOT_RED', '6_DOT', '5_BAMBOO', '5_BAMBOO_RED', '5_BAMBOO', 'EAST', 'EAST'];
+    expect(WinningHandValidator.isWinningHand(hand, [])).toBeFalsy();
+    expect(
+      WinningHandValidator.isWinningHand([...hand, '1_DOT', '2_DOT', '3_DOT', '7_DOT', '8_DOT', '9_DOT']),
+    ).toBeTruthy();
+  });
+
+  test('it should need five melds and a pair in a 16 tile hand', () => {
+    const fiveMeldHand = [...ALL_CONSECUTIVE_HAND, 'WEST', 'WEST', 'WEST'];
+    expect(WinningHandValidator.isWinningHand(fiveMeldHand)).toBeFalsy();
+    expect(WinningHandValidator.isWinningHand(fiveMeldHand, [], 5)).toBeTruthy();
+    expect(WinningHandValidator.isWinningHand(ALL_CONSECUTIVE_HAND, [], 5)).toBeFalsy();
+    expect(WinningHandValidator.isWinningHand(THIRTEEN_ORPHANS_HAND, [], 5)).toBeFalsy();
+  });
+
+  test('it should return false for a hand that is not complete', () => {
+    expect(WinningHandValidator.isWinningHand(ALL_CONSECUTIVE_HAND.slice(1))).toBeFalsy();
+    expect(WinningHandValidator.isWinningHand([...ALL_CONSECUTIVE_HAND.slice(1), '9_DOT'])).toBeFalsy();
+  });
+});
@@ -0,0 +1,108 @@
+import { RulesetFactory } from '../../../../src/games/mahjong/Ruleset/RulesetFactory';
+import { HongKongRuleset } from '../../../../src/games/mahjong/Ruleset/version/HongKongRuleset';
+import { JapaneseRuleset } from '../../../../src/games/mahjong/Ruleset/version/JapaneseRuleset';
+import { TaiwaneseRuleset } from '../../../../src/games/mahjong/Ruleset/version/TaiwaneseRuleset';
+import { SanmaRuleset } from '../../../../src/games/mahjong/Ruleset/version/SanmaRuleset';
+import { MCRRuleset } from '../../../../src/games/mahjong/Ruleset/version/MCRRuleset';
+import { AmericanRuleset } from '../../../../src/games/mahjong/Ruleset/version/AmericanRuleset';
+import { SichuanRuleset } from '../../../../src/games/mahjong/Ruleset/version/SichuanRuleset';
+import { JapaneseWall } from '../../../../src/games/mahjong/Wall/version/JapaneseWall';
+import { HongKongWall } from '../../../../src/games/mahjong/Wall/version/HongKongWall';
+import { SanmaWall } from '../../../../src/games/mahjong/Wall/version/SanmaWall';
+import { AmericanWall } from '../../../../src/games/mahjong/Wall/version/AmericanWall';
+import { SichuanWall } from '../../../../src/games/mahjong/Wall/version/SichuanWall';
+import { MahjongVersions } from '../../../../src/games/mahjong/Wall/version/Versions';
+import { GameTypeEnum } from '../../../../src/enums/GameTypeEnum';
+import { MeldEnum } from '../../../../src/enums/MeldEnum';
+import { SpecialHandEnum } from '../../../../src/enums/SpecialHandEnum';
+
+describe('test getRuleset', () => {
+  test('it should resolve the ruleset of the game type and version', () => {
+    expect(RulesetFactory.getRuleset(GameTypeEnum.MAHJONG, MahjongVersions.Japanese)).toBe(JapaneseRuleset);
+    expect(RulesetFactory.getRuleset(GameTypeEnum.MAHJONG, MahjongVersions.HongKong)).toBe(HongKongRuleset);
+    expect(RulesetFactory.getRuleset(GameTypeEnum.MAHJONG, MahjongVersions.Taiwanese)).toBe(TaiwaneseRuleset);
+    expect(RulesetFactory.getRuleset(GameTypeEnum.MAHJONG, MahjongVersions.Sanma)).toBe(SanmaRuleset);
+    expect(RulesetFactory.getRuleset(GameTypeEnum.MAHJONG, MahjongVersions.MCR)).toBe(MCRRuleset);
+    expect(RulesetFactory.getRuleset(GameTypeEnum.MAHJONG, MahjongVersions.American)).toBe(AmericanRuleset);
+    expect(RulesetFactory.getRuleset(GameTypeEnum.MAHJONG, MahjongVersions.Sichuan)).toBe(SichuanRuleset);
+  });
+
+  test('it should use mahjong when the game has no type', () => {
+    expect(RulesetFactory.getRuleset('', MahjongVersions.Japanese)).toBe(JapaneseRuleset);
+    expect(RulesetFactory.getRuleset(undefined, MahjongVersions.Japanese)).toBe(JapaneseRuleset);
+  });
+
+  test('it should use Hong Kong rules for an unknown game', () => {
+    expect(RulesetFactory.getRuleset()).toBe(HongKongRuleset);
+    expect(RulesetFactory.getRuleset('', '')).toBe(HongKongRuleset);
+    expect(RulesetFactory.getRuleset('fake-game-type', MahjongVersions.Japanese)).toBe(HongKongRuleset);
+  });
+});
+
+describe('test rulesets', () => {
+  test('it should create the wall of the version', () => {
+    expect(RulesetFactory.createWall(HongKongRuleset)).toBeInstanceOf(HongKongWall);
+    expect(RulesetFactory.createWall(JapaneseRuleset)).toBeInstanceOf(JapaneseWall);
+    expect(RulesetFactory.createWall(JapaneseRuleset, true).getTiles().length).toBeGreaterThan(0);
+  });
+
+  test('it should only score flowers in versions with flowers in the wall', () => {
+    expect(HongKongRuleset.hasFlowers).toBe(true);
+    expect(TaiwaneseRuleset.hasFlowers).toBe(true);
+    expect(JapaneseRuleset.hasFlowers).toBe(false);
+    expect(SanmaRuleset.hasFlowers).toBe(false);
+    expect(SichuanRuleset.hasFlowers).toBe(false);
+  });
+
+  test('it should deal 16 tiles in a Taiwanese hand', () => {
+    const wall = RulesetFactory.createWall(TaiwaneseRuleset);
+    expect(wall.generateHand()).toHaveLength(TaiwaneseRuleset.handLength);
+    expect(TaiwaneseRuleset.handLength).toBe(16);
+    expect(TaiwaneseRuleset.meldCount).toBe(5);
+  });
+
+  test('it should play sanma with three users, no chow and north winds extracted', () => {
+    expect(RulesetFactory.createWall(SanmaRuleset)).toBeInstanceOf(SanmaWall);
+    expect(SanmaRuleset.playerCount).toBe(3);
+    expect(SanmaRuleset.claimPriorities[MeldEnum.CONSECUTIVE]).toBeUndefined();
+    expect(SanmaRuleset.extractedTiles).toStrictEqual(['NORTH']);
+    expect(HongKongRuleset.extractedTiles).toStrictEqual([]);
+  });
+
+  test('it should need 8 fan and accept knitted hands to win with MCR', () => {
+    expect(RulesetFactory.createWall(MCRRuleset)).toBeInstanceOf(HongKongWall);
+    expect(MCRRuleset.minimumPoints).toBe(8);
+    expect(MCRRuleset.specialHands).toContain(SpecialHandEnum.KNITTED_STRAIGHT);
+    expect(HongKongRuleset.minimumPoints).toBe(0);
+    expect(HongKongRuleset.specialHands).not.toContain(SpecialHandEnum.KNITTED_STRAIGHT);
+  });
+
+  test('it should play American with jokers, a Charleston and a card, without chow or bonus tiles', () => {
+    expect(RulesetFactory.createWall(AmericanRuleset)).toBeInstanceOf(AmericanWall);
+    expect(AmericanRuleset.claimPriorities[MeldEnum.CONSECUTIVE]).toBeUndefined();
+    expect(AmericanRuleset.patternCard).toBeDefined();
+    expect(AmericanRuleset.hasCharleston).toBe(true);
+    expect(AmericanRuleset.hasJokers).toBe(true);
+    expect(AmericanRuleset.hasBonusTiles).toBe(false);
+    expect(HongKongRuleset.hasCharleston).toBe(false);
+    expect(HongKongRuleset.hasJokers).toBe(false);
+    expect(HongKongRuleset.hasBonusTiles).toBe(true);
+  });
+
+  test('it should play Sichuan with a missing suit and three winners, without chow or bonus tiles', () => {
+    expect(RulesetFactory.createWall(SichuanRuleset)).toBeInstanceOf(SichuanWall);
+    expect(SichuanRuleset.claimPriorities[MeldEnum.CONSECUTIVE]).toBeUndefined();
+    expect(SichuanRuleset.hasMissingSuit).toBe(true);
+    expect(SichuanRuleset.hasBonusTiles).toBe(false);
+    expect(SichuanRuleset.winnerCount).toBe(3);
+    expect(HongKongRuleset.hasMissingSuit).toBe(false);
+    expect(HongKongRuleset.winnerCount).toBe(1);
+  });
+
+  test('it should give a win priority over every meld and a triplet priority over a consecutive', () => {
+    const { claimPriorities } = HongKongRuleset;
+    expect(claimPriorities[MeldEnum.WIN]).toBeGreaterThan(claimPriorities[MeldEnum.QUAD]);
+    expect(claimPriorities[MeldEnum.TRIPLET]).toBe(claimPriorities[MeldEnum.QUAD]);
+    expect(claimPriorities[MeldEnum.TRIPLET]).toBeGreaterThan(claimPriorities[MeldEnum.CONSECUTIVE]);
+  });
+});
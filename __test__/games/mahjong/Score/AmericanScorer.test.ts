@@ -0,0 +1,47 @@
+import { AmericanScorer } from '../../../../src/games/mahjong/Score/AmericanScorer';
+import { createContextFactory, getHandNames } from './scoreTestHelpers';
+
+const repeat = (tile: string, count: number): string[] => Array(count).fill(tile);
+
+const DRAGONS_HAND = [
+  '2_FLOWER',
+  '4_SEASON',
+  ...repeat('REDDRAGON', 4),
+  ...repeat('GREENDRAGON', 4),
+  ...repeat('WHITEDRAGON', 4),
+];
+
+const createContext = createContextFactory({ concealedTiles: DRAGONS_HAND, winningTile: 'REDDRAGON' });
+
+describe('test calculateHandPoints', () => {
+  test('it should return undefined for a hand that does not match a pattern', () => {
+    expect(
+      AmericanScorer.calculateHandPoints(createContext({ concealedTiles: DRAGONS_HAND.slice(1) })),
+    ).toBeUndefined();
+  });
+
+  test('it should double the points of a hand won without jokers', () => {
+    const results = AmericanScorer.calculateHandPoints(createContext({}));
+
+    expect(getHandNames(results)).toStrictEqual(['Dragons', AmericanScorer.JOKERLESS]);
+    expect(results?.handPoints).toBe(30);
+    expect(results?.totalPoints).toBe(60);
+  });
+
+  test('it should score the points of the pattern for a hand won with jokers', () => {
+    const hand = [...DRAGONS_HAND.slice(0, -1), 'JOKER'];
+    const results = AmericanScorer.calculateHandPoints(createContext({ concealedTiles: hand }));
+
+    expect(getHandNames(results)).toStrictEqual(['Dragons']);
+    expect(results?.totalPoints).toBe(30);
+  });
+
+  test('it should not double singles and pairs, which cannot use jokers', () => {
+    const pairs = ['NORTH', 'EAST', 'WEST', 'SOUTH', '7_BAMBOO', '8_BAMBOO', '9_BAMBOO'];
+    const hand = pairs.reduce((tiles: string[], tile) => [...tiles, tile, tile], []);
+    const results = AmericanScorer.calculateHandPoints(createContext({ concealedTiles: hand }));
+
+    expect(getHandNames(results)).toStrictEqual(['Singles and Pairs - Winds and Run']);
+    expect(results?.totalPoints).toBe(50);
+  });
+});
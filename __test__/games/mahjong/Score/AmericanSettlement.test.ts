@@ -0,0 +1,17 @@
+import { AmericanSettlement } from '../../../../src/games/mahjong/Score/AmericanSettlement';
+import { WinTypeEnum } from '../../../../src/enums/WinTypeEnum';
+
+describe('test calculateDeltas', () => {
+  test('it should make the discarder pay double and the other users pay the points', () => {
+    expect(AmericanSettlement.calculateDeltas(25, 1, WinTypeEnum.DISCARD, 3, 4)).toStrictEqual([-25, 100, -25, -50]);
+  });
+
+  test('it should make every other user pay double for a self-drawn win', () => {
+    expect(AmericanSettlement.calculateDeltas(30, 0, WinTypeEnum.SELF_DRAWN, undefined, 4)).toStrictEqual([
+      180,
+      -60,
+      -60,
+      -60,
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import { DoraCalculator } from '../../../../src/games/mahjong/Score/DoraCalculator';
+
+// Dora indicators first, then the ura-dora indicators under them
+const deadWall = [
+  '3_DOT',
+  'NORTH',
+  'REDDRAGON',
+  '9_BAMBOO',
+  '5_CHARACTER_RED',
+  '1_CHARACTER',
+  'WEST',
+  '7_BAMBOO',
+  '2_DOT',
+  'GREENDRAGON',
+  'EAST',
+  'EAST',
+  'SOUTH',
+  'SOUTH',
+];
+
+describe('test getDoraTile', () => {
+  test('it should point to the next tile of the same suit', () => {
+    expect(DoraCalculator.getDoraTile('3_DOT')).toBe('4_DOT');
+    expect(DoraCalculator.getDoraTile('5_CHARACTER_RED')).toBe('6_CHARACTER');
+  });
+
+  test('it should wrap nine to one', () => {
+    expect(DoraCalculator.getDoraTile('9_BAMBOO')).toBe('1_BAMBOO');
+  });
+
+  test('it should cycle through the winds and the dragons', () => {
+    expect(DoraCalculator.getDoraTile('EAST')).toBe('SOUTH');
+    expect(DoraCalculator.getDoraTile('NORTH')).toBe('EAST');
+    expect(DoraCalculator.getDoraTile('WHITEDRAGON')).toBe('GREENDRAGON');
+    expect(DoraCalculator.getDoraTile('REDDRAGON')).toBe('WHITEDRAGON');
+  });
+});
+
+describe('test getDoraIndicators', () => {
+  test('it should reveal one indicator and one more for each quad', () => {
+    expect(DoraCalculator.getDoraIndicators(deadWall)).toStrictEqual(['3_DOT']);
+    expect(DoraCalculator.getDoraIndicators(deadWall, 2)).toStrictEqual(['3_DOT', 'NORTH', 'REDDRAGON']);
+  });
+
+  test('it should reveal at most five indicators', () => {
+    expect(DoraCalculator.getDoraIndicators(deadWall, 6)).toHaveLength(DoraCalculator.MAX_DORA_INDICATORS);
+  });
+
+  test('it should reveal the ura-dora indicators under the dora indicators', () => {
+    expect(DoraCalculator.getUraDoraIndicators(deadWall, 1)).toStrictEqual(['1_CHARACTER', 'WEST']);
+  });
+});
+
+describe('test countDora', () => {
+  test('it should count every copy of a dora tile, including red fives', () => {
+    expect(DoraCalculator.countDora(['4_DOT', '4_DOT', '4_DOT', 'EAST'], ['3_DOT'])).toBe(3);
+    expect(DoraCalculator.countDora(['5_DOT_RED', '5_DOT'], ['4_DOT'])).toBe(2);
+  });
+
+  test('it should count a tile once for every indicator pointing to it', () => {
+    expect(DoraCalculator.countDora(['EAST'], ['NORTH', 'NORTH'])).toBe(2);
+  });
+});
+
+describe('test getDoraResults', () => {
+  const tiles = [
+    '2_CHARACTER',
+    '3_CHARACTER',
+    '4_CHARACTER',
+    '4_DOT',
+    '5_DOT_RED',
+    '6_DOT',
+    '8_BAMBOO',
+    '8_BAMBOO',
+    '8_BAMBOO',
+    'EAST',
+    'EAST',
+    'EAST',
+    'NORTH',
+    'NORTH',
+  ];
+
+  test('it should count dora and red fives without ura-dora if the winner did not declare riichi', () => {
+    expect(DoraCalculator.getDoraResults(tiles, deadWall, 1, false)).toStrictEqual({
+      doraIndicators: ['3_DOT', 'NORTH'],
+      uraDoraIndicators: [],
+      dora: 4,
+      uraDora: 0,
+      redFives: 1,
+      nukiDora: 0,
+    });
+  });
+
+  test('it should reveal ura-dora to a riichi winner', () => {
+    expect(DoraCalculator.getDoraResults(tiles, deadWall, 1, true)).toStrictEqual({
+      doraIndicators: ['3_DOT', 'NORTH'],
+      uraDoraIndicators: ['1_CHARACTER', 'WEST'],
+      dora: 4,
+      uraDora: 3,
+      redFives: 1,
+      nukiDora: 0,
+    });
+  });
+
+  test('it should count extracted north winds as dora', () => {
+    expect(DoraCalculator.getDoraResults(tiles, deadWall, 1, false, ['NORTH', 'NORTH'])).toStrictEqual({
+      doraIndicators: ['3_DOT', 'NORTH'],
+      uraDoraIndicators: [],
+      dora: 4,
+      uraDora: 0,
+      redFives: 1,
+      nukiDora: 2,
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import { HongKongScorer } from '../../../../src/games/mahjong/Score/HongKongScorer';
+import { HongKongFaanTable, HONG_KONG_LIMIT_POINTS } from '../../../../src/games/mahjong/Score/HongKongFaanTable';
+import { HandPointResults } from '../../../../src/games/mahjong/types/MahjongTypes';
+import { MeldEnum } from '../../../../src/enums/MeldEnum';
+import { WindEnum } from '../../../../src/enums/WindEnum';
+import { JapaneseRuleset } from '../../../../src/games/mahjong/Ruleset/version/JapaneseRuleset';
+import { SanmaRuleset } from '../../../../src/games/mahjong/Ruleset/version/SanmaRuleset';
+import { SichuanRuleset } from '../../../../src/games/mahjong/Ruleset/version/SichuanRuleset';
+import { createContextFactory, getHandNames } from './scoreTestHelpers';
+
+const createContext = createContextFactory({ bonusTiles: ['3_FLOWER'] });
+
+describe('test calculateHandPoints', () => {
+  test('it should add robbing the kong to the extra points', () => {
+    const context = createContext({
+      concealedTiles: [
+        '1_DOT',
+        '2_DOT',
+        '3_DOT',
+        '4_BAMBOO',
+        '5_BAMBOO',
+        '6_BAMBOO',
+        '7_BAMBOO',
+        '8_BAMBOO',
+        '9_BAMBOO',
+        '2_CHARACTER',
+        '3_CHARACTER',
+        '4_CHARACTER',
+        '5_CHARACTER',
+        '5_CHARACTER',
+      ],
+      robbingKong: true,
+    });
+    const results = HongKongScorer.calculateHandPoints(context) as HandPointResults;
+
+    expect(getHandNames(results)).toContain(HongKongFaanTable.ROBBING_THE_KONG.name);
+    expect(getHandNames(results)).not.toContain(HongKongFaanTable.SELF_DRAWN.name);
+    expect(results.extraPoints).toBe(1);
+  });
+
+  test('it should add win by kong replacement to the extra points', () => {
+    const context = createContext({
+      concealedTiles: [
+        '4_BAMBOO',
+        '5_BAMBOO',
+        '6_BAMBOO',
+        '7_BAMBOO',
+        '8_BAMBOO',
+        '9_BAMBOO',
+        '2_CHARACTER',
+        '3_CHARACTER',
+        '4_CHARACTER',
+        '5_CHARACTER',
+        '5_CHARACTER',
+      ],
+      exposedMelds: [{ tiles: ['1_DOT', '1_DOT', '1_DOT', '1_DOT'], type: MeldEnum.QUAD, concealed: true }],
+      selfDrawn: true,
+      kongReplacement: true,
+    });
+    const results = HongKongScorer.calculateHandPoints(context) as HandPointResults;
+
+    expect(getHandNames(results)).toContain(HongKongFaanTable.WIN_BY_KONG_REPLACEMENT.name);
+    expect(getHandNames(results)).toContain(HongKongFaanTable.SELF_DRAWN.name);
+    expect(results.extraPoints).toBe(2);
+  });
+
+  test('it should return undefined if the hand is not a winning hand', () => {
+    const context = createContext({ concealedTiles: ['1_DOT', '2_DOT', '4_DOT'] });
+    expect(HongKongScorer.calculateHandPoints(context)).toBeUndefined();
+  });
+
+  test('it should score a concealed all chows hand with self drawn', () => {
+    const context = createContext({
+      concealedTiles: [
+        '1_DOT',
+        '2_DOT',
+        '3_DOT',
+        '4_BAMBOO',
+        '5_BAMBOO',
+        '6_BAMBOO',
+        '7_BAMBOO',
+        '8_BAMBOO',
+        '9_BAMBOO',
+        '2_CHARACTER',
+        '3_CHARACTER',
+        '4_CHARACTER',
+        '5_CHARACTER',
+        '5_CHARACTER',
+      ],
+      selfDrawn: true,
+      winningTile: undefined,
+    });
+    const results = HongKongScorer.calculateHandPoints(context) as HandPointResults;
+
+    expect(getHandNames(results)).toStrictEqual([
+      HongKongFaanTable.ALL_CHOWS.name,
+      HongKongFaanTable.CONCEALED_HAND.name,
+      HongKongFaanTable.SELF_DRAWN.name,
+    ]);
+    expect(results.totalPoints).toBe(3);
+    expect(results.handPoints).toBe(1);
+    expect(results.concealedPoint).toBe(1);
+    expect(results.extraPoints).toBe(1);
+    expect(results.flowerPoints).toBe(0);
+    expect(results.wind).toBe(WindEnum.SOUTH);
+    expect(results.flower).toBe(2);
+  });
+
+  test('it should score winds, dragons, flowers and exposed melds', () => {
+    const context = createContext({
+      concealedTiles: ['REDDRAGON', 'REDDRAGON', 'REDDRAGON', '1_DOT', '1_DOT', '1_DOT', '9_DOT', '9_DOT'],
+      exposedMelds: [
+        { tiles: ['SOUTH', 'SOUTH', 'SOUTH'], type: MeldEnum.TRIPLET },
+        { tiles: ['EAST', 'EAST', 'EAST', 'EAST'], type: MeldEnum.QUAD },
+      ],
+      bonusTiles: ['2_FLOWER', '2_SEASON', '4_SEASON'],
+    });
+    const results = HongKongScorer.calculateHandPoints(context) as HandPointResults;
+
+    expect(getHandNames(results)).toIncludeSameMembers([
+      HongKongFaanTable.MIXED_ONE_SUIT.name,
+      HongKongFaanTable.MIXED_ORPHANS.name,
+      HongKongFaanTable.ALL_PUNGS.name,
+      HongKongFaanTable.SEAT_WIND.name,
+      HongKongFaanTable.PREVALENT_WIND.name,
+      HongKongFaanTable.DRAGON_PUNG.name,
+      HongKongFaanTable.SEAT_FLOWER.name,
+      HongKongFaanTable.SEAT_SEASON.name,
+    ]);
+    expect(results.windPoints).toBe(2);
+    expect(results.dragonPoints).toBe(1);
+    expect(results.flowerPoints).toBe(2);
+    expect(results.concealedPoint).toBe(0);
+    expect(results.totalPoints).toBe(12);
+    expect(results.tiles).toHaveLength(15);
+  });
+
+  test('it should pick the highest scoring decomposition', () => {
+    // 111222333 can be read as three chows or three pungs (all pungs scores more)
+    const context = createContext({
+      concealedTiles: [
+        '1_DOT',
+        '1_DOT',
+        '1_DOT',
+        '2_DOT',
+        '2_DOT',
+        '2_DOT',
+        '3_DOT',
+        '3_DOT',
+        '3_DOT',
+        '5_DOT',
+        '5_DOT',
+        '5_DOT',
+        '7_DOT',
+        '7_DOT',
+      ],
+      winningTile: '7_DOT',
+    });
+    const results = HongKongScorer.calculateHandPoints(context) as HandPointResults;
+
+    expect(getHandNames(results)).toContain(HongKongFaanTable.FOUR_CONCEALED_PUNGS.name);
+    expect(results.totalPoints).toBe(HONG_KONG_LIMIT_POINTS);
+  });
+
+  test('it should cap limit hands at the limit', () => {
+    const context = createContext({
+      concealedTiles: [
+        '1_DOT',
+        '9_DOT',
+        '1_BAMBOO',
+        '9_BAMBOO',
+        '1_CHARACTER',
+        '9_CHARACTER',
+        'EAST',
+        'SOUTH',
+        'WEST',
+        'NORTH',
+        'REDDRAGON',
+        'GREENDRAGON',
+        'WHITEDRAGON',
+        'WHITEDRAGON',
+      ],
+      selfDrawn: true,
+    });
+    const results = HongKongScorer.calculateHandPoints(context) as HandPointResults;
+
+    expect(getHandNames(results)).toContain(HongKongFaanTable.THIRTEEN_ORPHANS.name);
+    expect(results.totalPoints).toBe(HONG_KONG_LIMIT_POINTS);
+  });
+
+  test('it should score nine gates and big three dragons', () => {
+    const nineGates = createContext({
+      concealedTiles: [
+        '1_BAMBOO',
+        '1_BAMBOO',
+        '1_BAMBOO',
+        '2_BAMBOO',
+        '3_BAMBOO',
+        '4_BAMBOO',
+        '5_BAMBOO',
+        '5_BAMBOO',
+        '6_BAMBOO',
+        '7_BAMBOO',
+        '8_BAMBOO',
+        '9_BAMBOO',
+        '9_BAMBOO',
+        '9_BAMBOO',
+      ],
+      bonusTiles: [],
+    });
+    expect(getHandNames(HongKongScorer.calculateHandPoints(nineGates))).toContain(HongKongFaanTable.NINE_GATES.name);
+
+    const bigThreeDragons = createContext({
+      concealedTiles: ['WHITEDRAGON', 'WHITEDRAGON', 'WHITEDRAGON', '2_DOT', '3_DOT', '4_DOT', '6_BAMBOO', '6_BAMBOO'],
+      exposedMelds: [
+        { tiles: ['REDDRAGON', 'REDDRAGON', 'REDDRAGON'], type: MeldEnum.TRIPLET },
+        { tiles: ['GREENDRAGON', 'GREENDRAGON', 'GREENDRAGON'], type: MeldEnum.TRIPLET },
+      ],
+    });
+    const results = HongKongScorer.calculateHandPoints(bigThreeDragons) as HandPointResults;
+    expect(getHandNames(results)).toContain(HongKongFaanTable.BIG_THREE_DRAGONS.name);
+    expect(results.dragonPoints).toBe(HongKongFaanTable.BIG_THREE_DRAGONS.points);
+  });
+
+  test('it should score flower sets and no flowers', () => {
+    const concealedTiles = [
+      '1_DOT',
+      '2_DOT',
+      '3_DOT',
+      '4_BAMBOO',
+      '5_BAMBOO',
+      '6_BAMBOO',
+      '7_BAMBOO',
+      '8_BAMBOO',
+      '9_BAMBOO',
+      '2_CHARACTER',
+      '3_CHARACTER',
+      '4_CHARACTER',
+      '5_CHARACTER',
+      '5_CHARACTER',
+    ];
+    const allFlowers = createContext({
+      concealedTiles,
+      bonusTiles: ['1_FLOWER', '2_FLOWER', '3_FLOWER', '4_FLOWER', '1_SEASON'],
+    });
+    const noFlowers = createContext({ concealedTiles, bonusTiles: [] });
+
+    expect((HongKongScorer.calculateHandPoints(allFlowers) as HandPointResults).flowerPoints).toBe(2);
+    expect(getHandNames(HongKongScorer.calculateHandPoints(noFlowers))).toContain(HongKongFaanTable.NO_FLOWERS.name);
+  });
+
+  test.each([JapaneseRuleset, SanmaRuleset, SichuanRuleset])(
+    'it should not score flower patterns in games without flowers ($version)',
+    (ruleset) => {
+      const context = createContext({
+        concealedTiles: [
+          '1_DOT',
+          '2_DOT',
+          '3_DOT',
+          '4_BAMBOO',
+          '5_BAMBOO',
+          '6_BAMBOO',
+          '7_BAMBOO',
+          '8_BAMBOO',
+          '9_BAMBOO',
+          '2_DOT',
+          '3_DOT',
+          '4_DOT',
+          '5_DOT',
+          '5_DOT',
+        ],
+        // North winds extracted in sanma are not flowers
+        bonusTiles: ruleset.extractedTiles,
+        noFlowersInWall: !ruleset.hasFlowers,
+      });
+      const results = ruleset.calculateHandPoints(context) as HandPointResults;
+
+      expect(getHandNames(results)).not.toContain(HongKongFaanTable.NO_FLOWERS.name);
+      expect(results.flowerPoints).toBe(0);
+    },
+  );
+});
@@ -0,0 +1,41 @@
+import { HongKongSettlement } from '../../../../src/games/mahjong/Score/HongKongSettlement';
+import { WinTypeEnum } from '../../../../src/enums/WinTypeEnum';
+
+describe('test getPayment', () => {
+  test('it should double the payment for every faan', () => {
+    expect(HongKongSettlement.getPayment(0)).toBe(1);
+    expect(HongKongSettlement.getPayment(1)).toBe(2);
+    expect(HongKongSettlement.getPayment(3)).toBe(8);
+    expect(HongKongSettlement.getPayment(13)).toBe(8192);
+  });
+});
+
+describe('test calculateDeltas', () => {
+  test('it should make the discarder pay for a discard win', () => {
+    expect(HongKongSettlement.calculateDeltas(3, 1, WinTypeEnum.DISCARD, 3, 4)).toStrictEqual([0, 8, 0, -8]);
+  });
+
+  test('it should make the user adding a tile to a quad pay when it is robbed', () => {
+    expect(HongKongSettlement.calculateDeltas(2, 0, WinTypeEnum.ROBBING_THE_KONG, 2, 4)).toStrictEqual([4, 0, -4, 0]);
+  });
+
+  test('it should make every other user pay for a self-drawn win', () => {
+    expect(HongKongSettlement.calculateDeltas(2, 2, WinTypeEnum.SELF_DRAWN, undefined, 4)).toStrictEqual([
+      -4,
+      -4,
+      12,
+      -4,
+    ]);
+    expect(HongKongSettlement.calculateDeltas(1, 0, WinTypeEnum.KONG_REPLACEMENT, undefined, 4)).toStrictEqual([
+      6,
+      -2,
+      -2,
+      -2,
+    ]);
+  });
+
+  test('it should always add up to zero', () => {
+    const deltas = HongKongSettlement.calculateDeltas(5, 3, WinTypeEnum.SELF_DRAWN, undefined, 4);
+    expect(deltas.reduce((sum, delta) => sum + delta, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,192 @@
+import { MCRScorer } from '../../../../src/games/mahjong/Score/MCRScorer';
+import { MCRFanTable } from '../../../../src/games/mahjong/Score/MCRFanTable';
+import { WinningHandValidator } from '../../../../src/games/mahjong/Hand/WinningHandValidator';
+import { MeldEnum } from '../../../../src/enums/MeldEnum';
+import { createContextFactory, getHandNames } from './scoreTestHelpers';
+
+const CHICKEN_HAND_MELDS = [
+  { tiles: ['2_DOT', '3_DOT', '4_DOT'], type: MeldEnum.CONSECUTIVE },
+  { tiles: ['6_BAMBOO', '7_BAMBOO', '8_BAMBOO'], type: MeldEnum.CONSECUTIVE },
+];
+
+const CHICKEN_HAND = ['3_CHARACTER', '4_CHARACTER', '5_CHARACTER', '7_DOT', '7_DOT', '7_DOT', 'EAST', 'EAST'];
+
+const THIRTEEN_ORPHANS_HAND = [
+  '1_DOT',
+  '9_DOT',
+  '1_BAMBOO',
+  '9_BAMBOO',
+  '1_CHARACTER',
+  '9_CHARACTER',
+  'EAST',
+  'SOUTH',
+  'WEST',
+  'NORTH',
+  'REDDRAGON',
+  'GREENDRAGON',
+  'WHITEDRAGON',
+  '1_DOT',
+];
+
+const createContext = createContextFactory({
+  concealedTiles: CHICKEN_HAND,
+  exposedMelds: CHICKEN_HAND_MELDS,
+  winningTile: '5_CHARACTER',
+});
+
+describe('test calculateHandPoints', () => {
+  test('it should return undefined for a hand that is not complete', () => {
+    const context = createContext({ concealedTiles: CHICKEN_HAND.slice(1) });
+    expect(MCRScorer.calculateHandPoints(context)).toBeUndefined();
+  });
+
+  test('it should score chicken hand when no other fan is found', () => {
+    const results = MCRScorer.calculateHandPoints(createContext({}));
+
+    expect(getHandNames(results)).toStrictEqual([MCRFanTable.CHICKEN_HAND.name]);
+    expect(results?.totalPoints).toBe(8);
+  });
+
+  test('it should score every flower without counting it as a fan of the hand', () => {
+    const results = MCRScorer.calculateHandPoints(createContext({ bonusTiles: ['1_FLOWER', '2_SEASON'] }));
+
+    expect(getHandNames(results)).toStrictEqual([
+      MCRFanTable.CHICKEN_HAND.name,
+      MCRFanTable.FLOWER_TILES.name,
+      MCRFanTable.FLOWER_TILES.name,
+    ]);
+    expect(results?.flowerPoints).toBe(2);
+    expect(results?.totalPoints).toBe(10);
+  });
+
+  test('it should not count the fans excluded by a higher fan', () => {
+    const hand = [
+      '1_DOT',
+      '2_DOT',
+      '3_DOT',
+      '4_DOT',
+      '5_DOT',
+      '6_DOT',
+      '7_DOT',
+      '8_DOT',
+      '9_DOT',
+      '2_DOT',
+      '2_DOT',
+      '2_DOT',
+      '5_DOT',
+      '5_DOT',
+    ];
+    const names = getHandNames(
+      MCRScorer.calculateHandPoints(createContext({ concealedTiles: hand, exposedMelds: [] })),
+    );
+
+    expect(names).toContain(MCRFanTable.FULL_FLUSH.name);
+    expect(names).toContain(MCRFanTable.PURE_STRAIGHT.name);
+    expect(names).not.toContain(MCRFanTable.NO_HONORS.name);
+    expect(names).not.toContain(MCRFanTable.SHORT_STRAIGHT.name);
+    expect(names).not.toContain(MCRFanTable.TWO_TERMINAL_CHOWS.name);
+  });
+
+  test('it should score dragons and winds without their lower fans', () => {
+    const hand = [
+      'REDDRAGON',
+      'REDDRAGON',
+      'REDDRAGON',
+      'GREENDRAGON',
+      'GREENDRAGON',
+      'GREENDRAGON',
+      'WHITEDRAGON',
+      'WHITEDRAGON',
+      'WHITEDRAGON',
+      'EAST',
+      'EAST',
+      'EAST',
+      '9_DOT',
+      '9_DOT',
+    ];
+    const results = MCRScorer.calculateHandPoints(createContext({ concealedTiles: hand, exposedMelds: [] }));
+    const names = getHandNames(results);
+
+    expect(names).toContain(MCRFanTable.BIG_THREE_DRAGONS.name);
+    expect(names).toContain(MCRFanTable.PREVALENT_WIND.name);
+    expect(names).not.toContain(MCRFanTable.DRAGON_PUNG.name);
+    expect(names).not.toContain(MCRFanTable.TWO_DRAGON_PUNGS.name);
+    expect(names).not.toContain(MCRFanTable.PUNG_OF_TERMINALS_OR_HONORS.name);
+    expect(results?.dragonPoints).toBe(88);
+    expect(results?.windPoints).toBe(2);
+  });
+
+  test('it should score thirteen orphans and seven shifted pairs', () => {
+    const orphans = MCRScorer.calculateHandPoints(
+      createContext({ concealedTiles: THIRTEEN_ORPHANS_HAND, exposedMelds: [], winningTile: '1_DOT' }),
+    );
+    expect(getHandNames(orphans)).toStrictEqual([MCRFanTable.THIRTEEN_ORPHANS.name]);
+
+    const shiftedPairs = ['1', '2', '3', '4', '5', '6', '7'].reduce(
+      (tiles: string[], value) => [...tiles, `${value}_BAMBOO`, `${value}_BAMBOO`],
+      [],
+    );
+    const names = getHandNames(
+      MCRScorer.calculateHandPoints(createContext({ concealedTiles: shiftedPairs, exposedMelds: [] })),
+    );
+    expect(names).toContain(MCRFanTable.SEVEN_SHIFTED_PAIRS.name);
+    expect(names).not.toContain(MCRFanTable.SEVEN_PAIRS.name);
+    expect(names).not.toContain(MCRFanTable.FULL_FLUSH.name);
+  });
+
+  test('it should score knitted hands', () => {
+    const knittedStraight = WinningHandValidator.getKnittedStraight(WinningHandValidator.KNITTED_SUITS[0]);
+    const straightHand = [...knittedStraight, 'EAST', 'EAST', 'EAST', 'REDDRAGON', 'REDDRAGON'];
+    const straightNames = getHandNames(
+      MCRScorer.calculateHandPoints(
+        createContext({ concealedTiles: straightHand, exposedMelds: [], winningTile: 'REDDRAGON' }),
+      ),
+    );
+    expect(straightNames).toContain(MCRFanTable.KNITTED_STRAIGHT.name);
+    expect(straightNames).toContain(MCRFanTable.PREVALENT_WIND.name);
+
+    const honors = ['EAST', 'SOUTH', 'WEST', 'NORTH', 'REDDRAGON', 'GREENDRAGON', 'WHITEDRAGON'];
+    const greaterHand = [...honors, '1_DOT', '4_DOT', '7_DOT', '2_BAMBOO', '8_BAMBOO', '3_CHARACTER', '9_CHARACTER'];
+    const greaterNames = getHandNames(
+      MCRScorer.calculateHandPoints(createContext({ concealedTiles: greaterHand, exposedMelds: [] })),
+    );
+    expect(greaterNames).toStrictEqual([MCRFanTable.GREATER_HONORS_AND_KNITTED_TILES.name]);
+
+    const lesserHand = [...knittedStraight, ...honors.slice(0, 5)];
+    const lesserNames = getHandNames(
+      MCRScorer.calculateHandPoints(createContext({ concealedTiles: lesserHand, exposedMelds: [] })),
+    );
+    expect(lesserNames).toStrictEqual([
+      MCRFanTable.LESSER_HONORS_AND_KNITTED_TILES.name,
+      MCRFanTable.KNITTED_STRAIGHT.name,
+    ]);
+  });
+
+  test('it should score how the winning tile was drawn', () => {
+    const results = MCRScorer.calculateHandPoints(createContext({ selfDrawn: true, lastTileOfWall: true }));
+    const names = getHandNames(results);
+
+    expect(names).toContain(MCRFanTable.LAST_TILE_DRAW.name);
+    expect(names).not.toContain(MCRFanTable.SELF_DRAWN.name);
+    expect(names).not.toContain(MCRFanTable.CHICKEN_HAND.name);
+    expect(results?.extraPoints).toBe(8);
+  });
+
+  test('it should score a single wait on the pair', () => {
+    const hand = ['3_CHARACTER', '4_CHARACTER', '5_CHARACTER', '7_DOT', '7_DOT', '7_DOT', 'EAST', 'EAST'];
+    const names = getHandNames(
+      MCRScorer.calculateHandPoints(createContext({ concealedTiles: hand, winningTile: 'EAST' })),
+    );
+
+    expect(names).toContain(MCRFanTable.SINGLE_WAIT.name);
+  });
+});
+
+describe('test applyExclusions', () => {
+  test('it should remove every copy of an excluded fan', () => {
+    expect(MCRScorer.applyExclusions(['TWO_DRAGON_PUNGS', 'DRAGON_PUNG', 'DRAGON_PUNG', 'SEAT_WIND'])).toStrictEqual([
+      'TWO_DRAGON_PUNGS',
+      'SEAT_WIND',
+    ]);
+  });
+});
@@ -0,0 +1,17 @@
+import { MCRSettlement } from '../../../../src/games/mahjong/Score/MCRSettlement';
+import { WinTypeEnum } from '../../../../src/enums/WinTypeEnum';
+
+describe('test calculateDeltas', () => {
+  test('it should make the discarder pay the fan on top of the base payment', () => {
+    expect(MCRSettlement.calculateDeltas(10, 1, WinTypeEnum.DISCARD, 3, 4)).toStrictEqual([-8, 34, -8, -18]);
+  });
+
+  test('it should make every other user pay the fan for a self-drawn win', () => {
+    expect(MCRSettlement.calculateDeltas(8, 0, WinTypeEnum.SELF_DRAWN, undefined, 4)).toStrictEqual([
+      48,
+      -16,
+      -16,
+      -16,
+    ]);
+  });
+});
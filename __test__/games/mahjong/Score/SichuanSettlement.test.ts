@@ -0,0 +1,26 @@
+import { SichuanSettlement } from '../../../../src/games/mahjong/Score/SichuanSettlement';
+import { WinTypeEnum } from '../../../../src/enums/WinTypeEnum';
+
+describe('test calculateDeltas', () => {
+  test('it should make the discarder pay the doubled payment', () => {
+    expect(SichuanSettlement.calculateDeltas(3, 1, WinTypeEnum.DISCARD, 3, 4)).toStrictEqual([0, 8, 0, -8]);
+  });
+
+  test('it should make every other user pay for a self-drawn win', () => {
+    expect(SichuanSettlement.calculateDeltas(2, 0, WinTypeEnum.SELF_DRAWN, undefined, 4)).toStrictEqual([
+      12,
+      -4,
+      -4,
+      -4,
+    ]);
+  });
+
+  test('it should not make users who have already won pay for a self-drawn win', () => {
+    expect(SichuanSettlement.calculateDeltas(2, 0, WinTypeEnum.SELF_DRAWN, undefined, 4, [2])).toStrictEqual([
+      8,
+      -4,
+      0,
+      -4,
+    ]);
+  });
+});
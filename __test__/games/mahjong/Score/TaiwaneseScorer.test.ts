@@ -0,0 +1,146 @@
+import { TaiwaneseScorer } from '../../../../src/games/mahjong/Score/TaiwaneseScorer';
+import { TaiwaneseTaiTable } from '../../../../src/games/mahjong/Score/TaiwaneseTaiTable';
+import { MeldEnum } from '../../../../src/enums/MeldEnum';
+import { WindEnum } from '../../../../src/enums/WindEnum';
+import { createContextFactory, getHandNames } from './scoreTestHelpers';
+
+const ALL_CHOWS_HAND = [
+  '1_DOT',
+  '2_DOT',
+  '3_DOT',
+  '4_DOT',
+  '5_DOT',
+  '6_DOT',
+  '7_DOT',
+  '8_DOT',
+  '9_DOT',
+  '2_BAMBOO',
+  '3_BAMBOO',
+  '4_BAMBOO',
+  '5_CHARACTER',
+  '6_CHARACTER',
+  '7_CHARACTER',
+  '8_BAMBOO',
+  '8_BAMBOO',
+];
+
+const ALL_PUNGS_HAND = [
+  '1_DOT',
+  '1_DOT',
+  '1_DOT',
+  '2_BAMBOO',
+  '2_BAMBOO',
+  '2_BAMBOO',
+  '3_CHARACTER',
+  '3_CHARACTER',
+  '3_CHARACTER',
+  'WEST',
+  'WEST',
+  'WEST',
+  'NORTH',
+  'NORTH',
+  'NORTH',
+  '9_DOT',
+  '9_DOT',
+];
+
+const createContext = createContextFactory({ concealedTiles: ALL_CHOWS_HAND });
+
+describe('test calculateHandPoints', () => {
+  test('it should only score hands with five melds and a pair', () => {
+    const context = createContext({ concealedTiles: ALL_CHOWS_HAND.slice(3) });
+    expect(TaiwaneseScorer.calculateHandPoints(context)).toBeUndefined();
+  });
+
+  test('it should score all chows on a concealed discard win', () => {
+    const results = TaiwaneseScorer.calculateHandPoints(createContext({}));
+
+    expect(getHandNames(results)).toStrictEqual([
+      TaiwaneseTaiTable.ALL_CHOWS.name,
+      TaiwaneseTaiTable.CONCEALED_HAND.name,
+    ]);
+    expect(results?.totalPoints).toBe(3);
+  });
+
+  test('it should score concealed self drawn instead of self drawn for the dealer', () => {
+    const results = TaiwaneseScorer.calculateHandPoints(createContext({ seatWind: WindEnum.EAST, selfDrawn: true }));
+
+    expect(getHandNames(results)).toStrictEqual([
+      TaiwaneseTaiTable.CONCEALED_SELF_DRAWN.name,
+      TaiwaneseTaiTable.DEALER.name,
+    ]);
+    expect(results?.totalPoints).toBe(4);
+  });
+
+  test('it should score the flower and season of the seat', () => {
+    const results = TaiwaneseScorer.calculateHandPoints(
+      createContext({ bonusTiles: ['2_FLOWER', '3_FLOWER', '2_SEASON'] }),
+    );
+
+    expect(getHandNames(results)).toStrictEqual([
+      TaiwaneseTaiTable.SEAT_FLOWER.name,
+      TaiwaneseTaiTable.SEAT_SEASON.name,
+      TaiwaneseTaiTable.CONCEALED_HAND.name,
+    ]);
+    expect(results?.flowerPoints).toBe(2);
+  });
+
+  test('it should score a full set of flowers and all eight flowers', () => {
+    const allFlowers = ['1_FLOWER', '2_FLOWER', '3_FLOWER', '4_FLOWER'];
+    const allSeasons = ['1_SEASON', '2_SEASON', '3_SEASON', '4_SEASON'];
+
+    expect(TaiwaneseScorer.calculateHandPoints(createContext({ bonusTiles: allFlowers }))?.flowerPoints).toBe(
+      TaiwaneseTaiTable.ALL_FLOWERS.points,
+    );
+    expect(
+      TaiwaneseScorer.calculateHandPoints(createContext({ bonusTiles: [...allFlowers, ...allSeasons] }))?.flowerPoints,
+    ).toBe(TaiwaneseTaiTable.EIGHT_FLOWERS.points);
+  });
+
+  test('it should count five concealed pungs on a self drawn win', () => {
+    const results = TaiwaneseScorer.calculateHandPoints(
+      createContext({ concealedTiles: ALL_PUNGS_HAND, selfDrawn: true, winningTile: '1_DOT' }),
+    );
+
+    expect(getHandNames(results)).toStrictEqual([
+      TaiwaneseTaiTable.ALL_PUNGS.name,
+      TaiwaneseTaiTable.FIVE_CONCEALED_PUNGS.name,
+      TaiwaneseTaiTable.CONCEALED_SELF_DRAWN.name,
+    ]);
+    expect(results?.totalPoints).toBe(15);
+  });
+
+  test('it should not count a pung completed by a discard as concealed', () => {
+    const discardWin = TaiwaneseScorer.calculateHandPoints(
+      createContext({ concealedTiles: ALL_PUNGS_HAND, winningTile: '1_DOT' }),
+    );
+    const pairWin = TaiwaneseScorer.calculateHandPoints(
+      createContext({ concealedTiles: ALL_PUNGS_HAND, winningTile: '9_DOT' }),
+    );
+
+    expect(getHandNames(discardWin)).toContain(TaiwaneseTaiTable.FOUR_CONCEALED_PUNGS.name);
+    expect(getHandNames(pairWin)).toContain(TaiwaneseTaiTable.FIVE_CONCEALED_PUNGS.name);
+  });
+
+  test('it should score winds, dragons and all exposed melds', () => {
+    const exposedMelds = [
+      { tiles: ['SOUTH', 'SOUTH', 'SOUTH'], type: MeldEnum.TRIPLET },
+      { tiles: ['EAST', 'EAST', 'EAST'], type: MeldEnum.TRIPLET },
+      { tiles: ['REDDRAGON', 'REDDRAGON', 'REDDRAGON'], type: MeldEnum.TRIPLET },
+      { tiles: ['1_DOT', '2_DOT', '3_DOT'], type: MeldEnum.CONSECUTIVE },
+      { tiles: ['4_DOT', '5_DOT', '6_DOT'], type: MeldEnum.CONSECUTIVE },
+    ];
+    const results = TaiwaneseScorer.calculateHandPoints(
+      createContext({ concealedTiles: ['9_DOT', '9_DOT'], exposedMelds, winningTile: '9_DOT' }),
+    );
+
+    expect(getHandNames(results)).toStrictEqual([
+      TaiwaneseTaiTable.MIXED_ONE_SUIT.name,
+      TaiwaneseTaiTable.SEAT_WIND.name,
+      TaiwaneseTaiTable.PREVALENT_WIND.name,
+      TaiwaneseTaiTable.DRAGON_PUNG.name,
+      TaiwaneseTaiTable.ALL_EXPOSED.name,
+    ]);
+    expect(results?.totalPoints).toBe(9);
+  });
+});
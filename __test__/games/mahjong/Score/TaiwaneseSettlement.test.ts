@@ -0,0 +1,24 @@
+import { TaiwaneseSettlement } from '../../../../src/games/mahjong/Score/TaiwaneseSettlement';
+import { WinTypeEnum } from '../../../../src/enums/WinTypeEnum';
+
+describe('test getPayment', () => {
+  test('it should add a payment for every tai to the base payment', () => {
+    expect(TaiwaneseSettlement.getPayment(0)).toBe(2);
+    expect(TaiwaneseSettlement.getPayment(5)).toBe(7);
+  });
+});
+
+describe('test calculateDeltas', () => {
+  test('it should make the discarder pay for a discard win', () => {
+    expect(TaiwaneseSettlement.calculateDeltas(3, 1, WinTypeEnum.DISCARD, 3, 4)).toStrictEqual([0, 5, 0, -5]);
+  });
+
+  test('it should make every other user pay for a self-drawn win', () => {
+    expect(TaiwaneseSettlement.calculateDeltas(2, 0, WinTypeEnum.SELF_DRAWN, undefined, 4)).toStrictEqual([
+      12,
+      -4,
+      -4,
+      -4,
+    ]);
+  });
+});
@@ -0,0 +1,32 @@
+import { HandPointResults, WinningHandContext } from '../../../../src/games/mahjong/types/MahjongTypes';
+import { WindEnum } from '../../../../src/enums/WindEnum';
+
+/* ----------------------------------------------------------------------------
+ * Winning hand context
+ * ------------------------------------------------------------------------- */
+/*
+ * Create a function building winning hand contexts from the given defaults (a discard win by South in an East round),
+ * each context can override the defaults.
+ */
+export const createContextFactory = (defaults: Partial<WinningHandContext>) => (
+  overrides: Partial<WinningHandContext> = {},
+): WinningHandContext => {
+  return {
+    concealedTiles: [],
+    exposedMelds: [],
+    bonusTiles: [],
+    seatWind: WindEnum.SOUTH,
+    prevalentWind: WindEnum.EAST,
+    selfDrawn: false,
+    winningTile: '1_DOT',
+    ...defaults,
+    ...overrides,
+  };
+};
+
+/* ----------------------------------------------------------------------------
+ * Hand point results
+ * ------------------------------------------------------------------------- */
+export const getHandNames = (results: HandPointResults | undefined): string[] => {
+  return (results as HandPointResults).hands.map((hand) => hand.name);
+};
@@ -0,0 +1,13 @@
+import { JokerTile } from '../../../../src/games/mahjong/Tile/JokerTile';
+import { JokerTileTypes } from '../../../../src/games/mahjong/Tile/types/JokerTileTypes';
+
+test('JokerTile - getValue()', () => {
+  const jokerTile = new JokerTile();
+  expect(jokerTile.getValue()).toBe(-1);
+});
+
+test('JokerTile - toString()', () => {
+  const t = new JokerTile();
+  expect(t.getType()).toBe(JokerTileTypes.JOKER);
+  expect(t.toString()).toBe('JOKER');
+});
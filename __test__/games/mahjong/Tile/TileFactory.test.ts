@@ -2,6 +2,7 @@ import { TileFactory } from '../../../../src/games/mahjong/Tile/TileFactory';
 import { SimpleTile } from '../../../../src/games/mahjong/Tile/SimpleTile';
 import { HonorTile } from '../../../../src/games/mahjong/Tile/HonorTile';
 import { BonusTile } from '../../../../src/games/mahjong/Tile/BonusTile';
+import { JokerTile } from '../../../../src/games/mahjong/Tile/JokerTile';
 import { SimpleTileTypes } from '../../../../src/games/mahjong/Tile/types/SimpleTileTypes';
 import { BonusTileTypes } from '../../../../src/games/mahjong/Tile/types/BonusTileTypes';
 import { HonorTileTypes } from '../../../../src/games/mahjong/Tile/types/HonorTileTypes';
@@ -46,6 +47,12 @@ test('Tile Factory creates a Bonus Tile with the correct value when passed 2_SEA
   expect(t.getValue()).toBe(2);
 });
 
+test('Tile Factory creates a Joker Tile when passed JOKER', () => {
+  const t = TileFactory.createTileFromStringDef('JOKER');
+  expect(t).toBeInstanceOf(JokerTile);
+  expect(TileFactory.createStringDefFromTile(t)).toBe('JOKER');
+});
+
 describe('test static createStringDefFromTile', () => {
   test('it should create a string definition from a simple tile object', () => {
     const simpleTileDot = new SimpleTile(SimpleTileTypes.DOT, 1);
@@ -0,0 +1,32 @@
+import { AmericanWall } from '../../../../src/games/mahjong/Wall/version/AmericanWall';
+import { HandHelper } from '../../../../src/games/mahjong/Hand/HandHelper';
+import { DEFAULT_HAND_LENGTH } from '../../../../src/utils/constants';
+
+const AMERICAN_WALL_LENGTH = 152;
+
+test('wall to have 152 tiles with 8 jokers', () => {
+  const wall = new AmericanWall();
+  const counts = HandHelper.countTiles(wall.getTiles());
+
+  expect(wall.getTiles()).toHaveLength(AMERICAN_WALL_LENGTH);
+  expect(counts.JOKER).toBe(AmericanWall.JOKER_COUNT);
+  expect(counts['1_FLOWER']).toBe(1);
+});
+
+test('it should keep flowers and seasons in the initial hand', () => {
+  const wall = new AmericanWall();
+  wall.setTiles(['1_FLOWER', 'JOKER', ...Array(DEFAULT_HAND_LENGTH - 2).fill('1_DOT'), '2_DOT']);
+  const { hand, bonusTiles } = wall.getInitialTiles();
+
+  expect(hand).toHaveLength(DEFAULT_HAND_LENGTH);
+  expect(hand).toContain('1_FLOWER');
+  expect(hand).toContain('JOKER');
+  expect(bonusTiles).toStrictEqual([]);
+});
+
+test('it should reset the wall with jokers', () => {
+  const wall = new AmericanWall();
+  wall.reset();
+
+  expect(wall.getTiles()).toHaveLength(AMERICAN_WALL_LENGTH);
+});
@@ -14,6 +14,12 @@ test('Generate hand will yield a hand of 13 tiles', () => {
   expect(hand).toHaveLength(DEFAULT_HAND_LENGTH);
 });
 
+test('Generate hand will yield a hand of the hand length of the wall', () => {
+  const wall = new HongKongWall(16);
+  expect(wall.generateHand()).toHaveLength(16);
+  expect(wall.getCurrentTileIndex()).toBe(16);
+});
+
 test('Generate hand increment wall index by 13', () => {
   const wall = new HongKongWall();
   const hand = wall.generateHand();
@@ -53,6 +59,29 @@ test('Drawing from the wall increment index by 1', () => {
   expect(wall.getCurrentTileIndex()).toBe(10);
 });
 
+test('Drawing replacement tiles from the back of the wall shortens the live wall', () => {
+  const wall = new HongKongWall();
+  const tiles = wall.getTiles();
+
+  expect(wall.drawReplacement()).toBe(tiles[Wall.DEFAULT_WALL_LENGTH - 1]);
+  expect(wall.drawReplacement()).toBe(tiles[Wall.DEFAULT_WALL_LENGTH - 2]);
+  expect(wall.getReplacementTileCount()).toBe(2);
+  expect(wall.getLiveWallLength()).toBe(Wall.DEFAULT_WALL_LENGTH - 2);
+  expect(wall.getCurrentTileIndex()).toBe(0);
+});
+
+test('Drawing from the front stops at the end of the live wall', () => {
+  const wall = new HongKongWall();
+  wall.drawReplacement();
+
+  for (let i = 0; i < Wall.DEFAULT_WALL_LENGTH - 1; i += 1) {
+    expect(wall.draw()).toBeTruthy();
+  }
+
+  expect(wall.draw()).toBeNull();
+  expect(wall.drawReplacement()).toBeNull();
+});
+
 test('able to rest the wall', () => {
   const wall = new HongKongWall();
   const originalWall = wall.getTiles();
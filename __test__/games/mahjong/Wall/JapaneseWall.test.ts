@@ -0,0 +1,63 @@
+import { JapaneseWall } from '../../../../src/games/mahjong/Wall/version/JapaneseWall';
+import { HandHelper } from '../../../../src/games/mahjong/Hand/HandHelper';
+import { DEFAULT_HAND_LENGTH } from '../../../../src/utils/constants';
+
+const JAPANESE_WALL_LENGTH = 136;
+
+test('wall to have 136 tiles split between the live wall and a 14 tile dead wall', () => {
+  const wall = new JapaneseWall();
+  const allTiles = [...wall.getTiles(), ...wall.getDeadWall()];
+
+  expect(wall.getDeadWall()).toHaveLength(JapaneseWall.DEAD_WALL_LENGTH);
+  expect(wall.getTiles()).toHaveLength(JAPANESE_WALL_LENGTH - JapaneseWall.DEAD_WALL_LENGTH);
+  expect(allTiles.some((tile) => HandHelper.isBonusTile(tile))).toBeFalsy();
+  expect(allTiles.some((tile) => HandHelper.isRedFive(tile))).toBeFalsy();
+});
+
+test('red fives replace one five of each suit', () => {
+  const wall = new JapaneseWall(true);
+  const allTiles = [...wall.getTiles(), ...wall.getDeadWall()];
+  const counts = HandHelper.countTiles(allTiles);
+
+  expect(allTiles).toHaveLength(JAPANESE_WALL_LENGTH);
+  JapaneseWall.RED_FIVE_TILES.forEach((redFive) => {
+    expect(counts[redFive]).toBe(1);
+    expect(counts[HandHelper.getBaseTile(redFive)]).toBe(3);
+  });
+});
+
+test('the dora indicator is the first tile of the dead wall', () => {
+  const wall = new JapaneseWall();
+  const deadWall = wall.getDeadWall();
+
+  expect(wall.getDoraIndicator()).toBe(deadWall[0]);
+});
+
+test('drawing from the front stops at the end of the live wall', () => {
+  const wall = new JapaneseWall();
+  const liveWallLength = JAPANESE_WALL_LENGTH - JapaneseWall.DEAD_WALL_LENGTH;
+
+  for (let i = 0; i < liveWallLength; i += 1) {
+    expect(wall.draw()).toBeTruthy();
+  }
+
+  expect(wall.draw()).toBeNull();
+});
+
+test('it should get 13 tiles as initial hand and no bonus tiles', () => {
+  const wall = new JapaneseWall();
+  const { hand, bonusTiles } = wall.getInitialTiles();
+
+  expect(hand).toHaveLength(DEFAULT_HAND_LENGTH);
+  expect(bonusTiles).toStrictEqual([]);
+});
+
+test('able to reset the wall', () => {
+  const wall = new JapaneseWall(true);
+  const originalTiles = [...wall.getTiles(), ...wall.getDeadWall()];
+
+  wall.reset();
+
+  expect([...wall.getTiles(), ...wall.getDeadWall()]).toIncludeSameMembers(originalTiles);
+  expect(wall.getDeadWall()).toHaveLength(JapaneseWall.DEAD_WALL_LENGTH);
+});
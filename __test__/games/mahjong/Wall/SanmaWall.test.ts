@@ -0,0 +1,43 @@
+import { SanmaWall } from '../../../../src/games/mahjong/Wall/version/SanmaWall';
+import { JapaneseWall } from '../../../../src/games/mahjong/Wall/version/JapaneseWall';
+import { HandHelper } from '../../../../src/games/mahjong/Hand/HandHelper';
+import { DEFAULT_HAND_LENGTH } from '../../../../src/utils/constants';
+
+const SANMA_WALL_LENGTH = 108;
+
+test('wall to have 108 tiles without the 2 to 8 of characters', () => {
+  const wall = new SanmaWall();
+  const allTiles = [...wall.getTiles(), ...wall.getDeadWall()];
+  const counts = HandHelper.countTiles(allTiles);
+
+  expect(allTiles).toHaveLength(SANMA_WALL_LENGTH);
+  expect(wall.getDeadWall()).toHaveLength(JapaneseWall.DEAD_WALL_LENGTH);
+  expect(counts['1_CHARACTER']).toBe(4);
+  expect(counts['9_CHARACTER']).toBe(4);
+  ['2', '3', '4', '5', '6', '7', '8'].forEach((value) => {
+    expect(counts[`${value}_CHARACTER`]).toBeUndefined();
+  });
+});
+
+test('red fives only replace the fives of dots and bamboo', () => {
+  const wall = new SanmaWall(true);
+  const allTiles = [...wall.getTiles(), ...wall.getDeadWall()];
+  const counts = HandHelper.countTiles(allTiles);
+
+  expect(allTiles).toHaveLength(SANMA_WALL_LENGTH);
+  expect(counts['5_DOT_RED']).toBe(1);
+  expect(counts['5_BAMBOO_RED']).toBe(1);
+  expect(counts['5_CHARACTER_RED']).toBeUndefined();
+});
+
+test('it should extract north winds from the initial hand and replace them', () => {
+  const wall = new SanmaWall();
+  wall.setTiles(['NORTH', ...Array(DEFAULT_HAND_LENGTH - 1).fill('1_DOT'), '2_DOT', '3_DOT', 'NORTH']);
+  const { hand, bonusTiles } = wall.getInitialTiles();
+
+  expect(hand).toHaveLength(DEFAULT_HAND_LENGTH);
+  expect(hand).not.toContain('NORTH');
+  expect(hand).toContain('3_DOT');
+  expect(bonusTiles).toStrictEqual(['NORTH', 'NORTH']);
+  expect(wall.getReplacementTileCount()).toBe(2);
+});
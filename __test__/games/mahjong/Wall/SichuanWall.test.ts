@@ -0,0 +1,28 @@
+import { SichuanWall } from '../../../../src/games/mahjong/Wall/version/SichuanWall';
+import { HandHelper } from '../../../../src/games/mahjong/Hand/HandHelper';
+import { DEFAULT_HAND_LENGTH } from '../../../../src/utils/constants';
+
+test('wall to have 108 simple tiles', () => {
+  const wall = new SichuanWall();
+  const tiles = wall.getTiles();
+
+  expect(tiles).toHaveLength(SichuanWall.WALL_LENGTH);
+  expect(tiles.every((tile) => HandHelper.isSimpleTile(tile))).toBe(true);
+  expect(HandHelper.countTiles(tiles)['9_CHARACTER']).toBe(4);
+});
+
+test('it should deal an initial hand without bonus tiles', () => {
+  const wall = new SichuanWall();
+  const { hand, bonusTiles } = wall.getInitialTiles();
+
+  expect(hand).toHaveLength(DEFAULT_HAND_LENGTH);
+  expect(bonusTiles).toStrictEqual([]);
+});
+
+test('it should reset the wall', () => {
+  const wall = new SichuanWall();
+  wall.generateHand();
+  wall.reset();
+
+  expect(wall.getTiles()).toHaveLength(SichuanWall.WALL_LENGTH);
+});
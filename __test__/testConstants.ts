@@ -1,5 +1,6 @@
-import { DEFAULT_DOCUMENT_VERSION } from '../src/utils/constants';
+import { DEFAULT_DOCUMENT_VERSION, DEFAULT_MAX_USERS_IN_GAME } from '../src/utils/constants';
 import { GameStatesEnum } from '../src/enums/states';
+import { MatchLengthEnum } from '../src/enums/MatchLengthEnum';
 
 /* ----------------------------------------------------------------------------
  * User
@@ -32,6 +33,10 @@ export const TEST_GAME_OBJECT1 = {
   gameName: FAKE_GAME_NAME1,
   gameType: FAKE_GAME_TYPE1,
   gameVersion: FAKE_GAME_VERSION1,
+  matchLength: MatchLengthEnum.FULL,
+  dealerRetention: { onWin: true, onDraw: true },
+  redFives: false,
+  playerCount: DEFAULT_MAX_USERS_IN_GAME,
   started: false,
   state: GameStatesEnum.CREATED,
   version: DEFAULT_DOCUMENT_VERSION,
@@ -43,6 +48,10 @@ export const TEST_GAME_OBJECT2 = {
   gameName: FAKE_GAME_NAME2,
   gameType: FAKE_GAME_TYPE2,
   gameVersion: FAKE_GAME_VERSION2,
+  matchLength: MatchLengthEnum.EAST_ONLY,
+  dealerRetention: { onWin: true, onDraw: false },
+  redFives: false,
+  playerCount: DEFAULT_MAX_USERS_IN_GAME,
   started: false,
   state: GameStatesEnum.CREATED,
   version: DEFAULT_DOCUMENT_VERSION,
@@ -0,0 +1,85 @@
+import { getStandings, getWindRoundCount, isDealerRetained, isFinalRound } from '../../src/utils/matchHelper';
+import { MatchLengthEnum } from '../../src/enums/MatchLengthEnum';
+import {
+  FAKE_CONNECTION_ID1,
+  FAKE_CONNECTION_ID2,
+  FAKE_CONNECTION_ID3,
+  FAKE_CONNECTION_ID4,
+  TEST_USER_OBJECT1,
+  TEST_USER_OBJECT2,
+  TEST_USER_OBJECT3,
+} from '../testConstants';
+
+const TEST_USERS = [TEST_USER_OBJECT1, TEST_USER_OBJECT2, TEST_USER_OBJECT3, { connectionId: FAKE_CONNECTION_ID4 }];
+
+describe('test isDealerRetained', () => {
+  test('it should keep the dealer on a dealer win or a draw by default', () => {
+    expect(isDealerRetained(FAKE_CONNECTION_ID1, FAKE_CONNECTION_ID1)).toBe(true);
+    expect(isDealerRetained(FAKE_CONNECTION_ID1, undefined)).toBe(true);
+    expect(isDealerRetained(FAKE_CONNECTION_ID1, FAKE_CONNECTION_ID2)).toBe(false);
+  });
+
+  test('it should follow the dealer retention rules of the game', () => {
+    const rules = { onWin: false, onDraw: false };
+    expect(isDealerRetained(FAKE_CONNECTION_ID1, FAKE_CONNECTION_ID1, rules)).toBe(false);
+    expect(isDealerRetained(FAKE_CONNECTION_ID1, undefined, rules)).toBe(false);
+    expect(isDealerRetained(FAKE_CONNECTION_ID1, undefined, { onWin: true, onDraw: false })).toBe(false);
+    expect(isDealerRetained(FAKE_CONNECTION_ID1, FAKE_CONNECTION_ID1, { onWin: true, onDraw: false })).toBe(true);
+  });
+});
+
+describe('test getWindRoundCount', () => {
+  test('it should get the number of wind rounds of each match length', () => {
+    expect(getWindRoundCount(MatchLengthEnum.EAST_ONLY)).toBe(1);
+    expect(getWindRoundCount(MatchLengthEnum.EAST_SOUTH)).toBe(2);
+    expect(getWindRoundCount(MatchLengthEnum.FULL)).toBe(4);
+  });
+
+  test('it should play four wind rounds if the match length is not set', () => {
+    expect(getWindRoundCount(undefined)).toBe(4);
+  });
+});
+
+describe('test isFinalRound', () => {
+  test('it should end the match after the last user deals in the last wind round', () => {
+    expect(isFinalRound(3, 0, MatchLengthEnum.EAST_ONLY)).toBe(true);
+    expect(isFinalRound(3, 1, MatchLengthEnum.EAST_SOUTH)).toBe(true);
+    expect(isFinalRound(3, 3, MatchLengthEnum.FULL)).toBe(true);
+  });
+
+  test('it should not end the match before the last round', () => {
+    expect(isFinalRound(2, 0, MatchLengthEnum.EAST_ONLY)).toBe(false);
+    expect(isFinalRound(3, 0, MatchLengthEnum.EAST_SOUTH)).toBe(false);
+    expect(isFinalRound(3, 2, MatchLengthEnum.FULL)).toBe(false);
+  });
+
+  test('it should end the match after the third user deals in a three-player game', () => {
+    expect(isFinalRound(2, 0, MatchLengthEnum.EAST_ONLY, 3)).toBe(true);
+    expect(isFinalRound(1, 0, MatchLengthEnum.EAST_ONLY, 3)).toBe(false);
+  });
+
+  test('it should end a full three-player match after the west round', () => {
+    expect(isFinalRound(2, 2, MatchLengthEnum.FULL, 3)).toBe(true);
+    expect(isFinalRound(2, 1, MatchLengthEnum.FULL, 3)).toBe(false);
+  });
+});
+
+describe('test getStandings', () => {
+  test('it should rank users from the highest to the lowest score', () => {
+    expect(
+      getStandings(TEST_USERS, [-8, 16, 0, -8]).map(({ connectionId, rank }) => [connectionId, rank]),
+    ).toStrictEqual([
+      [FAKE_CONNECTION_ID2, 1],
+      [FAKE_CONNECTION_ID3, 2],
+      [FAKE_CONNECTION_ID1, 3],
+      [FAKE_CONNECTION_ID4, 3],
+    ]);
+  });
+
+  test('it should give a score of 0 to users without a score', () => {
+    expect(getStandings(TEST_USERS.slice(0, 2), [])).toStrictEqual([
+      { connectionId: FAKE_CONNECTION_ID1, username: undefined, score: 0, rank: 1 },
+      { connectionId: FAKE_CONNECTION_ID2, username: undefined, score: 0, rank: 1 },
+    ]);
+  });
+});
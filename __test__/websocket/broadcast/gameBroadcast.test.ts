@@ -0,0 +1,52 @@
+import { broadcastDrawTileToUser } from '../../../src/websocket/broadcast/gameBroadcast';
+import { getGameStateByGameId, initGameState } from '../../../src/dynamodb/gameStateDBService';
+import { GameState } from '../../../src/models/GameState';
+import { WebSocketActionsEnum } from '../../../src/enums/WebSocketActionsEnum';
+import { MahjongVersions } from '../../../src/games/mahjong/Wall/version/Versions';
+import { JapaneseRuleset } from '../../../src/games/mahjong/Ruleset/version/JapaneseRuleset';
+import { testCreateGame } from '../../dynamodb/dbTestHelpers';
+import { createTestWebSocketClient } from '../../functions/functionsTestHelpers';
+import {
+  FAKE_CONNECTION_ID1,
+  FAKE_CONNECTION_ID2,
+  FAKE_CONNECTION_ID3,
+  FAKE_CONNECTION_ID4,
+} from '../../testConstants';
+
+const CONNECTION_IDS = [FAKE_CONNECTION_ID1, FAKE_CONNECTION_ID2, FAKE_CONNECTION_ID3, FAKE_CONNECTION_ID4];
+
+/* ----------------------------------------------------------------------------
+ * Test broadcastDrawTileToUser
+ * ------------------------------------------------------------------------- */
+describe('test broadcastDrawTileToUser', () => {
+  let gameId: string;
+
+  beforeEach(async () => {
+    ({ gameId } = await testCreateGame(CONNECTION_IDS, MahjongVersions.Japanese));
+    await initGameState(gameId, CONNECTION_IDS, JapaneseRuleset);
+  });
+
+  test('it should draw a replacement tile for a quad and reveal a new dora indicator', async () => {
+    const ws = createTestWebSocketClient();
+    await broadcastDrawTileToUser(ws, gameId, FAKE_CONNECTION_ID1, true, true);
+    const { lastDraw } = (await getGameStateByGameId(gameId)) as GameState;
+
+    expect(lastDraw?.fromKong).toBe(true);
+    expect(ws.send).toHaveBeenCalledWith(
+      expect.objectContaining({ action: WebSocketActionsEnum.DORA_INDICATORS }),
+      FAKE_CONNECTION_ID1,
+    );
+  });
+
+  test('it should draw a replacement tile for a flower without revealing a dora indicator', async () => {
+    const ws = createTestWebSocketClient();
+    await broadcastDrawTileToUser(ws, gameId, FAKE_CONNECTION_ID1, true);
+    const { lastDraw } = (await getGameStateByGameId(gameId)) as GameState;
+
+    expect(lastDraw?.fromKong).toBe(false);
+    expect(ws.send).not.toHaveBeenCalledWith(
+      expect.objectContaining({ action: WebSocketActionsEnum.DORA_INDICATORS }),
+      expect.anything(),
+    );
+  });
+});
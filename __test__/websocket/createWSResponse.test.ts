@@ -18,6 +18,14 @@ import {
   createGamePageLoadResponse,
   createDrawTileResponse,
   createPlayTileResponse,
+  createWinRoundResponse,
+  createRevealBonusTilesResponse,
+  createWaitingTilesResponse,
+  createScoreUpdateResponse,
+  createGameOverResponse,
+  createRiichiResponse,
+  createDoraIndicatorsResponse,
+  createMissingSuitResponse,
 } from '../../src/websocket/createWSResponse';
 import {
   CreateGamePayload,
@@ -32,6 +40,7 @@ import {
 } from '../../src/types/payload';
 import {
   FAKE_CONNECTION_ID1,
+  FAKE_CONNECTION_ID2,
   TEST_GAME_OBJECT1,
   TEST_GAME_OBJECT2,
   TEST_USER_OBJECT1,
@@ -289,11 +298,17 @@ describe('test createGamePageLoadResponse', () => {
 describe('test createGameStartResponse', () => {
   test('it should get the correct response', () => {
     const testTiles = [''];
-    const response = createGameStartResponse({ tiles: testTiles, selfPlayedTiles: [], currentIndex: 52 });
+    const response = createGameStartResponse({
+      tiles: testTiles,
+      selfPlayedTiles: [],
+      currentIndex: 52,
+      doraIndicators: [],
+    });
     const expectedPayload = {
       tiles: testTiles,
       selfPlayedTiles: [],
       currentIndex: 52,
+      doraIndicators: [],
     };
     const expectedResponse = {
       action: WebSocketActionsEnum.GAME_START,
@@ -338,6 +353,132 @@ describe('test createPlayTileResponse', () => {
   });
 });
 
+describe('test createWinRoundResponse', () => {
+  test('it should get the correct response', () => {
+    const response = createWinRoundResponse();
+    const expectedResponse = {
+      action: WebSocketActionsEnum.WIN_ROUND,
+      payload: {},
+    };
+
+    expect(response.payload).toStrictEqual({});
+    expect(response).toStrictEqual(expectedResponse);
+  });
+});
+
+describe('test createRevealBonusTilesResponse', () => {
+  test('it should get the correct response', () => {
+    const expectedPayload = {
+      connectionId: FAKE_CONNECTION_ID1,
+      bonusTiles: ['1_FLOWER', '3_SEASON'],
+    };
+    const response = createRevealBonusTilesResponse(expectedPayload);
+    const expectedResponse = {
+      action: WebSocketActionsEnum.REVEAL_BONUS_TILES,
+      payload: expectedPayload,
+    };
+
+    expect(response).toStrictEqual(expectedResponse);
+  });
+});
+
+describe('test createWaitingTilesResponse', () => {
+  test('it should get the correct response', () => {
+    const expectedPayload = {
+      waitingTiles: [
+        { tile: '1_DOT', unseenCount: 2 },
+        { tile: '4_DOT', unseenCount: 3 },
+      ],
+    };
+    const response = createWaitingTilesResponse(expectedPayload);
+    const expectedResponse = {
+      action: WebSocketActionsEnum.WAITING_TILES,
+      payload: expectedPayload,
+    };
+
+    expect(response).toStrictEqual(expectedResponse);
+  });
+});
+
+describe('test createScoreUpdateResponse', () => {
+  test('it should get the correct response', () => {
+    const expectedPayload = {
+      roundScore: { dealer: 0, wind: 0, points: 0, deltas: [0, 0, 0, 0] },
+      scores: [8, -8, 0, 0],
+    };
+    const response = createScoreUpdateResponse(expectedPayload);
+    const expectedResponse = {
+      action: WebSocketActionsEnum.SCORE_UPDATE,
+      payload: expectedPayload,
+    };
+
+    expect(response).toStrictEqual(expectedResponse);
+  });
+});
+
+describe('test createGameOverResponse', () => {
+  test('it should get the correct response', () => {
+    const expectedPayload = {
+      gameId: FAKE_GAME_ID1,
+      standings: [
+        { connectionId: FAKE_CONNECTION_ID2, score: 8, rank: 1 },
+        { connectionId: FAKE_CONNECTION_ID1, score: -8, rank: 2 },
+      ],
+    };
+    const response = createGameOverResponse(expectedPayload);
+    const expectedResponse = {
+      action: WebSocketActionsEnum.GAME_OVER,
+      payload: expectedPayload,
+    };
+
+    expect(response).toStrictEqual(expectedResponse);
+  });
+});
+
+describe('test createRiichiResponse', () => {
+  test('it should get the correct response', () => {
+    const expectedPayload = {
+      connectionId: FAKE_CONNECTION_ID1,
+      tile: '1_DOT',
+      riichiSticks: 1,
+      scores: [24000, 25000, 25000, 25000],
+    };
+    const response = createRiichiResponse(expectedPayload);
+    const expectedResponse = {
+      action: WebSocketActionsEnum.RIICHI,
+      payload: expectedPayload,
+    };
+
+    expect(response).toStrictEqual(expectedResponse);
+  });
+});
+
+describe('test createDoraIndicatorsResponse', () => {
+  test('it should get the correct response', () => {
+    const expectedPayload = { doraIndicators: ['9_DOT', 'NORTH'] };
+    const response = createDoraIndicatorsResponse(expectedPayload);
+    const expectedResponse = {
+      action: WebSocketActionsEnum.DORA_INDICATORS,
+      payload: expectedPayload,
+    };
+
+    expect(response).toStrictEqual(expectedResponse);
+  });
+});
+
+describe('test createMissingSuitResponse', () => {
+  test('it should get the correct response', () => {
+    const expectedPayload = { missingSuits: ['DOT', 'BAMBOO', 'DOT', 'CHARACTER'] };
+    const response = createMissingSuitResponse(expectedPayload);
+    const expectedResponse = {
+      action: WebSocketActionsEnum.DECLARE_MISSING_SUIT,
+      payload: expectedPayload,
+    };
+
+    expect(response).toStrictEqual(expectedResponse);
+  });
+});
+
 /* ----------------------------------------------------------------------------
  * Success and Failure Response
  * ------------------------------------------------------------------------- */
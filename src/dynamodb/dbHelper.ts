@@ -1,7 +1,10 @@
 import { DocumentClient } from 'aws-sdk/lib/dynamodb/document_client';
 import { HasVersion } from '../models/Version';
 import { UserHand } from '../models/GameState';
-import { HongKongWall } from '../games/mahjong/Wall/version/HongKongWall';
+import { Wall } from '../games/mahjong/Wall/Wall';
+import { MeldEnum } from '../enums/MeldEnum';
+import { Game } from '../models/Game';
+import { DEFAULT_MAX_USERS_IN_GAME } from '../utils/constants';
 
 /**
  * Remove version attribute from a Game object.
@@ -51,7 +54,75 @@ export const getHandByConnectionId = (hands: UserHand[], connectionId: string):
   }) as UserHand;
 };
 
-export const generateHongKongMahjongHands = (initialWall: HongKongWall, connectionIds: string[]): UserHand[] => {
+/**
+ * Get the index of a user hand in the hands list (used to build document paths like hands[0].hand).
+ * @param {UserHand[]} hands hands of all users in a game
+ * @param {string} connectionId connection Id
+ * @returns index of the hand, or -1 if the hand is not found
+ */
+export const getHandIndexByConnectionId = (hands: UserHand[], connectionId: string): number => {
+  return hands.findIndex((hand) => hand.connectionId === connectionId);
+};
+
+/**
+ * Get the seat of the next user still playing in the round, users who have already won (Sichuan) are skipped.
+ * @param {UserHand[]} hands hands of all users in a game
+ * @param {number} seatIndex seat of the current user
+ * @returns seat of the next user still playing, or seatIndex if every other user has won
+ */
+export const getNextSeatInPlay = (hands: UserHand[], seatIndex: number): number => {
+  for (let offset = 1; offset < hands.length; offset += 1) {
+    const nextSeatIndex = (seatIndex + offset) % hands.length;
+    if (!hands[nextSeatIndex].hasWon) return nextSeatIndex;
+  }
+
+  return seatIndex;
+};
+
+/**
+ * Get the number of users needed to play a game, games created before the player count was stored have 4 users.
+ * @param {Game} game a game
+ */
+export const getPlayerCount = (game: Game): number => {
+  return game.playerCount || DEFAULT_MAX_USERS_IN_GAME;
+};
+
+/**
+ * Count the quads declared by all users in the current round.
+ * @param {UserHand[]} hands hands of all users in a game
+ */
+export const getQuadCount = (hands: UserHand[]): number => {
+  return hands.reduce(
+    (count, { exposedMelds = [] }) => count + exposedMelds.filter((meld) => meld.type === MeldEnum.QUAD).length,
+    0,
+  );
+};
+
+/**
+ * Find a different index in the hand for each tile.
+ * @param {string[]} hand tiles in a user hand
+ * @param {string[]} tiles tiles to look for
+ * @returns indexes of the tiles (in the same order as tiles), or undefined if any tile is missing
+ */
+export const getTileIndexesInHand = (hand: string[], tiles: string[]): number[] | undefined => {
+  const tileIndexes: number[] = [];
+
+  for (let i = 0; i < tiles.length; i += 1) {
+    const tileIndex = hand.findIndex((tile, index) => tile === tiles[i] && !tileIndexes.includes(index));
+    if (tileIndex === -1) return undefined;
+
+    tileIndexes.push(tileIndex);
+  }
+
+  return tileIndexes;
+};
+
+/**
+ * Deal the initial hand of each user from a wall (bonus tiles in a hand are played right away).
+ * @param {Wall} initialWall a new wall
+ * @param {string[]} connectionIds connection Ids of all the users in a game
+ */
+export const generateMahjongHands = (initialWall: Wall, connectionIds: string[]): UserHand[] => {
   const hands: UserHand[] = [];
   connectionIds.forEach((connectionId: string) => {
     const { hand: initHand, bonusTiles } = initialWall.getInitialTiles();
@@ -60,6 +131,8 @@ export const generateHongKongMahjongHands = (initialWall: HongKongWall, connecti
       connectionId,
       hand: initHand,
       playedTiles: bonusTiles,
+      exposedMelds: [],
+      discards: [],
     };
     hands.push(hand);
   });
@@ -1,12 +1,15 @@
 import { DocumentClient } from 'aws-sdk/lib/dynamodb/document_client';
 import { v4 as uuid } from 'uuid';
-import { Game } from '../models/Game';
+import { DealerRetention, Game } from '../models/Game';
 import { DEFAULT_DOCUMENT_VERSION, DEFAULT_MAX_USERS_IN_GAME, GAMES_TABLE } from '../utils/constants';
 import { DB } from './db';
 import { getUserByConnectionId } from './userDBService';
 import { GameStatesEnum } from '../enums/states';
-import { parseDynamoDBAttribute, parseDynamoDBItem, parseDynamoDBItemList } from './dbHelper';
+import { MatchLengthEnum } from '../enums/MatchLengthEnum';
+import { DEFAULT_DEALER_RETENTION } from '../utils/matchHelper';
+import { getPlayerCount, parseDynamoDBAttribute, parseDynamoDBItem, parseDynamoDBItemList } from './dbHelper';
 import { User } from '../models/User';
+import { RulesetFactory } from '../games/mahjong/Ruleset/RulesetFactory';
 
 /* ----------------------------------------------------------------------------
  * Interface
@@ -16,6 +19,9 @@ interface CreateGameParams {
   gameName?: string;
   gameType?: string;
   gameVersion?: string;
+  matchLength?: string;
+  dealerRetention?: DealerRetention;
+  redFives?: boolean;
 }
 
 /* ----------------------------------------------------------------------------
@@ -27,12 +33,18 @@ interface CreateGameParams {
  * @param {string} gameName game name
  * @param {string} gameType game type
  * @param {string} gameVersion game version
+ * @param {string} matchLength match length (default: full four winds)
+ * @param {DealerRetention} dealerRetention when the dealer keeps the seat (default: on a win or a draw)
+ * @param {boolean} redFives replace one five of each suit by a red five (default: false)
  */
 export const createGame = async ({
   creatorConnectionId,
   gameName,
   gameType,
   gameVersion,
+  matchLength,
+  dealerRetention,
+  redFives,
 }: CreateGameParams): Promise<Game> => {
   // Get user by connectionId
   const user = await getUserByConnectionId(creatorConnectionId);
@@ -49,6 +61,10 @@ export const createGame = async ({
     gameName: gameName || '',
     gameType: gameType || '',
     gameVersion: gameVersion || '',
+    matchLength: matchLength || MatchLengthEnum.FULL,
+    dealerRetention: dealerRetention || DEFAULT_DEALER_RETENTION,
+    redFives: redFives || false,
+    playerCount: RulesetFactory.getRuleset(gameType, gameVersion).playerCount,
     state: GameStatesEnum.CREATED,
     started: false,
     gameLoadedCount: 0,
@@ -139,6 +155,9 @@ export const addUserToGame = async (gameId: string, connectionId: string): Promi
   users.forEach((userInGame) => {
     if (userInGame.connectionId === connectionId) throw Error('addUserToGame: user is already in the game');
   });
+  if (users.length >= getPlayerCount(game)) {
+    throw Error('addUserToGame: game is full');
+  }
   const updatedUsers = [...users, user];
 
   const updateParam: DocumentClient.UpdateItemInput = {
@@ -240,7 +259,8 @@ export const startGame = async (gameId: string, callerConnectionId: string): Pro
      * 2. started attribute should be either not exist or its value should be false before setting it to true
      *    (to prevent duplicate write to the game)
      * 3. the user calling the function must be the host of the game
-     * 4. the size of the uses array should be 4 (need 4 users to start a game)
+     * 4. the size of the uses array should be the player count of the game (e.g. 4, or 3 for sanma),
+     *    games created before the player count was stored have 4 users
      */
     ConditionExpression: `
       attribute_exists(#gameIdKey)
@@ -249,19 +269,24 @@ export const startGame = async (gameId: string, callerConnectionId: string): Pro
       AND
       host.connectionId = :callerConnectionIdVal
       AND
-      size(#usersKey) = :maxUserCount
+      (
+        size(#usersKey) = #playerCountKey
+        OR
+        (attribute_not_exists(#playerCountKey) AND size(#usersKey) = :defaultPlayerCountVal)
+      )
     `,
     UpdateExpression: 'SET #startedKey = :startedVal',
     ExpressionAttributeNames: {
       '#gameIdKey': 'gameId',
       '#startedKey': 'started',
       '#usersKey': 'users',
+      '#playerCountKey': 'playerCount',
     },
     ExpressionAttributeValues: {
       ':startedVal': true,
       ':notStartedVal': false,
       ':callerConnectionIdVal': callerConnectionId,
-      ':maxUserCount': DEFAULT_MAX_USERS_IN_GAME,
+      ':defaultPlayerCountVal': DEFAULT_MAX_USERS_IN_GAME,
     },
     ReturnValues: 'ALL_NEW',
   };
@@ -273,7 +298,7 @@ export const startGame = async (gameId: string, callerConnectionId: string): Pro
 };
 
 /**
- * Increment game page loaded count to 4 before GAME_START lambda can be called
+ * Increment game page loaded count up to the player count of the game before GAME_START lambda can be called
  * @param {string} gameId Game Id
  */
 export const incrementGameLoadedCount = async (gameId: string): Promise<Game | undefined> => {
@@ -284,13 +309,20 @@ export const incrementGameLoadedCount = async (gameId: string): Promise<Game | u
     },
     /**
      * 1. Game must exists
-     * 2. gameLoadedCount must be less than 4 (its < 4 because when the count already reach 4,
-     *    the next increment should fail)
+     * 2. gameLoadedCount must be less than the player count (its < because when the count already reach
+     *    the player count, the next increment should fail), games created before the player count was
+     *    stored have 4 users
      */
     ConditionExpression: `
       attribute_exists(#gameIdKey)
       AND
-      (attribute_exists(#gameLoadedCountKey) AND #gameLoadedCountKey < :maxUserCount)
+      attribute_exists(#gameLoadedCountKey)
+      AND
+      (
+        #gameLoadedCountKey < #playerCountKey
+        OR
+        (attribute_not_exists(#playerCountKey) AND #gameLoadedCountKey < :defaultPlayerCountVal)
+      )
     `,
     UpdateExpression: `
       ADD #gameLoadedCountKey :incrementCountBy
@@ -298,10 +330,38 @@ export const incrementGameLoadedCount = async (gameId: string): Promise<Game | u
     ExpressionAttributeNames: {
       '#gameIdKey': 'gameId',
       '#gameLoadedCountKey': 'gameLoadedCount',
+      '#playerCountKey': 'playerCount',
     },
     ExpressionAttributeValues: {
       ':incrementCountBy': 1,
-      ':maxUserCount': DEFAULT_MAX_USERS_IN_GAME,
+      ':defaultPlayerCountVal': DEFAULT_MAX_USERS_IN_GAME,
+    },
+    ReturnValues: 'ALL_NEW',
+  };
+
+  const res = await DB.update(updateParam).promise();
+
+  return parseDynamoDBAttribute<Game>(res);
+};
+
+/**
+ * Mark a game as finished after its final round.
+ * @param {string} gameId Game Id
+ */
+export const finishGame = async (gameId: string): Promise<Game | undefined> => {
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAMES_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: 'attribute_exists(#gameIdKey)',
+    UpdateExpression: 'SET #stateKey = :finishedState',
+    ExpressionAttributeNames: {
+      '#gameIdKey': 'gameId',
+      '#stateKey': 'state',
+    },
+    ExpressionAttributeValues: {
+      ':finishedState': GameStatesEnum.FINISHED,
     },
     ReturnValues: 'ALL_NEW',
   };
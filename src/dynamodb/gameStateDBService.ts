@@ -1,15 +1,35 @@
 import { DocumentClient } from 'aws-sdk/clients/dynamodb';
-import { DEFAULT_MAX_USERS_IN_GAME, GAME_STATE_TABLE } from '../utils/constants';
-import { HongKongWall } from '../games/mahjong/Wall/version/HongKongWall';
+import { GAME_STATE_TABLE, RIICHI_STICK_POINTS } from '../utils/constants';
+import { Ruleset } from '../games/mahjong/Ruleset/Ruleset';
+import { HongKongRuleset } from '../games/mahjong/Ruleset/version/HongKongRuleset';
+import { RulesetFactory } from '../games/mahjong/Ruleset/RulesetFactory';
 import { DB } from './db';
-import { GameState, PlayedTile, UserHand } from '../models/GameState';
 import {
-  generateHongKongMahjongHands,
+  CharlestonState,
+  Discard,
+  DrawnTile,
+  GameState,
+  PlayedTile,
+  Riichi,
+  RoundScore,
+  UserHand,
+  WinSource,
+} from '../models/GameState';
+import {
+  generateMahjongHands,
   getHandByConnectionId,
+  getHandIndexByConnectionId,
+  getNextSeatInPlay,
+  getTileIndexesInHand,
   parseDynamoDBAttribute,
   parseDynamoDBItem,
 } from './dbHelper';
-import { Wall } from '../games/mahjong/Wall/Wall';
+import { Meld } from '../games/mahjong/types/MahjongTypes';
+import { MeldEnum } from '../enums/MeldEnum';
+import { HandHelper } from '../games/mahjong/Hand/HandHelper';
+import { BonusTilesMapper } from '../games/mahjong/Tile/map/TileMapper';
+import { Charleston } from '../games/mahjong/Hand/Charleston';
+import { WinTypeEnum } from '../enums/WinTypeEnum';
 
 /* ----------------------------------------------------------------------------
  * Constants
@@ -17,14 +37,88 @@ import { Wall } from '../games/mahjong/Wall/Wall';
 const DEFAULT_GAME_STATE_PARAMS = [
   'gameId',
   'wall',
+  'deadWall',
   'connectionIds',
   'hands',
   'dealer',
+  'dealerRepeatCount',
   'currentIndex',
   'currentWind',
   'currentTurn',
+  'lastDiscard',
+  'lastDraw',
+  'replacementCount',
+  'scores',
+  'scoreSheet',
+  'riichiSticks',
+  'charleston',
+  'declaringMissingSuit',
 ];
 
+/* ----------------------------------------------------------------------------
+ * Helpers
+ * ------------------------------------------------------------------------- */
+/**
+ * Build the expressions used to remove tiles from a user hand. The update is conditioned on the
+ * hand still belonging to the user and the tiles still being at the same indexes, so concurrent
+ * updates to the same hand fail instead of removing the wrong tiles.
+ * @param {UserHand} userHand hand of the user
+ * @param {number} handIndex index of the hand in the hands list
+ * @param {string[]} tiles tiles to be removed
+ * @param {string} fnName name of the calling function (used in error messages)
+ */
+const createRemoveTilesExpressions = (userHand: UserHand, handIndex: number, tiles: string[], fnName: string) => {
+  const tileIndexes = getTileIndexesInHand(userHand.hand, tiles);
+  if (!tileIndexes) {
+    throw Error(`${fnName}: tiles not found in hand`);
+  }
+
+  const tilePaths = tileIndexes.map((tileIndex) => `#hands[${handIndex}].#hand[${tileIndex}]`);
+  const expressionAttributeValues: DocumentClient.ExpressionAttributeValueMap = {
+    ':connectionId': userHand.connectionId,
+  };
+  tiles.forEach((tile, i) => {
+    expressionAttributeValues[`:removedTile${i}`] = tile;
+  });
+
+  // Remove from the highest index first, so removing one element does not shift the index of the next one
+  const removePaths = [...tileIndexes]
+    .sort((a, b) => b - a)
+    .map((tileIndex) => `#hands[${handIndex}].#hand[${tileIndex}]`);
+
+  return {
+    removeExpression: removePaths.join(', '),
+    conditionExpression: [
+      `#hands[${handIndex}].#connectionId = :connectionId`,
+      ...tilePaths.map((tilePath, i) => `${tilePath} = :removedTile${i}`),
+    ].join(' AND '),
+    expressionAttributeNames: {
+      '#hands': 'hands',
+      '#hand': 'hand',
+      '#connectionId': 'connectionId',
+    },
+    expressionAttributeValues,
+  };
+};
+
+/**
+ * Red fives make melds with the regular five of the same suit.
+ * @param {string} tile tile being played
+ * @param {string} otherTile tile in the hand or in a meld
+ */
+const isSameBaseTile = (tile: string, otherTile: string): boolean =>
+  HandHelper.getBaseTile(tile) === HandHelper.getBaseTile(otherTile);
+
+/**
+ * Create the state of a Charleston before the first pass, no user has passed tiles yet.
+ * @param {number} playerCount number of users in the game
+ */
+const createCharlestonState = (playerCount: number): CharlestonState => ({
+  passIndex: 0,
+  passedTiles: Array.from({ length: playerCount }, () => []),
+  stopCount: 0,
+});
+
 /* ----------------------------------------------------------------------------
  * Put
  * ------------------------------------------------------------------------- */
@@ -33,23 +127,38 @@ const DEFAULT_GAME_STATE_PARAMS = [
  * 4 hands of mahjong, and save the initial game state to the db
  * @param {string} gameId game Id
  * @param {string} connectionIds connection Ids of all the users in a game
+ * @param {Ruleset} ruleset ruleset of the game, used to build the wall
+ * @param {boolean} redFives replace one five of each suit by a red five (Japanese only)
  */
-export const initGameState = async (gameId: string, connectionIds: string[]): Promise<GameState> => {
-  const initialWall = new HongKongWall();
+export const initGameState = async (
+  gameId: string,
+  connectionIds: string[],
+  ruleset: Ruleset = HongKongRuleset,
+  redFives = false,
+): Promise<GameState> => {
+  const initialWall = RulesetFactory.createWall(ruleset, redFives);
 
   // Generate hand for each user
-  const hands: UserHand[] = generateHongKongMahjongHands(initialWall, connectionIds);
+  const hands: UserHand[] = generateMahjongHands(initialWall, connectionIds);
 
   const initialGame: GameState = {
     gameId,
     wall: initialWall.getTiles(), // array of tiles
+    deadWall: initialWall.getDeadWall(),
     hands, // current hands of users TODO: can remove this attribute if not needed
     currentIndex: initialWall.getCurrentTileIndex(),
+    replacementCount: initialWall.getReplacementTileCount(),
     dealer: 0,
+    dealerRepeatCount: 0,
     currentWind: 0, // Start with East
     currentTurn: 0, // Game start from host
     interactionCount: 0,
     playedTileInteractions: [],
+    scores: connectionIds.map(() => ruleset.startingScore),
+    scoreSheet: [],
+    riichiSticks: 0,
+    ...(ruleset.hasCharleston ? { charleston: createCharlestonState(connectionIds.length) } : {}),
+    ...(ruleset.hasMissingSuit ? { declaringMissingSuit: true } : {}),
   };
 
   const putParam: DocumentClient.PutItemInput = {
@@ -97,6 +206,15 @@ export const getCurrentTileIndex = async (gameId: string): Promise<number | unde
   return currentGameState?.currentIndex;
 };
 
+/**
+ * Get the number of tiles left in the live wall (tiles that can still be drawn from the front or the back).
+ * @param {string} gameId Game Id
+ */
+export const getRemainingTileCount = async (gameId: string): Promise<number> => {
+  const { wall, currentIndex, replacementCount = 0 } = (await getGameStateByGameId(gameId)) as GameState;
+  return wall.length - replacementCount - currentIndex;
+};
+
 /**
  * Get the mahjong wall of a game by game Id.
  * @param {string} gameId Game Id
@@ -185,24 +303,557 @@ export const incrementCurrentTileIndex = async (gameId: string): Promise<GameSta
 };
 
 /**
- * Draw a tile from the wall.
+ * Draw a tile from the wall and add it to the user hand.
+ * The tile is only drawn if it is the user's turn, and the tile index is only incremented
+ * if no one else has drawn a tile in the meantime.
  * @param {string} gameId Game Id
+ * @param {string} connectionId Connection Id of the user drawing the tile
  */
-export const drawTile = async (gameId: string): Promise<string> => {
-  const { wall, currentIndex } = (await getGameStateByGameId(gameId)) as GameState;
+export const drawTile = async (gameId: string, connectionId: string): Promise<string> => {
+  const { wall, currentIndex, hands, replacementCount = 0 } = (await getGameStateByGameId(gameId)) as GameState;
   let tileDrawn = '';
 
-  // Return empty string if index reach 144
-  if (currentIndex >= Wall.DEFAULT_WALL_LENGTH) {
+  // Return empty string if index reach the end of the live wall (144 minus replacement tiles drawn)
+  if (currentIndex >= wall.length - replacementCount) {
     return tileDrawn;
   }
 
-  // Draw a new tile from the currentIndex and THEN increment index by 1
+  const handIndex = getHandIndexByConnectionId(hands, connectionId);
+  if (handIndex === -1) {
+    throw Error('drawTile: user hand not found');
+  }
+
+  // Draw a new tile from the currentIndex, add it to the hand and increment index by 1
   tileDrawn = wall[currentIndex];
-  await incrementCurrentTileIndex(gameId);
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAME_STATE_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: `
+      #currentIndex = :currentIndex AND
+      #currentTurn = :seatIndex AND
+      #hands[${handIndex}].#connectionId = :connectionId AND
+      attribute_not_exists(#lastDiscard)
+    `,
+    UpdateExpression: `
+      SET #hands[${handIndex}].#hand = list_append(#hands[${handIndex}].#hand, :tileDrawn),
+          #lastDraw = :lastDraw
+      ADD #currentIndex :incrementIndexBy
+    `,
+    ExpressionAttributeNames: {
+      '#currentIndex': 'currentIndex',
+      '#currentTurn': 'currentTurn',
+      '#lastDiscard': 'lastDiscard',
+      '#lastDraw': 'lastDraw',
+      '#hands': 'hands',
+      '#hand': 'hand',
+      '#connectionId': 'connectionId',
+    },
+    ExpressionAttributeValues: {
+      ':currentIndex': currentIndex,
+      ':seatIndex': handIndex,
+      ':connectionId': connectionId,
+      ':tileDrawn': [tileDrawn],
+      ':lastDraw': { connectionId, tile: tileDrawn },
+      ':incrementIndexBy': 1,
+    },
+  };
+
+  await DB.update(updateParam).promise();
+  return tileDrawn;
+};
+
+/**
+ * Draw a replacement tile (for a quad or a bonus tile) from the back of the wall and add it to the user hand.
+ * Every replacement tile drawn shortens the live wall by 1.
+ * @param {string} gameId Game Id
+ * @param {string} connectionId Connection Id of the user drawing the tile
+ * @param {boolean} afterKong true if the tile replaces a quad (a bonus tile replaced after a quad keeps this)
+ */
+export const drawReplacementTile = async (gameId: string, connectionId: string, afterKong = false): Promise<string> => {
+  const { wall, currentIndex, hands, replacementCount = 0, lastDraw } = (await getGameStateByGameId(
+    gameId,
+  )) as GameState;
+  const replacementTileIndex = wall.length - replacementCount - 1;
+  let tileDrawn = '';
+
+  // Return empty string if there is no tile left in the live wall
+  if (replacementTileIndex < currentIndex) {
+    return tileDrawn;
+  }
+
+  const handIndex = getHandIndexByConnectionId(hands, connectionId);
+  if (handIndex === -1) {
+    throw Error('drawReplacementTile: user hand not found');
+  }
+
+  tileDrawn = wall[replacementTileIndex];
+  const fromKong = afterKong || (lastDraw?.connectionId === connectionId && !!lastDraw.fromKong);
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAME_STATE_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: `
+      #currentIndex <= :replacementTileIndex AND
+      (attribute_not_exists(#replacementCount) OR #replacementCount = :replacementCount) AND
+      #currentTurn = :seatIndex AND
+      #hands[${handIndex}].#connectionId = :connectionId
+    `,
+    UpdateExpression: `
+      SET #hands[${handIndex}].#hand = list_append(#hands[${handIndex}].#hand, :tileDrawn),
+          #replacementCount = :nextReplacementCount,
+          #lastDraw = :lastDraw
+    `,
+    ExpressionAttributeNames: {
+      '#currentIndex': 'currentIndex',
+      '#replacementCount': 'replacementCount',
+      '#lastDraw': 'lastDraw',
+      '#currentTurn': 'currentTurn',
+      '#hands': 'hands',
+      '#hand': 'hand',
+      '#connectionId': 'connectionId',
+    },
+    ExpressionAttributeValues: {
+      ':replacementTileIndex': replacementTileIndex,
+      ':replacementCount': replacementCount,
+      ':nextReplacementCount': replacementCount + 1,
+      ':seatIndex': handIndex,
+      ':connectionId': connectionId,
+      ':tileDrawn': [tileDrawn],
+      ':lastDraw': { connectionId, tile: tileDrawn, fromKong },
+    },
+  };
+
+  await DB.update(updateParam).promise();
   return tileDrawn;
 };
 
+/**
+ * Move a discarded tile from the user hand to the user discards, and save it as the last discard,
+ * so other users can claim it. The turn moves to the next user still playing in the round.
+ * Temporary furiten ends with the user's turn, unless the user has declared riichi.
+ * When declaring riichi, the discard is recorded as the riichi discard and the user puts a riichi stick
+ * (taken from the user's score) on the table.
+ * @param {string} gameId Game Id
+ * @param {string} connectionId Connection Id of the user discarding the tile
+ * @param {string} tile tile being discarded
+ * @param {boolean} riichi true if the user declares riichi with this discard
+ */
+export const discardTile = async (
+  gameId: string,
+  connectionId: string,
+  tile: string,
+  riichi = false,
+): Promise<GameState | undefined> => {
+  const { hands } = (await getGameStateByGameId(gameId)) as GameState;
+  const handIndex = getHandIndexByConnectionId(hands, connectionId);
+  if (handIndex === -1) {
+    throw Error('discardTile: user hand not found');
+  }
+
+  const userHand = hands[handIndex];
+  const {
+    removeExpression,
+    conditionExpression,
+    expressionAttributeNames,
+    expressionAttributeValues,
+  } = createRemoveTilesExpressions(userHand, handIndex, [tile], 'discardTile');
+  const lastDiscard: Discard = { connectionId, tile };
+  const riichiDiscard: Riichi = { tile, discardIndex: (userHand.discards || []).length };
+  const furitenExpression = userHand.riichi ? '' : `, #hands[${handIndex}].#furiten`;
+  const riichiConditionExpression = riichi
+    ? ` AND attribute_not_exists(#hands[${handIndex}].#riichi) AND #scores[${handIndex}] >= :riichiStick`
+    : '';
+  const riichiExpression = riichi
+    ? `,
+          #hands[${handIndex}].#riichi = :riichi,
+          #scores[${handIndex}] = #scores[${handIndex}] - :riichiStick,
+          #riichiSticks = if_not_exists(#riichiSticks, :noRiichiSticks) + :riichiStickCount`
+    : '';
+
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAME_STATE_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: `${conditionExpression} AND #currentTurn = :seatIndex${riichiConditionExpression}`,
+    UpdateExpression: `
+      REMOVE ${removeExpression}, #lastDraw${furitenExpression}
+      SET #hands[${handIndex}].#discards = list_append(
+            if_not_exists(#hands[${handIndex}].#discards, :emptyList),
+            :discardedTile
+          ),
+          #lastDiscard = :lastDiscard,
+          #currentTurn = :nextTurn${riichiExpression}
+    `,
+    ExpressionAttributeNames: {
+      ...expressionAttributeNames,
+      '#discards': 'discards',
+      '#lastDiscard': 'lastDiscard',
+      '#lastDraw': 'lastDraw',
+      '#currentTurn': 'currentTurn',
+      ...(userHand.riichi ? {} : { '#furiten': 'furiten' }),
+      ...(riichi ? { '#riichi': 'riichi', '#scores': 'scores', '#riichiSticks': 'riichiSticks' } : {}),
+    },
+    ExpressionAttributeValues: {
+      ...expressionAttributeValues,
+      ':emptyList': [],
+      ':discardedTile': [tile],
+      ':lastDiscard': lastDiscard,
+      ':seatIndex': handIndex,
+      ':nextTurn': getNextSeatInPlay(hands, handIndex),
+      ...(riichi
+        ? {
+            ':riichi': riichiDiscard,
+            ':riichiStick': RIICHI_STICK_POINTS,
+            ':noRiichiSticks': 0,
+            ':riichiStickCount': 1,
+          }
+        : {}),
+    },
+    ReturnValues: 'ALL_NEW',
+  };
+
+  const res = await DB.update(updateParam).promise();
+
+  return parseDynamoDBAttribute<GameState>(res);
+};
+
+/**
+ * Move the tiles of a meld made with the last discard from the user hand to the exposed melds.
+ * The last discard is removed from the game state and from the discards of the user who played it,
+ * as it now belongs to the meld, and the turn moves to the user making the meld. The discarder keeps it in the
+ * called discards, which still count for the furiten rule (Japanese).
+ * @param {string} gameId Game Id
+ * @param {string} connectionId Connection Id of the user making the meld
+ * @param {string[]} meldTiles tiles of the meld, including the claimed discard
+ * @param {MeldEnum} meldType meld type (TRIPLET, CONSECUTIVE or QUAD)
+ */
+export const meldDiscardedTile = async (
+  gameId: string,
+  connectionId: string,
+  meldTiles: string[],
+  meldType: MeldEnum,
+): Promise<GameState | undefined> => {
+  const { hands, lastDiscard } = (await getGameStateByGameId(gameId)) as GameState;
+  if (!lastDiscard) {
+    throw Error('meldDiscardedTile: no discarded tile to make a meld with');
+  }
+
+  const handIndex = getHandIndexByConnectionId(hands, connectionId);
+  if (handIndex === -1) {
+    throw Error('meldDiscardedTile: user hand not found');
+  }
+
+  const tilesFromHand = HandHelper.removeTiles(meldTiles, [lastDiscard.tile]);
+  if (!tilesFromHand) {
+    throw Error('meldDiscardedTile: meld does not contain the discarded tile');
+  }
+
+  const discarderIndex = getHandIndexByConnectionId(hands, lastDiscard.connectionId);
+  const discardIndex = (hands[discarderIndex]?.discards || []).length - 1;
+  if (discardIndex < 0) {
+    throw Error('meldDiscardedTile: discarded tile not found in discards');
+  }
+  const discardPath = `#hands[${discarderIndex}].#discards[${discardIndex}]`;
+  const calledDiscardsPath = `#hands[${discarderIndex}].#calledDiscards`;
+
+  const {
+    removeExpression,
+    conditionExpression,
+    expressionAttributeNames,
+    expressionAttributeValues,
+  } = createRemoveTilesExpressions(hands[handIndex], handIndex, tilesFromHand, 'meldDiscardedTile');
+  const meld: Meld = {
+    tiles: HandHelper.sortTiles(meldTiles),
+    type: meldType,
+    fromSeat: discarderIndex,
+    claimedTile: lastDiscard.tile,
+  };
+
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAME_STATE_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: `${conditionExpression} AND #lastDiscard.#tile = :discardedTile AND ${discardPath} = :discardedTile`,
+    UpdateExpression: `
+      REMOVE ${removeExpression}, ${discardPath}, #lastDiscard
+      SET #hands[${handIndex}].#exposedMelds = list_append(
+            if_not_exists(#hands[${handIndex}].#exposedMelds, :emptyList),
+            :meld
+          ),
+          ${calledDiscardsPath} = list_append(if_not_exists(${calledDiscardsPath}, :emptyList), :calledDiscard),
+          #currentTurn = :seatIndex
+    `,
+    ExpressionAttributeNames: {
+      ...expressionAttributeNames,
+      '#lastDiscard': 'lastDiscard',
+      '#tile': 'tile',
+      '#discards': 'discards',
+      '#calledDiscards': 'calledDiscards',
+      '#exposedMelds': 'exposedMelds',
+      '#currentTurn': 'currentTurn',
+    },
+    ExpressionAttributeValues: {
+      ...expressionAttributeValues,
+      ':seatIndex': handIndex,
+      ':discardedTile': lastDiscard.tile,
+      ':emptyList': [],
+      ':meld': [meld],
+      ':calledDiscard': [lastDiscard.tile],
+    },
+    ReturnValues: 'ALL_NEW',
+  };
+
+  const res = await DB.update(updateParam).promise();
+
+  return parseDynamoDBAttribute<GameState>(res);
+};
+
+/**
+ * Update the user hand after the user plays a tile on their own turn (the turn does not change):
+ * 1. a bonus tile (flower or season) is moved to the played tiles
+ * 2. a concealed quad moves four tiles from the hand to the exposed melds
+ * 3. a quad made from an exposed triplet (alreadyMeld) moves one tile from the hand to the triplet
+ * @param {string} gameId Game Id
+ * @param {string} connectionId Connection Id of the user playing the tile
+ * @param {string} tile tile being played
+ * @param {boolean} isQuad the tile is played to make a quad
+ * @param {boolean} alreadyMeld the quad is made from an exposed triplet
+ */
+export const selfPlayTile = async (
+  gameId: string,
+  connectionId: string,
+  tile: string,
+  isQuad: boolean,
+  alreadyMeld: boolean,
+): Promise<GameState | undefined> => {
+  const { hands } = (await getGameStateByGameId(gameId)) as GameState;
+  const handIndex = getHandIndexByConnectionId(hands, connectionId);
+  if (handIndex === -1) {
+    throw Error('selfPlayTile: user hand not found');
+  }
+
+  const userHand = hands[handIndex];
+  const handPath = `#hands[${handIndex}]`;
+  // Take the tiles actually held for a concealed quad, which may include a red five
+  const tilesFromHand =
+    isQuad && !alreadyMeld ? userHand.hand.filter((handTile) => isSameBaseTile(tile, handTile)) : [tile];
+  if (isQuad && !alreadyMeld && tilesFromHand.length !== 4) {
+    throw Error('selfPlayTile: tiles not found in hand');
+  }
+  const {
+    removeExpression,
+    conditionExpression,
+    expressionAttributeNames,
+    expressionAttributeValues,
+  } = createRemoveTilesExpressions(userHand, handIndex, tilesFromHand, 'selfPlayTile');
+
+  const conditionExpressions = [conditionExpression, '#currentTurn = :seatIndex'];
+  const setExpressions: string[] = [];
+  const names: DocumentClient.ExpressionAttributeNameMap = {
+    ...expressionAttributeNames,
+    '#currentTurn': 'currentTurn',
+  };
+  const values: DocumentClient.ExpressionAttributeValueMap = { ...expressionAttributeValues, ':seatIndex': handIndex };
+
+  if (!isQuad) {
+    setExpressions.push(
+      `${handPath}.#playedTiles = list_append(if_not_exists(${handPath}.#playedTiles, :emptyList), :playedTiles)`,
+    );
+    names['#playedTiles'] = 'playedTiles';
+    values[':emptyList'] = [];
+    values[':playedTiles'] = [tile];
+  } else if (!alreadyMeld) {
+    const meld: Meld = { tiles: HandHelper.sortTiles(tilesFromHand), type: MeldEnum.QUAD, concealed: true };
+    setExpressions.push(
+      `${handPath}.#exposedMelds = list_append(if_not_exists(${handPath}.#exposedMelds, :emptyList), :meld)`,
+    );
+    names['#exposedMelds'] = 'exposedMelds';
+    values[':emptyList'] = [];
+    values[':meld'] = [meld];
+  } else {
+    const meldIndex = (userHand.exposedMelds || []).findIndex(
+      (meld) => meld.type === MeldEnum.TRIPLET && isSameBaseTile(tile, meld.tiles[0]),
+    );
+    if (meldIndex === -1) {
+      throw Error('selfPlayTile: exposed triplet not found');
+    }
+
+    const meldPath = `${handPath}.#exposedMelds[${meldIndex}]`;
+    conditionExpressions.push(`${meldPath}.#meldType = :tripletType`);
+    setExpressions.push(`${meldPath}.#tiles = list_append(${meldPath}.#tiles, :playedTiles)`);
+    setExpressions.push(`${meldPath}.#meldType = :quadType`);
+    names['#exposedMelds'] = 'exposedMelds';
+    names['#tiles'] = 'tiles';
+    names['#meldType'] = 'type';
+    values[':playedTiles'] = [tile];
+    values[':tripletType'] = MeldEnum.TRIPLET;
+    values[':quadType'] = MeldEnum.QUAD;
+  }
+
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAME_STATE_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: conditionExpressions.join(' AND '),
+    UpdateExpression: `
+      REMOVE ${removeExpression}
+      SET ${setExpressions.join(', ')}
+    `,
+    ExpressionAttributeNames: names,
+    ExpressionAttributeValues: values,
+    ReturnValues: 'ALL_NEW',
+  };
+
+  const res = await DB.update(updateParam).promise();
+
+  return parseDynamoDBAttribute<GameState>(res);
+};
+
+/**
+ * Remove the last discard after all the other users skipped it, so the next user can draw a tile.
+ * @param {string} gameId Game Id
+ */
+export const removeLastDiscard = async (gameId: string): Promise<GameState | undefined> => {
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAME_STATE_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: 'attribute_exists(#gameIdKey)',
+    UpdateExpression: 'REMOVE #lastDiscard',
+    ExpressionAttributeNames: {
+      '#gameIdKey': 'gameId',
+      '#lastDiscard': 'lastDiscard',
+    },
+    ReturnValues: 'ALL_NEW',
+  };
+
+  const res = await DB.update(updateParam).promise();
+
+  return parseDynamoDBAttribute<GameState>(res);
+};
+
+/**
+ * Set the index of the user whose turn it is.
+ * @param {string} gameId Game Id
+ * @param {number} currentTurn index of the user (in fixed order in the db)
+ */
+export const setCurrentTurn = async (gameId: string, currentTurn: number): Promise<GameState | undefined> => {
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAME_STATE_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: 'attribute_exists(#gameIdKey) AND size(#hands) > :currentTurn',
+    UpdateExpression: 'SET #currentTurn = :currentTurn',
+    ExpressionAttributeNames: {
+      '#gameIdKey': 'gameId',
+      '#currentTurn': 'currentTurn',
+      '#hands': 'hands',
+    },
+    ExpressionAttributeValues: {
+      ':currentTurn': currentTurn,
+    },
+    ReturnValues: 'ALL_NEW',
+  };
+
+  const res = await DB.update(updateParam).promise();
+
+  return parseDynamoDBAttribute<GameState>(res);
+};
+
+/**
+ * Offer a tile added to an exposed triplet to the other users before the quad is made,
+ * by saving it as the last discard. Other users can only claim it to win (robbing the kong).
+ * The quad is made with selfPlayTile once all other users skip the tile.
+ * @param {string} gameId Game Id
+ * @param {string} connectionId Connection Id of the user making the quad
+ * @param {string} tile tile added to the exposed triplet
+ */
+export const declareAddedKong = async (
+  gameId: string,
+  connectionId: string,
+  tile: string,
+): Promise<GameState | undefined> => {
+  const { hands } = (await getGameStateByGameId(gameId)) as GameState;
+  const handIndex = getHandIndexByConnectionId(hands, connectionId);
+  if (handIndex === -1) {
+    throw Error('declareAddedKong: user hand not found');
+  }
+
+  const { hand, exposedMelds = [] } = hands[handIndex];
+  if (!hand.includes(tile)) {
+    throw Error('declareAddedKong: tiles not found in hand');
+  }
+  if (!exposedMelds.some((meld) => meld.type === MeldEnum.TRIPLET && isSameBaseTile(tile, meld.tiles[0]))) {
+    throw Error('declareAddedKong: exposed triplet not found');
+  }
+
+  const lastDiscard: Discard = { connectionId, tile, fromKong: true };
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAME_STATE_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: `
+      #currentTurn = :seatIndex AND
+      #hands[${handIndex}].#connectionId = :connectionId AND
+      attribute_not_exists(#lastDiscard)
+    `,
+    UpdateExpression: 'SET #lastDiscard = :lastDiscard',
+    ExpressionAttributeNames: {
+      '#currentTurn': 'currentTurn',
+      '#hands': 'hands',
+      '#connectionId': 'connectionId',
+      '#lastDiscard': 'lastDiscard',
+    },
+    ExpressionAttributeValues: {
+      ':seatIndex': handIndex,
+      ':connectionId': connectionId,
+      ':lastDiscard': lastDiscard,
+    },
+    ReturnValues: 'ALL_NEW',
+  };
+
+  const res = await DB.update(updateParam).promise();
+
+  return parseDynamoDBAttribute<GameState>(res);
+};
+
+/**
+ * Move a bonus tile (flower or season) drawn by a user to the user's played tiles, and keep drawing
+ * replacement tiles from the back of the wall until a tile that is not a bonus tile is drawn.
+ * Tiles extracted by the ruleset of the game (e.g. north winds in sanma) are replaced the same way.
+ * @param {string} gameId Game Id
+ * @param {string} connectionId Connection Id of the user drawing the tile
+ * @param {string} tileDrawn tile drawn by the user
+ * @param {string[]} bonusTiles bonus tiles already revealed in this draw
+ * @param {string[]} extractedTiles tiles replaced like bonus tiles in the game
+ * @returns the playable tile drawn (empty string if the wall runs out) and the bonus tiles revealed
+ */
+export const replaceBonusTiles = async (
+  gameId: string,
+  connectionId: string,
+  tileDrawn: string,
+  bonusTiles: string[] = [],
+  extractedTiles: string[] = [],
+): Promise<DrawnTile> => {
+  if (!tileDrawn || ![...Object.keys(BonusTilesMapper), ...extractedTiles].includes(tileDrawn)) {
+    return { tile: tileDrawn, bonusTiles };
+  }
+
+  await selfPlayTile(gameId, connectionId, tileDrawn, false, false);
+  const replacementTile = await drawReplacementTile(gameId, connectionId);
+
+  return replaceBonusTiles(gameId, connectionId, replacementTile, [...bonusTiles, tileDrawn], extractedTiles);
+};
+
 /**
  * Change wind number in a game.
  * @param {string} gameId Game Id
@@ -214,22 +865,23 @@ export const changeWind = async (gameId: string): Promise<GameState | undefined>
     throw Error('changeWind: game state not found');
   }
 
-  const { currentWind: currentWindNum } = currentGameState;
-  const nextWindNum = (currentWindNum + 1) % 4;
+  // There are as many wind rounds as users in the game (no north round in sanma)
+  const { currentWind: currentWindNum, hands } = currentGameState;
+  const nextWindNum = (currentWindNum + 1) % hands.length;
 
   const updateParam: DocumentClient.UpdateItemInput = {
     TableName: GAME_STATE_TABLE,
     Key: {
       gameId,
     },
-    ConditionExpression: ':nextWindNum < :maxUserCount',
+    ConditionExpression: 'size(#hands) > :nextWindNum',
     UpdateExpression: 'SET #currentWindKey = :nextWindNum',
     ExpressionAttributeNames: {
       '#currentWindKey': 'currentWind',
+      '#hands': 'hands',
     },
     ExpressionAttributeValues: {
       ':nextWindNum': nextWindNum,
-      ':maxUserCount': DEFAULT_MAX_USERS_IN_GAME,
     },
     ReturnValues: 'ALL_NEW',
   };
@@ -250,10 +902,10 @@ export const changeDealer = async (gameId: string): Promise<GameState | undefine
     throw Error('changeDealer: game state not found');
   }
 
-  const { dealer: currentDealerIndex } = currentGameState;
+  const { dealer: currentDealerIndex, hands } = currentGameState;
 
   // increment dealer; also increment wind if dealer resets
-  const nextDealerIndex = (currentDealerIndex + 1) % 4;
+  const nextDealerIndex = (currentDealerIndex + 1) % hands.length;
   if (nextDealerIndex === 0) await changeWind(gameId);
 
   const updateParam: DocumentClient.UpdateItemInput = {
@@ -261,14 +913,14 @@ export const changeDealer = async (gameId: string): Promise<GameState | undefine
     Key: {
       gameId,
     },
-    ConditionExpression: ':nextDealerIndex < :maxUserCount',
+    ConditionExpression: 'size(#hands) > :nextDealerIndex',
     UpdateExpression: 'SET #dealer = :nextDealerIndex',
     ExpressionAttributeNames: {
       '#dealer': 'dealer',
+      '#hands': 'hands',
     },
     ExpressionAttributeValues: {
       ':nextDealerIndex': nextDealerIndex,
-      ':maxUserCount': DEFAULT_MAX_USERS_IN_GAME,
     },
     ReturnValues: 'ALL_NEW',
   };
@@ -281,6 +933,7 @@ export const changeDealer = async (gameId: string): Promise<GameState | undefine
 /**
  * Add a possible interaction type (triplet, consecutive, or quad), set in meld param, to
  * the playedTileInteractions array and increment the interactionCount.
+ * The user must not be the discarder of the last discard, and can only interact with it once.
  * @param {string} gameId Game Id
  * @param {string} connectionId Connection Id
  * @param {string[]} playedTiles Played that is being interacting with
@@ -306,20 +959,34 @@ export const setPlayedTileInteraction = async (
     Key: {
       gameId,
     },
-    ConditionExpression: 'attribute_exists(#gameIdKey) AND #interactionCountKey < :maxUserCount',
+    ConditionExpression: `
+      attribute_exists(#gameIdKey) AND size(#handsKey) > #interactionCountKey AND
+      #lastDiscardKey.#connectionIdKey <> :connectionIdVal AND
+      NOT contains(#lastDiscardKey.#interactedConnectionIdsKey, :connectionIdVal)
+    `,
     UpdateExpression: `
       ADD #interactionCountKey :incrementIndexBy
-      SET #playedTileInteractionsKey = list_append(#playedTileInteractionsKey, :playedTileVal)
+      SET #playedTileInteractionsKey = list_append(#playedTileInteractionsKey, :playedTileVal),
+          #lastDiscardKey.#interactedConnectionIdsKey = list_append(
+            if_not_exists(#lastDiscardKey.#interactedConnectionIdsKey, :emptyListVal),
+            :connectionIdListVal
+          )
     `,
     ExpressionAttributeNames: {
       '#gameIdKey': 'gameId',
       '#interactionCountKey': 'interactionCount',
       '#playedTileInteractionsKey': 'playedTileInteractions',
+      '#handsKey': 'hands',
+      '#lastDiscardKey': 'lastDiscard',
+      '#connectionIdKey': 'connectionId',
+      '#interactedConnectionIdsKey': 'interactedConnectionIds',
     },
     ExpressionAttributeValues: {
       ':incrementIndexBy': 1,
-      ':maxUserCount': DEFAULT_MAX_USERS_IN_GAME,
       ':playedTileVal': [playedTileVal],
+      ':connectionIdVal': connectionId,
+      ':emptyListVal': [],
+      ':connectionIdListVal': [connectionId],
     },
     ReturnValues: 'ALL_NEW',
   };
@@ -362,21 +1029,457 @@ export const resetPlayedTileInteraction = async (gameId: string): Promise<GameSt
   return parseDynamoDBAttribute<GameState>(res);
 };
 
+/**
+ * Pass tiles in the current pass of a Charleston (American). The tiles are removed from the hand of the user
+ * and kept in the Charleston until every user has passed, a user can only pass once in each pass.
+ * @param {string} gameId Game Id
+ * @param {string} connectionId Connection Id of the user passing the tiles
+ * @param {string[]} tiles tiles passed by the user
+ * @param {boolean} stopCharleston true if the user does not want to play the second Charleston
+ */
+export const passCharlestonTiles = async (
+  gameId: string,
+  connectionId: string,
+  tiles: string[],
+  stopCharleston = false,
+): Promise<GameState | undefined> => {
+  const { hands, charleston } = (await getGameStateByGameId(gameId, ['hands', 'charleston'])) as GameState;
+  if (!charleston) {
+    throw Error('passCharlestonTiles: no Charleston in progress');
+  }
+
+  const handIndex = getHandIndexByConnectionId(hands, connectionId);
+  if (handIndex === -1) {
+    throw Error('passCharlestonTiles: user hand not found');
+  }
+
+  const {
+    removeExpression,
+    conditionExpression,
+    expressionAttributeNames,
+    expressionAttributeValues,
+  } = createRemoveTilesExpressions(hands[handIndex], handIndex, tiles, 'passCharlestonTiles');
+  const passedTilesPath = `#charleston.#passedTiles[${handIndex}]`;
+
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAME_STATE_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: [
+      conditionExpression,
+      '#charleston.#passIndex = :passIndex',
+      `size(${passedTilesPath}) = :noPassedTiles`,
+    ].join(' AND '),
+    UpdateExpression: `
+      REMOVE ${removeExpression}
+      SET ${passedTilesPath} = :passedTiles${
+      stopCharleston ? ', #charleston.#stopCount = #charleston.#stopCount + :one' : ''
+    }
+    `,
+    ExpressionAttributeNames: {
+      ...expressionAttributeNames,
+      '#charleston': 'charleston',
+      '#passIndex': 'passIndex',
+      '#passedTiles': 'passedTiles',
+      ...(stopCharleston ? { '#stopCount': 'stopCount' } : {}),
+    },
+    ExpressionAttributeValues: {
+      ...expressionAttributeValues,
+      ':passIndex': charleston.passIndex,
+      ':noPassedTiles': 0,
+      ':passedTiles': tiles,
+      ...(stopCharleston ? { ':one': 1 } : {}),
+    },
+    ReturnValues: 'ALL_NEW',
+  };
+
+  const res = await DB.update(updateParam).promise();
+
+  return parseDynamoDBAttribute<GameState>(res);
+};
+
+/**
+ * Give the tiles passed by every user in the current pass of a Charleston (American) to the users receiving them,
+ * then move on to the next pass. The Charleston is removed from the game state once it is finished.
+ * @param {string} gameId Game Id
+ * @param {CharlestonState} charleston Charleston with the tiles passed by every user
+ */
+export const exchangeCharlestonTiles = async (
+  gameId: string,
+  charleston: CharlestonState,
+): Promise<GameState | undefined> => {
+  const { passIndex, passedTiles, stopCount } = charleston;
+  if (passedTiles.some((tiles) => tiles.length !== Charleston.PASS_LENGTH)) {
+    throw Error('exchangeCharlestonTiles: not every user has passed tiles');
+  }
+
+  const receivedTiles = Charleston.exchangeTiles(passedTiles, passIndex);
+  const isFinished = Charleston.isFinished(passIndex + 1, stopCount);
+  const expressionAttributeValues: DocumentClient.ExpressionAttributeValueMap = { ':passIndex': passIndex };
+  receivedTiles.forEach((tiles, seatIndex) => {
+    expressionAttributeValues[`:receivedTiles${seatIndex}`] = tiles;
+  });
+
+  const setExpressions = receivedTiles.map(
+    (_tiles, seatIndex) =>
+      `#hands[${seatIndex}].#hand = list_append(#hands[${seatIndex}].#hand, :receivedTiles${seatIndex})`,
+  );
+  if (!isFinished) {
+    expressionAttributeValues[':nextPassIndex'] = passIndex + 1;
+    expressionAttributeValues[':noPassedTiles'] = createCharlestonState(passedTiles.length).passedTiles;
+    setExpressions.push('#charleston.#passIndex = :nextPassIndex', '#charleston.#passedTiles = :noPassedTiles');
+  }
+
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAME_STATE_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: '#charleston.#passIndex = :passIndex',
+    UpdateExpression: `
+      SET ${setExpressions.join(', ')}
+      ${isFinished ? 'REMOVE #charleston' : ''}
+    `,
+    ExpressionAttributeNames: {
+      '#hands': 'hands',
+      '#hand': 'hand',
+      '#charleston': 'charleston',
+      '#passIndex': 'passIndex',
+      ...(isFinished ? {} : { '#passedTiles': 'passedTiles' }),
+    },
+    ExpressionAttributeValues: expressionAttributeValues,
+    ReturnValues: 'ALL_NEW',
+  };
+
+  const res = await DB.update(updateParam).promise();
+
+  return parseDynamoDBAttribute<GameState>(res);
+};
+
+/**
+ * Declare the missing suit of a user before the first turn (Sichuan), a user can only declare once.
+ * The declaration phase is removed from the game state with the last declaration.
+ * @param {string} gameId Game Id
+ * @param {string} connectionId Connection Id of the user declaring the missing suit
+ * @param {string} missingSuit suit declared (DOT, BAMBOO or CHARACTER)
+ */
+export const declareMissingSuit = async (
+  gameId: string,
+  connectionId: string,
+  missingSuit: string,
+): Promise<GameState | undefined> => {
+  const { hands } = (await getGameStateByGameId(gameId, ['hands'])) as GameState;
+  const handIndex = getHandIndexByConnectionId(hands, connectionId);
+  if (handIndex === -1) {
+    throw Error('declareMissingSuit: user hand not found');
+  }
+
+  // Condition on the declarations of the other users, so the last declaration is never missed by concurrent updates
+  const otherDeclarationConditions = hands
+    .map((hand, seatIndex) => {
+      if (seatIndex === handIndex) return '';
+      const missingSuitPath = `#hands[${seatIndex}].#missingSuit`;
+      return hand.missingSuit ? `attribute_exists(${missingSuitPath})` : `attribute_not_exists(${missingSuitPath})`;
+    })
+    .filter((condition) => condition);
+  const isLastDeclaration = hands.every((hand, seatIndex) => seatIndex === handIndex || hand.missingSuit);
+
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAME_STATE_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: [
+      '#declaringMissingSuit = :declaringMissingSuit',
+      `#hands[${handIndex}].#connectionId = :connectionId`,
+      `attribute_not_exists(#hands[${handIndex}].#missingSuit)`,
+      ...otherDeclarationConditions,
+    ].join(' AND '),
+    UpdateExpression: `
+      SET #hands[${handIndex}].#missingSuit = :missingSuit
+      ${isLastDeclaration ? 'REMOVE #declaringMissingSuit' : ''}
+    `,
+    ExpressionAttributeNames: {
+      '#declaringMissingSuit': 'declaringMissingSuit',
+      '#hands': 'hands',
+      '#connectionId': 'connectionId',
+      '#missingSuit': 'missingSuit',
+    },
+    ExpressionAttributeValues: {
+      ':declaringMissingSuit': true,
+      ':connectionId': connectionId,
+      ':missingSuit': missingSuit,
+    },
+    ReturnValues: 'ALL_NEW',
+  };
+
+  const res = await DB.update(updateParam).promise();
+
+  return parseDynamoDBAttribute<GameState>(res);
+};
+
+/**
+ * Keep the users who claimed the last discard to win, when several users can win on the same discard (Sichuan).
+ * The last discard is kept until every one of them has declared the win (see declareWin).
+ * @param {string} gameId Game Id
+ * @param {string[]} winnerConnectionIds connection Ids of the users who claimed the last discard to win
+ */
+export const setDiscardWinners = async (
+  gameId: string,
+  winnerConnectionIds: string[],
+): Promise<GameState | undefined> => {
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAME_STATE_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: 'attribute_exists(#lastDiscard)',
+    UpdateExpression: 'SET #lastDiscard.#winnerConnectionIds = :winnerConnectionIds',
+    ExpressionAttributeNames: {
+      '#lastDiscard': 'lastDiscard',
+      '#winnerConnectionIds': 'winnerConnectionIds',
+    },
+    ExpressionAttributeValues: {
+      ':winnerConnectionIds': winnerConnectionIds,
+    },
+    ReturnValues: 'ALL_NEW',
+  };
+
+  const res = await DB.update(updateParam).promise();
+
+  return parseDynamoDBAttribute<GameState>(res);
+};
+
+/**
+ * Take the winning tile of a user when only one user can win in a round, so concurrent wins on the same tile
+ * cannot both be settled. A self-drawn tile is removed as the last draw. A played tile is kept as the last discard
+ * (so no other user can draw before the next round), and the winner is kept as its only winner.
+ * @param {string} gameId Game Id
+ * @param {string} connectionId Connection Id of the winner
+ * @param {WinSource} winSource where the winning tile came from
+ */
+export const claimWinningTile = async (
+  gameId: string,
+  connectionId: string,
+  winSource: WinSource,
+): Promise<GameState | undefined> => {
+  const { winType, winningTile, discarderConnectionId } = winSource;
+  const isSelfDrawn = winType === WinTypeEnum.SELF_DRAWN || winType === WinTypeEnum.KONG_REPLACEMENT;
+
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAME_STATE_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: isSelfDrawn
+      ? 'attribute_not_exists(#lastDiscard) AND #lastDraw.#connectionId = :connectionId AND #lastDraw.#tile = :tile'
+      : `#lastDiscard.#connectionId = :discarderConnectionId AND #lastDiscard.#tile = :tile AND
+         attribute_not_exists(#lastDiscard.#winnerConnectionIds)`,
+    UpdateExpression: isSelfDrawn ? 'REMOVE #lastDraw' : 'SET #lastDiscard.#winnerConnectionIds = :winnerConnectionIds',
+    ExpressionAttributeNames: {
+      '#lastDiscard': 'lastDiscard',
+      '#connectionId': 'connectionId',
+      '#tile': 'tile',
+      ...(isSelfDrawn ? { '#lastDraw': 'lastDraw' } : { '#winnerConnectionIds': 'winnerConnectionIds' }),
+    },
+    ExpressionAttributeValues: {
+      ':tile': winningTile,
+      ...(isSelfDrawn
+        ? { ':connectionId': connectionId }
+        : { ':discarderConnectionId': discarderConnectionId, ':winnerConnectionIds': [connectionId] }),
+    },
+    ReturnValues: 'ALL_NEW',
+  };
+
+  const res = await DB.update(updateParam).promise();
+
+  return parseDynamoDBAttribute<GameState>(res);
+};
+
+/**
+ * Mark a user as having won, so the round goes on without the user (Sichuan).
+ * Once every user who claimed the last discard to win has won (or after a self-drawn win), the last discard
+ * is removed and the turn moves to the next user still playing after the winner (after the last winner
+ * in turn order from the discarder, if several users won on the discard).
+ * @param {string} gameId Game Id
+ * @param {string} connectionId Connection Id of the winner
+ */
+export const declareWin = async (gameId: string, connectionId: string): Promise<GameState | undefined> => {
+  const { hands, lastDiscard } = (await getGameStateByGameId(gameId, ['hands', 'lastDiscard'])) as GameState;
+  const handIndex = getHandIndexByConnectionId(hands, connectionId);
+  if (handIndex === -1) {
+    throw Error('declareWin: user hand not found');
+  }
+
+  // Condition on the other winners of the discard, so the turn is only passed once by concurrent updates
+  const otherWinnerSeats = (lastDiscard?.winnerConnectionIds || [])
+    .filter((winnerConnectionId) => winnerConnectionId !== connectionId)
+    .map((winnerConnectionId) => getHandIndexByConnectionId(hands, winnerConnectionId));
+  if (otherWinnerSeats.includes(-1)) {
+    throw Error('declareWin: winner hand not found');
+  }
+
+  const otherWinnerConditions = otherWinnerSeats.map((seatIndex) =>
+    hands[seatIndex].hasWon
+      ? `attribute_exists(#hands[${seatIndex}].#hasWon)`
+      : `attribute_not_exists(#hands[${seatIndex}].#hasWon)`,
+  );
+  const isTurnPassed = otherWinnerSeats.every((seatIndex) => hands[seatIndex].hasWon);
+
+  // The turn goes to the user after the winner who is the furthest from the discarder in turn order
+  const handsAfterWin = hands.map((hand, seatIndex) => (seatIndex === handIndex ? { ...hand, hasWon: true } : hand));
+  const fromSeatIndex = lastDiscard ? getHandIndexByConnectionId(hands, lastDiscard.connectionId) : handIndex;
+  const getSeatDistance = (seatIndex: number) => (seatIndex - fromSeatIndex + hands.length) % hands.length;
+  const lastWinnerSeat = [handIndex, ...otherWinnerSeats].reduce((lastSeat, seatIndex) =>
+    getSeatDistance(seatIndex) > getSeatDistance(lastSeat) ? seatIndex : lastSeat,
+  );
+
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAME_STATE_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: [
+      `#hands[${handIndex}].#connectionId = :connectionId`,
+      `attribute_not_exists(#hands[${handIndex}].#hasWon)`,
+      ...otherWinnerConditions,
+    ].join(' AND '),
+    UpdateExpression: `
+      SET #hands[${handIndex}].#hasWon = :hasWon${isTurnPassed ? ', #currentTurn = :nextTurn' : ''}
+      ${isTurnPassed ? 'REMOVE #lastDiscard, #lastDraw' : ''}
+    `,
+    ExpressionAttributeNames: {
+      '#hands': 'hands',
+      '#connectionId': 'connectionId',
+      '#hasWon': 'hasWon',
+      ...(isTurnPassed
+        ? { '#currentTurn': 'currentTurn', '#lastDiscard': 'lastDiscard', '#lastDraw': 'lastDraw' }
+        : {}),
+    },
+    ExpressionAttributeValues: {
+      ':connectionId': connectionId,
+      ':hasWon': true,
+      ...(isTurnPassed ? { ':nextTurn': getNextSeatInPlay(handsAfterWin, lastWinnerSeat) } : {}),
+    },
+    ReturnValues: 'ALL_NEW',
+  };
+
+  const res = await DB.update(updateParam).promise();
+
+  return parseDynamoDBAttribute<GameState>(res);
+};
+
+/**
+ * Mark users as furiten (they cannot win on a played tile) after they passed a winning tile.
+ * @param {string} gameId Game Id
+ * @param {string[]} connectionIds connection Ids of the users who passed a winning tile
+ */
+export const setFuriten = async (gameId: string, connectionIds: string[]): Promise<GameState | undefined> => {
+  const { hands } = (await getGameStateByGameId(gameId, ['hands'])) as GameState;
+  const handIndexes = connectionIds.map((connectionId) => getHandIndexByConnectionId(hands, connectionId));
+  if (handIndexes.includes(-1)) {
+    throw Error('setFuriten: user hand not found');
+  }
+
+  const expressionAttributeValues: DocumentClient.ExpressionAttributeValueMap = { ':furiten': true };
+  handIndexes.forEach((handIndex, i) => {
+    expressionAttributeValues[`:connectionId${i}`] = connectionIds[i];
+  });
+
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAME_STATE_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: handIndexes
+      .map((handIndex, i) => `#hands[${handIndex}].#connectionId = :connectionId${i}`)
+      .join(' AND '),
+    UpdateExpression: `SET ${handIndexes.map((handIndex) => `#hands[${handIndex}].#furiten = :furiten`).join(', ')}`,
+    ExpressionAttributeNames: {
+      '#hands': 'hands',
+      '#connectionId': 'connectionId',
+      '#furiten': 'furiten',
+    },
+    ExpressionAttributeValues: expressionAttributeValues,
+    ReturnValues: 'ALL_NEW',
+  };
+
+  const res = await DB.update(updateParam).promise();
+
+  return parseDynamoDBAttribute<GameState>(res);
+};
+
+/**
+ * Add the score deltas of a round to the running score of every user, and add the round to the score sheet.
+ * The riichi sticks on the table go to the winner (the winner's delta must include them), so they are cleared on a win.
+ * @param {string} gameId Game Id
+ * @param {RoundScore} roundScore result of the round, with the score deltas in seat order
+ */
+export const settleRound = async (gameId: string, roundScore: RoundScore): Promise<GameState | undefined> => {
+  const scoreExpressions = roundScore.deltas.map(
+    (_delta, seat) => `#scores[${seat}] = #scores[${seat}] + :delta${seat}`,
+  );
+  const isWin = !!roundScore.winnerConnectionId;
+  const expressionAttributeValues: DocumentClient.ExpressionAttributeValueMap = {
+    ':emptyList': [],
+    ':roundScore': [roundScore],
+    ...(isWin ? { ':noRiichiSticks': 0 } : {}),
+  };
+  roundScore.deltas.forEach((delta, seat) => {
+    expressionAttributeValues[`:delta${seat}`] = delta;
+  });
+
+  const updateParam: DocumentClient.UpdateItemInput = {
+    TableName: GAME_STATE_TABLE,
+    Key: {
+      gameId,
+    },
+    ConditionExpression: 'attribute_exists(#scores)',
+    UpdateExpression: `
+      SET ${scoreExpressions.join(', ')},
+          #scoreSheet = list_append(if_not_exists(#scoreSheet, :emptyList), :roundScore)${
+            isWin ? ', #riichiSticks = :noRiichiSticks' : ''
+          }
+    `,
+    ExpressionAttributeNames: {
+      '#scores': 'scores',
+      '#scoreSheet': 'scoreSheet',
+      ...(isWin ? { '#riichiSticks': 'riichiSticks' } : {}),
+    },
+    ExpressionAttributeValues: expressionAttributeValues,
+    ReturnValues: 'ALL_NEW',
+  };
+
+  const res = await DB.update(updateParam).promise();
+
+  return parseDynamoDBAttribute<GameState>(res);
+};
+
 /**
  * Starts new game round with new hands, wall and reset game round values.
  * @param {string} gameId gameId
  * @param {string[]} connectionIds connectionIds of players in gameId
- * @param {boolean} isDealerChanged changes dealer in new round if true
+ * @param {boolean} isDealerChanged changes dealer in new round if true, otherwise the dealer repeat count goes up
+ * @param {Ruleset} ruleset ruleset of the game, used to build the wall
+ * @param {boolean} redFives replace one five of each suit by a red five (Japanese only)
  */
 export const startNewGameRound = async (
   gameId: string,
   connectionIds: string[],
   isDealerChanged: boolean,
+  ruleset: Ruleset = HongKongRuleset,
+  redFives = false,
 ): Promise<GameState | undefined> => {
-  const newWall = new HongKongWall();
+  const newWall = RulesetFactory.createWall(ruleset, redFives);
 
   // Generate hand for each user
-  const hands: UserHand[] = generateHongKongMahjongHands(newWall, connectionIds);
+  const hands: UserHand[] = generateMahjongHands(newWall, connectionIds);
+
+  // Reset the dealer repeat count for a new dealer, otherwise count one more round for the same dealer
+  const dealerRepeatCountExpression = isDealerChanged
+    ? ':initDealerRepeatCount'
+    : 'if_not_exists(dealerRepeatCount, :initDealerRepeatCount) + :incrementCountBy';
 
   const updateParam: DocumentClient.UpdateItemInput = {
     TableName: GAME_STATE_TABLE,
@@ -386,18 +1489,30 @@ export const startNewGameRound = async (
     ConditionExpression: 'attribute_exists(gameId)',
     ExpressionAttributeValues: {
       ':initCurrentIndex': newWall.getCurrentTileIndex(),
+      ':initReplacementCount': newWall.getReplacementTileCount(),
       ':initWall': newWall.getTiles(), // array of tiles
+      ':initDeadWall': newWall.getDeadWall(),
       ':initHands': hands,
       ':initInteractionCount': 0,
       ':initPlayedTileInteractions': [],
+      ':initDealerRepeatCount': 0,
+      ...(isDealerChanged ? {} : { ':incrementCountBy': 1 }),
+      ...(ruleset.hasCharleston ? { ':initCharleston': createCharlestonState(connectionIds.length) } : {}),
+      ...(ruleset.hasMissingSuit ? { ':declaringMissingSuit': true } : {}),
     },
     ReturnValues: 'ALL_NEW',
     UpdateExpression: `
       SET currentIndex           = :initCurrentIndex,
+          replacementCount       = :initReplacementCount,
           wall                   = :initWall,
+          deadWall               = :initDeadWall,
           hands                  = :initHands,
           interactionCount       = :initInteractionCount,
-          playedTileInteractions = :initPlayedTileInteractions
+          playedTileInteractions = :initPlayedTileInteractions,
+          dealerRepeatCount      = ${dealerRepeatCountExpression}${
+      ruleset.hasCharleston ? ', charleston = :initCharleston' : ''
+    }${ruleset.hasMissingSuit ? ', declaringMissingSuit = :declaringMissingSuit' : ''}
+      REMOVE lastDiscard, lastDraw
     `,
   };
 
@@ -409,6 +1524,11 @@ export const startNewGameRound = async (
     updatedGameState = await changeDealer(gameId);
   }
 
+  // the dealer takes the first turn
+  if (updatedGameState) {
+    updatedGameState = await setCurrentTurn(gameId, updatedGameState.dealer);
+  }
+
   return updatedGameState;
 };
 
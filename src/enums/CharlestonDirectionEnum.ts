@@ -0,0 +1,8 @@
+/**
+ * Direction tiles are passed to in a Charleston (American)
+ */
+export enum CharlestonDirectionEnum {
+  RIGHT = 'RIGHT',
+  ACROSS = 'ACROSS',
+  LEFT = 'LEFT',
+}
@@ -0,0 +1,6 @@
+/**
+ * Game type enum
+ */
+export enum GameTypeEnum {
+  MAHJONG = 'Mahjong',
+}
@@ -0,0 +1,8 @@
+/**
+ * Match length enum (the wind rounds played in a game)
+ */
+export enum MatchLengthEnum {
+  EAST_ONLY = 'EAST_ONLY',
+  EAST_SOUTH = 'EAST_SOUTH',
+  FULL = 'FULL',
+}
@@ -0,0 +1,9 @@
+/**
+ * Special winning hands that do not follow the four melds and a pair pattern
+ */
+export enum SpecialHandEnum {
+  THIRTEEN_ORPHANS = 'THIRTEEN_ORPHANS',
+  SEVEN_PAIRS = 'SEVEN_PAIRS',
+  HONORS_AND_KNITTED_TILES = 'HONORS_AND_KNITTED_TILES', // fourteen different honors and knitted tiles (MCR)
+  KNITTED_STRAIGHT = 'KNITTED_STRAIGHT', // 147, 258 and 369 of three different suits, a meld and a pair (MCR)
+}
@@ -29,4 +29,12 @@ export enum WebSocketActionsEnum {
   UPDATE_GAME_STATE = 'UPDATE_GAME_STATE',
   SELF_PLAY_TILE = 'SELF_PLAY_TILE',
   DRAW_ROUND = 'DRAW_ROUND',
+  REVEAL_BONUS_TILES = 'REVEAL_BONUS_TILES',
+  WAITING_TILES = 'WAITING_TILES',
+  SCORE_UPDATE = 'SCORE_UPDATE',
+  GAME_OVER = 'GAME_OVER',
+  RIICHI = 'RIICHI',
+  DORA_INDICATORS = 'DORA_INDICATORS',
+  CHARLESTON = 'CHARLESTON',
+  DECLARE_MISSING_SUIT = 'DECLARE_MISSING_SUIT',
 }
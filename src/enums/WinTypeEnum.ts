@@ -0,0 +1,9 @@
+/**
+ * Win type enum (where the winning tile came from)
+ */
+export enum WinTypeEnum {
+  SELF_DRAWN = 'SELF_DRAWN',
+  KONG_REPLACEMENT = 'KONG_REPLACEMENT',
+  DISCARD = 'DISCARD',
+  ROBBING_THE_KONG = 'ROBBING_THE_KONG',
+}
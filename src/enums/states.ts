@@ -10,4 +10,5 @@ export enum UserStatesEnum {
 export enum GameStatesEnum {
   CREATED = 'CREATED',
   DELETED = 'DELETED',
+  FINISHED = 'FINISHED',
 }
@@ -13,6 +13,14 @@ import { deleteGameState } from '../dynamodb/gameStateDBService';
 import { sendUpdateResult } from '../types/gameUpdate';
 import { removeGameIdFromUser } from '../dynamodb/userDBService';
 import { DEFAULT_MAX_USERS_IN_GAME } from '../utils/constants';
+import { GameState } from '../models/GameState';
+import { getHandByConnectionId, getHandIndexByConnectionId } from '../dynamodb/dbHelper';
+import { Ruleset } from '../games/mahjong/Ruleset/Ruleset';
+import { Meld } from '../games/mahjong/types/MahjongTypes';
+import { WinningHandValidator } from '../games/mahjong/Hand/WinningHandValidator';
+import { PatternCardValidator } from '../games/mahjong/Hand/PatternCardValidator';
+import { MissingSuit } from '../games/mahjong/Hand/MissingSuit';
+import { HongKongRuleset } from '../games/mahjong/Ruleset/version/HongKongRuleset';
 
 /**
  * Helper function to send updates to other users in the game when a user leaves the game.
@@ -85,6 +93,123 @@ export const sendUpdates = async (
  */
 export const findNextUser = (connectionId: string, connectionIds: string[]): string => {
   const playedTileUserIndex = connectionIds.findIndex((cid) => cid === connectionId);
-  const canMakeConsecutiveIndex = (playedTileUserIndex + 1) % DEFAULT_MAX_USERS_IN_GAME;
+  const canMakeConsecutiveIndex = (playedTileUserIndex + 1) % connectionIds.length;
   return connectionIds[canMakeConsecutiveIndex];
 };
+
+/**
+ * Get the seat wind of a user based on the user's seat and the current dealer (dealer is always East).
+ * @param {number} seatIndex Index of the user in the game (in fixed order in the db)
+ * @param {number} dealer Current dealer index
+ * @param {number} playerCount number of users in the game
+ */
+export const getSeatWind = (seatIndex: number, dealer: number, playerCount = DEFAULT_MAX_USERS_IN_GAME): number => {
+  return (seatIndex - dealer + playerCount) % playerCount;
+};
+
+/**
+ * Check if a user can draw or play a tile in the current turn.
+ * A user is waiting to draw when the hand (counting each exposed meld as 3 tiles) has 3n + 1 tiles,
+ * and has drawn a tile (so must play one) when the hand has 3n + 2 tiles.
+ * Quads are not replaced in games played with a card (American), so the tiles of each meld are counted instead.
+ * No turn can be taken while a Charleston (American) is in progress or missing suits (Sichuan) are being declared,
+ * and users who have already won (Sichuan) sit out the rest of the round.
+ * @param {GameState} gameState current game state
+ * @param {string} connectionId connection Id of the user
+ * @param {boolean} hasDrawnTile true if the user should have drawn a tile already (playing a tile)
+ * @param {Ruleset} ruleset ruleset of the game (whether quads are replaced)
+ * @returns an error message if the user cannot take the action, otherwise undefined
+ */
+export const validateTurn = (
+  gameState: GameState,
+  connectionId: string,
+  hasDrawnTile: boolean,
+  ruleset: Ruleset = HongKongRuleset,
+): string | undefined => {
+  const seatIndex = getHandIndexByConnectionId(gameState.hands, connectionId);
+  if (seatIndex === -1) return 'Cannot find the hand of the user in game state';
+  if (gameState.charleston) return 'Waiting for every user to finish the Charleston';
+  if (gameState.declaringMissingSuit) return 'Waiting for every user to declare a missing suit';
+  if (gameState.hands[seatIndex].hasWon) return 'You have already won this round';
+  if (seatIndex !== gameState.currentTurn) return 'It is not your turn';
+  if (gameState.lastDiscard) return 'Waiting for other users to interact with the played tile';
+
+  const { hand, exposedMelds = [] } = gameState.hands[seatIndex];
+  const handSize = exposedMelds.reduce(
+    (size, meld) => size + (ruleset.patternCard ? meld.tiles.length : 3),
+    hand.length,
+  );
+  if (hasDrawnTile && handSize % 3 !== 2) return 'Draw a tile before playing a tile';
+  if (!hasDrawnTile && handSize % 3 !== 1) return 'A tile has already been drawn in this turn';
+
+  return undefined;
+};
+
+/**
+ * Check if a user can change the hand. After declaring riichi the hand is locked,
+ * so the user can only play the tile just drawn and cannot declare melds.
+ * @param {GameState} gameState current game state
+ * @param {string} connectionId connection Id of the user
+ * @param {string} tile tile being played, undefined if the user is declaring a meld
+ * @returns an error message if the hand is locked, otherwise undefined
+ */
+export const validateLockedHand = (gameState: GameState, connectionId: string, tile?: string): string | undefined => {
+  const seatIndex = getHandIndexByConnectionId(gameState.hands, connectionId);
+  if (seatIndex === -1 || !gameState.hands[seatIndex].riichi) return undefined;
+
+  const { lastDraw } = gameState;
+  if (!tile) return 'Cannot declare a meld after riichi';
+  if (lastDraw?.connectionId !== connectionId || lastDraw.tile !== tile) {
+    return 'Only the drawn tile can be played after riichi';
+  }
+
+  return undefined;
+};
+
+/**
+ * Check if a user with a missing suit (Sichuan) can play a tile: tiles of the missing suit must be played first.
+ * @param {GameState} gameState current game state
+ * @param {string} connectionId connection Id of the user
+ * @param {string} tile tile being played
+ * @returns an error message if another tile of the missing suit must be played first, otherwise undefined
+ */
+export const validateMissingSuitDiscard = (
+  gameState: GameState,
+  connectionId: string,
+  tile: string,
+): string | undefined => {
+  const userHand = getHandByConnectionId(gameState.hands, connectionId);
+  if (!userHand) return undefined;
+
+  const missingSuitTiles = MissingSuit.getTilesOfSuit(userHand.hand, userHand.missingSuit);
+  if (missingSuitTiles.length > 0 && !missingSuitTiles.includes(tile)) {
+    return 'Tiles of the missing suit must be played first';
+  }
+
+  return undefined;
+};
+
+/**
+ * Check if the tiles form a winning hand in a game. Games played with a card (American) match the hand against
+ * the patterns of the card, other games need melds and a pair (or a special hand of the ruleset).
+ * A hand with a tile of the missing suit of the user (Sichuan) cannot win.
+ * @param {Ruleset} ruleset ruleset of the game
+ * @param {string[]} concealedTiles tiles in the hand that are not part of an exposed meld (including the winning tile)
+ * @param {Meld[]} exposedMelds melds that have already been exposed
+ * @param {string} missingSuit missing suit of the user, undefined if the game has no missing suit
+ */
+export const isWinningHandInGame = (
+  ruleset: Ruleset,
+  concealedTiles: string[],
+  exposedMelds: Meld[] = [],
+  missingSuit?: string,
+): boolean => {
+  const meldTiles = exposedMelds.reduce((tiles: string[], meld) => [...tiles, ...meld.tiles], []);
+  if (MissingSuit.getTilesOfSuit([...concealedTiles, ...meldTiles], missingSuit).length > 0) return false;
+
+  if (ruleset.patternCard) {
+    return PatternCardValidator.isWinningHand(ruleset.patternCard, concealedTiles, exposedMelds);
+  }
+
+  return WinningHandValidator.isWinningHand(concealedTiles, exposedMelds, ruleset.meldCount, ruleset.specialHands);
+};
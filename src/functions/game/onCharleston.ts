@@ -0,0 +1,112 @@
+import { Handler } from 'aws-lambda';
+import { LambdaEventBody, WebSocketAPIGatewayEvent } from '../../types/event';
+import { LambdaResponse } from '../../types/response';
+import { Logger } from '../../utils/Logger';
+import { LambdaEventBodyPayloadOptions } from '../../types/payload';
+import { WebSocketClient } from '../../websocket/WebSocketClient';
+import { response } from '../../utils/responseHelper';
+import { broadcastCharlestonTiles } from '../../websocket/broadcast/gameBroadcast';
+import { getGameByGameId } from '../../dynamodb/gameDBService';
+import { getConnectionIdsFromUsers } from '../../utils/broadcastHelper';
+import { exchangeCharlestonTiles, getGameStateByGameId, passCharlestonTiles } from '../../dynamodb/gameStateDBService';
+import { CharlestonState, GameState } from '../../models/GameState';
+import {
+  createCharlestonResponse,
+  failedWebSocketResponse,
+  successWebSocketResponse,
+} from '../../websocket/createWSResponse';
+import { getHandIndexByConnectionId } from '../../dynamodb/dbHelper';
+import { HandHelper } from '../../games/mahjong/Hand/HandHelper';
+import { Charleston } from '../../games/mahjong/Hand/Charleston';
+import { RulesetFactory } from '../../games/mahjong/Ruleset/RulesetFactory';
+
+/**
+ * Validate the tiles passed by a user in the current pass of a Charleston (American).
+ * The user must pass three tiles from the hand (jokers cannot be passed), once in each pass.
+ * @param {GameState} gameState current game state
+ * @param {string} connectionId connection Id of the user
+ * @param {string[]} tiles tiles passed by the user
+ * @returns an error message if the user cannot pass the tiles, otherwise undefined
+ */
+export const validateCharlestonPass = (
+  gameState: GameState,
+  connectionId: string,
+  tiles: string[],
+): string | undefined => {
+  const { charleston } = gameState;
+  if (!charleston) return 'There is no Charleston in progress';
+
+  const seatIndex = getHandIndexByConnectionId(gameState.hands, connectionId);
+  if (seatIndex === -1) return 'Cannot find the hand of the user in game state';
+  if (charleston.passedTiles[seatIndex].length > 0) return 'Tiles have already been passed in this pass';
+  if (tiles.length !== Charleston.PASS_LENGTH) return `Exactly ${Charleston.PASS_LENGTH} tiles must be passed`;
+  if (tiles.some((tile) => HandHelper.isJokerTile(tile))) return 'Jokers cannot be passed';
+  if (!HandHelper.containsTiles(gameState.hands[seatIndex].hand, tiles)) return 'Passed tiles are not in hand';
+
+  return undefined;
+};
+
+/**
+ * Handler for passing tiles in a Charleston (American).
+ * Once every user has passed, the tiles are exchanged and each user is sent the tiles received.
+ * @param {WebSocketAPIGatewayEvent} event Websocket API gateway event
+ */
+export const handler: Handler = async (event: WebSocketAPIGatewayEvent): Promise<LambdaResponse> => {
+  Logger.createLogTitle('onCharleston.ts');
+
+  // Parse event
+  const { connectionId } = event.requestContext;
+  const body: LambdaEventBody = JSON.parse(event.body);
+  const { payload }: { payload: LambdaEventBodyPayloadOptions } = body;
+  const gameId = payload.gameId as string;
+  const tiles = payload.tiles || [];
+  const stopCharleston = !!payload.stopCharleston;
+
+  const ws = new WebSocketClient(event.requestContext);
+  const charlestonResponse = createCharlestonResponse({ tiles, passIndex: -1, charlestonFinished: false });
+  try {
+    const game = await getGameByGameId(gameId);
+    const gameState = await getGameStateByGameId(gameId);
+    if (!game || !gameState) {
+      const errorMsg = 'Cannot find the game to pass tiles';
+      await ws.send(failedWebSocketResponse(charlestonResponse, errorMsg), connectionId);
+      return response(400, errorMsg);
+    }
+
+    const ruleset = RulesetFactory.getRuleset(game.gameType, game.gameVersion);
+    const charlestonError = ruleset.hasCharleston
+      ? validateCharlestonPass(gameState, connectionId, tiles)
+      : 'The Charleston is only played in an American game';
+    if (charlestonError) {
+      await ws.send(failedWebSocketResponse(charlestonResponse, charlestonError), connectionId);
+      return response(400, charlestonError);
+    }
+
+    // Keep the passed tiles until every user has passed
+    const updatedGameState = (await passCharlestonTiles(gameId, connectionId, tiles, stopCharleston)) as GameState;
+    const charleston = updatedGameState.charleston as CharlestonState;
+    await ws.send(
+      successWebSocketResponse(
+        createCharlestonResponse({ tiles, passIndex: charleston.passIndex, charlestonFinished: false }),
+      ),
+      connectionId,
+    );
+
+    // The last user to pass exchanges the tiles and sends every user the tiles received
+    if (charleston.passedTiles.every((passedTiles) => passedTiles.length === Charleston.PASS_LENGTH)) {
+      await exchangeCharlestonTiles(gameId, charleston);
+      await broadcastCharlestonTiles(
+        ws,
+        getConnectionIdsFromUsers(game.users),
+        Charleston.exchangeTiles(charleston.passedTiles, charleston.passIndex),
+        charleston.passIndex,
+        Charleston.isFinished(charleston.passIndex + 1, charleston.stopCount),
+      );
+    }
+
+    return response(200, 'Tiles passed successfully');
+  } catch (err) {
+    await ws.send(failedWebSocketResponse(charlestonResponse, err.message), connectionId);
+    return response(500, 'Failed to pass tiles');
+  }
+};
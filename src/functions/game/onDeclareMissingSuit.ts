@@ -0,0 +1,97 @@
+import { Handler } from 'aws-lambda';
+import { LambdaEventBody, WebSocketAPIGatewayEvent } from '../../types/event';
+import { LambdaResponse } from '../../types/response';
+import { Logger } from '../../utils/Logger';
+import { LambdaEventBodyPayloadOptions } from '../../types/payload';
+import { WebSocketClient } from '../../websocket/WebSocketClient';
+import { response } from '../../utils/responseHelper';
+import { broadcastMissingSuits } from '../../websocket/broadcast/gameBroadcast';
+import { getGameByGameId } from '../../dynamodb/gameDBService';
+import { getConnectionIdsFromUsers } from '../../utils/broadcastHelper';
+import { declareMissingSuit, getGameStateByGameId } from '../../dynamodb/gameStateDBService';
+import { GameState } from '../../models/GameState';
+import {
+  createMissingSuitResponse,
+  failedWebSocketResponse,
+  successWebSocketResponse,
+} from '../../websocket/createWSResponse';
+import { getHandByConnectionId } from '../../dynamodb/dbHelper';
+import { MissingSuit } from '../../games/mahjong/Hand/MissingSuit';
+import { RulesetFactory } from '../../games/mahjong/Ruleset/RulesetFactory';
+
+/**
+ * Validate the missing suit declared by a user before the first turn (Sichuan).
+ * The user must declare one of the three suits, once in a round.
+ * @param {GameState} gameState current game state
+ * @param {string} connectionId connection Id of the user
+ * @param {string} missingSuit suit declared by the user
+ * @returns an error message if the user cannot declare the missing suit, otherwise undefined
+ */
+export const validateMissingSuit = (
+  gameState: GameState,
+  connectionId: string,
+  missingSuit: string,
+): string | undefined => {
+  if (!gameState.declaringMissingSuit) return 'Missing suits have already been declared';
+
+  const userHand = getHandByConnectionId(gameState.hands, connectionId);
+  if (!userHand) return 'Cannot find the hand of the user in game state';
+  if (userHand.missingSuit) return 'A missing suit has already been declared';
+  if (!MissingSuit.isSuit(missingSuit)) return `${missingSuit} is not a suit`;
+
+  return undefined;
+};
+
+/**
+ * Handler for declaring the missing suit of a user (Sichuan).
+ * Once every user has declared, the missing suits of all users are sent to every user and the first turn can start.
+ * @param {WebSocketAPIGatewayEvent} event Websocket API gateway event
+ */
+export const handler: Handler = async (event: WebSocketAPIGatewayEvent): Promise<LambdaResponse> => {
+  Logger.createLogTitle('onDeclareMissingSuit.ts');
+
+  // Parse event
+  const { connectionId } = event.requestContext;
+  const body: LambdaEventBody = JSON.parse(event.body);
+  const { payload }: { payload: LambdaEventBodyPayloadOptions } = body;
+  const gameId = payload.gameId as string;
+  const missingSuit = payload.missingSuit || '';
+
+  const ws = new WebSocketClient(event.requestContext);
+  const missingSuitResponse = createMissingSuitResponse({ missingSuits: [] });
+  try {
+    const game = await getGameByGameId(gameId);
+    const gameState = await getGameStateByGameId(gameId);
+    if (!game || !gameState) {
+      const errorMsg = 'Cannot find the game to declare a missing suit';
+      await ws.send(failedWebSocketResponse(missingSuitResponse, errorMsg), connectionId);
+      return response(400, errorMsg);
+    }
+
+    const ruleset = RulesetFactory.getRuleset(game.gameType, game.gameVersion);
+    const missingSuitError = ruleset.hasMissingSuit
+      ? validateMissingSuit(gameState, connectionId, missingSuit)
+      : 'A missing suit is only declared in a Sichuan game';
+    if (missingSuitError) {
+      await ws.send(failedWebSocketResponse(missingSuitResponse, missingSuitError), connectionId);
+      return response(400, missingSuitError);
+    }
+
+    const updatedGameState = (await declareMissingSuit(gameId, connectionId, missingSuit)) as GameState;
+    await ws.send(successWebSocketResponse(missingSuitResponse), connectionId);
+
+    // The last user to declare sends the missing suits of every user
+    if (!updatedGameState.declaringMissingSuit) {
+      await broadcastMissingSuits(
+        ws,
+        getConnectionIdsFromUsers(game.users),
+        updatedGameState.hands.map((hand) => hand.missingSuit as string),
+      );
+    }
+
+    return response(200, 'Missing suit declared successfully');
+  } catch (err) {
+    await ws.send(failedWebSocketResponse(missingSuitResponse, err.message), connectionId);
+    return response(500, 'Failed to declare a missing suit');
+  }
+};
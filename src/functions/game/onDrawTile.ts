@@ -6,6 +6,12 @@ import { LambdaEventBodyPayloadOptions } from '../../types/payload';
 import { WebSocketClient } from '../../websocket/WebSocketClient';
 import { response } from '../../utils/responseHelper';
 import { broadcastDrawTileToUser } from '../../websocket/broadcast/gameBroadcast';
+import { getGameStateByGameId } from '../../dynamodb/gameStateDBService';
+import { validateTurn } from '../functionsHelper';
+import { createDrawTileResponse, failedWebSocketResponse } from '../../websocket/createWSResponse';
+import { GameState } from '../../models/GameState';
+import { getGameByGameId } from '../../dynamodb/gameDBService';
+import { RulesetFactory } from '../../games/mahjong/Ruleset/RulesetFactory';
 
 /**
  * Handler for drawing a tile from the mahjong wall.
@@ -22,6 +28,21 @@ export const handler: Handler = async (event: WebSocketAPIGatewayEvent): Promise
 
   const ws = new WebSocketClient(event.requestContext);
   try {
+    // Reject the draw if it is not the user's turn to draw
+    const gameState = (await getGameStateByGameId(gameId)) as GameState;
+    const game = await getGameByGameId(gameId);
+    const turnError = validateTurn(
+      gameState,
+      connectionId,
+      false,
+      RulesetFactory.getRuleset(game?.gameType, game?.gameVersion),
+    );
+    if (turnError) {
+      const drawTileResponse = createDrawTileResponse({ tile: '', currentIndex: gameState.currentIndex });
+      await ws.send(failedWebSocketResponse(drawTileResponse, turnError), connectionId);
+      return response(400, turnError);
+    }
+
     await broadcastDrawTileToUser(ws, gameId, connectionId);
     return response(200, 'Tile drawn from wall successfully');
   } catch (err) {
@@ -14,6 +14,7 @@ import {
 import { Game } from '../../models/Game';
 import { broadcastGameStart } from '../../websocket/broadcast/gameBroadcast';
 import { getConnectionIdsFromUsers } from '../../utils/broadcastHelper';
+import { getPlayerCount } from '../../dynamodb/dbHelper';
 
 export const handler: Handler = async (event: WebSocketAPIGatewayEvent): Promise<LambdaResponse> => {
   Logger.createLogTitle('onGamePageLoad.ts');
@@ -38,9 +39,9 @@ export const handler: Handler = async (event: WebSocketAPIGatewayEvent): Promise
 
   const { users, gameLoadedCount } = game;
   try {
-    // Start game if 4 users' game page has been loaded
+    // Start game if every user's game page has been loaded
     // TODO: can probably add user ready logic to this
-    if (gameLoadedCount === 4) {
+    if (gameLoadedCount === getPlayerCount(game)) {
       const connectionIds = getConnectionIdsFromUsers(users);
       await broadcastGameStart(ws, gameId, connectionIds, true);
       return response(200, 'Game started (after game page loaded) successfully');
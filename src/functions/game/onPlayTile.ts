@@ -7,10 +7,15 @@ import { WebSocketClient } from '../../websocket/WebSocketClient';
 import { response } from '../../utils/responseHelper';
 import { broadcastPlayedTileToUsers } from '../../websocket/broadcast/gameBroadcast';
 import { getGameByGameId } from '../../dynamodb/gameDBService';
+import { RulesetFactory } from '../../games/mahjong/Ruleset/RulesetFactory';
 import { getConnectionIdsFromUsers } from '../../utils/broadcastHelper';
+import { discardTile, getGameStateByGameId } from '../../dynamodb/gameStateDBService';
+import { validateLockedHand, validateMissingSuitDiscard, validateTurn } from '../functionsHelper';
+import { GameState } from '../../models/GameState';
+import { createPlayTileResponse, failedWebSocketResponse } from '../../websocket/createWSResponse';
 
 /**
- * Handler for drawing a tile from the mahjong wall.
+ * Handler for discarding a tile from a user hand.
  * @param {WebSocketAPIGatewayEvent} event Websocket API gateway event
  */
 export const handler: Handler = async (event: WebSocketAPIGatewayEvent): Promise<LambdaResponse> => {
@@ -27,17 +32,34 @@ export const handler: Handler = async (event: WebSocketAPIGatewayEvent): Promise
   try {
     let connectionIds: string[] = [];
 
-    // Get all the users in a game
+    // Reject the discard if it is not the user's turn to play a tile, the hand is locked by riichi,
+    // or a tile of the missing suit must be played first
+    const gameState = (await getGameStateByGameId(gameId)) as GameState;
     const game = await getGameByGameId(gameId);
+    const ruleset = RulesetFactory.getRuleset(game?.gameType, game?.gameVersion);
+    const turnError =
+      validateTurn(gameState, connectionId, true, ruleset) ||
+      validateLockedHand(gameState, connectionId, tile) ||
+      validateMissingSuitDiscard(gameState, connectionId, tile);
+    if (turnError) {
+      await ws.send(failedWebSocketResponse(createPlayTileResponse({ connectionId, tile }), turnError), connectionId);
+      return response(400, turnError);
+    }
+
+    // Get all the users in a game
     if (game) {
       connectionIds = getConnectionIdsFromUsers(game.users);
     }
 
+    // Remove the tile from the user hand, keep it as the last discard and move on to the next turn
+    await discardTile(gameId, connectionId, tile);
+
     // Send the tile that is played by a user
     await broadcastPlayedTileToUsers(ws, tile, connectionId, connectionIds);
 
     return response(200, 'Tile discarded successfully');
   } catch (err) {
+    await ws.send(failedWebSocketResponse(createPlayTileResponse({ connectionId, tile }), err.message), connectionId);
     return response(500, 'Failed to discard a tile');
   }
 };
@@ -13,24 +13,140 @@ import {
 import { MeldEnum } from '../../enums/MeldEnum';
 import {
   getCurrentPlayedTile,
+  getGameStateByGameId,
   getInteractionCount,
+  meldDiscardedTile,
+  removeLastDiscard,
   resetPlayedTileInteraction,
+  selfPlayTile,
+  setDiscardWinners,
+  setFuriten,
   setPlayedTileInteraction,
 } from '../../dynamodb/gameStateDBService';
-import { GameState, PlayedTile } from '../../models/GameState';
-import { DEFAULT_MAX_USERS_IN_GAME } from '../../utils/constants';
+import { Discard, GameState, PlayedTile, UserHand } from '../../models/GameState';
 import { getConnectionIdsFromUsers } from '../../utils/broadcastHelper';
-import { getUsersInGame } from '../../dynamodb/gameDBService';
+import { getGameByGameId, getUsersInGame } from '../../dynamodb/gameDBService';
 import { User } from '../../models/User';
 import { broadcastInteractionSuccess } from '../../websocket/broadcast/gameStateBroadcast';
+import { findNextUser, isWinningHandInGame } from '../functionsHelper';
+import { broadcastDrawTileToUser } from '../../websocket/broadcast/gameBroadcast';
+import { getHandByConnectionId } from '../../dynamodb/dbHelper';
+import { HandHelper } from '../../games/mahjong/Hand/HandHelper';
+import { MissingSuit } from '../../games/mahjong/Hand/MissingSuit';
+import { MeldValidator } from '../../games/mahjong/Hand/MeldValidator';
+import { WaitingTilesCalculator } from '../../games/mahjong/Hand/WaitingTilesCalculator';
+import { Ruleset } from '../../games/mahjong/Ruleset/Ruleset';
+import { RulesetFactory } from '../../games/mahjong/Ruleset/RulesetFactory';
+import { HongKongRuleset } from '../../games/mahjong/Ruleset/version/HongKongRuleset';
+
+/**
+ * Check if a user could win with a played tile, not counting the furiten rule.
+ * Users who have already won (Sichuan) cannot win again, and a tile of the missing suit cannot complete a hand.
+ * @param {UserHand} userHand hand of the user stored in the game state
+ * @param {string} tile played tile
+ * @param {Ruleset} ruleset ruleset of the game
+ */
+const canWinWithTile = (userHand: UserHand, tile: string, ruleset: Ruleset): boolean => {
+  return (
+    !userHand.hasWon &&
+    isWinningHandInGame(ruleset, [...userHand.hand, tile], userHand.exposedMelds, userHand.missingSuit)
+  );
+};
+
+/**
+ * Validate an interaction (a claim or a skip) with the last discarded tile. The discarder and users who have
+ * already won (Sichuan) cannot interact with it, and each other user interacts with it once.
+ * @param {GameState} gameState current game state
+ * @param {string} connectionId connection Id of the user interacting with the played tile
+ * @returns an error message if the user cannot interact with the played tile, otherwise undefined
+ */
+export const validatePlayedTileInteraction = (gameState: GameState, connectionId: string): string | undefined => {
+  const { lastDiscard } = gameState;
+  if (!lastDiscard) return 'There is no played tile to interact with';
+  if (lastDiscard.connectionId === connectionId) return 'Cannot interact with your own played tile';
+  if (lastDiscard.interactedConnectionIds?.includes(connectionId)) {
+    return 'You have already interacted with the played tile';
+  }
+
+  const userHand = getHandByConnectionId(gameState.hands, connectionId);
+  if (!userHand) return 'Cannot find the hand of the user in game state';
+  if (userHand.hasWon) return 'You have already won this round';
+
+  return undefined;
+};
+
+/**
+ * Validate a claim on the last discarded tile against the hand of the claimant stored in the game state.
+ * A meld claim must include the discarded tile, form a valid meld, and the rest of its tiles must be in the
+ * claimant's hand. A win claim must form a winning hand with the discarded tile. A played joker cannot be taken.
+ * A user in riichi can only claim a tile to win, and a furiten user cannot claim a tile to win (when the rule is used).
+ * A tile of the missing suit (Sichuan) can only be claimed to win, and users who have already won cannot claim tiles.
+ * @param {GameState} gameState current game state
+ * @param {string} connectionId connection Id of the claimant
+ * @param {string[]} playedTiles tiles of the claimed meld, including the discarded tile
+ * @param {string} meldType meld type (TRIPLET, CONSECUTIVE, QUAD or WIN)
+ * @param {Ruleset} ruleset ruleset of the game (meld types that can be claimed and furiten rule)
+ * @returns an error message if the claim is invalid, otherwise undefined
+ */
+export const validateMeldClaim = (
+  gameState: GameState,
+  connectionId: string,
+  playedTiles: string[],
+  meldType: string,
+  ruleset: Ruleset = HongKongRuleset,
+): string | undefined => {
+  if (ruleset.claimPriorities[meldType] === undefined) return `${meldType} cannot be claimed in this game`;
+
+  const interactionError = validatePlayedTileInteraction(gameState, connectionId);
+  if (interactionError) return interactionError;
+
+  const lastDiscard = gameState.lastDiscard as Discard;
+  if (lastDiscard.fromKong && meldType !== MeldEnum.WIN) return 'A tile added to a quad can only be taken to win';
+  if (HandHelper.isJokerTile(lastDiscard.tile)) return 'A played joker cannot be taken';
+
+  const userHand = getHandByConnectionId(gameState.hands, connectionId) as UserHand;
+
+  if (meldType === MeldEnum.WIN) {
+    if (!canWinWithTile(userHand, lastDiscard.tile, ruleset)) return 'Played tile does not complete a winning hand';
+
+    // Furiten: a winning tile was discarded by the user (even if another user claimed it),
+    // or passed since the user's last turn
+    const { hand, exposedMelds, discards = [], calledDiscards = [] } = userHand;
+    const isFuriten =
+      userHand.furiten || WaitingTilesCalculator.isFuriten(hand, exposedMelds, [...discards, ...calledDiscards]);
+    return ruleset.hasFuriten && isFuriten ? 'Cannot win on a played tile while furiten' : undefined;
+  }
+
+  if (userHand.riichi) return 'Cannot declare a meld after riichi';
+  if (MissingSuit.getTilesOfSuit([lastDiscard.tile], userHand.missingSuit).length > 0) {
+    return 'Cannot declare a meld with a tile of the missing suit';
+  }
+
+  const tilesFromHand = HandHelper.removeTiles(playedTiles, [lastDiscard.tile]);
+  if (!tilesFromHand) return 'Claimed tiles do not include the played tile';
+  if (!MeldValidator.isValidMeld(playedTiles, meldType, ruleset.hasJokers)) {
+    return `Claimed tiles do not form a valid ${meldType}`;
+  }
+  if (!HandHelper.containsTiles(userHand.hand, tilesFromHand)) return 'Claimed tiles are not in hand';
+
+  return undefined;
+};
 
 /**
  * Compare played tile interaction and decide whose can make meld base on meld priority.
- * Send message to all user in the game about who can take the played tile.
+ * Move the meld to the exposed melds of the user taking the played tile (who takes the next turn), then
+ * send message to all user in the game about who can take the played tile.
+ * When the furiten rule is used, users who could have won with the played tile but did not are marked as furiten.
+ * When several users can win on the same discard (Sichuan), every user claiming the played tile to win takes it.
  * @param {string} gameId Game Id
  * @param {WebSocketClient} ws WebSocketClient
+ * @param {Ruleset} ruleset ruleset of the game (claim priorities and furiten rule)
  */
-export const compareTileInteractionAndSendUpdate = async (gameId: string, ws: WebSocketClient): Promise<void> => {
+export const compareTileInteractionAndSendUpdate = async (
+  gameId: string,
+  ws: WebSocketClient,
+  ruleset: Ruleset = HongKongRuleset,
+): Promise<void> => {
   const users = (await getUsersInGame(gameId)) as User[];
   const connectionIds = getConnectionIdsFromUsers(users);
 
@@ -39,9 +155,68 @@ export const compareTileInteractionAndSendUpdate = async (gameId: string, ws: We
     return !playedTileInteraction.skipInteraction;
   });
 
-  // If there are 3 skips (empty interactions array),
-  // send message with skipInteraction: true to client
-  if (interactions.length === 0) {
+  // Sort interactions by seat distance from the user who played the tile (counter-clockwise),
+  // so ties between interactions of the same priority go to the closest user
+  const { lastDiscard, hands } = (await getGameStateByGameId(gameId, ['lastDiscard', 'hands'])) as GameState;
+  if (!lastDiscard) throw Error('compareTileInteractionAndSendUpdate: no played tile to interact with');
+  const discarderConnectionId = lastDiscard.connectionId;
+  const discarderIndex = connectionIds.indexOf(discarderConnectionId);
+  const getSeatDistance = (cid: string) =>
+    (connectionIds.indexOf(cid) - discarderIndex + ruleset.playerCount) % ruleset.playerCount;
+  interactions.sort((a, b) => getSeatDistance(a.connectionId) - getSeatDistance(b.connectionId));
+
+  // Pick the claim with the highest priority in the ruleset (claims of equal priority go to the closest user)
+  // Only the next user to whom played the tile can make consecutive
+  const nextConnectionId = findNextUser(discarderConnectionId, connectionIds);
+  const { claimPriorities } = ruleset;
+  const finalInteraction = interactions.reduce((best: PlayedTile | undefined, interaction) => {
+    const { connectionId: cid, meldType: meld } = interaction;
+    const priority = claimPriorities[meld];
+    if (priority === undefined) return best;
+    if (meld === MeldEnum.CONSECUTIVE && cid !== nextConnectionId) return best;
+
+    return !best || priority > claimPriorities[best.meldType] ? interaction : best;
+  }, undefined);
+  const finalWsPayload: InteractionSuccessPayload | undefined = finalInteraction && {
+    ...finalInteraction,
+    skipInteraction: false,
+  };
+
+  if (finalWsPayload?.meldType === MeldEnum.WIN) {
+    if (ruleset.winnerCount === 1) {
+      await broadcastInteractionSuccess(ws, finalWsPayload, connectionIds);
+      return;
+    }
+
+    // Every user claiming the played tile to win takes it, the round goes on once each of them has declared the win
+    const winInteractions = interactions.filter(({ meldType }) => meldType === MeldEnum.WIN);
+    await setDiscardWinners(
+      gameId,
+      winInteractions.map(({ connectionId }) => connectionId),
+    );
+    await Promise.all(
+      winInteractions.map((interaction) =>
+        broadcastInteractionSuccess(ws, { ...interaction, skipInteraction: false }, connectionIds),
+      ),
+    );
+    return;
+  }
+
+  // Nobody won with the played tile, so users who passed a winning tile are furiten until their next turn
+  if (ruleset.hasFuriten) {
+    const passedConnectionIds = hands
+      .filter(({ connectionId }) => connectionId !== discarderConnectionId)
+      .filter((userHand) => canWinWithTile(userHand, lastDiscard.tile, ruleset))
+      .map(({ connectionId }) => connectionId);
+    if (passedConnectionIds.length > 0) {
+      await setFuriten(gameId, passedConnectionIds);
+    }
+  }
+
+  // If every user skips (or no interaction can take the played tile), remove the played tile so the
+  // next user can draw and send message with skipInteraction: true to client
+  if (!finalWsPayload) {
+    await removeLastDiscard(gameId);
     await broadcastInteractionSuccess(
       ws,
       {
@@ -52,66 +227,30 @@ export const compareTileInteractionAndSendUpdate = async (gameId: string, ws: We
       },
       connectionIds,
     );
-    return;
-  }
-
-  // Loop through interactions and determine which meld takes priority
-  // Precedence:
-  // 1. Win game (once found, ignore all other interaction objects)
-  // 2. Triplet or Quad
-  // 3. Consecutive (only the next user to whom played the tile can make consecutive)
-  let winGamePayload = {} as InteractionSuccessPayload;
-  let tripletOrQuadPayload = {} as InteractionSuccessPayload;
-  let consecutivePayload = {} as InteractionSuccessPayload;
-  let canWinGame = false;
-  let canMakeTripletOrQuad = false;
-  // Not using forEach because breaking out of the forEach loop does not work
-  for (let i = 0; i < interactions.length; i += 1) {
-    const interaction: PlayedTile = interactions[i];
-    const { connectionId: cid, playedTiles: tile, meldType: meld } = interaction;
-
-    const payload = {
-      connectionId: cid,
-      meldType: meld,
-      playedTiles: tile,
-      skipInteraction: false,
-    };
-
-    /**
-     * Win game
-     */
-    if (meld === MeldEnum.WIN) {
-      canWinGame = true;
-      winGamePayload = payload;
-      break; // once Win game is found, break out of the for loop
-    }
 
-    /**
-     * Making Triplet or Quad (Triplet and Quad takes precedence over Consecutive)
-     */
-    if (meld === MeldEnum.TRIPLET || meld === MeldEnum.QUAD) {
-      canMakeTripletOrQuad = true;
-      tripletOrQuadPayload = payload;
-    }
-
-    /**
-     * Making Consecutive
-     * Only one user (the next user to the user who played the tile) can make consecutive
-     */
-    if (!canMakeTripletOrQuad) {
-      if (meld === MeldEnum.CONSECUTIVE) {
-        consecutivePayload = payload;
+    // Nobody robbed the kong, so make the quad and deal a replacement tile from the back of the wall
+    // (quads are not replaced in games played with a card)
+    if (lastDiscard.fromKong) {
+      await selfPlayTile(gameId, discarderConnectionId, lastDiscard.tile, true, true);
+      if (!ruleset.patternCard) {
+        await broadcastDrawTileToUser(ws, gameId, discarderConnectionId, true, true);
       }
     }
+    return;
   }
 
-  if (canWinGame && JSON.stringify(winGamePayload) !== '{}') {
-    await broadcastInteractionSuccess(ws, winGamePayload, connectionIds);
-  } else {
-    const finalWsPayload: InteractionSuccessPayload =
-      JSON.stringify(tripletOrQuadPayload) !== '{}' ? tripletOrQuadPayload : consecutivePayload;
+  await meldDiscardedTile(
+    gameId,
+    finalWsPayload.connectionId,
+    finalWsPayload.playedTiles,
+    finalWsPayload.meldType as MeldEnum,
+  );
+  await broadcastInteractionSuccess(ws, finalWsPayload, connectionIds);
 
-    await broadcastInteractionSuccess(ws, finalWsPayload, connectionIds);
+  // Deal a replacement tile from the back of the wall for a claimed quad, in games played with a card (American)
+  // the claimant exposes the quad and plays a tile instead
+  if (finalWsPayload.meldType === MeldEnum.QUAD && !ruleset.patternCard) {
+    await broadcastDrawTileToUser(ws, gameId, finalWsPayload.connectionId, true, true);
   }
 };
 
@@ -135,13 +274,29 @@ export const handler: Handler = async (event: WebSocketAPIGatewayEvent): Promise
   const playedTileResponse = { playedTiles, meldType, skipInteraction };
   const playedTileInteractionResponse = createPlayedTileInteractionResponse(playedTileResponse);
   try {
+    // Claims and their priorities depend on the ruleset of the game
+    const game = await getGameByGameId(gameId);
+    const ruleset = RulesetFactory.getRuleset(game?.gameType, game?.gameVersion);
+
+    // Reject claims that cannot be made with the claimant's hand before they are counted,
+    // and skips from users who cannot interact with the played tile
+    const gameState = (await getGameStateByGameId(gameId)) as GameState;
+    const invalidClaimError = skipInteraction
+      ? validatePlayedTileInteraction(gameState, connectionId)
+      : validateMeldClaim(gameState, connectionId, playedTiles, meldType, ruleset);
+    if (invalidClaimError) {
+      await ws.send(failedWebSocketResponse(playedTileInteractionResponse, invalidClaimError), connectionId);
+      return response(400, invalidClaimError);
+    }
+
     // Get current interaction count
     const interactionCount = (await getInteractionCount(gameId)) as number;
 
-    // Run setPlayedTileInteraction when interaction count is less than 4
+    // Run setPlayedTileInteraction until every other user still playing in the round has interacted
+    const maxInteractionCount = gameState.hands.filter(({ hasWon }) => !hasWon).length - 1;
     let newGameState: GameState;
     let newInteractionCount = 0;
-    if (interactionCount < DEFAULT_MAX_USERS_IN_GAME - 1) {
+    if (interactionCount < maxInteractionCount) {
       newGameState = (await setPlayedTileInteraction(
         gameId,
         connectionId,
@@ -155,9 +310,9 @@ export const handler: Handler = async (event: WebSocketAPIGatewayEvent): Promise
 
     // Compare meld type and send message based on priority
     let interactionEnded = false;
-    if (newInteractionCount === 3) {
+    if (newInteractionCount === maxInteractionCount) {
       interactionEnded = true;
-      await compareTileInteractionAndSendUpdate(gameId, ws);
+      await compareTileInteractionAndSendUpdate(gameId, ws, ruleset);
     }
 
     // Reset interactionCount to be 0 and playedTile list to empty
@@ -0,0 +1,113 @@
+import { Handler } from 'aws-lambda';
+import { LambdaEventBody, WebSocketAPIGatewayEvent } from '../../types/event';
+import { LambdaResponse } from '../../types/response';
+import { Logger } from '../../utils/Logger';
+import { LambdaEventBodyPayloadOptions } from '../../types/payload';
+import { WebSocketClient } from '../../websocket/WebSocketClient';
+import { response } from '../../utils/responseHelper';
+import { broadcastPlayedTileToUsers, broadcastRiichi } from '../../websocket/broadcast/gameBroadcast';
+import { getGameByGameId } from '../../dynamodb/gameDBService';
+import { getConnectionIdsFromUsers } from '../../utils/broadcastHelper';
+import { discardTile, getGameStateByGameId } from '../../dynamodb/gameStateDBService';
+import { validateTurn } from '../functionsHelper';
+import { GameState } from '../../models/GameState';
+import { createRiichiResponse, failedWebSocketResponse } from '../../websocket/createWSResponse';
+import { getHandIndexByConnectionId } from '../../dynamodb/dbHelper';
+import { HandHelper } from '../../games/mahjong/Hand/HandHelper';
+import { WaitingTilesCalculator } from '../../games/mahjong/Hand/WaitingTilesCalculator';
+import { DEFAULT_MAX_USERS_IN_GAME, RIICHI_STICK_POINTS } from '../../utils/constants';
+import { RulesetFactory } from '../../games/mahjong/Ruleset/RulesetFactory';
+
+/**
+ * Validate a riichi declaration. The user must be playing a tile in the user's turn with a concealed hand,
+ * have enough points for the riichi stick, and the hand must be ready after playing the tile.
+ * There must also be a tile left in the wall for every user.
+ * @param {GameState} gameState current game state
+ * @param {string} connectionId connection Id of the user
+ * @param {string} tile the riichi discard
+ * @param {number} playerCount number of users in the game
+ * @returns an error message if the user cannot declare riichi, otherwise undefined
+ */
+export const validateRiichi = (
+  gameState: GameState,
+  connectionId: string,
+  tile: string,
+  playerCount = DEFAULT_MAX_USERS_IN_GAME,
+): string | undefined => {
+  const turnError = validateTurn(gameState, connectionId, true);
+  if (turnError) return turnError;
+
+  const seatIndex = getHandIndexByConnectionId(gameState.hands, connectionId);
+  const { hand, exposedMelds = [], riichi } = gameState.hands[seatIndex];
+  if (riichi) return 'Riichi has already been declared';
+  if (exposedMelds.some((meld) => !meld.concealed)) return 'Riichi can only be declared with a concealed hand';
+
+  const { scores = [], wall, currentIndex, replacementCount = 0 } = gameState;
+  if ((scores[seatIndex] || 0) < RIICHI_STICK_POINTS) return 'Not enough points to declare riichi';
+  if (wall.length - replacementCount - currentIndex < playerCount) {
+    return 'Not enough tiles left in the wall to declare riichi';
+  }
+
+  const remainingTiles = HandHelper.removeTiles(hand, [tile]);
+  if (!remainingTiles) return 'Tile is not in hand';
+  if (WaitingTilesCalculator.getWaitingTiles(remainingTiles, exposedMelds).length === 0) {
+    return 'Hand is not ready after playing the tile';
+  }
+
+  return undefined;
+};
+
+/**
+ * Handler for declaring riichi (Japanese) with a discarded tile.
+ * The hand is locked for the rest of the round and a riichi stick is put on the table.
+ * @param {WebSocketAPIGatewayEvent} event Websocket API gateway event
+ */
+export const handler: Handler = async (event: WebSocketAPIGatewayEvent): Promise<LambdaResponse> => {
+  Logger.createLogTitle('onRiichi.ts');
+
+  // Parse event
+  const { connectionId } = event.requestContext;
+  const body: LambdaEventBody = JSON.parse(event.body);
+  const { payload }: { payload: LambdaEventBodyPayloadOptions } = body;
+  const gameId = payload.gameId as string;
+  const tile = payload.tile as string;
+
+  const ws = new WebSocketClient(event.requestContext);
+  const riichiResponse = createRiichiResponse({ connectionId, tile, riichiSticks: 0, scores: [] });
+  try {
+    const game = await getGameByGameId(gameId);
+    const gameState = await getGameStateByGameId(gameId);
+    if (!game || !gameState) {
+      const errorMsg = 'Cannot find the game to declare riichi';
+      await ws.send(failedWebSocketResponse(riichiResponse, errorMsg), connectionId);
+      return response(400, errorMsg);
+    }
+
+    const ruleset = RulesetFactory.getRuleset(game.gameType, game.gameVersion);
+    const riichiError = ruleset.hasRiichi
+      ? validateRiichi(gameState, connectionId, tile, ruleset.playerCount)
+      : 'Riichi can only be declared in a Japanese game';
+    if (riichiError) {
+      await ws.send(failedWebSocketResponse(riichiResponse, riichiError), connectionId);
+      return response(400, riichiError);
+    }
+
+    // Discard the tile as the riichi discard, take the riichi stick and move on to the next turn
+    const updatedGameState = (await discardTile(gameId, connectionId, tile, true)) as GameState;
+
+    // Send RIICHI, then the played tile so other users can interact with it
+    const connectionIds = getConnectionIdsFromUsers(game.users);
+    await broadcastRiichi(ws, connectionIds, {
+      connectionId,
+      tile,
+      riichiSticks: updatedGameState.riichiSticks || 0,
+      scores: updatedGameState.scores || [],
+    });
+    await broadcastPlayedTileToUsers(ws, tile, connectionId, connectionIds);
+
+    return response(200, 'Riichi declared successfully');
+  } catch (err) {
+    await ws.send(failedWebSocketResponse(riichiResponse, err.message), connectionId);
+    return response(500, 'Failed to declare riichi');
+  }
+};
@@ -5,9 +5,31 @@ import { Logger } from '../../utils/Logger';
 import { LambdaEventBodyPayloadOptions, SelfPlayTilePayload } from '../../types/payload';
 import { WebSocketClient } from '../../websocket/WebSocketClient';
 import { response } from '../../utils/responseHelper';
-import { broadcastSelfPlayTile } from '../../websocket/broadcast/gameBroadcast';
-import { getUsersInGame } from '../../dynamodb/gameDBService';
+import { broadcastDrawTileToUser, broadcastSelfPlayTile } from '../../websocket/broadcast/gameBroadcast';
+import { getGameByGameId, getUsersInGame } from '../../dynamodb/gameDBService';
 import { getConnectionIdsFromUsers } from '../../utils/broadcastHelper';
+import { declareAddedKong, getGameStateByGameId, selfPlayTile } from '../../dynamodb/gameStateDBService';
+import { validateLockedHand, validateTurn } from '../functionsHelper';
+import { createSelfPlayTileResponse, failedWebSocketResponse } from '../../websocket/createWSResponse';
+import { GameState } from '../../models/GameState';
+import { RulesetFactory } from '../../games/mahjong/Ruleset/RulesetFactory';
+import { Ruleset } from '../../games/mahjong/Ruleset/Ruleset';
+import { HandHelper } from '../../games/mahjong/Hand/HandHelper';
+
+/**
+ * Check if a tile played without making a quad can be set aside and replaced from the back of the wall.
+ * Bonus tiles are only replaced if the ruleset of the game uses them as bonus tiles (not in American).
+ * @param {string} playedTile tile played by the user
+ * @param {Ruleset} ruleset ruleset of the game
+ * @returns an error message if the tile cannot be replaced, otherwise undefined
+ */
+export const validateBonusTile = (playedTile: string, ruleset: Ruleset): string | undefined => {
+  if (ruleset.extractedTiles.includes(playedTile)) return undefined;
+  if (!HandHelper.isBonusTile(playedTile)) return 'Only bonus tiles can be replaced without making a quad';
+  if (!ruleset.hasBonusTiles) return 'Bonus tiles are kept in the hand in this game';
+
+  return undefined;
+};
 
 /**
  * Handler for self playing tiles (flowers, seasons, or quad).
@@ -36,16 +58,53 @@ export const handler: Handler = async (event: WebSocketAPIGatewayEvent): Promise
       return response(400, 'Failed to get users in game');
     }
 
-    // Send self play tile response to all users in game
-    connectionIds = getConnectionIdsFromUsers(users);
     const wsPayload: SelfPlayTilePayload = {
       connectionId,
       playedTile,
       isQuad: isQuad || false,
       alreadyMeld: alreadyMeld || false,
     };
+
+    // Reject the played tile if it is not the user's turn to play a tile, or the hand is locked by riichi
+    const gameState = (await getGameStateByGameId(gameId)) as GameState;
+    const game = await getGameByGameId(gameId);
+    const ruleset = RulesetFactory.getRuleset(game?.gameType, game?.gameVersion);
+    const turnError =
+      validateTurn(gameState, connectionId, true, ruleset) || validateLockedHand(gameState, connectionId);
+    if (turnError) {
+      await ws.send(failedWebSocketResponse(createSelfPlayTileResponse(wsPayload), turnError), connectionId);
+      return response(400, turnError);
+    }
+
+    // Other than quads, only bonus tiles and extracted tiles (sanma) are set aside and replaced
+    const bonusTileError = wsPayload.isQuad ? undefined : validateBonusTile(playedTile, ruleset);
+    if (bonusTileError) {
+      await ws.send(failedWebSocketResponse(createSelfPlayTileResponse(wsPayload), bonusTileError), connectionId);
+      return response(400, bonusTileError);
+    }
+
+    connectionIds = getConnectionIdsFromUsers(users);
+
+    // A tile added to an exposed triplet can be robbed by other users, so the quad is only made
+    // after all other users skip it (see compareTileInteractionAndSendUpdate)
+    if (wsPayload.isQuad && wsPayload.alreadyMeld) {
+      await declareAddedKong(gameId, connectionId, playedTile);
+      await broadcastSelfPlayTile(ws, connectionIds, wsPayload);
+      return response(200, 'Self play tile function is run successfully');
+    }
+
+    // Move the played tile out of the user hand
+    await selfPlayTile(gameId, connectionId, playedTile, wsPayload.isQuad, wsPayload.alreadyMeld);
+
+    // Send self play tile response to all users in game
     await broadcastSelfPlayTile(ws, connectionIds, wsPayload);
 
+    // Deal a replacement tile from the back of the wall for the quad or bonus tile,
+    // quads are not replaced in games played with a card (American)
+    if (!ruleset.patternCard) {
+      await broadcastDrawTileToUser(ws, gameId, connectionId, true, wsPayload.isQuad);
+    }
+
     return response(200, 'Self play tile function is run successfully');
   } catch (err) {
     return response(500, 'Failed to run self play tile function');
@@ -0,0 +1,85 @@
+import { Handler } from 'aws-lambda';
+import { LambdaEventBody, WebSocketAPIGatewayEvent } from '../../types/event';
+import { LambdaResponse } from '../../types/response';
+import { Logger } from '../../utils/Logger';
+import { LambdaEventBodyPayloadOptions } from '../../types/payload';
+import { WebSocketClient } from '../../websocket/WebSocketClient';
+import { response } from '../../utils/responseHelper';
+import { getGameStateByGameId } from '../../dynamodb/gameStateDBService';
+import { getGameByGameId } from '../../dynamodb/gameDBService';
+import { RulesetFactory } from '../../games/mahjong/Ruleset/RulesetFactory';
+import { getHandByConnectionId } from '../../dynamodb/dbHelper';
+import { createWaitingTilesResponse, failedWebSocketResponse } from '../../websocket/createWSResponse';
+import { WaitingTilesCalculator } from '../../games/mahjong/Hand/WaitingTilesCalculator';
+import { PatternCardValidator } from '../../games/mahjong/Hand/PatternCardValidator';
+import { MissingSuit } from '../../games/mahjong/Hand/MissingSuit';
+import { GameState } from '../../models/GameState';
+
+/**
+ * Get the tiles a user can see in the game other than the user's own hand:
+ * discards of all users and melds exposed by the other users (concealed quads are hidden).
+ * @param {GameState} gameState current game state
+ * @param {string} connectionId connection Id of the user
+ */
+export const getVisibleTiles = (gameState: GameState, connectionId: string): string[] => {
+  return gameState.hands.reduce((tiles: string[], userHand) => {
+    const discards = userHand.discards || [];
+    if (userHand.connectionId === connectionId) return [...tiles, ...discards];
+
+    const meldTiles = (userHand.exposedMelds || [])
+      .filter((meld) => !meld.concealed)
+      .reduce((allMeldTiles: string[], meld) => [...allMeldTiles, ...meld.tiles], []);
+    return [...tiles, ...discards, ...meldTiles];
+  }, []);
+};
+
+/**
+ * Handler for getting the tiles that complete the hand of a user.
+ * @param {WebSocketAPIGatewayEvent} event Websocket API gateway event
+ */
+export const handler: Handler = async (event: WebSocketAPIGatewayEvent): Promise<LambdaResponse> => {
+  Logger.createLogTitle('onWaitingTiles.ts');
+
+  // Parse event
+  const { connectionId } = event.requestContext;
+  const body: LambdaEventBody = JSON.parse(event.body);
+  const { payload }: { payload: LambdaEventBodyPayloadOptions } = body;
+  const gameId = payload.gameId as string;
+
+  const ws = new WebSocketClient(event.requestContext);
+  try {
+    const gameState = await getGameStateByGameId(gameId);
+    const userHand = gameState && getHandByConnectionId(gameState.hands, connectionId);
+    if (!gameState || !userHand) {
+      const errorMsg = 'Cannot find the hand of the user in game state';
+      await ws.send(failedWebSocketResponse(createWaitingTilesResponse({ waitingTiles: [] }), errorMsg), connectionId);
+      return response(400, errorMsg);
+    }
+
+    // A hand holding tiles of the missing suit (Sichuan) cannot win, so it is not waiting for any tile
+    if (MissingSuit.getTilesOfSuit(userHand.hand, userHand.missingSuit).length > 0) {
+      await ws.send(createWaitingTilesResponse({ waitingTiles: [] }), connectionId);
+      return response(200, 'Waiting tiles sent successfully');
+    }
+
+    const game = await getGameByGameId(gameId);
+    const { meldCount, specialHands, patternCard } = RulesetFactory.getRuleset(game?.gameType, game?.gameVersion);
+    const visibleTiles = getVisibleTiles(gameState, connectionId);
+
+    // Games played with a card (American) wait for the tiles completing a pattern of the card
+    const waitingTiles = patternCard
+      ? PatternCardValidator.getWaitingTiles(patternCard, userHand.hand, userHand.exposedMelds, visibleTiles)
+      : WaitingTilesCalculator.getWaitingTiles(
+          userHand.hand,
+          userHand.exposedMelds,
+          visibleTiles,
+          meldCount,
+          specialHands,
+        );
+    await ws.send(createWaitingTilesResponse({ waitingTiles }), connectionId);
+
+    return response(200, 'Waiting tiles sent successfully');
+  } catch (err) {
+    return response(500, 'Failed to get waiting tiles');
+  }
+};
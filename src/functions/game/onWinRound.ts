@@ -3,13 +3,29 @@ import { LambdaEventBody, WebSocketAPIGatewayEvent } from '../../types/event';
 import { WebSocketClient } from '../../websocket/WebSocketClient';
 import { Logger } from '../../utils/Logger';
 import { LambdaEventBodyPayloadOptions } from '../../types/payload';
-import { getCurrentDealer } from '../../dynamodb/gameStateDBService';
-import { getUsersInGame } from '../../dynamodb/gameDBService';
-import { broadcastWinningTiles, startNewRoundAndSendUpdates } from '../../websocket/broadcast/gameBroadcast';
+import { claimWinningTile, declareWin, getGameStateByGameId } from '../../dynamodb/gameStateDBService';
+import { getGameByGameId, getUsersInGame } from '../../dynamodb/gameDBService';
+import {
+  broadcastWinningTiles,
+  settleRoundAndSendUpdates,
+  startNewRoundAndSendUpdates,
+} from '../../websocket/broadcast/gameBroadcast';
 import { getConnectionIdsFromUsers } from '../../utils/broadcastHelper';
 import { response } from '../../utils/responseHelper';
 import { LambdaResponse } from '../../types/response';
-import { HandPointResults, TileObject } from '../../games/mahjong/types/MahjongTypes';
+import { HandPointResults, TileObject, WinningHandContext } from '../../games/mahjong/types/MahjongTypes';
+import { GameState, UserHand, WinSource } from '../../models/GameState';
+import { getHandByConnectionId, getQuadCount } from '../../dynamodb/dbHelper';
+import { HandHelper } from '../../games/mahjong/Hand/HandHelper';
+import { createWinRoundResponse, failedWebSocketResponse } from '../../websocket/createWSResponse';
+import { RulesetFactory } from '../../games/mahjong/Ruleset/RulesetFactory';
+import { Ruleset } from '../../games/mahjong/Ruleset/Ruleset';
+import { HongKongRuleset } from '../../games/mahjong/Ruleset/version/HongKongRuleset';
+import { DoraCalculator } from '../../games/mahjong/Score/DoraCalculator';
+import { getSeatWind, isWinningHandInGame } from '../functionsHelper';
+import { WinTypeEnum } from '../../enums/WinTypeEnum';
+import { RIICHI_STICK_POINTS } from '../../utils/constants';
+import { Wall } from '../../games/mahjong/Wall/Wall';
 
 /**
  * Convert handPointResults.tiles from TileObjects[] to string[].
@@ -26,6 +42,148 @@ export const parseHandPointResults = (handPointResults: HandPointResults): HandP
   return updatedHandPointResults;
 };
 
+/**
+ * Get the tiles of all the melds exposed by a user.
+ * @param {UserHand} userHand hand of the user stored in the game state
+ */
+export const getExposedTiles = (userHand: UserHand): string[] => {
+  return (userHand.exposedMelds || []).reduce((tiles: string[], meld) => [...tiles, ...meld.tiles], []);
+};
+
+/**
+ * Validate the declared winning tiles against the hand stored in the game state.
+ * The declared tiles must contain every tile in the stored hand and exposed melds plus at most one
+ * winning tile, and they must form a winning hand with the exposed melds. A user can only win once in a round.
+ * @param {HandPointResults} handPointResults parsed hand point results sent by the client
+ * @param {UserHand | undefined} userHand hand of the user stored in the game state
+ * @param {Ruleset} ruleset ruleset of the game (melds, special hands or card of a winning hand)
+ * @returns an error message if the winning hand is invalid, otherwise undefined
+ */
+export const validateWinningHand = (
+  handPointResults: HandPointResults,
+  userHand: UserHand | undefined,
+  ruleset: Ruleset = HongKongRuleset,
+): string | undefined => {
+  if (!userHand) return 'Cannot find the hand of the user in game state';
+  if (userHand.hasWon) return 'You have already won this round';
+
+  const declaredTiles = handPointResults.tiles as string[];
+  const exposedTiles = getExposedTiles(userHand);
+  const extraTiles = HandHelper.removeTiles(declaredTiles, [...userHand.hand, ...exposedTiles]);
+  if (!extraTiles) return 'Declared tiles do not match the tiles in hand';
+  if (extraTiles.length > 1) return 'Declared tiles contain more than one tile that is not in hand';
+
+  const concealedTiles = HandHelper.removeTiles(declaredTiles, exposedTiles) as string[];
+  if (!isWinningHandInGame(ruleset, concealedTiles, userHand.exposedMelds, userHand.missingSuit)) {
+    return 'Declared tiles do not form a winning hand';
+  }
+
+  return undefined;
+};
+
+/**
+ * Find where the winning tile of a validated winning hand came from.
+ * If every declared tile is already in the stored hand, the winning tile must be the last tile drawn by the user
+ * (self drawn or a replacement tile for a quad), otherwise the extra declared tile must be the last tile
+ * played by another user (a discard or a tile added to an exposed triplet). When several users can win on
+ * the same discard (Sichuan), only the users who claimed it to win can win on it.
+ * @param {GameState} gameState current game state
+ * @param {HandPointResults} handPointResults parsed hand point results sent by the client
+ * @param {UserHand} userHand hand of the user stored in the game state
+ * @returns the source of the winning tile, or undefined if it was not drawn or played in this turn
+ */
+export const getWinSource = (
+  gameState: GameState,
+  handPointResults: HandPointResults,
+  userHand: UserHand,
+): WinSource | undefined => {
+  const { lastDiscard, lastDraw } = gameState;
+  const declaredTiles = handPointResults.tiles as string[];
+  const [extraTile] = HandHelper.removeTiles(declaredTiles, [
+    ...userHand.hand,
+    ...getExposedTiles(userHand),
+  ]) as string[];
+
+  if (extraTile === undefined) {
+    if (lastDiscard || !lastDraw || lastDraw.connectionId !== userHand.connectionId) return undefined;
+
+    return {
+      winType: lastDraw.fromKong ? WinTypeEnum.KONG_REPLACEMENT : WinTypeEnum.SELF_DRAWN,
+      winningTile: lastDraw.tile,
+    };
+  }
+
+  if (!lastDiscard || lastDiscard.connectionId === userHand.connectionId || lastDiscard.tile !== extraTile) {
+    return undefined;
+  }
+  if (lastDiscard.winnerConnectionIds && !lastDiscard.winnerConnectionIds.includes(userHand.connectionId)) {
+    return undefined;
+  }
+
+  return {
+    winType: lastDiscard.fromKong ? WinTypeEnum.ROBBING_THE_KONG : WinTypeEnum.DISCARD,
+    winningTile: extraTile,
+    discarderConnectionId: lastDiscard.connectionId,
+  };
+};
+
+/**
+ * Check if the other three copies of the winning tile have already been discarded or melded by any user.
+ * @param {GameState} gameState current game state
+ * @param {WinSource} winSource where the winning tile came from
+ */
+export const isLastTileOfKind = (gameState: GameState, winSource: WinSource): boolean => {
+  const { winType, winningTile } = winSource;
+  const revealedTiles = gameState.hands.reduce(
+    (tiles: string[], hand) => [...tiles, ...(hand.discards || []), ...getExposedTiles(hand)],
+    [],
+  );
+  const revealedCount = revealedTiles.filter(
+    (tile) => HandHelper.getBaseTile(tile) === HandHelper.getBaseTile(winningTile),
+  ).length;
+
+  // A discard won on is still in the discards of the user who played it
+  return revealedCount - (winType === WinTypeEnum.DISCARD ? 1 : 0) >= Wall.DEFAULT_NUM_OF_TILE - 1;
+};
+
+/**
+ * Create the context used to score a validated winning hand.
+ * @param {HandPointResults} handPointResults parsed hand point results sent by the client
+ * @param {UserHand} userHand hand of the user stored in the game state
+ * @param {number} seatWind seat wind of the user
+ * @param {WinSource} winSource where the winning tile came from
+ * @param {GameState} gameState current game state
+ * @param {Ruleset} ruleset ruleset of the game (whether the wall has flowers)
+ */
+export const createWinningHandContext = (
+  handPointResults: HandPointResults,
+  userHand: UserHand,
+  seatWind: number,
+  winSource: WinSource,
+  gameState: GameState,
+  ruleset: Ruleset = HongKongRuleset,
+): WinningHandContext => {
+  const declaredTiles = handPointResults.tiles as string[];
+  const { winType, winningTile } = winSource;
+  const { wall, currentIndex, replacementCount = 0, currentWind: prevalentWind } = gameState;
+
+  return {
+    concealedTiles: HandHelper.removeTiles(declaredTiles, getExposedTiles(userHand)) as string[],
+    exposedMelds: userHand.exposedMelds || [],
+    // Tiles extracted by the ruleset (e.g. north winds in sanma) are played tiles, but not bonus tiles
+    bonusTiles: (userHand.playedTiles || []).filter((tile) => HandHelper.isBonusTile(tile)),
+    seatWind,
+    prevalentWind,
+    selfDrawn: winType === WinTypeEnum.SELF_DRAWN || winType === WinTypeEnum.KONG_REPLACEMENT,
+    winningTile,
+    robbingKong: winType === WinTypeEnum.ROBBING_THE_KONG,
+    kongReplacement: winType === WinTypeEnum.KONG_REPLACEMENT,
+    lastTileOfWall: wall.length - replacementCount - currentIndex === 0,
+    lastTileOfKind: isLastTileOfKind(gameState, winSource),
+    noFlowersInWall: !ruleset.hasFlowers,
+  };
+};
+
 /**
  * Handler for Winning Round
  * @param {WebSocketAPIGatewayEvent} event Websocket API gateway event
@@ -37,20 +195,22 @@ export const handler: Handler = async (event: WebSocketAPIGatewayEvent): Promise
   const body: LambdaEventBody = JSON.parse(event.body);
   const { payload }: { payload: LambdaEventBodyPayloadOptions } = body;
   const gameId = payload.gameId as string;
-  const handPointResults = parseHandPointResults(payload.handPointResults as HandPointResults);
+  const declaredHandPointResults = parseHandPointResults(payload.handPointResults as HandPointResults);
   const ws = new WebSocketClient(event.requestContext);
 
   /**
    * The WIN_ROUND lambda will do the following:
-   * 1. Send WINNING_TILES to all users with points and the winning tiles
-   * 2. Update the the GameState with new wall/hands/dealer/wind
+   * 0. Validate the winning hand against the hand stored in the game state and calculate its points
+   * 1. Send WINNING_TILES to all users with points and the winning tiles, then SCORE_UPDATE with the payments
+   * 2. Update the the GameState with new wall/hands/dealer/wind, unless the round goes on after the win (Sichuan)
    * 3. Send UPDATE_GAME_STATE to all users with the updated dealer/wind
    * 4. Delay 5s and send GAME_START to all users to start off a new game
    */
   try {
-    // Find dealer and users from game state by game Id
-    const dealer = await getCurrentDealer(gameId);
-    if (dealer === undefined || !dealer.toString()) {
+    // Find dealer and hands from game state by game Id
+    const gameState = await getGameStateByGameId(gameId);
+    const dealer = gameState?.dealer;
+    if (!gameState || dealer === undefined || !dealer.toString()) {
       const errorMsg = `Cannot find dealer in game state by gameId ${gameId}`;
       return response(400, errorMsg);
     }
@@ -61,17 +221,104 @@ export const handler: Handler = async (event: WebSocketAPIGatewayEvent): Promise
       return response(400, errorMsg);
     }
 
+    // Validate and score the hand with the ruleset of the game
+    const game = await getGameByGameId(gameId);
+    const ruleset = RulesetFactory.getRuleset(game?.gameType, game?.gameVersion);
+
+    // Reject the win if the declared tiles are not a legal winning hand
+    const userHand = getHandByConnectionId(gameState.hands, connectionId);
+    const invalidHandError = validateWinningHand(declaredHandPointResults, userHand, ruleset);
+    if (invalidHandError) {
+      await ws.send(failedWebSocketResponse(createWinRoundResponse(), invalidHandError), connectionId);
+      return response(400, invalidHandError);
+    }
+
+    // The winning tile must be the tile drawn by the user or the tile played by another user in this turn
+    const winSource = getWinSource(gameState, declaredHandPointResults, userHand);
+    if (!winSource) {
+      const errorMsg = 'The winning tile was not drawn or played in this turn';
+      await ws.send(failedWebSocketResponse(createWinRoundResponse(), errorMsg), connectionId);
+      return response(400, errorMsg);
+    }
+
+    // Calculate points on the server instead of trusting the points sent by the client
     const connectionIds = getConnectionIdsFromUsers(users);
+    const seatWind = getSeatWind(connectionIds.indexOf(connectionId), dealer, connectionIds.length);
+    const handPointResults = ruleset.calculateHandPoints(
+      createWinningHandContext(declaredHandPointResults, userHand, seatWind, winSource, gameState, ruleset),
+    ) as HandPointResults;
+
+    // Flowers do not count towards the minimum points needed to win
+    if (handPointResults.totalPoints - handPointResults.flowerPoints < ruleset.minimumPoints) {
+      const errorMsg = `The hand does not score the ${ruleset.minimumPoints} points needed to win`;
+      await ws.send(failedWebSocketResponse(createWinRoundResponse(), errorMsg), connectionId);
+      return response(400, errorMsg);
+    }
+
+    // Count dora if the game is played with a dead wall, ura-dora are only revealed to a riichi winner
+    const dora = gameState.deadWall?.length
+      ? DoraCalculator.getDoraResults(
+          handPointResults.tiles as string[],
+          gameState.deadWall,
+          getQuadCount(gameState.hands),
+          !!userHand.riichi,
+          (userHand.playedTiles || []).filter((tile) => ruleset.extractedTiles.includes(tile)),
+        )
+      : undefined;
+
+    // The winner sits out the rest of the round if it goes on after a win (Sichuan), the other users keep playing
+    // until enough users have won (or the wall is empty). Otherwise the winning tile is taken before settling,
+    // so a concurrent win on the same tile fails
+    const wonSeats = gameState.hands.reduce(
+      (seats: number[], { hasWon }, seatIndex) => (hasWon ? [...seats, seatIndex] : seats),
+      [],
+    );
+    const hasSeveralWinners = ruleset.winnerCount > 1;
+    const gameStateAfterWin = hasSeveralWinners
+      ? await declareWin(gameId, connectionId)
+      : await claimWinningTile(gameId, connectionId, winSource);
+    const wonHandCount = hasSeveralWinners
+      ? (gameStateAfterWin as GameState).hands.filter(({ hasWon }) => hasWon).length
+      : 1;
+    const isRoundOver = wonHandCount >= ruleset.winnerCount;
+    const nextTurn = isRoundOver || gameStateAfterWin?.lastDiscard ? undefined : gameStateAfterWin?.currentTurn;
 
     // Send WINNING_TILES response to all connections
-    await broadcastWinningTiles(ws, connectionIds, connectionId, handPointResults);
+    await broadcastWinningTiles(ws, connectionIds, connectionId, handPointResults, winSource, dora, nextTurn);
+
+    // Settle the payments of the round and send SCORE_UPDATE to all connections
+    const { winType, discarderConnectionId } = winSource;
+    const winnerSeat = connectionIds.indexOf(connectionId);
+    const deltas = ruleset.calculateDeltas(
+      handPointResults.totalPoints,
+      winnerSeat,
+      winType,
+      discarderConnectionId ? connectionIds.indexOf(discarderConnectionId) : undefined,
+      connectionIds.length,
+      wonSeats,
+    );
+
+    // The winner collects the riichi sticks on the table
+    deltas[winnerSeat] += (gameState.riichiSticks || 0) * RIICHI_STICK_POINTS;
+    await settleRoundAndSendUpdates(ws, gameId, connectionIds, {
+      dealer,
+      wind: gameState.currentWind,
+      winnerConnectionId: connectionId,
+      winType,
+      discarderConnectionId,
+      points: handPointResults.totalPoints,
+      deltas,
+    });
+
+    if (!isRoundOver) return response(200, 'Win declared successfully, the round goes on');
 
     // Start new round and send updates (dealer/wind/new tiles)
-    const error = await startNewRoundAndSendUpdates(ws, gameId, connectionId, users, dealer);
+    const error = await startNewRoundAndSendUpdates(ws, gameId, users, dealer, connectionId);
     if (error) return error;
 
     return response(200, 'New round started successfully');
   } catch (err) {
+    await ws.send(failedWebSocketResponse(createWinRoundResponse(), err.message), connectionId);
     return response(500, 'Failed to start a new round');
   }
 };
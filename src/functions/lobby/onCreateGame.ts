@@ -42,12 +42,15 @@ export const handler: Handler = async (event: WebSocketAPIGatewayEvent): Promise
     }
 
     // Create game
-    const { gameName, gameType, gameVersion } = game;
+    const { gameName, gameType, gameVersion, matchLength, dealerRetention, redFives } = game;
     const returnedGameObj: Game = await createGame({
       creatorConnectionId: connectionId,
       gameName,
       gameType,
       gameVersion,
+      matchLength,
+      dealerRetention,
+      redFives,
     });
 
     // Remove document version on game object
@@ -0,0 +1,85 @@
+/**
+ * Class used to exchange tiles in a Charleston (American).
+ * Before the first turn, every user passes three tiles to the right, across, then to the left.
+ * Unless a user stops it, a second Charleston passes three tiles to the left, across, then to the right.
+ */
+
+import { CharlestonDirectionEnum } from '../../../enums/CharlestonDirectionEnum';
+import { DEFAULT_MAX_USERS_IN_GAME } from '../../../utils/constants';
+
+export class Charleston {
+  static PASS_LENGTH = 3;
+
+  static FIRST_CHARLESTON: CharlestonDirectionEnum[] = [
+    CharlestonDirectionEnum.RIGHT,
+    CharlestonDirectionEnum.ACROSS,
+    CharlestonDirectionEnum.LEFT,
+  ];
+
+  static SECOND_CHARLESTON: CharlestonDirectionEnum[] = [
+    CharlestonDirectionEnum.LEFT,
+    CharlestonDirectionEnum.ACROSS,
+    CharlestonDirectionEnum.RIGHT,
+  ];
+
+  static PASSES: CharlestonDirectionEnum[] = [...Charleston.FIRST_CHARLESTON, ...Charleston.SECOND_CHARLESTON];
+
+  /**
+   * Number of seats between a user and the user receiving the passed tiles, in turn order
+   */
+  static SEAT_OFFSETS: { [direction: string]: number } = {
+    [CharlestonDirectionEnum.RIGHT]: 1,
+    [CharlestonDirectionEnum.ACROSS]: 2,
+    [CharlestonDirectionEnum.LEFT]: 3,
+  };
+
+  /**
+   * @param {number} passIndex index of the pass in the Charleston (0 to 5)
+   * @returns the direction tiles are passed to
+   */
+  static getDirection(passIndex: number): CharlestonDirectionEnum {
+    return Charleston.PASSES[passIndex];
+  }
+
+  /**
+   * @param {number} seatIndex seat of the user passing the tiles
+   * @param {CharlestonDirectionEnum} direction direction the tiles are passed to
+   * @param {number} playerCount number of users in the game
+   * @returns the seat of the user receiving the tiles
+   */
+  static getReceiverSeat(
+    seatIndex: number,
+    direction: CharlestonDirectionEnum,
+    playerCount = DEFAULT_MAX_USERS_IN_GAME,
+  ): number {
+    return (seatIndex + Charleston.SEAT_OFFSETS[direction]) % playerCount;
+  }
+
+  /**
+   * Exchange the tiles passed by every user.
+   * @param {string[][]} passedTiles tiles passed by each user in seat order
+   * @param {number} passIndex index of the pass in the Charleston
+   * @returns the tiles received by each user in seat order
+   */
+  static exchangeTiles(passedTiles: string[][], passIndex: number): string[][] {
+    const direction = Charleston.getDirection(passIndex);
+    const receivedTiles: string[][] = passedTiles.map(() => []);
+    passedTiles.forEach((tiles, seatIndex) => {
+      receivedTiles[Charleston.getReceiverSeat(seatIndex, direction, passedTiles.length)] = tiles;
+    });
+
+    return receivedTiles;
+  }
+
+  /**
+   * The Charleston ends after the first Charleston if a user stopped it, otherwise after the second Charleston.
+   * @param {number} passCount number of passes already made
+   * @param {number} stopCount number of users who stopped the Charleston
+   * @returns true if there is no pass left
+   */
+  static isFinished(passCount: number, stopCount: number): boolean {
+    if (passCount === Charleston.FIRST_CHARLESTON.length && stopCount > 0) return true;
+
+    return passCount >= Charleston.PASSES.length;
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Class with helper methods to work with hands (arrays of tile string definitions)
+ */
+
+import { TileMapper } from '../Tile/map/TileMapper';
+import { TileDefinition } from '../types/MahjongTypes';
+import { SimpleTileTypes } from '../Tile/types/SimpleTileTypes';
+import { HonorTileTypes } from '../Tile/types/HonorTileTypes';
+import { BonusTileTypes } from '../Tile/types/BonusTileTypes';
+import { JokerTileTypes } from '../Tile/types/JokerTileTypes';
+import { Tile } from '../Tile/Tile';
+
+export class HandHelper {
+  static TILE_ORDER: string[] = Object.keys(TileMapper);
+
+  /**
+   * @param tile string representation of a tile
+   * @returns the tile definition (type and value) of a tile
+   */
+  static getTileDefinition(tile: string): TileDefinition {
+    const definition = TileMapper[tile];
+    if (!definition) {
+      throw new Error(`HandHelper: invalid tile ${tile}`);
+    }
+
+    return definition;
+  }
+
+  /**
+   * @param tile string representation of a tile
+   * @returns true if the tile is a dot, bamboo or character tile
+   */
+  static isSimpleTile(tile: string): boolean {
+    const { type } = HandHelper.getTileDefinition(tile);
+    return Object.values(SimpleTileTypes).includes(type as SimpleTileTypes);
+  }
+
+  /**
+   * @param tile string representation of a tile
+   * @returns true if the tile is a wind or dragon tile
+   */
+  static isHonorTile(tile: string): boolean {
+    const { type } = HandHelper.getTileDefinition(tile);
+    return Object.values(HonorTileTypes).includes(type as HonorTileTypes);
+  }
+
+  /**
+   * @param tile string representation of a tile
+   * @returns true if the tile is a flower or season tile
+   */
+  static isBonusTile(tile: string): boolean {
+    const { type } = HandHelper.getTileDefinition(tile);
+    return Object.values(BonusTileTypes).includes(type as BonusTileTypes);
+  }
+
+  /**
+   * @param tile string representation of a tile
+   * @returns true if the tile is a joker (American)
+   */
+  static isJokerTile(tile: string): boolean {
+    return HandHelper.getTileDefinition(tile).type === JokerTileTypes.JOKER;
+  }
+
+  /**
+   * @param tile string representation of a tile
+   * @returns true if the tile is a simple tile with a value of 1 or 9
+   */
+  static isTerminalTile(tile: string): boolean {
+    const { value } = HandHelper.getTileDefinition(tile);
+    return HandHelper.isSimpleTile(tile) && (value === 1 || value === 9);
+  }
+
+  /**
+   * Red fives are played exactly like the regular five of the same suit.
+   * @param tile string representation of a tile
+   * @returns the regular tile the tile is played as (e.g. 5_DOT for 5_DOT_RED)
+   */
+  static getBaseTile(tile: string): string {
+    if (!HandHelper.isSimpleTile(tile)) return tile;
+
+    const { type, value } = HandHelper.getTileDefinition(tile);
+    return `${value}${Tile.DELIMITER}${type}`;
+  }
+
+  /**
+   * @param tile string representation of a tile
+   * @returns true if the tile is a red five
+   */
+  static isRedFive(tile: string): boolean {
+    return HandHelper.getBaseTile(tile) !== tile;
+  }
+
+  /**
+   * Sort tiles by suit, then by value (honor, bonus and joker tiles are put at the end).
+   * @param tiles tiles to be sorted
+   * @returns a new sorted tile array
+   */
+  static sortTiles(tiles: string[]): string[] {
+    return [...tiles].sort((a, b) => HandHelper.TILE_ORDER.indexOf(a) - HandHelper.TILE_ORDER.indexOf(b));
+  }
+
+  /**
+   * Count the number of copies of each tile.
+   * @param tiles tiles to be counted
+   * @returns an object with tile string definitions as keys and the number of copies as values
+   */
+  static countTiles(tiles: string[]): { [tile: string]: number } {
+    const counts: { [tile: string]: number } = {};
+    tiles.forEach((tile) => {
+      counts[tile] = (counts[tile] || 0) + 1;
+    });
+
+    return counts;
+  }
+
+  /**
+   * Remove one copy of each tile in tilesToRemove from tiles.
+   * @param tiles tiles to remove from
+   * @param tilesToRemove tiles to be removed
+   * @returns the remaining tiles, or undefined if tiles does not contain all the tiles in tilesToRemove
+   */
+  static removeTiles(tiles: string[], tilesToRemove: string[]): string[] | undefined {
+    const remainingTiles = [...tiles];
+
+    for (let i = 0; i < tilesToRemove.length; i += 1) {
+      const index = remainingTiles.indexOf(tilesToRemove[i]);
+      if (index === -1) return undefined;
+
+      remainingTiles.splice(index, 1);
+    }
+
+    return remainingTiles;
+  }
+
+  /**
+   * @param tiles tiles to search from
+   * @param subset tiles to search for
+   * @returns true if tiles contains every tile in subset (including duplicates)
+   */
+  static containsTiles(tiles: string[], subset: string[]): boolean {
+    return HandHelper.removeTiles(tiles, subset) !== undefined;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Class used to check if a group of tiles forms a valid meld
+ */
+
+import { HandHelper } from './HandHelper';
+import { MeldEnum } from '../../../enums/MeldEnum';
+
+export class MeldValidator {
+  /**
+   * Jokers (American) can stand in for any tile of a triplet or a quad, but at least one tile must not be a joker.
+   * @param tiles tiles to be checked
+   * @param length number of tiles required
+   * @param allowJokers true if jokers can be used in the meld
+   * @returns true if tiles contains exactly `length` copies of the same non-bonus tile (red fives count as fives)
+   */
+  private static isSameTiles(tiles: string[], length: number, allowJokers = false): boolean {
+    if (tiles.length !== length) return false;
+
+    const naturalTiles = allowJokers ? tiles.filter((tile) => !HandHelper.isJokerTile(tile)) : tiles;
+    if (naturalTiles.length === 0) return false;
+
+    const [firstTile] = naturalTiles;
+    if (HandHelper.isBonusTile(firstTile) || HandHelper.isJokerTile(firstTile)) return false;
+
+    const baseTile = HandHelper.getBaseTile(firstTile);
+    return naturalTiles.every((tile) => HandHelper.getBaseTile(tile) === baseTile);
+  }
+
+  /**
+   * @param tiles tiles to be checked
+   * @returns true if the tiles are two identical tiles
+   */
+  static isPair(tiles: string[]): boolean {
+    return MeldValidator.isSameTiles(tiles, 2);
+  }
+
+  /**
+   * @param tiles tiles to be checked
+   * @param allowJokers true if jokers can be used in the triplet (American)
+   * @returns true if the tiles are three identical tiles
+   */
+  static isTriplet(tiles: string[], allowJokers = false): boolean {
+    return MeldValidator.isSameTiles(tiles, 3, allowJokers);
+  }
+
+  /**
+   * @param tiles tiles to be checked
+   * @param allowJokers true if jokers can be used in the quad (American)
+   * @returns true if the tiles are four identical tiles
+   */
+  static isQuad(tiles: string[], allowJokers = false): boolean {
+    return MeldValidator.isSameTiles(tiles, 4, allowJokers);
+  }
+
+  /**
+   * @param tiles tiles to be checked
+   * @returns true if the tiles are three simple tiles of the same suit with consecutive values
+   */
+  static isConsecutive(tiles: string[]): boolean {
+    if (tiles.length !== 3 || !tiles.every((tile) => HandHelper.isSimpleTile(tile))) return false;
+
+    const definitions = HandHelper.sortTiles(tiles).map((tile) => HandHelper.getTileDefinition(tile));
+    const [first, second, third] = definitions;
+
+    return (
+      first.type === second.type &&
+      second.type === third.type &&
+      second.value === first.value + 1 &&
+      third.value === second.value + 1
+    );
+  }
+
+  /**
+   * @param tiles tiles to be checked
+   * @param meldType meld type (TRIPLET, CONSECUTIVE or QUAD)
+   * @param allowJokers true if jokers can be used in triplets and quads (American)
+   * @returns true if the tiles form a meld of the given type
+   */
+  static isValidMeld(tiles: string[], meldType: string, allowJokers = false): boolean {
+    switch (meldType) {
+      case MeldEnum.TRIPLET:
+        return MeldValidator.isTriplet(tiles, allowJokers);
+      case MeldEnum.CONSECUTIVE:
+        return MeldValidator.isConsecutive(tiles);
+      case MeldEnum.QUAD:
+        return MeldValidator.isQuad(tiles, allowJokers);
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Class used to apply the missing suit declared by a user (Sichuan).
+ * Before the first turn, every user declares one of the three suits. Tiles of the missing suit must be played
+ * before any other tile, and a hand holding a tile of the missing suit cannot win.
+ */
+
+import { SimpleTileTypes } from '../Tile/types/SimpleTileTypes';
+import { HandHelper } from './HandHelper';
+
+export class MissingSuit {
+  static SUITS: string[] = Object.values(SimpleTileTypes);
+
+  /**
+   * @param {string} suit suit declared by a user
+   * @returns true if the suit can be declared as the missing suit (dots, bamboo or characters)
+   */
+  static isSuit(suit: string): boolean {
+    return MissingSuit.SUITS.includes(suit);
+  }
+
+  /**
+   * @param {string[]} tiles tiles in a hand
+   * @param {string} missingSuit missing suit of the user, undefined if the user has not declared one
+   * @returns the tiles of the missing suit
+   */
+  static getTilesOfSuit(tiles: string[], missingSuit?: string): string[] {
+    if (!missingSuit) return [];
+
+    return tiles.filter((tile) => HandHelper.getTileDefinition(tile).type === missingSuit);
+  }
+}
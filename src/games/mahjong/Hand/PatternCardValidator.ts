@@ -0,0 +1,237 @@
+/**
+ * Class used to check a hand against the patterns of a card (American).
+ * A winning hand must match one of the patterns of the card exactly, flowers and seasons are played as flowers,
+ * and jokers can stand in for any tile of a group of three or more tiles.
+ * Exposed melds must be whole groups of the pattern, and concealed patterns cannot have exposed melds.
+ */
+
+import { HandHelper } from './HandHelper';
+import { Meld, Pattern, PatternCard, PatternGroup, PatternMatch, WaitingTile } from '../types/MahjongTypes';
+import { SimpleTileTypes } from '../Tile/types/SimpleTileTypes';
+import { HonorTileTypes } from '../Tile/types/HonorTileTypes';
+import { BonusTilesMapper } from '../Tile/map/TileMapper';
+import { Tile } from '../Tile/Tile';
+import { Wall } from '../Wall/Wall';
+
+/**
+ * A group of a pattern once its variables have been replaced by tiles
+ */
+type ResolvedGroup = { tile: string; count: number };
+
+export class PatternCardValidator {
+  static FLOWER = 'FLOWER';
+
+  static JOKER = 'JOKER';
+
+  static MIN_JOKER_GROUP_LENGTH = 3;
+
+  static SUIT_VARIABLES = ['A', 'B', 'C'];
+
+  static SUIT_DRAGONS: { [suit: string]: string } = {
+    [SimpleTileTypes.DOT]: HonorTileTypes.WHITEDRAGON,
+    [SimpleTileTypes.BAMBOO]: HonorTileTypes.GREENDRAGON,
+    [SimpleTileTypes.CHARACTER]: HonorTileTypes.REDDRAGON,
+  };
+
+  /**
+   * Find every pattern of the card matched by a hand.
+   * @param {PatternCard} card card of the game
+   * @param concealedTiles tiles in the hand that are not part of an exposed meld (including the winning tile)
+   * @param exposedMelds melds that have already been exposed
+   * @returns the matched patterns, with the number of jokers standing in for tiles
+   */
+  static getMatchingPatterns(card: PatternCard, concealedTiles: string[], exposedMelds: Meld[] = []): PatternMatch[] {
+    const exposedTiles = exposedMelds.reduce((tiles: string[], meld) => [...tiles, ...meld.tiles], []);
+    const tiles = [...concealedTiles, ...exposedTiles].map((tile) => PatternCardValidator.toPatternTile(tile));
+    const isExposed = exposedMelds.some((meld) => !meld.concealed);
+
+    const matches: PatternMatch[] = [];
+    card.patterns
+      .filter((pattern) => !(pattern.concealed && isExposed))
+      .forEach((pattern) => {
+        const isMatched = PatternCardValidator.resolvePattern(pattern).some(
+          (groups) =>
+            PatternCardValidator.isMatchingTiles(groups, tiles) &&
+            PatternCardValidator.isMatchingMelds(groups, exposedMelds),
+        );
+
+        if (isMatched) {
+          matches.push({ pattern, jokerCount: tiles.filter((tile) => tile === PatternCardValidator.JOKER).length });
+        }
+      });
+
+    return matches;
+  }
+
+  /**
+   * @param {PatternCard} card card of the game
+   * @param concealedTiles tiles in the hand that are not part of an exposed meld (including the winning tile)
+   * @param exposedMelds melds that have already been exposed
+   * @returns true if the tiles match a pattern of the card
+   */
+  static isWinningHand(card: PatternCard, concealedTiles: string[], exposedMelds: Meld[] = []): boolean {
+    return PatternCardValidator.getMatchingPatterns(card, concealedTiles, exposedMelds).length > 0;
+  }
+
+  /**
+   * Find every tile that would complete a hand, and how many copies of it are still unseen.
+   * A flower or season completes a hand as any flower, and is returned as the first flower.
+   * Jokers are not returned since they complete any group of three or more tiles.
+   * @param {PatternCard} card card of the game
+   * @param concealedTiles tiles in the hand that are not part of an exposed meld
+   * @param exposedMelds melds that have already been exposed by the user
+   * @param visibleTiles other tiles the user can see (e.g. discards and melds of other users)
+   * @returns the waiting tiles in tile order, empty if the hand is not ready
+   */
+  static getWaitingTiles(
+    card: PatternCard,
+    concealedTiles: string[],
+    exposedMelds: Meld[] = [],
+    visibleTiles: string[] = [],
+  ): WaitingTile[] {
+    const exposedTiles = exposedMelds.reduce((tiles: string[], meld) => [...tiles, ...meld.tiles], []);
+    const seenCounts = HandHelper.countTiles(
+      [...concealedTiles, ...exposedTiles, ...visibleTiles].map((tile) => PatternCardValidator.toPatternTile(tile)),
+    );
+    const [firstFlower] = Object.keys(BonusTilesMapper);
+
+    return HandHelper.TILE_ORDER.filter((tile) => !HandHelper.isJokerTile(tile) && !HandHelper.isRedFive(tile))
+      .filter((tile) => !HandHelper.isBonusTile(tile) || tile === firstFlower)
+      .filter((tile) => PatternCardValidator.isWinningHand(card, [...concealedTiles, tile], exposedMelds))
+      .map((tile) => ({
+        tile,
+        unseenCount: Math.max(
+          PatternCardValidator.getCopyCount(tile) - (seenCounts[PatternCardValidator.toPatternTile(tile)] || 0),
+          0,
+        ),
+      }));
+  }
+
+  /**
+   * Replace the variables of a pattern by every possible suit and value.
+   * @param {Pattern} pattern pattern of a card
+   * @returns the groups of tiles of every possible hand matching the pattern
+   */
+  private static resolvePattern(pattern: Pattern): ResolvedGroup[][] {
+    const hasOffsets = pattern.groups.some((group) => group.offset !== undefined);
+    const values = hasOffsets ? [1, 2, 3, 4, 5, 6, 7, 8, 9] : [0];
+
+    const resolvedPatterns: ResolvedGroup[][] = [];
+    PatternCardValidator.getSuitPermutations().forEach((suits) => {
+      values.forEach((value) => {
+        const groups = pattern.groups.map((group) => PatternCardValidator.resolveGroup(group, suits, value));
+        if (groups.every((group) => group !== undefined)) {
+          resolvedPatterns.push(groups as ResolvedGroup[]);
+        }
+      });
+    });
+
+    return resolvedPatterns;
+  }
+
+  /**
+   * @param {PatternGroup} group group of a pattern
+   * @param suits suits given to the suit variables A, B and C
+   * @param value value given to the value variable N
+   * @returns the group with a tile, or undefined if the value of the tile is not between 1 and 9
+   */
+  private static resolveGroup(group: PatternGroup, suits: SimpleTileTypes[], value: number): ResolvedGroup | undefined {
+    const { count, tile, suit, dragon, offset } = group;
+    if (tile) return { tile, count };
+
+    const suitType = suits[PatternCardValidator.SUIT_VARIABLES.indexOf(suit as string)];
+    if (dragon) return { tile: PatternCardValidator.SUIT_DRAGONS[suitType], count };
+
+    const tileValue = offset !== undefined ? value + offset : (group.value as number);
+    if (tileValue < 1 || tileValue > 9) return undefined;
+
+    return { tile: `${tileValue}${Tile.DELIMITER}${suitType}`, count };
+  }
+
+  /**
+   * Tiles of singles and pairs must be in the hand, jokers can replace the missing tiles of larger groups.
+   * @param groups resolved groups of a pattern
+   * @param tiles every tile of the hand, as pattern tiles
+   * @returns true if the tiles are exactly the tiles of the groups
+   */
+  private static isMatchingTiles(groups: ResolvedGroup[], tiles: string[]): boolean {
+    const patternLength = groups.reduce((length, { count }) => length + count, 0);
+    if (patternLength !== tiles.length) return false;
+
+    const naturalCounts: { [tile: string]: number } = {};
+    const totalCounts: { [tile: string]: number } = {};
+    groups.forEach(({ tile, count }) => {
+      if (count < PatternCardValidator.MIN_JOKER_GROUP_LENGTH) {
+        naturalCounts[tile] = (naturalCounts[tile] || 0) + count;
+      }
+      totalCounts[tile] = (totalCounts[tile] || 0) + count;
+    });
+
+    // The hand has as many tiles as the pattern, so the jokers fill exactly the missing tiles
+    const handCounts = HandHelper.countTiles(tiles.filter((tile) => tile !== PatternCardValidator.JOKER));
+    return Object.keys(handCounts).every(
+      (tile) => handCounts[tile] >= (naturalCounts[tile] || 0) && handCounts[tile] <= (totalCounts[tile] || 0),
+    );
+  }
+
+  /**
+   * Each exposed meld must be a whole group of three or more tiles of the pattern.
+   * @param groups resolved groups of a pattern
+   * @param exposedMelds melds that have already been exposed
+   * @returns true if every exposed meld matches a different group
+   */
+  private static isMatchingMelds(groups: ResolvedGroup[], exposedMelds: Meld[]): boolean {
+    const usedGroups: number[] = [];
+
+    return exposedMelds.every((meld) => {
+      const meldTiles = meld.tiles.map((tile) => PatternCardValidator.toPatternTile(tile));
+      const meldTile = meldTiles.find((tile) => tile !== PatternCardValidator.JOKER);
+      const groupIndex = groups.findIndex(
+        ({ tile, count }, i) =>
+          !usedGroups.includes(i) &&
+          tile === meldTile &&
+          count === meldTiles.length &&
+          count >= PatternCardValidator.MIN_JOKER_GROUP_LENGTH,
+      );
+      if (groupIndex === -1) return false;
+
+      usedGroups.push(groupIndex);
+      return true;
+    });
+  }
+
+  /**
+   * @returns every way to give a different suit to each suit variable
+   */
+  private static getSuitPermutations(): SimpleTileTypes[][] {
+    const suits = Object.values(SimpleTileTypes);
+
+    return suits.reduce(
+      (permutations: SimpleTileTypes[][], first) => [
+        ...permutations,
+        ...suits
+          .filter((second) => second !== first)
+          .map((second) => [first, second, ...suits.filter((third) => third !== first && third !== second)]),
+      ],
+      [],
+    );
+  }
+
+  /**
+   * @param tile string representation of a tile
+   * @returns the tile as it is played in a pattern (FLOWER for flowers and seasons, regular fives for red fives)
+   */
+  private static toPatternTile(tile: string): string {
+    if (HandHelper.isBonusTile(tile)) return PatternCardValidator.FLOWER;
+    return HandHelper.getBaseTile(tile);
+  }
+
+  /**
+   * @param tile string representation of a tile
+   * @returns the number of copies of the tile in the wall, flowers and seasons are counted as one tile
+   */
+  private static getCopyCount(tile: string): number {
+    if (HandHelper.isBonusTile(tile)) return Object.keys(BonusTilesMapper).length;
+    return Wall.DEFAULT_NUM_OF_TILE;
+  }
+}
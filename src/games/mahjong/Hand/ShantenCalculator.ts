@@ -0,0 +1,165 @@
+/**
+ * Class used to calculate the shanten number of a hand (the number of tiles a hand is away from being ready).
+ * A ready hand has a shanten number of 0 and a winning hand has a shanten number of -1.
+ * The regular shape (melds and a pair), seven pairs and thirteen orphans are considered.
+ */
+
+import { HandHelper } from './HandHelper';
+import { WinningHandValidator } from './WinningHandValidator';
+import { Tile } from '../Tile/Tile';
+import { TileMapper } from '../Tile/map/TileMapper';
+
+export class ShantenCalculator {
+  static SEVEN_PAIRS_COUNT = 7;
+
+  /**
+   * @param concealedTiles tiles in the hand that are not part of an exposed meld (bonus tiles are ignored)
+   * @param exposedMeldCount number of melds that have already been exposed
+   * @returns the lowest shanten number of all the shapes
+   */
+  static getShanten(concealedTiles: string[], exposedMeldCount = 0): number {
+    const shanten = ShantenCalculator.getRegularShanten(concealedTiles, exposedMeldCount);
+    if (exposedMeldCount > 0) return shanten;
+
+    return Math.min(
+      shanten,
+      ShantenCalculator.getSevenPairsShanten(concealedTiles),
+      ShantenCalculator.getThirteenOrphansShanten(concealedTiles),
+    );
+  }
+
+  /**
+   * Shanten number of a hand made of melds and a pair.
+   * @param concealedTiles tiles in the hand that are not part of an exposed meld (bonus tiles are ignored)
+   * @param exposedMeldCount number of melds that have already been exposed
+   */
+  static getRegularShanten(concealedTiles: string[], exposedMeldCount = 0): number {
+    const meldsNeeded = WinningHandValidator.WINNING_HAND_MELD_COUNT - exposedMeldCount;
+    const sortedTiles = HandHelper.sortTiles(ShantenCalculator.removeBonusTiles(concealedTiles));
+
+    return ShantenCalculator.searchRegularShanten(sortedTiles, meldsNeeded, 0, 0, false);
+  }
+
+  /**
+   * Shanten number of a seven pairs hand, a tile held more than twice only counts as one pair.
+   * @param concealedTiles tiles in the hand (bonus tiles are ignored)
+   */
+  static getSevenPairsShanten(concealedTiles: string[]): number {
+    const counts = HandHelper.countTiles(ShantenCalculator.removeBonusTiles(concealedTiles));
+    const kinds = Object.keys(counts).length;
+    const pairs = Object.keys(counts).filter((tile) => counts[tile] >= 2).length;
+
+    return ShantenCalculator.SEVEN_PAIRS_COUNT - 1 - pairs + Math.max(ShantenCalculator.SEVEN_PAIRS_COUNT - kinds, 0);
+  }
+
+  /**
+   * Shanten number of a thirteen orphans hand.
+   * @param concealedTiles tiles in the hand (bonus tiles are ignored)
+   */
+  static getThirteenOrphansShanten(concealedTiles: string[]): number {
+    const orphans = ShantenCalculator.removeBonusTiles(concealedTiles).filter(
+      (tile) => HandHelper.isTerminalTile(tile) || HandHelper.isHonorTile(tile),
+    );
+    const counts = HandHelper.countTiles(orphans);
+    const hasPair = Object.keys(counts).some((tile) => counts[tile] >= 2);
+
+    return WinningHandValidator.SPECIAL_HAND_LENGTH - 1 - Object.keys(counts).length - (hasPair ? 1 : 0);
+  }
+
+  /**
+   * Find the discards that leave a hand (which must play a tile) with the lowest shanten number.
+   * @param concealedTiles tiles in the hand that are not part of an exposed meld (bonus tiles are ignored)
+   * @param exposedMeldCount number of melds that have already been exposed
+   * @returns the discards in tile order, each tile is only listed once
+   */
+  static getBestDiscards(concealedTiles: string[], exposedMeldCount = 0): string[] {
+    const tiles = ShantenCalculator.removeBonusTiles(concealedTiles);
+    const candidates = HandHelper.sortTiles(Object.keys(HandHelper.countTiles(tiles)));
+    const shantenAfterDiscard = candidates.map((tile) =>
+      ShantenCalculator.getShanten(HandHelper.removeTiles(tiles, [tile]) as string[], exposedMeldCount),
+    );
+    const lowestShanten = Math.min(...shantenAfterDiscard);
+
+    return candidates.filter((tile, i) => shantenAfterDiscard[i] === lowestShanten);
+  }
+
+  /**
+   * @param tiles tiles to be filtered
+   * @returns the tiles without flowers and seasons, red fives are replaced by regular fives
+   */
+  private static removeBonusTiles(tiles: string[]): string[] {
+    return tiles.filter((tile) => !HandHelper.isBonusTile(tile)).map((tile) => HandHelper.getBaseTile(tile));
+  }
+
+  /**
+   * Recursively split sorted tiles into melds, partial melds (two tiles waiting for a third) and a pair.
+   * The first (smallest) tile is either used in one of the groups starting with it or left as an isolated tile.
+   * @param sortedTiles sorted tiles that have not been grouped yet
+   * @param meldsNeeded number of melds needed to complete the hand
+   * @param melds number of melds found
+   * @param partials number of partial melds found
+   * @param hasPair true if a pair has been found
+   * @returns the lowest shanten number found
+   */
+  private static searchRegularShanten(
+    sortedTiles: string[],
+    meldsNeeded: number,
+    melds: number,
+    partials: number,
+    hasPair: boolean,
+  ): number {
+    if (sortedTiles.length === 0) {
+      const usefulPartials = Math.min(partials, meldsNeeded - melds);
+      return 2 * (meldsNeeded - melds) - usefulPartials - (hasPair ? 1 : 0);
+    }
+
+    const [firstTile] = sortedTiles;
+    const groups: { tiles: string[]; melds: number; partials: number; hasPair: boolean }[] = [];
+    if (melds < meldsNeeded) {
+      groups.push({ tiles: [firstTile, firstTile, firstTile], melds: melds + 1, partials, hasPair });
+    }
+    if (!hasPair) {
+      groups.push({ tiles: [firstTile, firstTile], melds, partials, hasPair: true });
+    }
+    if (melds + partials < meldsNeeded) {
+      groups.push({ tiles: [firstTile, firstTile], melds, partials: partials + 1, hasPair });
+    }
+
+    if (HandHelper.isSimpleTile(firstTile)) {
+      const { type, value } = HandHelper.getTileDefinition(firstTile);
+      const [nextTile, secondNextTile] = [value + 1, value + 2]
+        .map((nextValue) => `${nextValue}${Tile.DELIMITER}${type}`)
+        .map((tile) => (TileMapper[tile] ? tile : ''));
+
+      if (nextTile && secondNextTile && melds < meldsNeeded) {
+        groups.push({ tiles: [firstTile, nextTile, secondNextTile], melds: melds + 1, partials, hasPair });
+      }
+      if (melds + partials < meldsNeeded) {
+        if (nextTile) groups.push({ tiles: [firstTile, nextTile], melds, partials: partials + 1, hasPair });
+        if (secondNextTile) {
+          groups.push({ tiles: [firstTile, secondNextTile], melds, partials: partials + 1, hasPair });
+        }
+      }
+    }
+
+    // Leave the first tile as an isolated tile
+    let lowestShanten = ShantenCalculator.searchRegularShanten(
+      sortedTiles.slice(1),
+      meldsNeeded,
+      melds,
+      partials,
+      hasPair,
+    );
+    groups.forEach((group) => {
+      const remainingTiles = HandHelper.removeTiles(sortedTiles, group.tiles);
+      if (!remainingTiles) return;
+
+      lowestShanten = Math.min(
+        lowestShanten,
+        ShantenCalculator.searchRegularShanten(remainingTiles, meldsNeeded, group.melds, group.partials, group.hasPair),
+      );
+    });
+
+    return lowestShanten;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Class used to find the tiles that complete a ready hand (a hand that is one tile away from winning).
+ */
+
+import { HandHelper } from './HandHelper';
+import { WinningHandValidator } from './WinningHandValidator';
+import { Meld, WaitingTile } from '../types/MahjongTypes';
+import { Wall } from '../Wall/Wall';
+
+export class WaitingTilesCalculator {
+  /**
+   * Find every tile that would complete a hand, and how many copies of it are still unseen.
+   * @param concealedTiles tiles in the hand that are not part of an exposed meld
+   * @param exposedMelds melds that have already been exposed by the user
+   * @param visibleTiles other tiles the user can see (e.g. discards and melds of other users)
+   * @param meldCount number of melds in a winning hand
+   * @param specialHands special hands accepted as winning hands
+   * @returns the waiting tiles in tile order, empty if the hand is not ready
+   */
+  static getWaitingTiles(
+    concealedTiles: string[],
+    exposedMelds: Meld[] = [],
+    visibleTiles: string[] = [],
+    meldCount = WinningHandValidator.WINNING_HAND_MELD_COUNT,
+    specialHands = WinningHandValidator.DEFAULT_SPECIAL_HANDS,
+  ): WaitingTile[] {
+    // Red fives are counted as regular fives
+    const toBaseTiles = (tiles: string[]) => tiles.map((tile) => HandHelper.getBaseTile(tile));
+    const exposedTiles = exposedMelds.reduce((tiles: string[], meld) => [...tiles, ...meld.tiles], []);
+    const seenCounts = HandHelper.countTiles(toBaseTiles([...concealedTiles, ...exposedTiles, ...visibleTiles]));
+    const handCounts = HandHelper.countTiles(toBaseTiles([...concealedTiles, ...exposedTiles]));
+
+    return HandHelper.TILE_ORDER.filter(
+      (tile) => !HandHelper.isBonusTile(tile) && !HandHelper.isJokerTile(tile) && !HandHelper.isRedFive(tile),
+    )
+      .filter((tile) => (handCounts[tile] || 0) < Wall.DEFAULT_NUM_OF_TILE) // cannot wait for a fifth copy
+      .filter((tile) =>
+        WinningHandValidator.isWinningHand([...concealedTiles, tile], exposedMelds, meldCount, specialHands),
+      )
+      .map((tile) => ({
+        tile,
+        unseenCount: Math.max(Wall.DEFAULT_NUM_OF_TILE - (seenCounts[tile] || 0), 0),
+      }));
+  }
+
+  /**
+   * A ready hand is furiten if one of its waiting tiles has already been discarded by the user.
+   * @param concealedTiles tiles in the hand that are not part of an exposed meld
+   * @param exposedMelds melds that have already been exposed by the user
+   * @param discards tiles discarded by the user
+   * @returns true if the user cannot win on a played tile because of the user's own discards
+   */
+  static isFuriten(concealedTiles: string[], exposedMelds: Meld[] = [], discards: string[] = []): boolean {
+    const discardedTiles = discards.map((tile) => HandHelper.getBaseTile(tile));
+    return WaitingTilesCalculator.getWaitingTiles(concealedTiles, exposedMelds).some(({ tile }) =>
+      discardedTiles.includes(tile),
+    );
+  }
+}
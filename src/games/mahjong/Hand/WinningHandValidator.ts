@@ -0,0 +1,239 @@
+/**
+ * Class used to check if a hand is a winning hand.
+ * A winning hand is made of four melds (triplets, quads or consecutive tiles) and a pair,
+ * or one of the special hands accepted by the version (thirteen orphans and seven pairs by default).
+ * Versions with longer hands (e.g. Taiwanese, 16 tiles) need more melds to win.
+ */
+
+import { HandHelper } from './HandHelper';
+import { MeldValidator } from './MeldValidator';
+import { HandDecomposition, Meld } from '../types/MahjongTypes';
+import { MeldEnum } from '../../../enums/MeldEnum';
+import { SpecialHandEnum } from '../../../enums/SpecialHandEnum';
+import { Tile } from '../Tile/Tile';
+import { SimpleTileTypes } from '../Tile/types/SimpleTileTypes';
+
+export class WinningHandValidator {
+  static WINNING_HAND_MELD_COUNT = 4;
+
+  static SPECIAL_HAND_LENGTH = 14;
+
+  static DEFAULT_SPECIAL_HANDS: SpecialHandEnum[] = [SpecialHandEnum.THIRTEEN_ORPHANS, SpecialHandEnum.SEVEN_PAIRS];
+
+  static KNITTED_VALUES: number[][] = [
+    [1, 4, 7],
+    [2, 5, 8],
+    [3, 6, 9],
+  ];
+
+  /**
+   * Every way to knit the three suits: the suit at index i uses the values of KNITTED_VALUES[i]
+   */
+  static KNITTED_SUITS: SimpleTileTypes[][] = [
+    [SimpleTileTypes.DOT, SimpleTileTypes.BAMBOO, SimpleTileTypes.CHARACTER],
+    [SimpleTileTypes.DOT, SimpleTileTypes.CHARACTER, SimpleTileTypes.BAMBOO],
+    [SimpleTileTypes.BAMBOO, SimpleTileTypes.DOT, SimpleTileTypes.CHARACTER],
+    [SimpleTileTypes.BAMBOO, SimpleTileTypes.CHARACTER, SimpleTileTypes.DOT],
+    [SimpleTileTypes.CHARACTER, SimpleTileTypes.DOT, SimpleTileTypes.BAMBOO],
+    [SimpleTileTypes.CHARACTER, SimpleTileTypes.BAMBOO, SimpleTileTypes.DOT],
+  ];
+
+  /**
+   * Find all the ways to split a hand into melds and a pair.
+   * @param concealedTiles tiles in the hand that are not part of an exposed meld (including the winning tile)
+   * @param exposedMelds melds that have already been exposed
+   * @param meldCount number of melds in a winning hand
+   * @param specialHands special hands accepted as winning hands
+   * @returns a list of decompositions, empty if the hand is not a winning hand
+   */
+  static getDecompositions(
+    concealedTiles: string[],
+    exposedMelds: Meld[] = [],
+    meldCount = WinningHandValidator.WINNING_HAND_MELD_COUNT,
+    specialHands = WinningHandValidator.DEFAULT_SPECIAL_HANDS,
+  ): HandDecomposition[] {
+    // Jokers are only played with a pattern card (American)
+    if (concealedTiles.some((tile) => HandHelper.isBonusTile(tile) || HandHelper.isJokerTile(tile))) return [];
+    if (!exposedMelds.every((meld) => MeldValidator.isValidMeld(meld.tiles, meld.type))) return [];
+
+    const decompositions: HandDecomposition[] = [];
+    // Red fives are played as regular fives
+    const sortedTiles = HandHelper.sortTiles(concealedTiles.map((tile) => HandHelper.getBaseTile(tile)));
+    const meldsNeeded = meldCount - exposedMelds.length;
+
+    // Try every possible pair, then split the rest of the tiles into melds
+    const counts = HandHelper.countTiles(sortedTiles);
+    Object.keys(counts)
+      .filter((tile) => counts[tile] >= 2)
+      .forEach((pairTile) => {
+        const pair = [pairTile, pairTile];
+        const remainingTiles = HandHelper.removeTiles(sortedTiles, pair) as string[];
+
+        WinningHandValidator.findMelds(remainingTiles, meldsNeeded).forEach((melds) => {
+          decompositions.push({
+            melds: [...exposedMelds, ...melds],
+            pair,
+          });
+        });
+      });
+
+    // Special hands only replace four melds and a pair
+    if (meldCount !== WinningHandValidator.WINNING_HAND_MELD_COUNT) return decompositions;
+
+    // A knitted straight counts as three melds, the last meld can be exposed
+    if (specialHands.includes(SpecialHandEnum.KNITTED_STRAIGHT) && exposedMelds.length <= 1) {
+      decompositions.push(...WinningHandValidator.getKnittedStraightDecompositions(sortedTiles, exposedMelds));
+    }
+
+    // Other special hands must be fully concealed
+    if (exposedMelds.length === 0) {
+      if (
+        specialHands.includes(SpecialHandEnum.THIRTEEN_ORPHANS) &&
+        WinningHandValidator.isThirteenOrphans(sortedTiles)
+      ) {
+        decompositions.push({ melds: [], pair: [], specialHand: SpecialHandEnum.THIRTEEN_ORPHANS });
+      }
+
+      if (specialHands.includes(SpecialHandEnum.SEVEN_PAIRS) && WinningHandValidator.isSevenPairs(sortedTiles)) {
+        decompositions.push({ melds: [], pair: [], specialHand: SpecialHandEnum.SEVEN_PAIRS });
+      }
+
+      if (
+        specialHands.includes(SpecialHandEnum.HONORS_AND_KNITTED_TILES) &&
+        WinningHandValidator.isHonorsAndKnittedTiles(sortedTiles)
+      ) {
+        decompositions.push({ melds: [], pair: [], specialHand: SpecialHandEnum.HONORS_AND_KNITTED_TILES });
+      }
+    }
+
+    return decompositions;
+  }
+
+  /**
+   * @param concealedTiles tiles in the hand that are not part of an exposed meld (including the winning tile)
+   * @param exposedMelds melds that have already been exposed
+   * @param meldCount number of melds in a winning hand
+   * @param specialHands special hands accepted as winning hands
+   * @returns true if the tiles form a winning hand
+   */
+  static isWinningHand(
+    concealedTiles: string[],
+    exposedMelds: Meld[] = [],
+    meldCount = WinningHandValidator.WINNING_HAND_MELD_COUNT,
+    specialHands = WinningHandValidator.DEFAULT_SPECIAL_HANDS,
+  ): boolean {
+    return WinningHandValidator.getDecompositions(concealedTiles, exposedMelds, meldCount, specialHands).length > 0;
+  }
+
+  /**
+   * Thirteen orphans: one of each terminal and honor tile, plus one duplicate.
+   * @param tiles tiles to be checked
+   */
+  static isThirteenOrphans(tiles: string[]): boolean {
+    if (tiles.length !== WinningHandValidator.SPECIAL_HAND_LENGTH) return false;
+    if (!tiles.every((tile) => HandHelper.isTerminalTile(tile) || HandHelper.isHonorTile(tile))) return false;
+
+    return Object.keys(HandHelper.countTiles(tiles)).length === WinningHandValidator.SPECIAL_HAND_LENGTH - 1;
+  }
+
+  /**
+   * Seven pairs: seven different pairs.
+   * @param tiles tiles to be checked
+   */
+  static isSevenPairs(tiles: string[]): boolean {
+    if (tiles.length !== WinningHandValidator.SPECIAL_HAND_LENGTH) return false;
+
+    const counts = HandHelper.countTiles(tiles);
+    return Object.keys(counts).every((tile) => counts[tile] === 2 && !HandHelper.isBonusTile(tile));
+  }
+
+  /**
+   * Honors and knitted tiles: fourteen different tiles, each one an honor tile or a tile of a knitted straight.
+   * @param tiles tiles to be checked
+   */
+  static isHonorsAndKnittedTiles(tiles: string[]): boolean {
+    if (tiles.length !== WinningHandValidator.SPECIAL_HAND_LENGTH) return false;
+    if (Object.keys(HandHelper.countTiles(tiles)).length !== tiles.length) return false;
+
+    return WinningHandValidator.KNITTED_SUITS.some((suits) =>
+      tiles.every((tile) => {
+        if (HandHelper.isHonorTile(tile)) return true;
+        if (!HandHelper.isSimpleTile(tile)) return false;
+
+        const { type, value } = HandHelper.getTileDefinition(tile);
+        return WinningHandValidator.KNITTED_VALUES[suits.indexOf(type as SimpleTileTypes)].includes(value);
+      }),
+    );
+  }
+
+  /**
+   * @param suits suits using the values 147, 258 and 369
+   * @returns the nine tiles of a knitted straight
+   */
+  static getKnittedStraight(suits: SimpleTileTypes[]): string[] {
+    return suits.reduce(
+      (tiles: string[], suit, i) => [
+        ...tiles,
+        ...WinningHandValidator.KNITTED_VALUES[i].map((value) => `${value}${Tile.DELIMITER}${suit}`),
+      ],
+      [],
+    );
+  }
+
+  /**
+   * Knitted straight: 147, 258 and 369 of three different suits, plus a meld and a pair.
+   * @param sortedTiles sorted concealed tiles
+   * @param exposedMelds melds that have already been exposed (at most one)
+   */
+  private static getKnittedStraightDecompositions(sortedTiles: string[], exposedMelds: Meld[]): HandDecomposition[] {
+    const decompositions: HandDecomposition[] = [];
+    WinningHandValidator.KNITTED_SUITS.forEach((suits) => {
+      const remainingTiles = HandHelper.removeTiles(sortedTiles, WinningHandValidator.getKnittedStraight(suits));
+      if (!remainingTiles) return;
+
+      WinningHandValidator.getDecompositions(remainingTiles, exposedMelds, 1, []).forEach(({ melds, pair }) => {
+        decompositions.push({ melds, pair, specialHand: SpecialHandEnum.KNITTED_STRAIGHT });
+      });
+    });
+
+    return decompositions;
+  }
+
+  /**
+   * Recursively split sorted tiles into exactly meldsNeeded melds.
+   * The first (smallest) tile must belong to a meld, so only melds starting with it are tried.
+   * @param sortedTiles sorted tiles
+   * @param meldsNeeded number of melds the tiles should be split into
+   * @returns a list of possible meld combinations
+   */
+  private static findMelds(sortedTiles: string[], meldsNeeded: number): Meld[][] {
+    if (sortedTiles.length === 0) return meldsNeeded === 0 ? [[]] : [];
+    if (meldsNeeded === 0) return [];
+
+    const [firstTile] = sortedTiles;
+    const candidates: Meld[] = [
+      { tiles: [firstTile, firstTile, firstTile, firstTile], type: MeldEnum.QUAD },
+      { tiles: [firstTile, firstTile, firstTile], type: MeldEnum.TRIPLET },
+    ];
+
+    if (HandHelper.isSimpleTile(firstTile)) {
+      const { type, value } = HandHelper.getTileDefinition(firstTile);
+      candidates.push({
+        tiles: [firstTile, `${value + 1}${Tile.DELIMITER}${type}`, `${value + 2}${Tile.DELIMITER}${type}`],
+        type: MeldEnum.CONSECUTIVE,
+      });
+    }
+
+    const results: Meld[][] = [];
+    candidates.forEach((meld) => {
+      const remainingTiles = HandHelper.removeTiles(sortedTiles, meld.tiles);
+      if (!remainingTiles) return;
+
+      WinningHandValidator.findMelds(remainingTiles, meldsNeeded - 1).forEach((melds) => {
+        results.push([{ ...meld, concealed: true }, ...melds]);
+      });
+    });
+
+    return results;
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * A Ruleset holds everything that differs between versions of mahjong: how the wall is built,
+ * the size of a hand, the number of users, which claims on a played tile take priority and how a
+ * winning hand is scored and paid. Handlers resolve the ruleset of a game with the RulesetFactory.
+ */
+
+import { Wall } from '../Wall/Wall';
+import { HandPointResults, PatternCard, WinningHandContext } from '../types/MahjongTypes';
+import { MahjongVersions } from '../Wall/version/Versions';
+import { GameTypeEnum } from '../../../enums/GameTypeEnum';
+import { WinTypeEnum } from '../../../enums/WinTypeEnum';
+import { SpecialHandEnum } from '../../../enums/SpecialHandEnum';
+
+/**
+ * Priority of each meld type that can be claimed on a played tile, the highest priority wins.
+ * Meld types that are not listed cannot be claimed.
+ */
+export type ClaimPriorities = { [meldType: string]: number };
+
+export interface Ruleset {
+  gameType: GameTypeEnum;
+  version: MahjongVersions;
+  handLength: number; // number of tiles in a hand before drawing
+  meldCount: number; // number of melds (plus a pair) in a winning hand
+  specialHands: SpecialHandEnum[]; // special hands accepted as winning hands
+  patternCard?: PatternCard; // winning hands must match a pattern of the card instead of melds and a pair (American)
+  minimumPoints: number; // points needed to win, not counting flowers
+  startingScore: number; // score of each user at the start of the game
+  playerCount: number;
+  winnerCount: number; // number of users who win before the round ends, several users can win on one discard if above 1
+  claimPriorities: ClaimPriorities;
+  extractedTiles: string[]; // tiles that are set aside and replaced like bonus tiles (e.g. north winds in sanma)
+  hasRiichi: boolean;
+  hasFuriten: boolean;
+  hasBonusTiles: boolean; // bonus tiles drawn are revealed and replaced, otherwise they are kept in the hand
+  hasFlowers: boolean; // the wall has flowers and seasons, which score flower patterns
+  hasCharleston: boolean; // users pass tiles to each other before the first turn (American)
+  hasJokers: boolean; // jokers can stand in for any tile of a triplet or a quad (American)
+  hasMissingSuit: boolean; // users declare a suit they cannot win with before the first turn (Sichuan)
+  createWall: (redFives: boolean, handLength: number) => Wall; // use RulesetFactory.createWall to deal handLength tiles
+  calculateHandPoints: (context: WinningHandContext) => HandPointResults | undefined;
+  calculateDeltas: (
+    points: number,
+    winnerSeat: number,
+    winType: WinTypeEnum,
+    discarderSeat: number | undefined,
+    playerCount: number,
+    wonSeats?: number[], // users who have already won in the round (when winnerCount is above 1)
+  ) => number[];
+}
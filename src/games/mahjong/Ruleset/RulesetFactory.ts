@@ -0,0 +1,49 @@
+/**
+ * Class designed to resolve the ruleset of a game given its type and version
+ */
+
+import { Ruleset } from './Ruleset';
+import { Wall } from '../Wall/Wall';
+import { HongKongRuleset } from './version/HongKongRuleset';
+import { JapaneseRuleset } from './version/JapaneseRuleset';
+import { TaiwaneseRuleset } from './version/TaiwaneseRuleset';
+import { SanmaRuleset } from './version/SanmaRuleset';
+import { MCRRuleset } from './version/MCRRuleset';
+import { AmericanRuleset } from './version/AmericanRuleset';
+import { SichuanRuleset } from './version/SichuanRuleset';
+import { GameTypeEnum } from '../../../enums/GameTypeEnum';
+
+export class RulesetFactory {
+  static RULESETS: Ruleset[] = [
+    HongKongRuleset,
+    JapaneseRuleset,
+    TaiwaneseRuleset,
+    SanmaRuleset,
+    MCRRuleset,
+    AmericanRuleset,
+    SichuanRuleset,
+  ];
+
+  /**
+   * @param gameType type of the game (see GameTypeEnum), mahjong is used by default
+   * @param gameVersion version of the game (see MahjongVersions), Hong Kong is used by default
+   * @returns the ruleset of the game
+   */
+  static getRuleset(gameType?: string, gameVersion?: string): Ruleset {
+    const type = gameType || GameTypeEnum.MAHJONG;
+    const ruleset = RulesetFactory.RULESETS.find(
+      (candidate) => candidate.gameType === type && candidate.version === gameVersion,
+    );
+
+    return ruleset || HongKongRuleset;
+  }
+
+  /**
+   * @param ruleset ruleset of the game
+   * @param redFives replace one five of each suit by a red five (Japanese only)
+   * @returns a new wall of the ruleset dealing hands of the hand length of the ruleset
+   */
+  static createWall(ruleset: Ruleset, redFives = false): Wall {
+    return ruleset.createWall(redFives, ruleset.handLength);
+  }
+}
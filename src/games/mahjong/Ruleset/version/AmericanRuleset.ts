@@ -0,0 +1,30 @@
+/**
+ * American rules: 152 tiles with flowers, seasons and jokers, a Charleston before the first turn,
+ * no chow and winning hands matched against the patterns of a card.
+ */
+
+import { Ruleset } from '../Ruleset';
+import { HongKongRuleset } from './HongKongRuleset';
+import { AmericanWall } from '../../Wall/version/AmericanWall';
+import { MahjongVersions } from '../../Wall/version/Versions';
+import { AmericanScorer } from '../../Score/AmericanScorer';
+import { AmericanSettlement } from '../../Score/AmericanSettlement';
+import { MeldEnum } from '../../../../enums/MeldEnum';
+
+export const AmericanRuleset: Ruleset = {
+  ...HongKongRuleset,
+  version: MahjongVersions.American,
+  specialHands: [],
+  patternCard: AmericanScorer.CARD,
+  claimPriorities: {
+    [MeldEnum.WIN]: 3,
+    [MeldEnum.QUAD]: 2,
+    [MeldEnum.TRIPLET]: 2,
+  },
+  hasBonusTiles: false,
+  hasCharleston: true,
+  hasJokers: true,
+  createWall: (_redFives: boolean, handLength: number) => new AmericanWall(handLength),
+  calculateHandPoints: AmericanScorer.calculateHandPoints,
+  calculateDeltas: AmericanSettlement.calculateDeltas,
+};
@@ -0,0 +1,42 @@
+/**
+ * Hong Kong rules: 144 tiles with flowers and seasons, four users with 13 tiles each, faan scoring.
+ */
+
+import { Ruleset } from '../Ruleset';
+import { HongKongWall } from '../../Wall/version/HongKongWall';
+import { MahjongVersions } from '../../Wall/version/Versions';
+import { HongKongScorer } from '../../Score/HongKongScorer';
+import { HongKongSettlement } from '../../Score/HongKongSettlement';
+import { WinningHandValidator } from '../../Hand/WinningHandValidator';
+import { GameTypeEnum } from '../../../../enums/GameTypeEnum';
+import { MeldEnum } from '../../../../enums/MeldEnum';
+import { DEFAULT_HAND_LENGTH, DEFAULT_MAX_USERS_IN_GAME } from '../../../../utils/constants';
+
+export const HongKongRuleset: Ruleset = {
+  gameType: GameTypeEnum.MAHJONG,
+  version: MahjongVersions.HongKong,
+  handLength: DEFAULT_HAND_LENGTH,
+  meldCount: WinningHandValidator.WINNING_HAND_MELD_COUNT,
+  specialHands: WinningHandValidator.DEFAULT_SPECIAL_HANDS,
+  minimumPoints: 0,
+  startingScore: 0,
+  playerCount: DEFAULT_MAX_USERS_IN_GAME,
+  winnerCount: 1,
+  claimPriorities: {
+    [MeldEnum.WIN]: 3,
+    [MeldEnum.QUAD]: 2,
+    [MeldEnum.TRIPLET]: 2,
+    [MeldEnum.CONSECUTIVE]: 1,
+  },
+  extractedTiles: [],
+  hasRiichi: false,
+  hasFuriten: false,
+  hasBonusTiles: true,
+  hasFlowers: true,
+  hasCharleston: false,
+  hasJokers: false,
+  hasMissingSuit: false,
+  createWall: (_redFives: boolean, handLength: number) => new HongKongWall(handLength),
+  calculateHandPoints: HongKongScorer.calculateHandPoints,
+  calculateDeltas: HongKongSettlement.calculateDeltas,
+};
@@ -0,0 +1,20 @@
+/**
+ * Japanese rules: 136 tiles with a dead wall and optional red fives, riichi and furiten.
+ * Hands are still scored with Hong Kong faan.
+ */
+
+import { Ruleset } from '../Ruleset';
+import { HongKongRuleset } from './HongKongRuleset';
+import { JapaneseWall } from '../../Wall/version/JapaneseWall';
+import { MahjongVersions } from '../../Wall/version/Versions';
+import { JAPANESE_STARTING_SCORE } from '../../../../utils/constants';
+
+export const JapaneseRuleset: Ruleset = {
+  ...HongKongRuleset,
+  version: MahjongVersions.Japanese,
+  startingScore: JAPANESE_STARTING_SCORE,
+  hasRiichi: true,
+  hasFuriten: true,
+  hasFlowers: false,
+  createWall: (redFives: boolean, handLength: number) => new JapaneseWall(redFives, handLength),
+};
@@ -0,0 +1,20 @@
+/**
+ * Mahjong Competition Rules (Chinese Official): 144 tiles with flowers and seasons, knitted special hands,
+ * 81 fan scoring with a minimum of 8 fan to win.
+ */
+
+import { Ruleset } from '../Ruleset';
+import { HongKongRuleset } from './HongKongRuleset';
+import { MahjongVersions } from '../../Wall/version/Versions';
+import { MCR_MINIMUM_POINTS } from '../../Score/MCRFanTable';
+import { MCRScorer } from '../../Score/MCRScorer';
+import { MCRSettlement } from '../../Score/MCRSettlement';
+
+export const MCRRuleset: Ruleset = {
+  ...HongKongRuleset,
+  version: MahjongVersions.MCR,
+  specialHands: MCRScorer.SPECIAL_HANDS,
+  minimumPoints: MCR_MINIMUM_POINTS,
+  calculateHandPoints: MCRScorer.calculateHandPoints,
+  calculateDeltas: MCRSettlement.calculateDeltas,
+};
@@ -0,0 +1,24 @@
+/**
+ * Three-player (sanma) rules: Japanese rules for three users, with the 2 to 8 of characters removed from the wall,
+ * no chow and north winds extracted from the hand. Hands are still scored with Hong Kong faan.
+ */
+
+import { Ruleset } from '../Ruleset';
+import { JapaneseRuleset } from './JapaneseRuleset';
+import { SanmaWall } from '../../Wall/version/SanmaWall';
+import { MahjongVersions } from '../../Wall/version/Versions';
+import { MeldEnum } from '../../../../enums/MeldEnum';
+import { SANMA_MAX_USERS_IN_GAME } from '../../../../utils/constants';
+
+export const SanmaRuleset: Ruleset = {
+  ...JapaneseRuleset,
+  version: MahjongVersions.Sanma,
+  playerCount: SANMA_MAX_USERS_IN_GAME,
+  claimPriorities: {
+    [MeldEnum.WIN]: 3,
+    [MeldEnum.QUAD]: 2,
+    [MeldEnum.TRIPLET]: 2,
+  },
+  extractedTiles: SanmaWall.EXTRACTED_TILES,
+  createWall: (redFives: boolean, handLength: number) => new SanmaWall(redFives, handLength),
+};
@@ -0,0 +1,29 @@
+/**
+ * Sichuan rules: 108 tiles of the three suits (no honor or bonus tiles), a missing suit declared before
+ * the first turn and no chow. The round goes on after a win until three users have won or the wall is empty,
+ * and several users can win on the same discard. Hands are scored with Hong Kong faan.
+ */
+
+import { Ruleset } from '../Ruleset';
+import { HongKongRuleset } from './HongKongRuleset';
+import { SichuanWall } from '../../Wall/version/SichuanWall';
+import { MahjongVersions } from '../../Wall/version/Versions';
+import { SichuanSettlement } from '../../Score/SichuanSettlement';
+import { MeldEnum } from '../../../../enums/MeldEnum';
+import { DEFAULT_MAX_USERS_IN_GAME } from '../../../../utils/constants';
+
+export const SichuanRuleset: Ruleset = {
+  ...HongKongRuleset,
+  version: MahjongVersions.Sichuan,
+  winnerCount: DEFAULT_MAX_USERS_IN_GAME - 1,
+  claimPriorities: {
+    [MeldEnum.WIN]: 3,
+    [MeldEnum.QUAD]: 2,
+    [MeldEnum.TRIPLET]: 2,
+  },
+  hasBonusTiles: false,
+  hasFlowers: false,
+  hasMissingSuit: true,
+  createWall: (_redFives: boolean, handLength: number) => new SichuanWall(handLength),
+  calculateDeltas: SichuanSettlement.calculateDeltas,
+};
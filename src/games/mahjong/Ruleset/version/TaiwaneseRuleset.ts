@@ -0,0 +1,20 @@
+/**
+ * Taiwanese rules: 144 tiles with flowers and seasons, 16 tiles in a hand and five melds and a pair to win,
+ * tai scoring.
+ */
+
+import { Ruleset } from '../Ruleset';
+import { HongKongRuleset } from './HongKongRuleset';
+import { MahjongVersions } from '../../Wall/version/Versions';
+import { TaiwaneseScorer } from '../../Score/TaiwaneseScorer';
+import { TaiwaneseSettlement } from '../../Score/TaiwaneseSettlement';
+import { TAIWANESE_HAND_LENGTH } from '../../../../utils/constants';
+
+export const TaiwaneseRuleset: Ruleset = {
+  ...HongKongRuleset,
+  version: MahjongVersions.Taiwanese,
+  handLength: TAIWANESE_HAND_LENGTH,
+  meldCount: TaiwaneseScorer.WINNING_HAND_MELD_COUNT,
+  calculateHandPoints: TaiwaneseScorer.calculateHandPoints,
+  calculateDeltas: TaiwaneseSettlement.calculateDeltas,
+};
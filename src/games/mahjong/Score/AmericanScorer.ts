@@ -0,0 +1,72 @@
+/**
+ * Class used to calculate the points of a winning hand using American mahjong rules.
+ * A winning hand scores the points of the pattern it matches on the card, the highest scoring pattern is used.
+ * A hand won without any joker doubles the points of its pattern, unless the pattern has no group that could have
+ * used a joker (e.g. singles and pairs).
+ */
+
+import { HandDefinition, HandPointResults, PatternCard, PatternMatch, WinningHandContext } from '../types/MahjongTypes';
+import { PatternCardValidator } from '../Hand/PatternCardValidator';
+import { HandHelper } from '../Hand/HandHelper';
+import * as AmericanCard from '../Hand/card/AmericanCard.json';
+
+export class AmericanScorer {
+  static CARD: PatternCard = AmericanCard;
+
+  static JOKERLESS = 'Jokerless';
+
+  /**
+   * Calculate the points of a winning hand.
+   * @param {WinningHandContext} context winning hand and the situation it was won in
+   * @returns the highest scoring result, or undefined if the hand does not match a pattern of the card
+   */
+  static calculateHandPoints(context: WinningHandContext): HandPointResults | undefined {
+    const matches = PatternCardValidator.getMatchingPatterns(
+      AmericanScorer.CARD,
+      context.concealedTiles,
+      context.exposedMelds,
+    );
+
+    let bestResults: HandPointResults | undefined;
+    matches.forEach((match) => {
+      const results = AmericanScorer.scoreMatch(match, context);
+      if (!bestResults || results.totalPoints > bestResults.totalPoints) {
+        bestResults = results;
+      }
+    });
+
+    return bestResults;
+  }
+
+  /**
+   * Score one pattern matched by a winning hand.
+   * @param {PatternMatch} match pattern matched by the hand
+   * @param {WinningHandContext} context winning hand and the situation it was won in
+   */
+  private static scoreMatch(match: PatternMatch, context: WinningHandContext): HandPointResults {
+    const { pattern, jokerCount } = match;
+    const exposedTiles = context.exposedMelds.reduce((tiles: string[], meld) => [...tiles, ...meld.tiles], []);
+    const canUseJokers = pattern.groups.some((group) => group.count >= PatternCardValidator.MIN_JOKER_GROUP_LENGTH);
+
+    const patternHand: HandDefinition = { name: pattern.name, points: pattern.points };
+    const extraHands: HandDefinition[] =
+      jokerCount === 0 && canUseJokers ? [{ name: AmericanScorer.JOKERLESS, points: pattern.points }] : [];
+    const extraPoints = extraHands.reduce((sum, hand) => sum + hand.points, 0);
+
+    return {
+      totalPoints: patternHand.points + extraPoints,
+      handPoints: patternHand.points,
+      extraPoints,
+      windPoints: 0,
+      dragonPoints: 0,
+      flowerPoints: 0,
+      concealedPoint: 0,
+      hands: [patternHand, ...extraHands],
+      tiles: HandHelper.sortTiles([...context.concealedTiles, ...exposedTiles]),
+      bonusTiles: context.bonusTiles,
+      wind: context.seatWind,
+      flower: context.seatWind + 1,
+      melds: context.exposedMelds,
+    };
+  }
+}
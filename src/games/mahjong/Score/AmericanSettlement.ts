@@ -0,0 +1,41 @@
+/**
+ * Class used to settle the payments of a round using American mahjong rules.
+ * Every other user pays the points of the hand to the winner. The discarder pays double for a discard win,
+ * and every other user pays double for a self-drawn win.
+ */
+
+import { WinTypeEnum } from '../../../enums/WinTypeEnum';
+
+export const AMERICAN_DOUBLE_PAYMENT = 2;
+
+export class AmericanSettlement {
+  /**
+   * Calculate the change in score of every user after a win.
+   * @param {number} points points of the winning hand
+   * @param {number} winnerSeat seat index of the winner
+   * @param {WinTypeEnum} winType where the winning tile came from
+   * @param {number} discarderSeat seat index of the user who played the winning tile (for a discard win)
+   * @param {number} playerCount number of users in the game
+   * @returns the score deltas in seat order
+   */
+  static calculateDeltas(
+    points: number,
+    winnerSeat: number,
+    winType: WinTypeEnum,
+    discarderSeat: number | undefined,
+    playerCount: number,
+  ): number[] {
+    const isSelfDrawn = winType === WinTypeEnum.SELF_DRAWN || winType === WinTypeEnum.KONG_REPLACEMENT;
+    const deltas: number[] = Array(playerCount).fill(0);
+
+    for (let seat = 0; seat < playerCount; seat += 1) {
+      if (seat !== winnerSeat) {
+        const payment = isSelfDrawn || seat === discarderSeat ? points * AMERICAN_DOUBLE_PAYMENT : points;
+        deltas[seat] -= payment;
+        deltas[winnerSeat] += payment;
+      }
+    }
+
+    return deltas;
+  }
+}
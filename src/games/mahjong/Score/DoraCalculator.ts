@@ -0,0 +1,104 @@
+/**
+ * Class used to reveal dora indicators from the dead wall (Japanese) and count the dora in a winning hand.
+ * The first tiles of the dead wall are the dora indicators (one at the start of a round and one more for each quad),
+ * and the tiles under them are the ura-dora indicators. Each indicator points to the next tile of its suit,
+ * wrapping 9 to 1, winds (East, South, West, North) and dragons (White, Green, Red).
+ */
+
+import { DoraResults } from '../types/MahjongTypes';
+import { HandHelper } from '../Hand/HandHelper';
+import { HonorTileTypes } from '../Tile/types/HonorTileTypes';
+import { Tile } from '../Tile/Tile';
+
+export class DoraCalculator {
+  static MAX_DORA_INDICATORS = 5;
+
+  static WIND_CYCLE: string[] = [HonorTileTypes.EAST, HonorTileTypes.SOUTH, HonorTileTypes.WEST, HonorTileTypes.NORTH];
+
+  static DRAGON_CYCLE: string[] = [HonorTileTypes.WHITEDRAGON, HonorTileTypes.GREENDRAGON, HonorTileTypes.REDDRAGON];
+
+  /**
+   * @param deadWall tiles in the dead wall
+   * @param quadCount number of quads declared in the round (each one reveals a kan-dora indicator)
+   * @returns the dora indicators that have been revealed
+   */
+  static getDoraIndicators(deadWall: string[], quadCount = 0): string[] {
+    return deadWall.slice(0, DoraCalculator.getRevealedCount(quadCount));
+  }
+
+  /**
+   * @param deadWall tiles in the dead wall
+   * @param quadCount number of quads declared in the round
+   * @returns the ura-dora indicators under the revealed dora indicators
+   */
+  static getUraDoraIndicators(deadWall: string[], quadCount = 0): string[] {
+    const start = DoraCalculator.MAX_DORA_INDICATORS;
+    return deadWall.slice(start, start + DoraCalculator.getRevealedCount(quadCount));
+  }
+
+  /**
+   * @param indicator a dora indicator
+   * @returns the dora tile the indicator points to
+   */
+  static getDoraTile(indicator: string): string {
+    const tile = HandHelper.getBaseTile(indicator);
+    if (HandHelper.isSimpleTile(tile)) {
+      const { type, value } = HandHelper.getTileDefinition(tile);
+      return `${(value % 9) + 1}${Tile.DELIMITER}${type}`;
+    }
+
+    const cycle = DoraCalculator.WIND_CYCLE.includes(tile) ? DoraCalculator.WIND_CYCLE : DoraCalculator.DRAGON_CYCLE;
+    return cycle[(cycle.indexOf(tile) + 1) % cycle.length];
+  }
+
+  /**
+   * Count the dora in a hand, a tile counts once for every indicator pointing to it.
+   * @param tiles all the tiles in a hand (including exposed melds)
+   * @param indicators dora indicators
+   */
+  static countDora(tiles: string[], indicators: string[]): number {
+    const doraTiles = indicators.map((indicator) => DoraCalculator.getDoraTile(indicator));
+    return tiles.reduce(
+      (count, tile) => count + doraTiles.filter((doraTile) => doraTile === HandHelper.getBaseTile(tile)).length,
+      0,
+    );
+  }
+
+  /**
+   * Reveal the indicators and count the dora, ura-dora and red fives of a winning hand.
+   * Tiles extracted by the winner (north winds in sanma) are dora themselves, and are also counted as the other tiles.
+   * @param tiles all the tiles in the winning hand (including exposed melds and the winning tile)
+   * @param deadWall tiles in the dead wall
+   * @param quadCount number of quads declared in the round
+   * @param isRiichi true if the winner declared riichi (ura-dora are only revealed to riichi winners)
+   * @param extractedTiles tiles extracted by the winner
+   */
+  static getDoraResults(
+    tiles: string[],
+    deadWall: string[],
+    quadCount: number,
+    isRiichi: boolean,
+    extractedTiles: string[] = [],
+  ): DoraResults {
+    const doraIndicators = DoraCalculator.getDoraIndicators(deadWall, quadCount);
+    const uraDoraIndicators = isRiichi ? DoraCalculator.getUraDoraIndicators(deadWall, quadCount) : [];
+    const allTiles = [...tiles, ...extractedTiles];
+
+    return {
+      doraIndicators,
+      uraDoraIndicators,
+      dora: DoraCalculator.countDora(allTiles, doraIndicators),
+      uraDora: DoraCalculator.countDora(allTiles, uraDoraIndicators),
+      redFives: tiles.filter((tile) => HandHelper.isRedFive(tile)).length,
+      nukiDora: extractedTiles.length,
+    };
+  }
+
+  /**
+   * @param quadCount number of quads declared in the round
+   * @returns number of indicators revealed
+   */
+  private static getRevealedCount(quadCount: number): number {
+    return Math.min(1 + quadCount, DoraCalculator.MAX_DORA_INDICATORS);
+  }
+}
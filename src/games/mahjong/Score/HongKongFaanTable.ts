@@ -0,0 +1,57 @@
+/**
+ * Faan (points) awarded for each scoring pattern in Hong Kong mahjong
+ */
+
+import { HandDefinition } from '../types/MahjongTypes';
+
+/**
+ * Maximum number of faan a hand can score, limit hands score this directly
+ */
+export const HONG_KONG_LIMIT_POINTS = 13;
+
+type HongKongFaanTableObject = { [key: string]: HandDefinition };
+
+export const HongKongFaanTable: HongKongFaanTableObject = {
+  // Extra points
+  SELF_DRAWN: { name: 'Self Drawn', points: 1 },
+  ROBBING_THE_KONG: { name: 'Robbing the Kong', points: 1 },
+  WIN_BY_KONG_REPLACEMENT: { name: 'Win by Kong Replacement', points: 1 },
+
+  // Concealed
+  CONCEALED_HAND: { name: 'Concealed Hand', points: 1 },
+
+  // Flowers
+  NO_FLOWERS: { name: 'No Flowers', points: 1 },
+  SEAT_FLOWER: { name: 'Seat Flower', points: 1 },
+  SEAT_SEASON: { name: 'Seat Season', points: 1 },
+  ALL_FLOWERS: { name: 'All Flowers', points: 2 },
+  ALL_SEASONS: { name: 'All Seasons', points: 2 },
+
+  // Winds
+  SEAT_WIND: { name: 'Seat Wind', points: 1 },
+  PREVALENT_WIND: { name: 'Prevalent Wind', points: 1 },
+
+  // Dragons
+  DRAGON_PUNG: { name: 'Dragon Pung', points: 1 },
+  SMALL_THREE_DRAGONS: { name: 'Small Three Dragons', points: 5 },
+  BIG_THREE_DRAGONS: { name: 'Big Three Dragons', points: 8 },
+
+  // Hand patterns
+  ALL_CHOWS: { name: 'All Chows', points: 1 },
+  MIXED_ORPHANS: { name: 'Mixed Orphans', points: 1 },
+  ALL_PUNGS: { name: 'All Pungs', points: 3 },
+  MIXED_ONE_SUIT: { name: 'Mixed One Suit', points: 3 },
+  SEVEN_PAIRS: { name: 'Seven Pairs', points: 4 },
+  PURE_ONE_SUIT: { name: 'Pure One Suit', points: 7 },
+
+  // Limit hands
+  THIRTEEN_ORPHANS: { name: 'Thirteen Orphans', points: HONG_KONG_LIMIT_POINTS },
+  NINE_GATES: { name: 'Nine Gates', points: HONG_KONG_LIMIT_POINTS },
+  ALL_HONORS: { name: 'All Honors', points: HONG_KONG_LIMIT_POINTS },
+  ALL_TERMINALS: { name: 'All Terminals', points: HONG_KONG_LIMIT_POINTS },
+  ALL_KONGS: { name: 'All Kongs', points: HONG_KONG_LIMIT_POINTS },
+  FOUR_CONCEALED_PUNGS: { name: 'Four Concealed Pungs', points: HONG_KONG_LIMIT_POINTS },
+  SMALL_FOUR_WINDS: { name: 'Small Four Winds', points: HONG_KONG_LIMIT_POINTS },
+  BIG_FOUR_WINDS: { name: 'Big Four Winds', points: HONG_KONG_LIMIT_POINTS },
+  EIGHT_FLOWERS: { name: 'Eight Flowers', points: HONG_KONG_LIMIT_POINTS },
+};
@@ -0,0 +1,274 @@
+/**
+ * Class used to calculate the points (faan) of a winning hand using Hong Kong mahjong rules.
+ * Every possible decomposition of the hand is scored and the highest scoring one is used.
+ */
+
+import {
+  HandDecomposition,
+  HandDefinition,
+  HandPointResults,
+  Meld,
+  PointTable,
+  WinningHandContext,
+} from '../types/MahjongTypes';
+import { HONG_KONG_LIMIT_POINTS, HongKongFaanTable } from './HongKongFaanTable';
+import { WinningHandValidator } from '../Hand/WinningHandValidator';
+import { HandHelper } from '../Hand/HandHelper';
+import { HonorTileTypes } from '../Tile/types/HonorTileTypes';
+import { BonusTileTypes } from '../Tile/types/BonusTileTypes';
+import { MeldEnum } from '../../../enums/MeldEnum';
+import { SpecialHandEnum } from '../../../enums/SpecialHandEnum';
+import { WindEnum } from '../../../enums/WindEnum';
+
+export class HongKongScorer {
+  static WIND_TILES: string[] = [HonorTileTypes.EAST, HonorTileTypes.SOUTH, HonorTileTypes.WEST, HonorTileTypes.NORTH];
+
+  static DRAGON_TILES: string[] = [HonorTileTypes.REDDRAGON, HonorTileTypes.GREENDRAGON, HonorTileTypes.WHITEDRAGON];
+
+  /**
+   * Calculate the points of a winning hand.
+   * @param {WinningHandContext} context winning hand and the situation it was won in
+   * @returns the highest scoring result, or undefined if the hand is not a winning hand
+   */
+  static calculateHandPoints(context: WinningHandContext): HandPointResults | undefined {
+    const decompositions = WinningHandValidator.getDecompositions(context.concealedTiles, context.exposedMelds);
+
+    let bestResults: HandPointResults | undefined;
+    decompositions.forEach((decomposition) => {
+      const results = HongKongScorer.scoreDecomposition(decomposition, context);
+      if (!bestResults || results.totalPoints > bestResults.totalPoints) {
+        bestResults = results;
+      }
+    });
+
+    return bestResults;
+  }
+
+  /**
+   * @param {Wind} wind seat or prevalent wind
+   * @returns the tile string definition of the wind
+   */
+  static getWindTile(wind: WindEnum): string {
+    return HongKongScorer.WIND_TILES[wind];
+  }
+
+  /**
+   * Score one decomposition of a winning hand.
+   * @param {HandDecomposition} decomposition melds and pair of the hand
+   * @param {WinningHandContext} context winning hand and the situation it was won in
+   */
+  private static scoreDecomposition(decomposition: HandDecomposition, context: WinningHandContext): HandPointResults {
+    const exposedTiles = context.exposedMelds.reduce((tiles: string[], meld) => [...tiles, ...meld.tiles], []);
+    const allTiles = HandHelper.sortTiles([...context.concealedTiles, ...exposedTiles]);
+    const isConcealed = context.exposedMelds.every((meld) => meld.concealed);
+
+    const handHands = HongKongScorer.getHandPatterns(decomposition, allTiles, context, isConcealed);
+    const windHands = HongKongScorer.getWindPatterns(decomposition, context);
+    const dragonHands = HongKongScorer.getDragonPatterns(decomposition);
+    const flowerHands = HongKongScorer.getFlowerPatterns(context);
+    const concealedHands = isConcealed ? [HongKongFaanTable.CONCEALED_HAND] : [];
+    const extraHands = [
+      ...(context.selfDrawn ? [HongKongFaanTable.SELF_DRAWN] : []),
+      ...(context.robbingKong ? [HongKongFaanTable.ROBBING_THE_KONG] : []),
+      ...(context.kongReplacement ? [HongKongFaanTable.WIN_BY_KONG_REPLACEMENT] : []),
+    ];
+
+    const hands = [...handHands, ...windHands, ...dragonHands, ...flowerHands, ...concealedHands, ...extraHands];
+    const sumPoints = (definitions: HandDefinition[]) => definitions.reduce((sum, hand) => sum + hand.points, 0);
+
+    return {
+      totalPoints: Math.min(sumPoints(hands), HONG_KONG_LIMIT_POINTS),
+      handPoints: sumPoints(handHands),
+      extraPoints: sumPoints(extraHands),
+      windPoints: sumPoints(windHands),
+      dragonPoints: sumPoints(dragonHands),
+      flowerPoints: sumPoints(flowerHands),
+      concealedPoint: sumPoints(concealedHands),
+      hands,
+      tiles: allTiles,
+      bonusTiles: context.bonusTiles,
+      wind: context.seatWind,
+      flower: context.seatWind + 1,
+      melds: decomposition.melds,
+    };
+  }
+
+  /**
+   * Patterns based on the shape of the hand (suits, terminals, melds and special hands).
+   */
+  private static getHandPatterns(
+    decomposition: HandDecomposition,
+    allTiles: string[],
+    context: WinningHandContext,
+    isConcealed: boolean,
+  ): HandDefinition[] {
+    const { melds, pair, specialHand } = decomposition;
+    const hands: HandDefinition[] = [];
+
+    if (specialHand === SpecialHandEnum.THIRTEEN_ORPHANS) {
+      return [HongKongFaanTable.THIRTEEN_ORPHANS];
+    }
+
+    if (specialHand === SpecialHandEnum.SEVEN_PAIRS) {
+      hands.push(HongKongFaanTable.SEVEN_PAIRS);
+    }
+
+    // Suits
+    const suits = new Set(
+      allTiles.filter((tile) => HandHelper.isSimpleTile(tile)).map((tile) => HandHelper.getTileDefinition(tile).type),
+    );
+    const hasHonors = allTiles.some((tile) => HandHelper.isHonorTile(tile));
+    if (suits.size === 0) {
+      hands.push(HongKongFaanTable.ALL_HONORS);
+    } else if (suits.size === 1 && !hasHonors) {
+      hands.push(
+        HongKongScorer.isNineGates(allTiles, isConcealed && context.exposedMelds.length === 0)
+          ? HongKongFaanTable.NINE_GATES
+          : HongKongFaanTable.PURE_ONE_SUIT,
+      );
+    } else if (suits.size === 1) {
+      hands.push(HongKongFaanTable.MIXED_ONE_SUIT);
+    }
+
+    // Terminals
+    if (allTiles.every((tile) => HandHelper.isTerminalTile(tile))) {
+      hands.push(HongKongFaanTable.ALL_TERMINALS);
+    } else if (
+      hasHonors &&
+      suits.size > 0 &&
+      allTiles.every((tile) => !HandHelper.isSimpleTile(tile) || HandHelper.isTerminalTile(tile))
+    ) {
+      hands.push(HongKongFaanTable.MIXED_ORPHANS);
+    }
+
+    if (specialHand) return hands;
+
+    // Melds
+    const pungs = melds.filter((meld) => HongKongScorer.isPung(meld));
+    if (melds.every((meld) => meld.type === MeldEnum.QUAD)) {
+      hands.push(HongKongFaanTable.ALL_KONGS);
+    } else if (pungs.length === melds.length) {
+      // A pung completed by a discard is not concealed, so the discard must complete the pair instead
+      const isWinningTileConcealed = context.selfDrawn || context.winningTile === pair[0];
+      const isAllConcealed = pungs.every((meld) => meld.concealed);
+      hands.push(
+        isAllConcealed && isWinningTileConcealed ? HongKongFaanTable.FOUR_CONCEALED_PUNGS : HongKongFaanTable.ALL_PUNGS,
+      );
+    } else if (melds.every((meld) => meld.type === MeldEnum.CONSECUTIVE)) {
+      hands.push(HongKongFaanTable.ALL_CHOWS);
+    }
+
+    return hands;
+  }
+
+  /**
+   * Patterns from pungs of winds.
+   * @param {HandDecomposition} decomposition melds and pair of the hand
+   * @param {WinningHandContext} context winning hand and the situation it was won in
+   * @param {PointTable} table points of each pattern (Hong Kong faan by default)
+   */
+  static getWindPatterns(
+    decomposition: HandDecomposition,
+    context: WinningHandContext,
+    table: PointTable = HongKongFaanTable,
+  ): HandDefinition[] {
+    const { melds, pair } = decomposition;
+    const windPungs = melds.filter(
+      (meld) => HongKongScorer.isPung(meld) && HongKongScorer.WIND_TILES.includes(meld.tiles[0]),
+    );
+    const hasWindPair = pair.length > 0 && HongKongScorer.WIND_TILES.includes(pair[0]);
+
+    if (windPungs.length === 4) return [table.BIG_FOUR_WINDS];
+    if (windPungs.length === 3 && hasWindPair) return [table.SMALL_FOUR_WINDS];
+
+    const hands: HandDefinition[] = [];
+    const windPungTiles = windPungs.map((meld) => meld.tiles[0]);
+    if (windPungTiles.includes(HongKongScorer.getWindTile(context.seatWind))) {
+      hands.push(table.SEAT_WIND);
+    }
+    if (windPungTiles.includes(HongKongScorer.getWindTile(context.prevalentWind))) {
+      hands.push(table.PREVALENT_WIND);
+    }
+
+    return hands;
+  }
+
+  /**
+   * Patterns from pungs of dragons.
+   * @param {HandDecomposition} decomposition melds and pair of the hand
+   * @param {PointTable} table points of each pattern (Hong Kong faan by default)
+   */
+  static getDragonPatterns(decomposition: HandDecomposition, table: PointTable = HongKongFaanTable): HandDefinition[] {
+    const { melds, pair } = decomposition;
+    const dragonPungs = melds.filter(
+      (meld) => HongKongScorer.isPung(meld) && HongKongScorer.DRAGON_TILES.includes(meld.tiles[0]),
+    );
+    const hasDragonPair = pair.length > 0 && HongKongScorer.DRAGON_TILES.includes(pair[0]);
+
+    if (dragonPungs.length === 3) return [table.BIG_THREE_DRAGONS];
+    if (dragonPungs.length === 2 && hasDragonPair) return [table.SMALL_THREE_DRAGONS];
+
+    return dragonPungs.map(() => table.DRAGON_PUNG);
+  }
+
+  /**
+   * Patterns from flowers and seasons, no flowers only scores if the table has a pattern for it.
+   * Games played without flowers and seasons score no flower patterns.
+   * @param {WinningHandContext} context winning hand and the situation it was won in
+   * @param {PointTable} table points of each pattern (Hong Kong faan by default)
+   */
+  static getFlowerPatterns(context: WinningHandContext, table: PointTable = HongKongFaanTable): HandDefinition[] {
+    const { seatWind, noFlowersInWall } = context;
+    if (noFlowersInWall) return [];
+
+    // Tiles extracted by the ruleset (e.g. north winds in sanma) are not flowers
+    const bonusTiles = context.bonusTiles.filter((tile) => HandHelper.isBonusTile(tile));
+    if (bonusTiles.length === 0) return table.NO_FLOWERS ? [table.NO_FLOWERS] : [];
+    if (bonusTiles.length === 8) return [table.EIGHT_FLOWERS];
+
+    const hands: HandDefinition[] = [];
+    const seatNumber = seatWind + 1;
+    const bonusSets = [
+      { type: BonusTileTypes.FLOWER, all: table.ALL_FLOWERS, seat: table.SEAT_FLOWER },
+      { type: BonusTileTypes.SEASON, all: table.ALL_SEASONS, seat: table.SEAT_SEASON },
+    ];
+    bonusSets.forEach(({ type, all, seat }) => {
+      const tilesOfType = bonusTiles.filter((tile) => HandHelper.getTileDefinition(tile).type === type);
+      if (tilesOfType.length === 4) {
+        hands.push(all);
+      } else if (tilesOfType.some((tile) => HandHelper.getTileDefinition(tile).value === seatNumber)) {
+        hands.push(seat);
+      }
+    });
+
+    return hands;
+  }
+
+  /**
+   * Nine gates: 1112345678999 of one suit (fully concealed) plus any tile of the same suit.
+   * @param allTiles all the tiles in a pure one suit hand
+   * @param isFullyConcealed true if the hand has no melds declared
+   */
+  private static isNineGates(allTiles: string[], isFullyConcealed: boolean): boolean {
+    if (!isFullyConcealed || allTiles.length !== WinningHandValidator.SPECIAL_HAND_LENGTH) return false;
+
+    const valueCounts: number[] = Array(10).fill(0);
+    allTiles.forEach((tile) => {
+      valueCounts[HandHelper.getTileDefinition(tile).value] += 1;
+    });
+
+    return valueCounts.every((count, value) => {
+      if (value === 0) return true;
+      if (value === 1 || value === 9) return count >= 3;
+      return count >= 1;
+    });
+  }
+
+  /**
+   * @param {Meld} meld meld to check
+   * @returns true if the meld is a triplet or a quad
+   */
+  private static isPung(meld: Meld): boolean {
+    return meld.type === MeldEnum.TRIPLET || meld.type === MeldEnum.QUAD;
+  }
+}
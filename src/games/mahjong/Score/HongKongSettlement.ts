@@ -0,0 +1,76 @@
+/**
+ * Class used to settle the payments of a round using Hong Kong mahjong rules.
+ * The payment doubles for every faan. The discarder pays the winner for a discard win
+ * (or the user adding a tile to a quad if it is robbed), and every other user pays the winner for a self-drawn win.
+ */
+
+import { WinTypeEnum } from '../../../enums/WinTypeEnum';
+
+export const HONG_KONG_BASE_PAYMENT = 1;
+
+export class HongKongSettlement {
+  /**
+   * @param {number} points faan of the winning hand
+   * @returns the amount paid by each paying user
+   */
+  static getPayment(points: number): number {
+    return HONG_KONG_BASE_PAYMENT * 2 ** points;
+  }
+
+  /**
+   * Calculate the change in score of every user after a win.
+   * @param {number} points faan of the winning hand
+   * @param {number} winnerSeat seat index of the winner
+   * @param {WinTypeEnum} winType where the winning tile came from
+   * @param {number} discarderSeat seat index of the user who played the winning tile (for a discard win)
+   * @param {number} playerCount number of users in the game
+   * @returns the score deltas in seat order
+   */
+  static calculateDeltas(
+    points: number,
+    winnerSeat: number,
+    winType: WinTypeEnum,
+    discarderSeat: number | undefined,
+    playerCount: number,
+  ): number[] {
+    return HongKongSettlement.calculatePaymentDeltas(
+      HongKongSettlement.getPayment(points),
+      winnerSeat,
+      winType,
+      discarderSeat,
+      playerCount,
+    );
+  }
+
+  /**
+   * Calculate the change in score of every user when each paying user pays the winner the same payment.
+   * @param {number} payment amount paid by each paying user
+   * @param {number} winnerSeat seat index of the winner
+   * @param {WinTypeEnum} winType where the winning tile came from
+   * @param {number} discarderSeat seat index of the user who played the winning tile (for a discard win)
+   * @param {number} playerCount number of users in the game
+   * @param {number[]} wonSeats seat indexes of the users who do not pay for a self-drawn win (already won, Sichuan)
+   * @returns the score deltas in seat order
+   */
+  static calculatePaymentDeltas(
+    payment: number,
+    winnerSeat: number,
+    winType: WinTypeEnum,
+    discarderSeat: number | undefined,
+    playerCount: number,
+    wonSeats: number[] = [],
+  ): number[] {
+    const isSelfDrawn = winType === WinTypeEnum.SELF_DRAWN || winType === WinTypeEnum.KONG_REPLACEMENT;
+    const deltas: number[] = Array(playerCount).fill(0);
+
+    for (let seat = 0; seat < playerCount; seat += 1) {
+      const isPaying = isSelfDrawn ? !wonSeats.includes(seat) : seat === discarderSeat;
+      if (seat !== winnerSeat && isPaying) {
+        deltas[seat] -= payment;
+        deltas[winnerSeat] += payment;
+      }
+    }
+
+    return deltas;
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Fan (points) awarded for each of the 81 scoring patterns of the Mahjong Competition Rules (Chinese Official)
+ */
+
+import { HandDefinition } from '../types/MahjongTypes';
+
+/**
+ * Minimum number of fan a hand must score to win, flowers are not counted
+ */
+export const MCR_MINIMUM_POINTS = 8;
+
+type MCRFanTableObject = { [key: string]: HandDefinition };
+
+export const MCRFanTable: MCRFanTableObject = {
+  // 88 fan
+  BIG_FOUR_WINDS: { name: 'Big Four Winds', points: 88 },
+  BIG_THREE_DRAGONS: { name: 'Big Three Dragons', points: 88 },
+  ALL_GREEN: { name: 'All Green', points: 88 },
+  NINE_GATES: { name: 'Nine Gates', points: 88 },
+  FOUR_KONGS: { name: 'Four Kongs', points: 88 },
+  SEVEN_SHIFTED_PAIRS: { name: 'Seven Shifted Pairs', points: 88 },
+  THIRTEEN_ORPHANS: { name: 'Thirteen Orphans', points: 88 },
+
+  // 64 fan
+  ALL_TERMINALS: { name: 'All Terminals', points: 64 },
+  LITTLE_FOUR_WINDS: { name: 'Little Four Winds', points: 64 },
+  LITTLE_THREE_DRAGONS: { name: 'Little Three Dragons', points: 64 },
+  ALL_HONORS: { name: 'All Honors', points: 64 },
+  FOUR_CONCEALED_PUNGS: { name: 'Four Concealed Pungs', points: 64 },
+  PURE_TERMINAL_CHOWS: { name: 'Pure Terminal Chows', points: 64 },
+
+  // 48 fan
+  QUADRUPLE_CHOW: { name: 'Quadruple Chow', points: 48 },
+  FOUR_PURE_SHIFTED_PUNGS: { name: 'Four Pure Shifted Pungs', points: 48 },
+
+  // 32 fan
+  FOUR_PURE_SHIFTED_CHOWS: { name: 'Four Pure Shifted Chows', points: 32 },
+  THREE_KONGS: { name: 'Three Kongs', points: 32 },
+  ALL_TERMINALS_AND_HONORS: { name: 'All Terminals and Honors', points: 32 },
+
+  // 24 fan
+  SEVEN_PAIRS: { name: 'Seven Pairs', points: 24 },
+  GREATER_HONORS_AND_KNITTED_TILES: { name: 'Greater Honors and Knitted Tiles', points: 24 },
+  ALL_EVEN_PUNGS: { name: 'All Even Pungs', points: 24 },
+  FULL_FLUSH: { name: 'Full Flush', points: 24 },
+  PURE_TRIPLE_CHOW: { name: 'Pure Triple Chow', points: 24 },
+  PURE_SHIFTED_PUNGS: { name: 'Pure Shifted Pungs', points: 24 },
+  UPPER_TILES: { name: 'Upper Tiles', points: 24 },
+  MIDDLE_TILES: { name: 'Middle Tiles', points: 24 },
+  LOWER_TILES: { name: 'Lower Tiles', points: 24 },
+
+  // 16 fan
+  PURE_STRAIGHT: { name: 'Pure Straight', points: 16 },
+  THREE_SUITED_TERMINAL_CHOWS: { name: 'Three-Suited Terminal Chows', points: 16 },
+  PURE_SHIFTED_CHOWS: { name: 'Pure Shifted Chows', points: 16 },
+  ALL_FIVES: { name: 'All Fives', points: 16 },
+  TRIPLE_PUNG: { name: 'Triple Pung', points: 16 },
+  THREE_CONCEALED_PUNGS: { name: 'Three Concealed Pungs', points: 16 },
+
+  // 12 fan
+  LESSER_HONORS_AND_KNITTED_TILES: { name: 'Lesser Honors and Knitted Tiles', points: 12 },
+  KNITTED_STRAIGHT: { name: 'Knitted Straight', points: 12 },
+  UPPER_FOUR: { name: 'Upper Four', points: 12 },
+  LOWER_FOUR: { name: 'Lower Four', points: 12 },
+  BIG_THREE_WINDS: { name: 'Big Three Winds', points: 12 },
+
+  // 8 fan
+  MIXED_STRAIGHT: { name: 'Mixed Straight', points: 8 },
+  REVERSIBLE_TILES: { name: 'Reversible Tiles', points: 8 },
+  MIXED_TRIPLE_CHOW: { name: 'Mixed Triple Chow', points: 8 },
+  MIXED_SHIFTED_PUNGS: { name: 'Mixed Shifted Pungs', points: 8 },
+  CHICKEN_HAND: { name: 'Chicken Hand', points: 8 },
+  LAST_TILE_DRAW: { name: 'Last Tile Draw', points: 8 },
+  LAST_TILE_CLAIM: { name: 'Last Tile Claim', points: 8 },
+  OUT_WITH_REPLACEMENT_TILE: { name: 'Out with Replacement Tile', points: 8 },
+  ROBBING_THE_KONG: { name: 'Robbing the Kong', points: 8 },
+  TWO_CONCEALED_KONGS: { name: 'Two Concealed Kongs', points: 8 },
+
+  // 6 fan
+  ALL_PUNGS: { name: 'All Pungs', points: 6 },
+  HALF_FLUSH: { name: 'Half Flush', points: 6 },
+  MIXED_SHIFTED_CHOWS: { name: 'Mixed Shifted Chows', points: 6 },
+  ALL_TYPES: { name: 'All Types', points: 6 },
+  MELDED_HAND: { name: 'Melded Hand', points: 6 },
+  TWO_DRAGON_PUNGS: { name: 'Two Dragon Pungs', points: 6 },
+
+  // 4 fan
+  OUTSIDE_HAND: { name: 'Outside Hand', points: 4 },
+  FULLY_CONCEALED_HAND: { name: 'Fully Concealed Hand', points: 4 },
+  TWO_MELDED_KONGS: { name: 'Two Melded Kongs', points: 4 },
+  LAST_TILE: { name: 'Last Tile', points: 4 },
+
+  // 2 fan
+  DRAGON_PUNG: { name: 'Dragon Pung', points: 2 },
+  PREVALENT_WIND: { name: 'Prevalent Wind', points: 2 },
+  SEAT_WIND: { name: 'Seat Wind', points: 2 },
+  CONCEALED_HAND: { name: 'Concealed Hand', points: 2 },
+  ALL_CHOWS: { name: 'All Chows', points: 2 },
+  TILE_HOG: { name: 'Tile Hog', points: 2 },
+  DOUBLE_PUNG: { name: 'Double Pung', points: 2 },
+  TWO_CONCEALED_PUNGS: { name: 'Two Concealed Pungs', points: 2 },
+  CONCEALED_KONG: { name: 'Concealed Kong', points: 2 },
+  ALL_SIMPLES: { name: 'All Simples', points: 2 },
+
+  // 1 fan
+  PURE_DOUBLE_CHOW: { name: 'Pure Double Chow', points: 1 },
+  MIXED_DOUBLE_CHOW: { name: 'Mixed Double Chow', points: 1 },
+  SHORT_STRAIGHT: { name: 'Short Straight', points: 1 },
+  TWO_TERMINAL_CHOWS: { name: 'Two Terminal Chows', points: 1 },
+  PUNG_OF_TERMINALS_OR_HONORS: { name: 'Pung of Terminals or Honors', points: 1 },
+  MELDED_KONG: { name: 'Melded Kong', points: 1 },
+  ONE_VOIDED_SUIT: { name: 'One Voided Suit', points: 1 },
+  NO_HONORS: { name: 'No Honors', points: 1 },
+  EDGE_WAIT: { name: 'Edge Wait', points: 1 },
+  CLOSED_WAIT: { name: 'Closed Wait', points: 1 },
+  SINGLE_WAIT: { name: 'Single Wait', points: 1 },
+  SELF_DRAWN: { name: 'Self-Drawn', points: 1 },
+  FLOWER_TILES: { name: 'Flower Tiles', points: 1 },
+};
+
+/**
+ * Exclusion principle: a fan is not counted when it is implied by a higher fan of the same hand.
+ * Each key lists the fans it excludes.
+ */
+export const MCR_EXCLUDED_FANS: { [key: string]: string[] } = {
+  BIG_FOUR_WINDS: ['BIG_THREE_WINDS', 'ALL_PUNGS', 'SEAT_WIND', 'PREVALENT_WIND', 'PUNG_OF_TERMINALS_OR_HONORS'],
+  BIG_THREE_DRAGONS: ['DRAGON_PUNG', 'TWO_DRAGON_PUNGS'],
+  ALL_GREEN: ['HALF_FLUSH'],
+  NINE_GATES: ['FULL_FLUSH', 'CONCEALED_HAND', 'PUNG_OF_TERMINALS_OR_HONORS', 'NO_HONORS'],
+  FOUR_KONGS: [
+    'THREE_KONGS',
+    'TWO_MELDED_KONGS',
+    'TWO_CONCEALED_KONGS',
+    'MELDED_KONG',
+    'CONCEALED_KONG',
+    'SINGLE_WAIT',
+  ],
+  SEVEN_SHIFTED_PAIRS: ['SEVEN_PAIRS', 'FULL_FLUSH', 'CONCEALED_HAND', 'SINGLE_WAIT'],
+  THIRTEEN_ORPHANS: ['ALL_TERMINALS_AND_HONORS', 'ALL_TYPES', 'CONCEALED_HAND', 'SINGLE_WAIT'],
+  ALL_TERMINALS: ['ALL_TERMINALS_AND_HONORS', 'ALL_PUNGS', 'OUTSIDE_HAND', 'PUNG_OF_TERMINALS_OR_HONORS', 'NO_HONORS'],
+  LITTLE_FOUR_WINDS: ['BIG_THREE_WINDS'],
+  LITTLE_THREE_DRAGONS: ['DRAGON_PUNG', 'TWO_DRAGON_PUNGS'],
+  ALL_HONORS: [
+    'ALL_TERMINALS_AND_HONORS',
+    'ALL_PUNGS',
+    'OUTSIDE_HAND',
+    'PUNG_OF_TERMINALS_OR_HONORS',
+    'ONE_VOIDED_SUIT',
+  ],
+  FOUR_CONCEALED_PUNGS: ['ALL_PUNGS', 'THREE_CONCEALED_PUNGS', 'TWO_CONCEALED_PUNGS', 'CONCEALED_HAND'],
+  PURE_TERMINAL_CHOWS: ['FULL_FLUSH', 'ALL_CHOWS', 'PURE_DOUBLE_CHOW', 'TWO_TERMINAL_CHOWS'],
+  QUADRUPLE_CHOW: ['PURE_TRIPLE_CHOW', 'PURE_DOUBLE_CHOW', 'TILE_HOG'],
+  FOUR_PURE_SHIFTED_PUNGS: ['PURE_SHIFTED_PUNGS', 'ALL_PUNGS'],
+  FOUR_PURE_SHIFTED_CHOWS: ['PURE_SHIFTED_CHOWS', 'SHORT_STRAIGHT', 'TWO_TERMINAL_CHOWS'],
+  THREE_KONGS: ['TWO_MELDED_KONGS', 'TWO_CONCEALED_KONGS', 'MELDED_KONG', 'CONCEALED_KONG'],
+  ALL_TERMINALS_AND_HONORS: ['ALL_PUNGS', 'OUTSIDE_HAND', 'PUNG_OF_TERMINALS_OR_HONORS'],
+  SEVEN_PAIRS: ['CONCEALED_HAND', 'SINGLE_WAIT'],
+  GREATER_HONORS_AND_KNITTED_TILES: ['CONCEALED_HAND', 'ALL_TYPES', 'SINGLE_WAIT'],
+  ALL_EVEN_PUNGS: ['ALL_PUNGS', 'ALL_SIMPLES', 'NO_HONORS'],
+  FULL_FLUSH: ['NO_HONORS'],
+  PURE_TRIPLE_CHOW: ['PURE_DOUBLE_CHOW'],
+  UPPER_TILES: ['UPPER_FOUR', 'NO_HONORS'],
+  MIDDLE_TILES: ['ALL_SIMPLES', 'NO_HONORS'],
+  LOWER_TILES: ['LOWER_FOUR', 'NO_HONORS'],
+  PURE_STRAIGHT: ['SHORT_STRAIGHT', 'TWO_TERMINAL_CHOWS'],
+  THREE_SUITED_TERMINAL_CHOWS: ['ALL_CHOWS', 'MIXED_DOUBLE_CHOW', 'TWO_TERMINAL_CHOWS', 'NO_HONORS'],
+  ALL_FIVES: ['ALL_SIMPLES'],
+  TRIPLE_PUNG: ['DOUBLE_PUNG'],
+  THREE_CONCEALED_PUNGS: ['TWO_CONCEALED_PUNGS'],
+  LESSER_HONORS_AND_KNITTED_TILES: ['CONCEALED_HAND', 'ALL_TYPES', 'SINGLE_WAIT'],
+  UPPER_FOUR: ['NO_HONORS'],
+  LOWER_FOUR: ['NO_HONORS'],
+  REVERSIBLE_TILES: ['ONE_VOIDED_SUIT'],
+  MIXED_TRIPLE_CHOW: ['MIXED_DOUBLE_CHOW'],
+  LAST_TILE_DRAW: ['SELF_DRAWN'],
+  OUT_WITH_REPLACEMENT_TILE: ['SELF_DRAWN'],
+  ROBBING_THE_KONG: ['LAST_TILE'],
+  TWO_CONCEALED_KONGS: ['CONCEALED_KONG'],
+  MELDED_HAND: ['SINGLE_WAIT'],
+  TWO_DRAGON_PUNGS: ['DRAGON_PUNG'],
+  FULLY_CONCEALED_HAND: ['SELF_DRAWN', 'CONCEALED_HAND'],
+  TWO_MELDED_KONGS: ['MELDED_KONG'],
+  ALL_CHOWS: ['NO_HONORS'],
+  ALL_SIMPLES: ['NO_HONORS'],
+};
@@ -0,0 +1,650 @@
+/**
+ * Class used to calculate the points (fan) of a winning hand using the Mahjong Competition Rules (Chinese Official).
+ * Every possible decomposition of the hand is scored and the highest scoring one is used.
+ * Fans implied by a higher fan of the same hand are not counted (exclusion principle, see MCR_EXCLUDED_FANS),
+ * and a hand without any other fan scores Chicken Hand. Flowers are scored, but do not count towards the minimum.
+ * Fans made of two chows are simplified: each chow is only used once, and never twice with a chow of the same
+ * three chow fan.
+ */
+
+import { HandDecomposition, HandDefinition, HandPointResults, Meld, WinningHandContext } from '../types/MahjongTypes';
+import { MCR_EXCLUDED_FANS, MCRFanTable } from './MCRFanTable';
+import { HongKongScorer } from './HongKongScorer';
+import { WinningHandValidator } from '../Hand/WinningHandValidator';
+import { WaitingTilesCalculator } from '../Hand/WaitingTilesCalculator';
+import { HandHelper } from '../Hand/HandHelper';
+import { HonorTileTypes } from '../Tile/types/HonorTileTypes';
+import { MeldEnum } from '../../../enums/MeldEnum';
+import { SpecialHandEnum } from '../../../enums/SpecialHandEnum';
+
+/**
+ * Suit and value of a chow (its lowest tile) or a pung of simple tiles
+ */
+type SuitedMeld = { type: string; value: number };
+
+export class MCRScorer {
+  static SPECIAL_HANDS: SpecialHandEnum[] = Object.values(SpecialHandEnum);
+
+  static GREEN_TILES: string[] = [
+    '2_BAMBOO',
+    '3_BAMBOO',
+    '4_BAMBOO',
+    '6_BAMBOO',
+    '8_BAMBOO',
+    HonorTileTypes.GREENDRAGON,
+  ];
+
+  static REVERSIBLE_TILES: string[] = [
+    ...[1, 2, 3, 4, 5, 8, 9].map((value) => `${value}_DOT`),
+    ...[2, 4, 5, 6, 8, 9].map((value) => `${value}_BAMBOO`),
+    HonorTileTypes.WHITEDRAGON,
+  ];
+
+  static WIND_FANS = ['BIG_FOUR_WINDS', 'LITTLE_FOUR_WINDS', 'BIG_THREE_WINDS', 'SEAT_WIND', 'PREVALENT_WIND'];
+
+  static DRAGON_FANS = ['BIG_THREE_DRAGONS', 'LITTLE_THREE_DRAGONS', 'TWO_DRAGON_PUNGS', 'DRAGON_PUNG'];
+
+  static CONCEALED_FANS = ['CONCEALED_HAND', 'FULLY_CONCEALED_HAND'];
+
+  static EXTRA_FANS = [
+    'SELF_DRAWN',
+    'LAST_TILE_DRAW',
+    'LAST_TILE_CLAIM',
+    'OUT_WITH_REPLACEMENT_TILE',
+    'ROBBING_THE_KONG',
+    'LAST_TILE',
+    'EDGE_WAIT',
+    'CLOSED_WAIT',
+    'SINGLE_WAIT',
+  ];
+
+  /**
+   * Calculate the points of a winning hand.
+   * @param {WinningHandContext} context winning hand and the situation it was won in
+   * @returns the highest scoring result, or undefined if the hand is not a winning hand
+   */
+  static calculateHandPoints(context: WinningHandContext): HandPointResults | undefined {
+    const decompositions = WinningHandValidator.getDecompositions(
+      context.concealedTiles,
+      context.exposedMelds,
+      WinningHandValidator.WINNING_HAND_MELD_COUNT,
+      MCRScorer.SPECIAL_HANDS,
+    );
+
+    let bestResults: HandPointResults | undefined;
+    decompositions.forEach((decomposition) => {
+      const results = MCRScorer.scoreDecomposition(decomposition, context);
+      if (!bestResults || results.totalPoints > bestResults.totalPoints) {
+        bestResults = results;
+      }
+    });
+
+    return bestResults;
+  }
+
+  /**
+   * Remove the fans excluded by another fan of the same hand.
+   * @param fans keys of the fans found in a hand (a fan can be found more than once)
+   */
+  static applyExclusions(fans: string[]): string[] {
+    const excludedFans = fans.reduce((excluded: string[], fan) => [...excluded, ...(MCR_EXCLUDED_FANS[fan] || [])], []);
+    return fans.filter((fan) => !excludedFans.includes(fan));
+  }
+
+  /**
+   * Score one decomposition of a winning hand.
+   * @param {HandDecomposition} decomposition melds and pair of the hand
+   * @param {WinningHandContext} context winning hand and the situation it was won in
+   */
+  private static scoreDecomposition(decomposition: HandDecomposition, context: WinningHandContext): HandPointResults {
+    const exposedTiles = context.exposedMelds.reduce((tiles: string[], meld) => [...tiles, ...meld.tiles], []);
+    const allTiles = HandHelper.sortTiles(
+      [...context.concealedTiles, ...exposedTiles].map((tile) => HandHelper.getBaseTile(tile)),
+    );
+
+    const fans = MCRScorer.applyExclusions([
+      ...MCRScorer.getSpecialHandPatterns(decomposition, allTiles, context),
+      ...MCRScorer.getTilePatterns(decomposition, allTiles),
+      ...MCRScorer.getChowPatterns(decomposition),
+      ...MCRScorer.getPungPatterns(decomposition, context),
+      ...MCRScorer.getHonorPatterns(decomposition, context),
+      ...MCRScorer.getConcealedPatterns(context),
+      ...MCRScorer.getExtraPatterns(context),
+      ...MCRScorer.getWaitPatterns(decomposition, context),
+    ]);
+    const countedFans = fans.length > 0 ? fans : ['CHICKEN_HAND'];
+
+    const toHands = (keys: string[]) => keys.map((key) => MCRFanTable[key]);
+    const windHands = toHands(countedFans.filter((fan) => MCRScorer.WIND_FANS.includes(fan)));
+    const dragonHands = toHands(countedFans.filter((fan) => MCRScorer.DRAGON_FANS.includes(fan)));
+    const concealedHands = toHands(countedFans.filter((fan) => MCRScorer.CONCEALED_FANS.includes(fan)));
+    const extraHands = toHands(countedFans.filter((fan) => MCRScorer.EXTRA_FANS.includes(fan)));
+    const flowerHands = toHands(context.bonusTiles.map(() => 'FLOWER_TILES'));
+    const handHands = toHands(
+      countedFans.filter(
+        (fan) =>
+          ![
+            ...MCRScorer.WIND_FANS,
+            ...MCRScorer.DRAGON_FANS,
+            ...MCRScorer.CONCEALED_FANS,
+            ...MCRScorer.EXTRA_FANS,
+          ].includes(fan),
+      ),
+    );
+
+    const hands = [...handHands, ...windHands, ...dragonHands, ...flowerHands, ...concealedHands, ...extraHands];
+    const sumPoints = (definitions: HandDefinition[]) => definitions.reduce((sum, hand) => sum + hand.points, 0);
+
+    return {
+      totalPoints: sumPoints(hands),
+      handPoints: sumPoints(handHands),
+      extraPoints: sumPoints(extraHands),
+      windPoints: sumPoints(windHands),
+      dragonPoints: sumPoints(dragonHands),
+      flowerPoints: sumPoints(flowerHands),
+      concealedPoint: sumPoints(concealedHands),
+      hands,
+      tiles: allTiles,
+      bonusTiles: context.bonusTiles,
+      wind: context.seatWind,
+      flower: context.seatWind + 1,
+      melds: decomposition.melds,
+    };
+  }
+
+  /**
+   * Patterns of the special hands, and nine gates.
+   */
+  private static getSpecialHandPatterns(
+    decomposition: HandDecomposition,
+    allTiles: string[],
+    context: WinningHandContext,
+  ): string[] {
+    switch (decomposition.specialHand) {
+      case SpecialHandEnum.THIRTEEN_ORPHANS:
+        return ['THIRTEEN_ORPHANS'];
+      case SpecialHandEnum.SEVEN_PAIRS:
+        return [MCRScorer.isSevenShiftedPairs(allTiles) ? 'SEVEN_SHIFTED_PAIRS' : 'SEVEN_PAIRS'];
+      case SpecialHandEnum.KNITTED_STRAIGHT:
+        return ['KNITTED_STRAIGHT'];
+      case SpecialHandEnum.HONORS_AND_KNITTED_TILES: {
+        const honorCount = allTiles.filter((tile) => HandHelper.isHonorTile(tile)).length;
+        if (honorCount === HongKongScorer.WIND_TILES.length + HongKongScorer.DRAGON_TILES.length) {
+          return ['GREATER_HONORS_AND_KNITTED_TILES'];
+        }
+
+        // The knitted tiles of a lesser honors and knitted tiles hand can also form a knitted straight
+        const hasKnittedStraight = WinningHandValidator.KNITTED_SUITS.some((suits) =>
+          HandHelper.containsTiles(allTiles, WinningHandValidator.getKnittedStraight(suits)),
+        );
+        return ['LESSER_HONORS_AND_KNITTED_TILES', ...(hasKnittedStraight ? ['KNITTED_STRAIGHT'] : [])];
+      }
+      default:
+        return context.exposedMelds.length === 0 && MCRScorer.isNineGates(allTiles) ? ['NINE_GATES'] : [];
+    }
+  }
+
+  /**
+   * Patterns based on the tiles of the hand only (suits, honors, terminals and ranges of values).
+   */
+  private static getTilePatterns(decomposition: HandDecomposition, allTiles: string[]): string[] {
+    const fans: string[] = [];
+    const simpleTiles = allTiles.filter((tile) => HandHelper.isSimpleTile(tile));
+    const honorCount = allTiles.length - simpleTiles.length;
+    const suits = new Set(simpleTiles.map((tile) => HandHelper.getTileDefinition(tile).type));
+    const values = simpleTiles.map((tile) => HandHelper.getTileDefinition(tile).value);
+
+    if (allTiles.every((tile) => MCRScorer.GREEN_TILES.includes(tile))) fans.push('ALL_GREEN');
+    if (allTiles.every((tile) => MCRScorer.REVERSIBLE_TILES.includes(tile))) fans.push('REVERSIBLE_TILES');
+
+    // Suits
+    if (suits.size === 0) {
+      fans.push('ALL_HONORS');
+    } else if (suits.size === 1) {
+      fans.push(honorCount === 0 ? 'FULL_FLUSH' : 'HALF_FLUSH');
+    } else if (suits.size === 2) {
+      fans.push('ONE_VOIDED_SUIT');
+    }
+
+    const hasWinds = allTiles.some((tile) => HongKongScorer.WIND_TILES.includes(tile));
+    const hasDragons = allTiles.some((tile) => HongKongScorer.DRAGON_TILES.includes(tile));
+    if (suits.size === 3 && hasWinds && hasDragons) fans.push('ALL_TYPES');
+
+    // Terminals and honors
+    if (allTiles.every((tile) => HandHelper.isTerminalTile(tile))) {
+      fans.push('ALL_TERMINALS');
+    } else if (allTiles.every((tile) => HandHelper.isTerminalTile(tile) || HandHelper.isHonorTile(tile))) {
+      fans.push('ALL_TERMINALS_AND_HONORS');
+    }
+
+    // Ranges of values, only without honors
+    if (honorCount === 0) {
+      fans.push('NO_HONORS');
+      if (values.every((value) => value >= 7)) fans.push('UPPER_TILES');
+      if (values.every((value) => value >= 4 && value <= 6)) fans.push('MIDDLE_TILES');
+      if (values.every((value) => value <= 3)) fans.push('LOWER_TILES');
+      if (values.every((value) => value >= 6)) fans.push('UPPER_FOUR');
+      if (values.every((value) => value <= 4)) fans.push('LOWER_FOUR');
+      if (values.every((value) => value > 1 && value < 9)) fans.push('ALL_SIMPLES');
+    }
+
+    // Tile hog: four copies of a tile that are not a kong
+    const counts = HandHelper.countTiles(allTiles);
+    const kongTiles = decomposition.melds.filter((meld) => meld.type === MeldEnum.QUAD).map((meld) => meld.tiles[0]);
+    Object.keys(counts)
+      .filter((tile) => counts[tile] === 4 && !kongTiles.includes(tile))
+      .forEach(() => fans.push('TILE_HOG'));
+
+    return fans;
+  }
+
+  /**
+   * Patterns made of chows.
+   */
+  private static getChowPatterns(decomposition: HandDecomposition): string[] {
+    const { melds, pair } = decomposition;
+    const chows = melds.filter((meld) => meld.type === MeldEnum.CONSECUTIVE).map((meld) => MCRScorer.toSuited(meld));
+    if (chows.length === 0) return [];
+
+    const fans: string[] = [];
+    if (chows.length === 4 && pair.length > 0 && HandHelper.isSimpleTile(pair[0])) {
+      fans.push('ALL_CHOWS');
+    }
+
+    // Patterns of four chows exclude the patterns of three or two chows
+    const fourChowsFan = chows.length === 4 ? MCRScorer.getFourChowsPattern(chows, pair) : undefined;
+    if (fourChowsFan) return [...fans, fourChowsFan];
+
+    // Keep the highest pattern of three chows
+    let threeChowsFan: string | undefined;
+    let usedInThreeChows: number[] = [];
+    MCRScorer.getCombinations(chows.length, 3).forEach((indexes) => {
+      const fan = MCRScorer.getThreeChowsPattern(indexes.map((i) => chows[i]));
+      if (fan && (!threeChowsFan || MCRFanTable[fan].points > MCRFanTable[threeChowsFan].points)) {
+        threeChowsFan = fan;
+        usedInThreeChows = indexes;
+      }
+    });
+    if (threeChowsFan) fans.push(threeChowsFan);
+
+    // Patterns of two chows, each chow is used once
+    const usedInTwoChows: number[] = [];
+    MCRScorer.getCombinations(chows.length, 2).forEach(([i, j]) => {
+      if (usedInThreeChows.includes(i) && usedInThreeChows.includes(j)) return;
+      if (usedInTwoChows.includes(i) || usedInTwoChows.includes(j)) return;
+
+      const fan = MCRScorer.getTwoChowsPattern(chows[i], chows[j]);
+      if (fan) {
+        fans.push(fan);
+        usedInTwoChows.push(i, j);
+      }
+    });
+
+    return fans;
+  }
+
+  /**
+   * Patterns made of pungs and kongs, and patterns that look at every meld and the pair.
+   */
+  private static getPungPatterns(decomposition: HandDecomposition, context: WinningHandContext): string[] {
+    const { melds, pair } = decomposition;
+    if (melds.length === 0) return [];
+
+    const fans: string[] = [];
+    const pungs = melds.filter((meld) => MCRScorer.isPung(meld));
+    const groups = [...melds.map((meld) => meld.tiles), ...(pair.length > 0 ? [pair] : [])];
+
+    if (melds.length === WinningHandValidator.WINNING_HAND_MELD_COUNT && pungs.length === melds.length) {
+      fans.push('ALL_PUNGS');
+      const isAllEven = [...melds.map((meld) => meld.tiles[0]), pair[0]].every(
+        (tile) => HandHelper.isSimpleTile(tile) && HandHelper.getTileDefinition(tile).value % 2 === 0,
+      );
+      if (isAllEven) fans.push('ALL_EVEN_PUNGS');
+    }
+
+    // Patterns looking at every meld and the pair, the tiles of a knitted straight are not melds
+    const isOrphan = (tile: string) => HandHelper.isTerminalTile(tile) || HandHelper.isHonorTile(tile);
+    const isFive = (tile: string) => HandHelper.isSimpleTile(tile) && HandHelper.getTileDefinition(tile).value === 5;
+    if (!decomposition.specialHand) {
+      if (groups.every((tiles) => tiles.some((tile) => isOrphan(tile)))) fans.push('OUTSIDE_HAND');
+      if (groups.every((tiles) => tiles.some((tile) => isFive(tile)))) fans.push('ALL_FIVES');
+    }
+
+    // Concealed pungs
+    const concealedPungCount = MCRScorer.getConcealedPungCount(decomposition, context);
+    if (concealedPungCount === 4) fans.push('FOUR_CONCEALED_PUNGS');
+    if (concealedPungCount === 3) fans.push('THREE_CONCEALED_PUNGS');
+    if (concealedPungCount === 2) fans.push('TWO_CONCEALED_PUNGS');
+
+    // Kongs
+    const kongs = melds.filter((meld) => meld.type === MeldEnum.QUAD);
+    const concealedKongCount = kongs.filter((meld) => meld.concealed).length;
+    const meldedKongCount = kongs.length - concealedKongCount;
+    if (kongs.length === 4) {
+      fans.push('FOUR_KONGS');
+    } else if (kongs.length === 3) {
+      fans.push('THREE_KONGS');
+    } else if (concealedKongCount === 2) {
+      fans.push('TWO_CONCEALED_KONGS');
+    } else if (meldedKongCount === 2) {
+      fans.push('TWO_MELDED_KONGS');
+    } else {
+      if (concealedKongCount === 1) fans.push('CONCEALED_KONG');
+      if (meldedKongCount === 1) fans.push('MELDED_KONG');
+    }
+
+    // Pungs of simple tiles with the same or consecutive values
+    const simplePungs = pungs
+      .filter((meld) => HandHelper.isSimpleTile(meld.tiles[0]))
+      .map((m) => MCRScorer.toSuited(m));
+    const isShiftedInOneSuit = (suitedPungs: SuitedMeld[]) =>
+      suitedPungs.every(({ type }) => type === suitedPungs[0].type) && MCRScorer.isShifted(suitedPungs, 1);
+    if (simplePungs.length === 4 && isShiftedInOneSuit(simplePungs)) {
+      fans.push('FOUR_PURE_SHIFTED_PUNGS');
+    } else {
+      const threePungsFans = MCRScorer.getCombinations(simplePungs.length, 3)
+        .map((indexes) => indexes.map((i) => simplePungs[i]))
+        .map((suitedPungs) => {
+          if (isShiftedInOneSuit(suitedPungs)) return 'PURE_SHIFTED_PUNGS';
+          if (!MCRScorer.isInThreeSuits(suitedPungs)) return undefined;
+          if (suitedPungs.every(({ value }) => value === suitedPungs[0].value)) return 'TRIPLE_PUNG';
+          return MCRScorer.isShifted(suitedPungs, 1) ? 'MIXED_SHIFTED_PUNGS' : undefined;
+        })
+        .filter((fan) => fan !== undefined) as string[];
+      // Keep the highest pattern of three pungs
+      threePungsFans.sort((a, b) => MCRFanTable[b].points - MCRFanTable[a].points);
+      fans.push(...threePungsFans.slice(0, 1));
+    }
+
+    const hasDoublePung = MCRScorer.getCombinations(simplePungs.length, 2).some(
+      ([i, j]) => simplePungs[i].value === simplePungs[j].value && simplePungs[i].type !== simplePungs[j].type,
+    );
+    if (hasDoublePung) fans.push('DOUBLE_PUNG');
+
+    // Pungs of terminals, and pungs of winds that do not score a wind pattern
+    const windPungCount = pungs.filter((meld) => HongKongScorer.WIND_TILES.includes(meld.tiles[0])).length;
+    const scoringWinds = [
+      HongKongScorer.getWindTile(context.seatWind),
+      HongKongScorer.getWindTile(context.prevalentWind),
+    ];
+    pungs
+      .map((meld) => meld.tiles[0])
+      .filter(
+        (tile) =>
+          HandHelper.isTerminalTile(tile) ||
+          (HongKongScorer.WIND_TILES.includes(tile) && windPungCount < 3 && !scoringWinds.includes(tile)),
+      )
+      .forEach(() => fans.push('PUNG_OF_TERMINALS_OR_HONORS'));
+
+    const isMelded =
+      context.exposedMelds.length === WinningHandValidator.WINNING_HAND_MELD_COUNT &&
+      context.exposedMelds.every((meld) => !meld.concealed);
+    if (isMelded && !context.selfDrawn) fans.push('MELDED_HAND');
+
+    return fans;
+  }
+
+  /**
+   * Patterns from pungs of winds and dragons.
+   */
+  private static getHonorPatterns(decomposition: HandDecomposition, context: WinningHandContext): string[] {
+    const { melds, pair } = decomposition;
+    const pungTiles = melds.filter((meld) => MCRScorer.isPung(meld)).map((meld) => meld.tiles[0]);
+    const windPungs = pungTiles.filter((tile) => HongKongScorer.WIND_TILES.includes(tile));
+    const dragonPungs = pungTiles.filter((tile) => HongKongScorer.DRAGON_TILES.includes(tile));
+    const hasWindPair = pair.length > 0 && HongKongScorer.WIND_TILES.includes(pair[0]);
+    const hasDragonPair = pair.length > 0 && HongKongScorer.DRAGON_TILES.includes(pair[0]);
+
+    const fans: string[] = [];
+    if (windPungs.length === 4) {
+      fans.push('BIG_FOUR_WINDS');
+    } else if (windPungs.length === 3) {
+      fans.push(hasWindPair ? 'LITTLE_FOUR_WINDS' : 'BIG_THREE_WINDS');
+    }
+    if (windPungs.includes(HongKongScorer.getWindTile(context.seatWind))) fans.push('SEAT_WIND');
+    if (windPungs.includes(HongKongScorer.getWindTile(context.prevalentWind))) fans.push('PREVALENT_WIND');
+
+    if (dragonPungs.length === 3) {
+      fans.push('BIG_THREE_DRAGONS');
+    } else if (dragonPungs.length === 2) {
+      fans.push(hasDragonPair ? 'LITTLE_THREE_DRAGONS' : 'TWO_DRAGON_PUNGS');
+    } else if (dragonPungs.length === 1) {
+      fans.push('DRAGON_PUNG');
+    }
+
+    return fans;
+  }
+
+  /**
+   * Patterns from the melds declared by the user, only concealed kongs keep a hand concealed.
+   */
+  private static getConcealedPatterns(context: WinningHandContext): string[] {
+    const { exposedMelds, selfDrawn } = context;
+    if (!exposedMelds.every((meld) => meld.concealed)) return [];
+
+    return [selfDrawn ? 'FULLY_CONCEALED_HAND' : 'CONCEALED_HAND'];
+  }
+
+  /**
+   * Patterns from the way the winning tile was drawn or claimed.
+   */
+  private static getExtraPatterns(context: WinningHandContext): string[] {
+    const { selfDrawn, lastTileOfWall, kongReplacement, robbingKong, lastTileOfKind } = context;
+
+    return [
+      ...(selfDrawn ? ['SELF_DRAWN'] : []),
+      ...(lastTileOfWall ? [selfDrawn ? 'LAST_TILE_DRAW' : 'LAST_TILE_CLAIM'] : []),
+      ...(kongReplacement ? ['OUT_WITH_REPLACEMENT_TILE'] : []),
+      ...(robbingKong ? ['ROBBING_THE_KONG'] : []),
+      ...(lastTileOfKind ? ['LAST_TILE'] : []),
+    ];
+  }
+
+  /**
+   * Patterns from waiting on a single tile: the pair (single wait), the middle of a chow (closed wait)
+   * or the 3 of 123 or the 7 of 789 (edge wait).
+   */
+  private static getWaitPatterns(decomposition: HandDecomposition, context: WinningHandContext): string[] {
+    const { winningTile, concealedTiles, exposedMelds } = context;
+    if (!winningTile) return [];
+
+    const handBeforeWin = HandHelper.removeTiles(concealedTiles, [winningTile]);
+    if (!handBeforeWin) return [];
+
+    const waitingTiles = WaitingTilesCalculator.getWaitingTiles(
+      handBeforeWin,
+      exposedMelds,
+      [],
+      WinningHandValidator.WINNING_HAND_MELD_COUNT,
+      MCRScorer.SPECIAL_HANDS,
+    );
+    if (waitingTiles.length !== 1) return [];
+
+    const tile = HandHelper.getBaseTile(winningTile);
+    if (decomposition.pair[0] === tile) return ['SINGLE_WAIT'];
+
+    const chow = decomposition.melds.find(
+      (meld) => meld.concealed && meld.type === MeldEnum.CONSECUTIVE && meld.tiles.includes(tile),
+    );
+    if (!chow) return [];
+
+    const { value } = HandHelper.getTileDefinition(tile);
+    const { value: firstValue } = HandHelper.getTileDefinition(chow.tiles[0]);
+    if (value === firstValue + 1) return ['CLOSED_WAIT'];
+    if ((value === 3 && firstValue === 1) || (value === 7 && firstValue === 7)) return ['EDGE_WAIT'];
+
+    return [];
+  }
+
+  /**
+   * Patterns of four chows: quadruple chow, four pure shifted chows, pure terminal chows
+   * and three-suited terminal chows.
+   */
+  private static getFourChowsPattern(chows: SuitedMeld[], pair: string[]): string | undefined {
+    const isOneSuit = chows.every(({ type }) => type === chows[0].type);
+    if (isOneSuit && chows.every(({ value }) => value === chows[0].value)) return 'QUADRUPLE_CHOW';
+    if (isOneSuit && (MCRScorer.isShifted(chows, 1) || MCRScorer.isShifted(chows, 2))) {
+      return 'FOUR_PURE_SHIFTED_CHOWS';
+    }
+
+    const pairDefinition = pair.length > 0 && HandHelper.isSimpleTile(pair[0]) && HandHelper.getTileDefinition(pair[0]);
+    if (!pairDefinition || pairDefinition.value !== 5) return undefined;
+
+    const terminalChowSuits = chows.filter(({ value }) => value === 1).map(({ type }) => type);
+    const hasTerminalChows = (type: string) =>
+      terminalChowSuits.filter((suit) => suit === type).length === 1 &&
+      chows.some((chow) => chow.type === type && chow.value === 7);
+    const isTerminalChows = chows.every(({ value }) => value === 1 || value === 7);
+    if (!isTerminalChows || terminalChowSuits.length !== 2) return undefined;
+
+    if (isOneSuit && pairDefinition.type === chows[0].type) return 'PURE_TERMINAL_CHOWS';
+
+    const [firstSuit, secondSuit] = terminalChowSuits;
+    const isThreeSuited =
+      firstSuit !== secondSuit &&
+      hasTerminalChows(firstSuit) &&
+      hasTerminalChows(secondSuit) &&
+      pairDefinition.type !== firstSuit &&
+      pairDefinition.type !== secondSuit;
+
+    return isThreeSuited ? 'THREE_SUITED_TERMINAL_CHOWS' : undefined;
+  }
+
+  /**
+   * Patterns of three chows, the highest pattern is returned.
+   */
+  private static getThreeChowsPattern(chows: SuitedMeld[]): string | undefined {
+    const isOneSuit = chows.every(({ type }) => type === chows[0].type);
+    const isSameValue = chows.every(({ value }) => value === chows[0].value);
+    const isStraight = MCRScorer.isShifted(chows, 3) && Math.min(...chows.map(({ value }) => value)) === 1;
+
+    if (isOneSuit) {
+      if (isSameValue) return 'PURE_TRIPLE_CHOW';
+      if (isStraight) return 'PURE_STRAIGHT';
+      if (MCRScorer.isShifted(chows, 1) || MCRScorer.isShifted(chows, 2)) return 'PURE_SHIFTED_CHOWS';
+      return undefined;
+    }
+
+    if (!MCRScorer.isInThreeSuits(chows)) return undefined;
+    if (isStraight) return 'MIXED_STRAIGHT';
+    if (isSameValue) return 'MIXED_TRIPLE_CHOW';
+    return MCRScorer.isShifted(chows, 1) ? 'MIXED_SHIFTED_CHOWS' : undefined;
+  }
+
+  /**
+   * Patterns of two chows.
+   */
+  private static getTwoChowsPattern(first: SuitedMeld, second: SuitedMeld): string | undefined {
+    if (first.type !== second.type) return first.value === second.value ? 'MIXED_DOUBLE_CHOW' : undefined;
+    if (first.value === second.value) return 'PURE_DOUBLE_CHOW';
+    if (Math.abs(first.value - second.value) === 3) return 'SHORT_STRAIGHT';
+    if (Math.abs(first.value - second.value) === 6) return 'TWO_TERMINAL_CHOWS';
+    return undefined;
+  }
+
+  /**
+   * Count the concealed pungs (and concealed kongs) of a hand.
+   * A pung completed by a discard is not concealed, unless the discard can complete the pair or a chow instead.
+   */
+  private static getConcealedPungCount(decomposition: HandDecomposition, context: WinningHandContext): number {
+    const { melds, pair } = decomposition;
+    const { selfDrawn, winningTile } = context;
+    const concealedPungs = melds.filter((meld) => meld.concealed && MCRScorer.isPung(meld));
+
+    const isCompletedByDiscard =
+      !selfDrawn &&
+      winningTile !== undefined &&
+      pair[0] !== HandHelper.getBaseTile(winningTile) &&
+      concealedPungs.some((meld) => meld.tiles[0] === HandHelper.getBaseTile(winningTile)) &&
+      !melds.some((meld) => meld.concealed && meld.type === MeldEnum.CONSECUTIVE && meld.tiles.includes(winningTile));
+
+    return concealedPungs.length - (isCompletedByDiscard ? 1 : 0);
+  }
+
+  /**
+   * Seven shifted pairs: seven pairs of one suit with consecutive values.
+   * @param allTiles sorted tiles of a seven pairs hand
+   */
+  private static isSevenShiftedPairs(allTiles: string[]): boolean {
+    if (!allTiles.every((tile) => HandHelper.isSimpleTile(tile))) return false;
+
+    const pairs = Object.keys(HandHelper.countTiles(allTiles)).map((tile) => HandHelper.getTileDefinition(tile));
+    return pairs.every(({ type }) => type === pairs[0].type) && MCRScorer.isShifted(pairs, 1);
+  }
+
+  /**
+   * Nine gates: 1112345678999 of one suit (fully concealed) plus any tile of the same suit.
+   * @param allTiles all the tiles in the hand
+   */
+  private static isNineGates(allTiles: string[]): boolean {
+    if (allTiles.length !== WinningHandValidator.SPECIAL_HAND_LENGTH) return false;
+    if (!allTiles.every((tile) => HandHelper.isSimpleTile(tile))) return false;
+
+    const definitions = allTiles.map((tile) => HandHelper.getTileDefinition(tile));
+    if (!definitions.every(({ type }) => type === definitions[0].type)) return false;
+
+    const valueCounts: number[] = Array(10).fill(0);
+    definitions.forEach(({ value }) => {
+      valueCounts[value] += 1;
+    });
+
+    return valueCounts.every((count, value) => {
+      if (value === 0) return true;
+      if (value === 1 || value === 9) return count >= 3;
+      return count >= 1;
+    });
+  }
+
+  /**
+   * @param melds chows or pungs
+   * @param step difference between the values of two melds next to each other
+   * @returns true if the values of the melds, once sorted, increase by step
+   */
+  private static isShifted(melds: SuitedMeld[], step: number): boolean {
+    const values = melds.map(({ value }) => value).sort((a, b) => a - b);
+    return values.every((value, i) => i === 0 || value === values[i - 1] + step);
+  }
+
+  /**
+   * @param melds three chows or pungs
+   * @returns true if each meld is of a different suit
+   */
+  private static isInThreeSuits(melds: SuitedMeld[]): boolean {
+    return new Set(melds.map(({ type }) => type)).size === 3;
+  }
+
+  /**
+   * @param count number of items
+   * @param size size of a combination
+   * @returns every combination of size indexes between 0 and count - 1, in increasing order
+   */
+  private static getCombinations(count: number, size: number): number[][] {
+    if (size === 0) return [[]];
+
+    const combinations: number[][] = [];
+    for (let first = 0; first <= count - size; first += 1) {
+      MCRScorer.getCombinations(count - first - 1, size - 1).forEach((rest) => {
+        combinations.push([first, ...rest.map((index) => index + first + 1)]);
+      });
+    }
+
+    return combinations;
+  }
+
+  /**
+   * @param {Meld} meld a chow or a pung of simple tiles
+   * @returns the suit and the value of the lowest tile of the meld
+   */
+  private static toSuited(meld: Meld): SuitedMeld {
+    const { type, value } = HandHelper.getTileDefinition(HandHelper.sortTiles(meld.tiles)[0]);
+    return { type, value };
+  }
+
+  /**
+   * @param {Meld} meld meld to check
+   * @returns true if the meld is a triplet or a quad
+   */
+  private static isPung(meld: Meld): boolean {
+    return meld.type === MeldEnum.TRIPLET || meld.type === MeldEnum.QUAD;
+  }
+}
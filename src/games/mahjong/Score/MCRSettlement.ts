@@ -0,0 +1,41 @@
+/**
+ * Class used to settle the payments of a round using the Mahjong Competition Rules.
+ * Every other user pays a base payment to the winner. The fan of the hand are paid by the discarder for a discard
+ * win (or the user adding a tile to a quad if it is robbed), and by every other user for a self-drawn win.
+ */
+
+import { WinTypeEnum } from '../../../enums/WinTypeEnum';
+
+export const MCR_BASE_PAYMENT = 8;
+
+export class MCRSettlement {
+  /**
+   * Calculate the change in score of every user after a win.
+   * @param {number} points fan of the winning hand
+   * @param {number} winnerSeat seat index of the winner
+   * @param {WinTypeEnum} winType where the winning tile came from
+   * @param {number} discarderSeat seat index of the user who played the winning tile (for a discard win)
+   * @param {number} playerCount number of users in the game
+   * @returns the score deltas in seat order
+   */
+  static calculateDeltas(
+    points: number,
+    winnerSeat: number,
+    winType: WinTypeEnum,
+    discarderSeat: number | undefined,
+    playerCount: number,
+  ): number[] {
+    const isSelfDrawn = winType === WinTypeEnum.SELF_DRAWN || winType === WinTypeEnum.KONG_REPLACEMENT;
+    const deltas: number[] = Array(playerCount).fill(0);
+
+    for (let seat = 0; seat < playerCount; seat += 1) {
+      if (seat !== winnerSeat) {
+        const payment = MCR_BASE_PAYMENT + (isSelfDrawn || seat === discarderSeat ? points : 0);
+        deltas[seat] -= payment;
+        deltas[winnerSeat] += payment;
+      }
+    }
+
+    return deltas;
+  }
+}
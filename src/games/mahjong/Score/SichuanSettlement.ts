@@ -0,0 +1,38 @@
+/**
+ * Class used to settle the payments of a win using Sichuan mahjong rules.
+ * The payment doubles for every fan, like in Hong Kong rules. The round goes on after a win,
+ * so users who have already won in the round do not pay for a self-drawn win.
+ */
+
+import { WinTypeEnum } from '../../../enums/WinTypeEnum';
+import { HongKongSettlement } from './HongKongSettlement';
+
+export class SichuanSettlement {
+  /**
+   * Calculate the change in score of every user after a win.
+   * @param {number} points fan of the winning hand
+   * @param {number} winnerSeat seat index of the winner
+   * @param {WinTypeEnum} winType where the winning tile came from
+   * @param {number} discarderSeat seat index of the user who played the winning tile (for a discard win)
+   * @param {number} playerCount number of users in the game
+   * @param {number[]} wonSeats seat indexes of the users who have already won in the round
+   * @returns the score deltas in seat order
+   */
+  static calculateDeltas(
+    points: number,
+    winnerSeat: number,
+    winType: WinTypeEnum,
+    discarderSeat: number | undefined,
+    playerCount: number,
+    wonSeats: number[] = [],
+  ): number[] {
+    return HongKongSettlement.calculatePaymentDeltas(
+      HongKongSettlement.getPayment(points),
+      winnerSeat,
+      winType,
+      discarderSeat,
+      playerCount,
+      wonSeats,
+    );
+  }
+}
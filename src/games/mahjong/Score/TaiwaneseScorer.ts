@@ -0,0 +1,177 @@
+/**
+ * Class used to calculate the points (tai) of a winning hand using Taiwanese (16 tiles) mahjong rules.
+ * A winning hand is made of five melds and a pair. Every possible decomposition of the hand is scored
+ * and the highest scoring one is used. Winds, dragons and flowers are scored like in Hong Kong rules, with tai.
+ */
+
+import { HandDecomposition, HandDefinition, HandPointResults, Meld, WinningHandContext } from '../types/MahjongTypes';
+import { TaiwaneseTaiTable } from './TaiwaneseTaiTable';
+import { HongKongScorer } from './HongKongScorer';
+import { WinningHandValidator } from '../Hand/WinningHandValidator';
+import { HandHelper } from '../Hand/HandHelper';
+import { MeldEnum } from '../../../enums/MeldEnum';
+import { WindEnum } from '../../../enums/WindEnum';
+
+export class TaiwaneseScorer {
+  static WINNING_HAND_MELD_COUNT = 5;
+
+  /**
+   * Calculate the points of a winning hand.
+   * @param {WinningHandContext} context winning hand and the situation it was won in
+   * @returns the highest scoring result, or undefined if the hand is not a winning hand
+   */
+  static calculateHandPoints(context: WinningHandContext): HandPointResults | undefined {
+    const decompositions = WinningHandValidator.getDecompositions(
+      context.concealedTiles,
+      context.exposedMelds,
+      TaiwaneseScorer.WINNING_HAND_MELD_COUNT,
+    );
+
+    let bestResults: HandPointResults | undefined;
+    decompositions.forEach((decomposition) => {
+      const results = TaiwaneseScorer.scoreDecomposition(decomposition, context);
+      if (!bestResults || results.totalPoints > bestResults.totalPoints) {
+        bestResults = results;
+      }
+    });
+
+    return bestResults;
+  }
+
+  /**
+   * Score one decomposition of a winning hand.
+   * @param {HandDecomposition} decomposition melds and pair of the hand
+   * @param {WinningHandContext} context winning hand and the situation it was won in
+   */
+  private static scoreDecomposition(decomposition: HandDecomposition, context: WinningHandContext): HandPointResults {
+    const exposedTiles = context.exposedMelds.reduce((tiles: string[], meld) => [...tiles, ...meld.tiles], []);
+    const allTiles = HandHelper.sortTiles([...context.concealedTiles, ...exposedTiles]);
+
+    const handHands = TaiwaneseScorer.getHandPatterns(decomposition, allTiles, context);
+    const windHands = HongKongScorer.getWindPatterns(decomposition, context, TaiwaneseTaiTable);
+    const dragonHands = HongKongScorer.getDragonPatterns(decomposition, TaiwaneseTaiTable);
+    const flowerHands = HongKongScorer.getFlowerPatterns(context, TaiwaneseTaiTable);
+    const concealedHands = TaiwaneseScorer.getConcealedPatterns(context);
+    const extraHands = [
+      ...(context.seatWind === WindEnum.EAST ? [TaiwaneseTaiTable.DEALER] : []),
+      // Self drawn is included in concealed self drawn
+      ...(context.selfDrawn && !concealedHands.includes(TaiwaneseTaiTable.CONCEALED_SELF_DRAWN)
+        ? [TaiwaneseTaiTable.SELF_DRAWN]
+        : []),
+      ...(context.robbingKong ? [TaiwaneseTaiTable.ROBBING_THE_KONG] : []),
+      ...(context.kongReplacement ? [TaiwaneseTaiTable.WIN_BY_KONG_REPLACEMENT] : []),
+    ];
+
+    const hands = [...handHands, ...windHands, ...dragonHands, ...flowerHands, ...concealedHands, ...extraHands];
+    const sumPoints = (definitions: HandDefinition[]) => definitions.reduce((sum, hand) => sum + hand.points, 0);
+
+    return {
+      totalPoints: sumPoints(hands),
+      handPoints: sumPoints(handHands),
+      extraPoints: sumPoints(extraHands),
+      windPoints: sumPoints(windHands),
+      dragonPoints: sumPoints(dragonHands),
+      flowerPoints: sumPoints(flowerHands),
+      concealedPoint: sumPoints(concealedHands),
+      hands,
+      tiles: allTiles,
+      bonusTiles: context.bonusTiles,
+      wind: context.seatWind,
+      flower: context.seatWind + 1,
+      melds: decomposition.melds,
+    };
+  }
+
+  /**
+   * Patterns based on the shape of the hand (suits and melds).
+   */
+  private static getHandPatterns(
+    decomposition: HandDecomposition,
+    allTiles: string[],
+    context: WinningHandContext,
+  ): HandDefinition[] {
+    const { melds } = decomposition;
+    const hands: HandDefinition[] = [];
+
+    // Suits
+    const suits = new Set(
+      allTiles.filter((tile) => HandHelper.isSimpleTile(tile)).map((tile) => HandHelper.getTileDefinition(tile).type),
+    );
+    const hasHonors = allTiles.some((tile) => HandHelper.isHonorTile(tile));
+    if (suits.size === 0) {
+      hands.push(TaiwaneseTaiTable.ALL_HONORS);
+    } else if (suits.size === 1 && !hasHonors) {
+      hands.push(TaiwaneseTaiTable.PURE_ONE_SUIT);
+    } else if (suits.size === 1) {
+      hands.push(TaiwaneseTaiTable.MIXED_ONE_SUIT);
+    }
+
+    // Melds
+    const pungs = melds.filter((meld) => TaiwaneseScorer.isPung(meld));
+    if (pungs.length === melds.length) {
+      hands.push(TaiwaneseTaiTable.ALL_PUNGS);
+    } else if (
+      melds.every((meld) => meld.type === MeldEnum.CONSECUTIVE) &&
+      !hasHonors &&
+      context.bonusTiles.length === 0 &&
+      !context.selfDrawn
+    ) {
+      // All chows only counts without honors or flowers, on a discard
+      hands.push(TaiwaneseTaiTable.ALL_CHOWS);
+    }
+
+    const concealedPungCount = TaiwaneseScorer.getConcealedPungCount(decomposition, context);
+    if (concealedPungCount === 5) {
+      hands.push(TaiwaneseTaiTable.FIVE_CONCEALED_PUNGS);
+    } else if (concealedPungCount === 4) {
+      hands.push(TaiwaneseTaiTable.FOUR_CONCEALED_PUNGS);
+    } else if (concealedPungCount === 3) {
+      hands.push(TaiwaneseTaiTable.THREE_CONCEALED_PUNGS);
+    }
+
+    return hands;
+  }
+
+  /**
+   * Patterns from the melds declared by the user.
+   * A concealed hand won by self draw scores concealed self drawn instead of concealed hand and self drawn,
+   * and a hand with every meld exposed won on a discard scores all exposed.
+   */
+  private static getConcealedPatterns(context: WinningHandContext): HandDefinition[] {
+    const { exposedMelds, selfDrawn } = context;
+    if (exposedMelds.every((meld) => meld.concealed)) {
+      return [selfDrawn ? TaiwaneseTaiTable.CONCEALED_SELF_DRAWN : TaiwaneseTaiTable.CONCEALED_HAND];
+    }
+
+    const isAllExposed =
+      exposedMelds.length === TaiwaneseScorer.WINNING_HAND_MELD_COUNT && exposedMelds.every((meld) => !meld.concealed);
+    return isAllExposed && !selfDrawn ? [TaiwaneseTaiTable.ALL_EXPOSED] : [];
+  }
+
+  /**
+   * Count the concealed pungs (and concealed quads) of a hand.
+   * A pung completed by a discard is not concealed, unless the discard can complete the pair or a chow instead.
+   */
+  private static getConcealedPungCount(decomposition: HandDecomposition, context: WinningHandContext): number {
+    const { melds, pair } = decomposition;
+    const { selfDrawn, winningTile } = context;
+    const concealedPungs = melds.filter((meld) => meld.concealed && TaiwaneseScorer.isPung(meld));
+
+    const isCompletedByDiscard =
+      !selfDrawn &&
+      winningTile !== undefined &&
+      pair[0] !== HandHelper.getBaseTile(winningTile) &&
+      concealedPungs.some((meld) => meld.tiles[0] === HandHelper.getBaseTile(winningTile)) &&
+      !melds.some((meld) => meld.concealed && meld.type === MeldEnum.CONSECUTIVE && meld.tiles.includes(winningTile));
+
+    return concealedPungs.length - (isCompletedByDiscard ? 1 : 0);
+  }
+
+  /**
+   * @param {Meld} meld meld to check
+   * @returns true if the meld is a triplet or a quad
+   */
+  private static isPung(meld: Meld): boolean {
+    return meld.type === MeldEnum.TRIPLET || meld.type === MeldEnum.QUAD;
+  }
+}
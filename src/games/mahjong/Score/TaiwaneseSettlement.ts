@@ -0,0 +1,47 @@
+/**
+ * Class used to settle the payments of a round using Taiwanese mahjong rules.
+ * Each paying user pays a base payment plus a fixed payment for every tai. The discarder pays the winner for a
+ * discard win (or the user adding a tile to a quad if it is robbed), and every other user pays for a self-drawn win.
+ */
+
+import { WinTypeEnum } from '../../../enums/WinTypeEnum';
+import { HongKongSettlement } from './HongKongSettlement';
+
+export const TAIWANESE_BASE_PAYMENT = 2;
+
+export const TAIWANESE_TAI_PAYMENT = 1;
+
+export class TaiwaneseSettlement {
+  /**
+   * @param {number} points tai of the winning hand
+   * @returns the amount paid by each paying user
+   */
+  static getPayment(points: number): number {
+    return TAIWANESE_BASE_PAYMENT + TAIWANESE_TAI_PAYMENT * points;
+  }
+
+  /**
+   * Calculate the change in score of every user after a win.
+   * @param {number} points tai of the winning hand
+   * @param {number} winnerSeat seat index of the winner
+   * @param {WinTypeEnum} winType where the winning tile came from
+   * @param {number} discarderSeat seat index of the user who played the winning tile (for a discard win)
+   * @param {number} playerCount number of users in the game
+   * @returns the score deltas in seat order
+   */
+  static calculateDeltas(
+    points: number,
+    winnerSeat: number,
+    winType: WinTypeEnum,
+    discarderSeat: number | undefined,
+    playerCount: number,
+  ): number[] {
+    return HongKongSettlement.calculatePaymentDeltas(
+      TaiwaneseSettlement.getPayment(points),
+      winnerSeat,
+      winType,
+      discarderSeat,
+      playerCount,
+    );
+  }
+}
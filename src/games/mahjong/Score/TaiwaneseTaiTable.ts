@@ -0,0 +1,48 @@
+/**
+ * Tai (points) awarded for each scoring pattern in Taiwanese (16 tiles) mahjong
+ */
+
+import { HandDefinition } from '../types/MahjongTypes';
+
+type TaiwaneseTaiTableObject = { [key: string]: HandDefinition };
+
+export const TaiwaneseTaiTable: TaiwaneseTaiTableObject = {
+  // Extra points
+  DEALER: { name: 'Dealer', points: 1 },
+  SELF_DRAWN: { name: 'Self Drawn', points: 1 },
+  ROBBING_THE_KONG: { name: 'Robbing the Kong', points: 1 },
+  WIN_BY_KONG_REPLACEMENT: { name: 'Win by Kong Replacement', points: 1 },
+
+  // Concealed
+  CONCEALED_HAND: { name: 'Concealed Hand', points: 1 },
+  CONCEALED_SELF_DRAWN: { name: 'Concealed Self Drawn', points: 3 },
+  ALL_EXPOSED: { name: 'All Exposed', points: 2 },
+
+  // Flowers
+  SEAT_FLOWER: { name: 'Seat Flower', points: 1 },
+  SEAT_SEASON: { name: 'Seat Season', points: 1 },
+  ALL_FLOWERS: { name: 'All Flowers', points: 2 },
+  ALL_SEASONS: { name: 'All Seasons', points: 2 },
+  EIGHT_FLOWERS: { name: 'Eight Flowers', points: 8 },
+
+  // Winds
+  SEAT_WIND: { name: 'Seat Wind', points: 1 },
+  PREVALENT_WIND: { name: 'Prevalent Wind', points: 1 },
+  SMALL_FOUR_WINDS: { name: 'Small Four Winds', points: 8 },
+  BIG_FOUR_WINDS: { name: 'Big Four Winds', points: 16 },
+
+  // Dragons
+  DRAGON_PUNG: { name: 'Dragon Pung', points: 1 },
+  SMALL_THREE_DRAGONS: { name: 'Small Three Dragons', points: 4 },
+  BIG_THREE_DRAGONS: { name: 'Big Three Dragons', points: 8 },
+
+  // Hand patterns
+  ALL_CHOWS: { name: 'All Chows', points: 2 },
+  THREE_CONCEALED_PUNGS: { name: 'Three Concealed Pungs', points: 2 },
+  ALL_PUNGS: { name: 'All Pungs', points: 4 },
+  MIXED_ONE_SUIT: { name: 'Mixed One Suit', points: 4 },
+  FOUR_CONCEALED_PUNGS: { name: 'Four Concealed Pungs', points: 5 },
+  FIVE_CONCEALED_PUNGS: { name: 'Five Concealed Pungs', points: 8 },
+  PURE_ONE_SUIT: { name: 'Pure One Suit', points: 8 },
+  ALL_HONORS: { name: 'All Honors', points: 16 },
+};
@@ -0,0 +1,42 @@
+/**
+ * Class that extends the Tile.ts class.
+ * Represents a Joker tile (American), which can stand in for any tile of a pung, kong or larger group.
+ */
+import { Tile } from './Tile';
+import { JokerTileTypes } from './types/JokerTileTypes';
+
+export class JokerTile extends Tile {
+  private type: JokerTileTypes;
+
+  private value: number;
+
+  /**
+   * Public constructor.
+   */
+  constructor() {
+    super();
+    this.type = JokerTileTypes.JOKER;
+    this.value = -1;
+  }
+
+  /**
+   * @returns the type property
+   */
+  public getType(): JokerTileTypes {
+    return this.type;
+  }
+
+  /**
+   * @returns the value property
+   */
+  public getValue(): number {
+    return this.value;
+  }
+
+  /**
+   * @returns a string representation of the object
+   */
+  public toString(): string {
+    return `${this.type}`;
+  }
+}
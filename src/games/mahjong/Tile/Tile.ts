@@ -1,18 +1,19 @@
 /**
  * The Tile class represents a single Tile used in Mahjong.
  * There are different types of tiles which can be categorized
- * as simple (dots, bamboo, characters), honors (dragons and winds), and bonus (flowers, seasons)
+ * as simple (dots, bamboo, characters), honors (dragons and winds), bonus (flowers, seasons) and jokers (American)
  */
 import { SimpleTileTypes } from './types/SimpleTileTypes';
 import { BonusTileTypes } from './types/BonusTileTypes';
 import { HonorTileTypes } from './types/HonorTileTypes';
+import { JokerTileTypes } from './types/JokerTileTypes';
 
 export abstract class Tile {
   static DELIMITER = '_';
 
   abstract toString(): string;
 
-  abstract getType(): SimpleTileTypes | HonorTileTypes | BonusTileTypes;
+  abstract getType(): SimpleTileTypes | HonorTileTypes | BonusTileTypes | JokerTileTypes;
 
   abstract getValue(): number;
 }
@@ -7,23 +7,29 @@ import { TileMapper } from './map/TileMapper';
 import { SimpleTileTypes } from './types/SimpleTileTypes';
 import { BonusTileTypes } from './types/BonusTileTypes';
 import { HonorTileTypes } from './types/HonorTileTypes';
+import { JokerTileTypes } from './types/JokerTileTypes';
 
 import { TileDefinition } from '../types/MahjongTypes';
 import { Tile } from './Tile';
 import { BonusTile } from './BonusTile';
 import { SimpleTile } from './SimpleTile';
 import { HonorTile } from './HonorTile';
+import { JokerTile } from './JokerTile';
 
 export class TileFactory {
   /**
    *
    * @param strDef : string representation of a tile
-   * @returns a SimpleTile, BonusTile, or HonorTile depending on the strDef
+   * @returns a SimpleTile, BonusTile, HonorTile or JokerTile depending on the strDef
    */
-  static createTileFromStringDef(strDef: string): SimpleTile | BonusTile | HonorTile {
+  static createTileFromStringDef(strDef: string): SimpleTile | BonusTile | HonorTile | JokerTile {
     const mappedTile: TileDefinition = TileMapper[strDef];
     const splitMappedTile: string[] = strDef.split(Tile.DELIMITER);
 
+    if (mappedTile.type === JokerTileTypes.JOKER) {
+      return new JokerTile();
+    }
+
     if (splitMappedTile.length === 1) {
       return new HonorTile(mappedTile.type as HonorTileTypes);
     }
@@ -36,7 +42,7 @@ export class TileFactory {
   }
 
   static createStringDefFromTile(tile: Tile): string {
-    // For HonorTiles
+    // For HonorTiles and JokerTiles
     if (tile.getValue() === -1) {
       return `${tile.getType()}`;
     }
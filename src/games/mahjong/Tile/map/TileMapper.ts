@@ -5,6 +5,7 @@
 import { SimpleTileTypes } from '../types/SimpleTileTypes';
 import { BonusTileTypes } from '../types/BonusTileTypes';
 import { HonorTileTypes } from '../types/HonorTileTypes';
+import { JokerTileTypes } from '../types/JokerTileTypes';
 import { TileDefinition } from '../../types/MahjongTypes';
 
 export const DotSimpleTilesMapper: { [index: string]: TileDefinition } = {
@@ -13,6 +14,7 @@ export const DotSimpleTilesMapper: { [index: string]: TileDefinition } = {
   '3_DOT': { type: SimpleTileTypes.DOT, value: 3 },
   '4_DOT': { type: SimpleTileTypes.DOT, value: 4 },
   '5_DOT': { type: SimpleTileTypes.DOT, value: 5 },
+  '5_DOT_RED': { type: SimpleTileTypes.DOT, value: 5 }, // red five (Japanese)
   '6_DOT': { type: SimpleTileTypes.DOT, value: 6 },
   '7_DOT': { type: SimpleTileTypes.DOT, value: 7 },
   '8_DOT': { type: SimpleTileTypes.DOT, value: 8 },
@@ -25,6 +27,7 @@ export const BambooSimpleTilesMapper: { [index: string]: TileDefinition } = {
   '3_BAMBOO': { type: SimpleTileTypes.BAMBOO, value: 3 },
   '4_BAMBOO': { type: SimpleTileTypes.BAMBOO, value: 4 },
   '5_BAMBOO': { type: SimpleTileTypes.BAMBOO, value: 5 },
+  '5_BAMBOO_RED': { type: SimpleTileTypes.BAMBOO, value: 5 }, // red five (Japanese)
   '6_BAMBOO': { type: SimpleTileTypes.BAMBOO, value: 6 },
   '7_BAMBOO': { type: SimpleTileTypes.BAMBOO, value: 7 },
   '8_BAMBOO': { type: SimpleTileTypes.BAMBOO, value: 8 },
@@ -37,6 +40,7 @@ export const CharacterSimpleTilesMapper: { [index: string]: TileDefinition } = {
   '3_CHARACTER': { type: SimpleTileTypes.CHARACTER, value: 3 },
   '4_CHARACTER': { type: SimpleTileTypes.CHARACTER, value: 4 },
   '5_CHARACTER': { type: SimpleTileTypes.CHARACTER, value: 5 },
+  '5_CHARACTER_RED': { type: SimpleTileTypes.CHARACTER, value: 5 }, // red five (Japanese)
   '6_CHARACTER': { type: SimpleTileTypes.CHARACTER, value: 6 },
   '7_CHARACTER': { type: SimpleTileTypes.CHARACTER, value: 7 },
   '8_CHARACTER': { type: SimpleTileTypes.CHARACTER, value: 8 },
@@ -64,10 +68,15 @@ export const BonusTilesMapper: { [index: string]: TileDefinition } = {
   '4_SEASON': { type: BonusTileTypes.SEASON, value: 4 },
 };
 
+export const JokerTilesMapper: { [index: string]: TileDefinition } = {
+  JOKER: { type: JokerTileTypes.JOKER, value: -1 }, // joker (American)
+};
+
 export const TileMapper: { [index: string]: TileDefinition } = {
   ...DotSimpleTilesMapper,
   ...BambooSimpleTilesMapper,
   ...CharacterSimpleTilesMapper,
   ...HonorTilesMapper,
   ...BonusTilesMapper,
+  ...JokerTilesMapper,
 };
@@ -0,0 +1,7 @@
+/**
+ * Enum class that stores all possible JokerTileTypes
+ */
+
+export enum JokerTileTypes {
+  JOKER = 'JOKER',
+}
@@ -14,6 +14,7 @@ import { simpleTileInit } from './init/Simple';
 import { honorTileInit } from './init/Honor';
 import { TileFactory } from '../Tile/TileFactory';
 import { DEFAULT_HAND_LENGTH } from '../../../utils/constants';
+import { HongKongMahjongHand } from '../types/MahjongTypes';
 
 export abstract class Wall {
   static DEFAULT_NUM_OF_TILE = 4;
@@ -22,14 +23,24 @@ export abstract class Wall {
 
   protected tiles: string[];
 
+  protected deadWall: string[];
+
+  protected handLength: number;
+
   private currentTileIndex: number;
 
+  private replacementTileCount: number;
+
   /**
    * Public constructor.
+   * @param handLength number of tiles in a hand generated from the wall
    */
-  constructor() {
+  constructor(handLength = DEFAULT_HAND_LENGTH) {
     this.tiles = [];
+    this.deadWall = [];
+    this.handLength = handLength;
     this.currentTileIndex = 0;
+    this.replacementTileCount = 0;
   }
 
   /**
@@ -37,6 +48,8 @@ export abstract class Wall {
    */
   abstract initializeWall(reset: boolean): void;
 
+  abstract getInitialTiles(): HongKongMahjongHand;
+
   /**
    * Common methods to be used by children
    */
@@ -85,7 +98,7 @@ export abstract class Wall {
    */
   public generateHand(): string[] {
     const hand: string[] = [];
-    for (let i = 0; i < DEFAULT_HAND_LENGTH; i += 1) {
+    for (let i = 0; i < this.handLength; i += 1) {
       const currentTile = this.tiles[this.currentTileIndex];
       hand.push(currentTile);
       this.currentTileIndex += 1;
@@ -99,7 +112,7 @@ export abstract class Wall {
    * @returns a Tile if available, otherwise null
    */
   public draw(): string | undefined | null {
-    if (this.currentTileIndex < Wall.DEFAULT_WALL_LENGTH) {
+    if (this.currentTileIndex < this.getLiveWallLength()) {
       // currentTileIndex is the next available tile,
       // so need to get it before incrementing the index
       const newTile = this.tiles[this.currentTileIndex];
@@ -111,6 +124,36 @@ export abstract class Wall {
     return null;
   }
 
+  /**
+   * Draws a replacement tile (for a quad or a bonus tile) from the back of the wall.
+   * Every replacement tile drawn shortens the live wall by 1.
+   * @returns a Tile if available, otherwise null
+   */
+  public drawReplacement(): string | undefined | null {
+    const replacementTileIndex = this.getLiveWallLength() - 1;
+    if (replacementTileIndex >= this.currentTileIndex) {
+      this.replacementTileCount += 1;
+
+      return this.tiles[replacementTileIndex];
+    }
+
+    return null;
+  }
+
+  /**
+   * @returns the number of tiles that can still be drawn from the front of the wall, plus the tiles already drawn
+   */
+  public getLiveWallLength(): number {
+    return this.tiles.length - this.replacementTileCount;
+  }
+
+  /**
+   * Get the number of replacement tiles drawn from the back of the wall
+   */
+  public getReplacementTileCount(): number {
+    return this.replacementTileCount;
+  }
+
   /**
    * @returns the tile property
    */
@@ -118,6 +161,13 @@ export abstract class Wall {
     return this.tiles;
   }
 
+  /**
+   * @returns tiles set aside from the wall that are never drawn (empty if the version has no dead wall)
+   */
+  public getDeadWall(): string[] {
+    return this.deadWall;
+  }
+
   /**
    * Set tiles in the wall for testing purposes.
    */
@@ -0,0 +1,48 @@
+/**
+ * Extends the HongKongWall.ts class.
+ * The American wall adds eight jokers to the Hong Kong tiles (152 tiles).
+ * Flowers and seasons are not replaced: they are kept in the hand and played as part of a pattern of the card.
+ */
+
+import { HongKongWall } from './HongKongWall';
+import { MahjongVersions } from './Versions';
+import { JokerTile } from '../../Tile/JokerTile';
+import { TileFactory } from '../../Tile/TileFactory';
+import { HongKongMahjongHand } from '../../types/MahjongTypes';
+
+export class AmericanWall extends HongKongWall {
+  static version: MahjongVersions = MahjongVersions.American;
+
+  static JOKER_COUNT = 8;
+
+  /**
+   * Initializes the tiles in the wall.
+   * @param reset Boolean, if true, clears the wall as well
+   */
+  public initializeWall(reset = false): void {
+    super.initializeWall(reset);
+    this.initializeJokerTiles();
+    super.shuffleTiles();
+  }
+
+  /**
+   * Generate initial hand, bonus tiles are kept in the hand.
+   */
+  public getInitialTiles(): HongKongMahjongHand {
+    return {
+      hand: this.generateHand(),
+      bonusTiles: [],
+    };
+  }
+
+  /**
+   * Initialize all the joker tiles in the wall
+   */
+  private initializeJokerTiles(): void {
+    for (let i = 0; i < AmericanWall.JOKER_COUNT; i += 1) {
+      const j: JokerTile = new JokerTile();
+      const stringDef: string = TileFactory.createStringDefFromTile(j);
+      this.tiles.push(stringDef);
+    }
+  }
+}
@@ -17,9 +17,10 @@ export class HongKongWall extends Wall {
 
   /**
    * Public Constructor
+   * @param handLength number of tiles in a hand generated from the wall
    */
-  constructor() {
-    super();
+  constructor(handLength?: number) {
+    super(handLength);
     this.initializeWall();
   }
 
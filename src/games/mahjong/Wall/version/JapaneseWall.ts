@@ -0,0 +1,87 @@
+/**
+ * Extends the Wall.ts class.
+ * The Japanese wall has no bonus tiles (136 tiles), and one five of each suit can be a red five.
+ * The last 14 tiles are set aside as the dead wall which holds the dora indicators (see DoraCalculator).
+ * Replacement tiles (for quads) are drawn from the back of the live wall, so the dead wall always keeps 14 tiles.
+ */
+
+import { Wall } from '../Wall';
+import { MahjongVersions } from './Versions';
+import { HongKongMahjongHand } from '../../types/MahjongTypes';
+import { TileMapper } from '../../Tile/map/TileMapper';
+import { HandHelper } from '../../Hand/HandHelper';
+import { DoraCalculator } from '../../Score/DoraCalculator';
+
+export class JapaneseWall extends Wall {
+  static version: MahjongVersions = MahjongVersions.Japanese;
+
+  static DEAD_WALL_LENGTH = 14;
+
+  static RED_FIVE_TILES: string[] = Object.keys(TileMapper).filter((tile) => HandHelper.isRedFive(tile));
+
+  private redFives: boolean;
+
+  /**
+   * Public Constructor
+   * @param redFives if true, one five of each suit is replaced by a red five
+   * @param handLength number of tiles in a hand generated from the wall
+   */
+  constructor(redFives = false, handLength?: number) {
+    super(handLength);
+    this.redFives = redFives;
+    this.initializeWall();
+  }
+
+  /**
+   * Initializes the tiles in the wall and sets aside the dead wall.
+   * @param reset Boolean, if true, clears the wall as well
+   */
+  public initializeWall(reset = false): void {
+    if (reset) {
+      super.clear();
+    }
+
+    this.initializeSimpleTiles();
+    this.initializeHonorTiles();
+    if (this.redFives) {
+      this.initializeRedFives();
+    }
+    super.shuffleTiles();
+
+    this.deadWall = this.tiles.splice(this.tiles.length - JapaneseWall.DEAD_WALL_LENGTH);
+  }
+
+  /**
+   * Resets and initialize the wall.
+   */
+  public reset(): void {
+    this.initializeWall(true);
+  }
+
+  /**
+   * Replace one five of each suit (left in the wall) by a red five
+   */
+  private initializeRedFives(): void {
+    JapaneseWall.RED_FIVE_TILES.forEach((redFive) => {
+      const index = this.tiles.indexOf(HandHelper.getBaseTile(redFive));
+      if (index !== -1) this.tiles[index] = redFive;
+    });
+  }
+
+  /**
+   * Generate initial hand, there are no bonus tiles in the Japanese wall.
+   */
+  public getInitialTiles(): HongKongMahjongHand {
+    return {
+      hand: this.generateHand(),
+      bonusTiles: [],
+    };
+  }
+
+  /**
+   * @returns the dora indicator shown at the start of a round
+   */
+  public getDoraIndicator(): string {
+    return DoraCalculator.getDoraIndicators(this.deadWall)[0];
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Extends the JapaneseWall.ts class.
+ * The three-player (sanma) wall removes the 2 to 8 of characters (108 tiles), and keeps the dead wall.
+ * North winds are not played in sanma: they are extracted like bonus tiles and replaced from the back of the wall.
+ */
+
+import { JapaneseWall } from './JapaneseWall';
+import { MahjongVersions } from './Versions';
+import { HongKongMahjongHand } from '../../types/MahjongTypes';
+import { HandHelper } from '../../Hand/HandHelper';
+import { SimpleTileTypes } from '../../Tile/types/SimpleTileTypes';
+import { HonorTileTypes } from '../../Tile/types/HonorTileTypes';
+
+export class SanmaWall extends JapaneseWall {
+  static version: MahjongVersions = MahjongVersions.Sanma;
+
+  static EXTRACTED_TILES: string[] = [HonorTileTypes.NORTH];
+
+  /**
+   * Intializes the Simple tiles, only the terminals of characters are kept
+   */
+  protected initializeSimpleTiles(): void {
+    super.initializeSimpleTiles();
+    this.tiles = this.tiles.filter(
+      (tile) =>
+        HandHelper.getTileDefinition(tile).type !== SimpleTileTypes.CHARACTER || HandHelper.isTerminalTile(tile),
+    );
+  }
+
+  /**
+   * Generate initial hand, north winds in the hand are extracted and replaced from the back of the wall.
+   */
+  public getInitialTiles(): HongKongMahjongHand {
+    const hand: string[] = [];
+    const extractedTiles: string[] = [];
+
+    let tilesToCheck = this.generateHand();
+    while (tilesToCheck.length > 0) {
+      const replacementCount = tilesToCheck.filter((tile) => SanmaWall.EXTRACTED_TILES.includes(tile)).length;
+      tilesToCheck.forEach((tile) => {
+        if (SanmaWall.EXTRACTED_TILES.includes(tile)) {
+          extractedTiles.push(tile);
+        } else {
+          hand.push(tile);
+        }
+      });
+
+      // Replacement tiles can also be north winds, keep replacing until none is left
+      const replacementTiles: string[] = [];
+      for (let i = 0; i < replacementCount; i += 1) {
+        replacementTiles.push(this.drawReplacement() as string);
+      }
+      tilesToCheck = replacementTiles;
+    }
+
+    return {
+      hand,
+      bonusTiles: extractedTiles,
+    };
+  }
+}
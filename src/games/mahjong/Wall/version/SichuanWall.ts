@@ -0,0 +1,53 @@
+/**
+ * Extends the Wall.ts class.
+ * The Sichuan wall only has the simple tiles of the three suits (108 tiles): no honor tiles and no bonus tiles.
+ */
+
+import { Wall } from '../Wall';
+import { MahjongVersions } from './Versions';
+import { HongKongMahjongHand } from '../../types/MahjongTypes';
+
+export class SichuanWall extends Wall {
+  static version: MahjongVersions = MahjongVersions.Sichuan;
+
+  static WALL_LENGTH = 108;
+
+  /**
+   * Public Constructor
+   * @param handLength number of tiles in a hand generated from the wall
+   */
+  constructor(handLength?: number) {
+    super(handLength);
+    this.initializeWall();
+  }
+
+  /**
+   * Initializes the tiles in the wall.
+   * @param reset Boolean, if true, clears the wall as well
+   */
+  public initializeWall(reset = false): void {
+    if (reset) {
+      super.clear();
+    }
+
+    super.initializeSimpleTiles();
+    super.shuffleTiles();
+  }
+
+  /**
+   * Resets and initialize the wall.
+   */
+  public reset(): void {
+    this.initializeWall(true);
+  }
+
+  /**
+   * Generate initial hand, there is no bonus tile to separate.
+   */
+  public getInitialTiles(): HongKongMahjongHand {
+    return {
+      hand: this.generateHand(),
+      bonusTiles: [],
+    };
+  }
+}
@@ -1,4 +1,9 @@
 export enum MahjongVersions {
   HongKong = 'HongKong',
   Japanese = 'Japanese',
+  Taiwanese = 'Taiwanese',
+  Sanma = 'Sanma',
+  MCR = 'MCR',
+  American = 'American',
+  Sichuan = 'Sichuan',
 }
@@ -5,18 +5,41 @@
 import { SimpleTileTypes } from '../Tile/types/SimpleTileTypes';
 import { HonorTileTypes } from '../Tile/types/HonorTileTypes';
 import { BonusTileTypes } from '../Tile/types/BonusTileTypes';
+import { JokerTileTypes } from '../Tile/types/JokerTileTypes';
 import { WindEnum } from '../../../enums/WindEnum';
 import { Tile } from '../Tile/Tile';
 import { MeldEnum } from '../../../enums/MeldEnum';
+import { SpecialHandEnum } from '../../../enums/SpecialHandEnum';
 
 export interface TileDefinition {
-  type: SimpleTileTypes | HonorTileTypes | BonusTileTypes;
+  type: SimpleTileTypes | HonorTileTypes | BonusTileTypes | JokerTileTypes;
   value: number;
 }
 
 export interface Meld {
   tiles: string[];
   type: MeldEnum;
+  concealed?: boolean;
+  fromSeat?: number; // seat of the user who discarded the claimed tile
+  claimedTile?: string;
+}
+
+/**
+ * A tile that completes a ready hand, and the number of copies of it the user has not seen yet.
+ */
+export interface WaitingTile {
+  tile: string;
+  unseenCount: number;
+}
+
+/**
+ * A way to split a winning hand into melds and a pair.
+ * Special hands (e.g. thirteen orphans) have no melds and no pair.
+ */
+export interface HandDecomposition {
+  melds: Meld[];
+  pair: string[];
+  specialHand?: SpecialHandEnum;
 }
 
 export interface HandDefinition {
@@ -24,6 +47,11 @@ export interface HandDefinition {
   name: string;
 }
 
+/**
+ * Points awarded for each scoring pattern of a version of mahjong, keyed by pattern (e.g. SEAT_WIND)
+ */
+export type PointTable = { [key: string]: HandDefinition };
+
 export interface TileObject {
   type: string;
   value: number;
@@ -39,12 +67,71 @@ export interface HandPointResults {
   concealedPoint: number;
   hands: HandDefinition[];
   tiles: Tile[] | TileObject[] | string[];
-  bonusTiles: Tile[];
+  bonusTiles: Tile[] | string[];
   wind: WindEnum;
   flower: number;
   melds?: Meld[];
 }
 
+/**
+ * Information about a winning hand needed to calculate its points
+ */
+export interface WinningHandContext {
+  concealedTiles: string[];
+  exposedMelds: Meld[];
+  bonusTiles: string[];
+  seatWind: WindEnum;
+  prevalentWind: WindEnum;
+  selfDrawn: boolean;
+  winningTile?: string;
+  robbingKong?: boolean; // won on a tile added to an exposed triplet by another user
+  kongReplacement?: boolean; // won on a replacement tile drawn for a quad
+  lastTileOfWall?: boolean; // won on the last tile of the live wall
+  lastTileOfKind?: boolean; // the other three copies of the winning tile were already discarded or melded
+  noFlowersInWall?: boolean; // the game is played without flowers and seasons, so no flower patterns are scored
+}
+
+/**
+ * A group of identical tiles in a pattern of a card (American). The tile is either fixed (tile), or a suited tile
+ * whose suit is a suit variable (A, B or C, each variable is a different suit) and whose value is fixed (value),
+ * relative to the value variable N (offset), or the dragon matching the suit (dragon).
+ * Jokers can only be used in groups of three or more tiles.
+ */
+export interface PatternGroup {
+  count: number;
+  tile?: string; // a tile, or FLOWER for any flower or season
+  suit?: string;
+  value?: number;
+  offset?: number;
+  dragon?: boolean;
+}
+
+/**
+ * A winning hand of a card (American), a concealed pattern cannot have exposed melds
+ */
+export interface Pattern {
+  name: string;
+  points: number;
+  concealed: boolean;
+  groups: PatternGroup[];
+}
+
+/**
+ * A card of the patterns accepted as winning hands (American)
+ */
+export interface PatternCard {
+  name: string;
+  patterns: Pattern[];
+}
+
+/**
+ * A pattern matched by a hand, and the number of jokers used to match it
+ */
+export interface PatternMatch {
+  pattern: Pattern;
+  jokerCount: number;
+}
+
 /**
  * Initial mahjong hand type used for HongKong mahjong
  */
@@ -52,3 +139,16 @@ export interface HongKongMahjongHand {
   hand: string[];
   bonusTiles: string[];
 }
+
+/**
+ * Dora (bonus tiles for a winning hand, Japanese) revealed by the dead wall and counted in a winning hand.
+ * Ura-dora indicators are only revealed to a winner who declared riichi.
+ */
+export interface DoraResults {
+  doraIndicators: string[];
+  uraDoraIndicators: string[];
+  dora: number;
+  uraDora: number;
+  redFives: number;
+  nukiDora: number; // north winds extracted in sanma
+}
@@ -1,6 +1,14 @@
 import { User } from './User';
 import { HasVersion } from './Version';
 
+/**
+ * DealerRetention interface representing when the dealer keeps the seat for the next round
+ */
+export interface DealerRetention {
+  onWin: boolean; // the dealer wins the round
+  onDraw: boolean; // the wall runs out of tiles
+}
+
 /**
  * Game interface representing Games table schema
  */
@@ -12,6 +20,10 @@ export interface Game extends HasVersion {
   gameName?: string;
   gameType?: string;
   gameVersion?: string;
+  matchLength?: string; // MatchLengthEnum, the wind rounds played before the game is over
+  dealerRetention?: DealerRetention;
+  redFives?: boolean; // one five of each suit is a red five (Japanese)
+  playerCount?: number; // number of users needed to start the game, from the ruleset of the game
   state?: string;
   started?: boolean;
 }
@@ -1,3 +1,6 @@
+import { Meld } from '../games/mahjong/types/MahjongTypes';
+import { WinTypeEnum } from '../enums/WinTypeEnum';
+
 export interface PlayedTile {
   playedTiles: string[];
   meldType: string;
@@ -5,6 +8,14 @@ export interface PlayedTile {
   skipInteraction: boolean;
 }
 
+/**
+ * Riichi interface representing the discard a user declared riichi with (Japanese)
+ */
+export interface Riichi {
+  tile: string;
+  discardIndex: number; // index of the riichi discard in the discards of the user
+}
+
 /**
  * UserHand interface
  */
@@ -12,6 +23,80 @@ export interface UserHand {
   connectionId: string;
   hand: string[];
   playedTiles?: string[];
+  exposedMelds?: Meld[];
+  discards?: string[]; // discarded tiles in the order they were played (claimed tiles are removed)
+  calledDiscards?: string[]; // discarded tiles claimed by other users, still counted for furiten (Japanese)
+  riichi?: Riichi; // the hand is locked once riichi is declared
+  furiten?: boolean; // passed a winning tile since the last turn (for the rest of the round after riichi)
+  missingSuit?: string; // suit declared before the first turn, the hand cannot win with tiles of this suit (Sichuan)
+  hasWon?: boolean; // the user has won and sits out the rest of the round (Sichuan)
+}
+
+/**
+ * DrawnTile interface representing a playable tile drawn by a user, and the bonus tiles
+ * revealed (and replaced) before drawing it
+ */
+export interface DrawnTile {
+  tile: string;
+  bonusTiles: string[];
+}
+
+/**
+ * Discard interface representing the last tile played by a user.
+ * A tile added to an exposed triplet (fromKong) can only be claimed to win (robbing the kong).
+ * When several users can win on the same discard (Sichuan), the discard is kept until every winner has declared.
+ * Each other user can claim or skip the discard once.
+ */
+export interface Discard {
+  connectionId: string;
+  tile: string;
+  fromKong?: boolean;
+  winnerConnectionIds?: string[]; // users who claimed the discard to win
+  interactedConnectionIds?: string[]; // users who claimed or skipped the discard
+}
+
+/**
+ * LastDraw interface representing the last tile drawn by a user in the current turn.
+ * A replacement tile drawn for a quad (fromKong) is kept as fromKong while its bonus tiles are replaced.
+ */
+export interface LastDraw {
+  connectionId: string;
+  tile: string;
+  fromKong?: boolean;
+}
+
+/**
+ * WinSource interface representing where the winning tile of a user came from,
+ * the discarder is the user who played the winning tile (if it was not self drawn)
+ */
+export interface WinSource {
+  winType: WinTypeEnum;
+  winningTile: string;
+  discarderConnectionId?: string;
+}
+
+/**
+ * RoundScore interface representing one round in the score sheet of a game.
+ * The winner, win type and discarder are undefined if the round is a draw, and deltas are in seat order.
+ */
+export interface RoundScore {
+  dealer: number;
+  wind: number;
+  winnerConnectionId?: string;
+  winType?: WinTypeEnum;
+  discarderConnectionId?: string;
+  points: number;
+  deltas: number[];
+}
+
+/**
+ * CharlestonState interface representing a Charleston in progress (American).
+ * Tiles passed by each user (in seat order) are kept until every user has passed, then exchanged.
+ */
+export interface CharlestonState {
+  passIndex: number; // index of the current pass (0 to 5)
+  passedTiles: string[][];
+  stopCount: number; // number of users who stopped the second Charleston
 }
 
 /**
@@ -20,13 +105,23 @@ export interface UserHand {
 export interface GameState {
   readonly gameId: string;
   wall: string[];
+  deadWall?: string[]; // tiles set aside from the wall (Japanese), the first one is the dora indicator
   hands: UserHand[];
   dealer: number;
+  dealerRepeatCount?: number; // number of rounds in a row the current dealer has kept the seat
   currentIndex: number;
   currentWind: number;
   currentTurn: number;
   playedTileInteractions?: PlayedTile[];
   interactionCount?: number;
+  lastDiscard?: Discard;
+  lastDraw?: LastDraw;
+  replacementCount?: number; // number of replacement tiles drawn from the back of the wall
+  scores?: number[]; // running score of each user in seat order
+  riichiSticks?: number; // riichi sticks on the table, collected by the next winner
+  scoreSheet?: RoundScore[];
+  charleston?: CharlestonState; // removed once the Charleston is finished
+  declaringMissingSuit?: boolean; // removed once every user has declared a missing suit (Sichuan)
 }
 
 export interface SelfPlayedTile {
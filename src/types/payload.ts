@@ -1,13 +1,21 @@
 import { Game } from '../models/Game';
 import { User } from '../models/User';
 import { GameStatesEnum, UserStatesEnum } from '../enums/states';
-import { GameState, SelfPlayedTile } from '../models/GameState';
-import { HandPointResults } from '../games/mahjong/types/MahjongTypes';
+import { WinTypeEnum } from '../enums/WinTypeEnum';
+import { GameState, RoundScore, SelfPlayedTile } from '../models/GameState';
+import { DoraResults, HandPointResults, WaitingTile } from '../games/mahjong/types/MahjongTypes';
 
 /* ----------------------------------------------------------------------------
  * WebSocket Payload
  * ------------------------------------------------------------------------- */
 
+export interface Standing {
+  connectionId: string;
+  username?: string;
+  score: number;
+  rank: number; // users with the same score share the same rank
+}
+
 /**
  * Payload interface for Lambda event body
  */
@@ -32,9 +40,24 @@ export interface LambdaEventBodyPayloadOptions {
   skipInteraction?: boolean;
   dealer?: number;
   wind?: number;
+  dealerRepeatCount?: number;
   isQuad?: boolean;
   alreadyMeld?: boolean;
   handPointResults?: HandPointResults;
+  bonusTiles?: string[];
+  waitingTiles?: WaitingTile[];
+  roundScore?: RoundScore;
+  scores?: number[];
+  standings?: Standing[];
+  riichiSticks?: number;
+  doraIndicators?: string[];
+  dora?: DoraResults;
+  passIndex?: number;
+  stopCharleston?: boolean;
+  charlestonFinished?: boolean;
+  nextTurn?: number;
+  missingSuit?: string;
+  missingSuits?: string[];
 
   // For testing
   gameState?: GameState;
@@ -89,6 +112,7 @@ export interface GameStartPayload {
   tiles: string[];
   selfPlayedTiles: SelfPlayedTile[];
   currentIndex: number;
+  doraIndicators: string[]; // empty if the game has no dead wall
 }
 
 export interface DrawTilePayload {
@@ -117,11 +141,47 @@ export interface InteractionSuccessPayload {
 export interface WinningTilesPayload {
   connectionId: string;
   handPointResults: HandPointResults;
+  winType: WinTypeEnum;
+  discarderConnectionId?: string; // user who played the winning tile, undefined if self drawn
+  dora?: DoraResults; // undefined if the game has no dead wall
+  nextTurn?: number; // seat taking the next turn if the round goes on after the win (Sichuan)
+}
+
+export interface ScoreUpdatePayload {
+  roundScore: RoundScore; // includes the score deltas of the round in seat order
+  scores: number[]; // running scores in seat order
+}
+
+export interface RiichiPayload {
+  connectionId: string;
+  tile: string; // the riichi discard
+  riichiSticks: number;
+  scores: number[];
+}
+
+export interface DoraIndicatorsPayload {
+  doraIndicators: string[];
+}
+
+export interface CharlestonPayload {
+  tiles: string[]; // tiles passed by the user, or tiles received once every user has passed
+  passIndex: number; // index of the pass in the Charleston
+  charlestonFinished: boolean; // true once the last pass of the Charleston has been exchanged
+}
+
+export interface MissingSuitPayload {
+  missingSuits: string[]; // missing suit of each user in seat order, empty until every user has declared
+}
+
+export interface GameOverPayload {
+  gameId: string;
+  standings: Standing[];
 }
 
 export interface UpdateGameStatePayload {
   dealer: number;
   wind: number;
+  dealerRepeatCount: number;
 }
 
 export interface SelfPlayTilePayload {
@@ -136,6 +196,15 @@ export interface DrawRoundPayload {
   connectionId: string;
 }
 
+export interface RevealBonusTilesPayload {
+  connectionId: string;
+  bonusTiles: string[];
+}
+
+export interface WaitingTilesPayload {
+  waitingTiles: WaitingTile[];
+}
+
 /**
  * For testing
  */
@@ -14,4 +14,8 @@ export const DEFAULT_DOCUMENT_VERSION = 1;
  * Mahjong Constants
  */
 export const DEFAULT_MAX_USERS_IN_GAME = 4;
+export const SANMA_MAX_USERS_IN_GAME = 3;
 export const DEFAULT_HAND_LENGTH = 13;
+export const TAIWANESE_HAND_LENGTH = 16;
+export const RIICHI_STICK_POINTS = 1000;
+export const JAPANESE_STARTING_SCORE = 25000;
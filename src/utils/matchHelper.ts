@@ -0,0 +1,74 @@
+import { MatchLengthEnum } from '../enums/MatchLengthEnum';
+import { DealerRetention } from '../models/Game';
+import { User } from '../models/User';
+import { Standing } from '../types/payload';
+import { DEFAULT_MAX_USERS_IN_GAME } from './constants';
+
+export const DEFAULT_DEALER_RETENTION: DealerRetention = { onWin: true, onDraw: true };
+
+/**
+ * Check if the dealer keeps the seat for the next round.
+ * @param {string} dealerConnectionId connection Id of the current dealer
+ * @param {string} winnerConnectionId connection Id of the winner, undefined if the round is a draw
+ * @param {DealerRetention} dealerRetention when the dealer keeps the seat
+ */
+export const isDealerRetained = (
+  dealerConnectionId: string,
+  winnerConnectionId: string | undefined,
+  dealerRetention: DealerRetention = DEFAULT_DEALER_RETENTION,
+): boolean => {
+  if (winnerConnectionId === undefined) return dealerRetention.onDraw;
+
+  return winnerConnectionId === dealerConnectionId && dealerRetention.onWin;
+};
+
+/**
+ * Get the number of wind rounds played in a match.
+ * @param {string} matchLength match length of the game (default: full four winds)
+ */
+export const getWindRoundCount = (matchLength?: string): number => {
+  switch (matchLength) {
+    case MatchLengthEnum.EAST_ONLY:
+      return 1;
+    case MatchLengthEnum.EAST_SOUTH:
+      return 2;
+    default:
+      return 4;
+  }
+};
+
+/**
+ * Check if the dealer passing to the next user ends the match, which happens when the last
+ * user deals in the last wind round of the match. A full match has one wind round per user.
+ * @param {number} dealer current dealer index
+ * @param {number} currentWind current prevalent wind
+ * @param {string} matchLength match length of the game
+ * @param {number} playerCount number of users in the game
+ */
+export const isFinalRound = (
+  dealer: number,
+  currentWind: number,
+  matchLength?: string,
+  playerCount = DEFAULT_MAX_USERS_IN_GAME,
+): boolean => {
+  return dealer === playerCount - 1 && currentWind >= Math.min(getWindRoundCount(matchLength), playerCount) - 1;
+};
+
+/**
+ * Rank users by their scores, from the highest to the lowest score.
+ * @param {User[]} users users in seat order
+ * @param {number[]} scores running scores in seat order
+ */
+export const getStandings = (users: User[], scores: number[]): Standing[] => {
+  const userScores = users.map((_user, seat) => scores[seat] || 0);
+  const sortedScores = [...userScores].sort((a, b) => b - a);
+
+  return users
+    .map((user, seat) => ({
+      connectionId: user.connectionId,
+      username: user.username,
+      score: userScores[seat],
+      rank: sortedScores.indexOf(userScores[seat]) + 1,
+    }))
+    .sort((a, b) => a.rank - b.rank);
+};
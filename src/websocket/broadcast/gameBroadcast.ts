@@ -1,16 +1,23 @@
 import { WebSocketClient } from '../WebSocketClient';
 import { Game } from '../../models/Game';
-import { getAllGames, getGameByGameId, getUsersInGame } from '../../dynamodb/gameDBService';
-import { getHandByConnectionId, removeDynamoDocumentVersion } from '../../dynamodb/dbHelper';
+import { finishGame, getAllGames, getGameByGameId, getUsersInGame } from '../../dynamodb/gameDBService';
+import { getHandByConnectionId, getQuadCount, removeDynamoDocumentVersion } from '../../dynamodb/dbHelper';
 import {
+  createCharlestonResponse,
   createDrawRoundResponse,
   createDrawTileResponse,
+  createGameOverResponse,
   createGameStartResponse,
+  createDoraIndicatorsResponse,
   createGameUpdateResponse,
   createGetAllGamesResponse,
   createInGameMessageResponse,
   createInGameUpdateResponse,
+  createMissingSuitResponse,
   createPlayTileResponse,
+  createRevealBonusTilesResponse,
+  createRiichiResponse,
+  createScoreUpdateResponse,
   createSelfPlayTileResponse,
   createUpdateGameStateResponse,
   createWinningTilesResponse,
@@ -20,19 +27,25 @@ import { WebSocketActionsEnum } from '../../enums/WebSocketActionsEnum';
 import { getUserByConnectionId } from '../../dynamodb/userDBService';
 import { User } from '../../models/User';
 import {
+  drawReplacementTile,
   drawTile,
-  getCurrentDealer,
   getCurrentTileIndex,
+  getGameStateByGameId,
+  getRemainingTileCount,
   initGameState,
+  replaceBonusTiles,
+  settleRound,
   startNewGameRound,
 } from '../../dynamodb/gameStateDBService';
 import { getConnectionIdsExceptCaller, getConnectionIdsFromUsers, sleep } from '../../utils/broadcastHelper';
-import { GameState, SelfPlayedTile, UserHand } from '../../models/GameState';
-import { SelfPlayTilePayload } from '../../types/payload';
-import { HandPointResults } from '../../games/mahjong/types/MahjongTypes';
-import { Wall } from '../../games/mahjong/Wall/Wall';
+import { GameState, RoundScore, SelfPlayedTile, UserHand, WinSource } from '../../models/GameState';
+import { RiichiPayload, SelfPlayTilePayload, Standing } from '../../types/payload';
+import { DoraResults, HandPointResults } from '../../games/mahjong/types/MahjongTypes';
+import { DoraCalculator } from '../../games/mahjong/Score/DoraCalculator';
+import { RulesetFactory } from '../../games/mahjong/Ruleset/RulesetFactory';
 import { LambdaResponse } from '../../types/response';
 import { response } from '../../utils/responseHelper';
+import { getStandings, isDealerRetained, isFinalRound } from '../../utils/matchHelper';
 
 /* ----------------------------------------------------------------------------
  * Game
@@ -192,16 +205,21 @@ export const broadcastGameStart = async (
 ): Promise<void> => {
   let hands: UserHand[];
   let currentIndex: number;
+  let deadWall: string[];
 
   // For starting a new game
   if (startNewGame) {
-    const newGameState = await initGameState(gameId, connectionIds);
+    const game = await getGameByGameId(gameId);
+    const ruleset = RulesetFactory.getRuleset(game?.gameType, game?.gameVersion);
+    const newGameState = await initGameState(gameId, connectionIds, ruleset, game?.redFives);
     hands = newGameState.hands;
     currentIndex = newGameState.currentIndex;
+    deadWall = newGameState.deadWall || [];
   } else if (!startNewGame && gameState) {
     // For starting a new round in a game
     hands = gameState.hands;
     currentIndex = gameState.currentIndex;
+    deadWall = gameState.deadWall || [];
   } else {
     // Error
     throw Error('broadcastGameStart: Failed to start a new game, please double check params passed in');
@@ -223,6 +241,7 @@ export const broadcastGameStart = async (
       tiles,
       selfPlayedTiles: allSelfPlayedTilesAtStart,
       currentIndex,
+      doraIndicators: DoraCalculator.getDoraIndicators(deadWall),
     });
     // Send tiles as a string to each user in the game
     return ws.send(wsResponse, connectionId);
@@ -254,16 +273,19 @@ export const broadcastDrawRound = async (
  * @param {string[]} connectionIds connectionIds of all users in game
  * @param {number} dealer current dealer
  * @param {number} wind current wind
+ * @param {number} dealerRepeatCount number of rounds in a row the current dealer has kept the seat
  */
 export const broadcastUpdateGameState = async (
   ws: WebSocketClient,
   connectionIds: string[],
   dealer: number,
   wind: number,
+  dealerRepeatCount: number,
 ): Promise<void> => {
   const wsResponse = createUpdateGameStateResponse({
     dealer,
     wind,
+    dealerRepeatCount,
   });
   await Promise.all(connectionIds.map((cid) => ws.send(wsResponse, cid)));
 };
@@ -282,36 +304,143 @@ export const broadcastGameReset = async (
   await broadcastGameStart(ws, '', connectionIds, false, gameState);
 };
 
+/**
+ * Helper function to add the result of a round to the scores of a game and send SCORE_UPDATE to users.
+ * @param {WebSocketClient} ws Websocket client
+ * @param {string} gameId Game Id
+ * @param {string[]} connectionIds connectionIds of all users in game
+ * @param {RoundScore} roundScore result of the round, with the score deltas in seat order
+ */
+export const settleRoundAndSendUpdates = async (
+  ws: WebSocketClient,
+  gameId: string,
+  connectionIds: string[],
+  roundScore: RoundScore,
+): Promise<void> => {
+  const updatedGameState = await settleRound(gameId, roundScore);
+  if (!updatedGameState) throw Error('settleRoundAndSendUpdates: failed to settle the round');
+
+  const wsResponse = createScoreUpdateResponse({ roundScore, scores: updatedGameState.scores as number[] });
+  await Promise.all(connectionIds.map((cid) => ws.send(wsResponse, cid)));
+};
+
+/**
+ * Broadcast GAME_OVER with the final standings to all users in the game.
+ * @param {WebSocketClient} ws Websocket client
+ * @param {string} gameId Game Id
+ * @param {string[]} connectionIds connectionIds of all users in game
+ * @param {Standing[]} standings users ranked by their final scores
+ */
+export const broadcastGameOver = async (
+  ws: WebSocketClient,
+  gameId: string,
+  connectionIds: string[],
+  standings: Standing[],
+): Promise<void> => {
+  const wsResponse = createGameOverResponse({ gameId, standings });
+  await Promise.all(connectionIds.map((cid) => ws.send(wsResponse, cid)));
+};
+
+/**
+ * Broadcast RIICHI to all users in the game, with the riichi sticks on the table and the updated scores.
+ * @param {WebSocketClient} ws a WebSocketClient instance
+ * @param {string[]} connectionIds connection ids of all users
+ * @param {RiichiPayload} payload user who declared riichi and the riichi discard
+ */
+export const broadcastRiichi = async (
+  ws: WebSocketClient,
+  connectionIds: string[],
+  payload: RiichiPayload,
+): Promise<void> => {
+  const wsResponse = createRiichiResponse(payload);
+  await Promise.all(connectionIds.map((cid) => ws.send(wsResponse, cid)));
+};
+
+/**
+ * Broadcast CHARLESTON to every user in the game with the tiles passed to the user, once every user has passed.
+ * @param {WebSocketClient} ws a WebSocketClient instance
+ * @param {string[]} connectionIds connection ids of all users in seat order
+ * @param {string[][]} receivedTiles tiles received by each user in seat order
+ * @param {number} passIndex index of the pass in the Charleston
+ * @param {boolean} charlestonFinished true if it was the last pass of the Charleston
+ */
+export const broadcastCharlestonTiles = async (
+  ws: WebSocketClient,
+  connectionIds: string[],
+  receivedTiles: string[][],
+  passIndex: number,
+  charlestonFinished: boolean,
+): Promise<void> => {
+  await Promise.all(
+    connectionIds.map((cid, seatIndex) =>
+      ws.send(createCharlestonResponse({ tiles: receivedTiles[seatIndex], passIndex, charlestonFinished }), cid),
+    ),
+  );
+};
+
+/**
+ * Broadcast DECLARE_MISSING_SUIT to every user in the game with the missing suit of every user,
+ * once every user has declared (Sichuan).
+ * @param {WebSocketClient} ws a WebSocketClient instance
+ * @param {string[]} connectionIds connection ids of all users in seat order
+ * @param {string[]} missingSuits missing suit of each user in seat order
+ */
+export const broadcastMissingSuits = async (
+  ws: WebSocketClient,
+  connectionIds: string[],
+  missingSuits: string[],
+): Promise<void> => {
+  const wsResponse = createMissingSuitResponse({ missingSuits });
+  await Promise.all(connectionIds.map((cid) => ws.send(wsResponse, cid)));
+};
+
 /**
  * Helper function to start a new round of a game and send updates (UPDATE_GAME_STATE, GAME_START) to users.
+ * If the final round of the match has been played, the game is finished and GAME_OVER is sent instead.
  * @param {WebSocketClient} ws Websocket client
  * @param {string} gameId Game Id
- * @param {string} connectionId Connection Id of the caller
  * @param {User[]} users List of users in a game
  * @param {number} dealer Current dealer index
+ * @param {string} winnerConnectionId Connection Id of the winner, undefined if the round is a draw
  */
 export const startNewRoundAndSendUpdates = async (
   ws: WebSocketClient,
   gameId: string,
-  connectionId: string,
   users: User[],
   dealer: number,
+  winnerConnectionId?: string,
 ): Promise<LambdaResponse | undefined> => {
   const connectionIds = getConnectionIdsFromUsers(users);
 
+  const game = await getGameByGameId(gameId);
+  const gameState = await getGameStateByGameId(gameId, ['currentWind', 'scores']);
+  if (!game || !gameState) return response(400, 'Cannot find the game to start a new round');
+
+  // The dealer keeps the seat on a win or a draw depending on the dealer retention rules of the game
+  const isDealerChanged = !isDealerRetained(users[dealer].connectionId, winnerConnectionId, game.dealerRetention);
+
+  // End the game instead of dealing again after the final round of the match
+  if (isDealerChanged && isFinalRound(dealer, gameState.currentWind, game.matchLength, users.length)) {
+    await finishGame(gameId);
+    await broadcastGameOver(ws, gameId, connectionIds, getStandings(users, gameState.scores || []));
+    return undefined;
+  }
+
   // Start a new round and update the dealer/wind
   const updatedGameState = await startNewGameRound(
     gameId,
     connectionIds,
-    users[dealer].connectionId !== connectionId, // change dealer if winner is not currently a dealer
+    isDealerChanged,
+    RulesetFactory.getRuleset(game.gameType, game.gameVersion),
+    game.redFives,
   );
   if (!updatedGameState) {
     return response(400, 'Cannot start new game round');
   }
 
-  // Send UPDATE_GAME_STATE with current dealer and wind to all connections
-  const { dealer: newDealer, currentWind } = updatedGameState;
-  await broadcastUpdateGameState(ws, connectionIds, newDealer, currentWind);
+  // Send UPDATE_GAME_STATE with current dealer, wind and dealer repeat count to all connections
+  const { dealer: newDealer, currentWind, dealerRepeatCount = 0 } = updatedGameState;
+  await broadcastUpdateGameState(ws, connectionIds, newDealer, currentWind, dealerRepeatCount);
 
   // Send GAME_START to start a new round and send new hands to users
   await sleep(5000); // Delay 5s before sending GAME_START to client
@@ -321,23 +450,83 @@ export const startNewRoundAndSendUpdates = async (
 };
 
 /**
- * Broadcast a tile string to a user in the game.
+ * Broadcast the dora indicators revealed so far (one plus one for each quad) to all users in the game.
+ * Nothing is sent if the game is played without a dead wall.
+ * @param {WebSocketClient} ws a WebSocketClient instance
+ * @param {string} gameId Game Id
+ */
+export const broadcastDoraIndicators = async (ws: WebSocketClient, gameId: string): Promise<void> => {
+  const gameState = await getGameStateByGameId(gameId, ['deadWall', 'hands']);
+  if (!gameState || !gameState.deadWall || gameState.deadWall.length === 0) return;
+
+  const wsResponse = createDoraIndicatorsResponse({
+    doraIndicators: DoraCalculator.getDoraIndicators(gameState.deadWall, getQuadCount(gameState.hands)),
+  });
+  await Promise.all(gameState.hands.map(({ connectionId }) => ws.send(wsResponse, connectionId)));
+};
+
+/**
+ * Broadcast the bonus tiles revealed by a user while drawing a tile to all users in the game.
+ * @param {WebSocketClient} ws a WebSocketClient instance
+ * @param {string} gameId Game Id
+ * @param {string} connectionId Connection Id of the user who revealed the bonus tiles
+ * @param {string[]} bonusTiles bonus tiles revealed
+ */
+export const broadcastRevealBonusTiles = async (
+  ws: WebSocketClient,
+  gameId: string,
+  connectionId: string,
+  bonusTiles: string[],
+): Promise<void> => {
+  const users = await getUsersInGame(gameId);
+  if (!users) throw Error('broadcastRevealBonusTiles: No user found in game, failed to broadcast REVEAL_BONUS_TILES');
+
+  const wsResponse = createRevealBonusTilesResponse({ connectionId, bonusTiles });
+  await Promise.all(getConnectionIdsFromUsers(users).map((cid) => ws.send(wsResponse, cid)));
+};
+
+/**
+ * Broadcast a tile string to a user in the game, after adding it to the user hand in the game state.
+ * Replacement tiles (for a quad or a bonus tile) are drawn from the back of the wall.
+ * Bonus tiles (and tiles extracted by the ruleset of the game) drawn are moved to the user's played tiles
+ * and replaced automatically, and revealed to all users in one REVEAL_BONUS_TILES broadcast.
+ * Bonus tiles are kept in the hand if the ruleset does not replace them (American).
  * @param {WebSocketClient} ws a WebSocketClient instance
  * @param {string} gameId Game Id
  * @param {string} connectionId Connection Id
+ * @param {boolean} isReplacement draw a replacement tile (for a quad or a bonus tile) from the back of the wall
+ * @param {boolean} afterKong true if the replacement tile is drawn for a quad
  */
 export const broadcastDrawTileToUser = async (
   ws: WebSocketClient,
   gameId: string,
   connectionId: string,
+  isReplacement = false,
+  afterKong = false,
 ): Promise<void> => {
-  const tileDrawn = await drawTile(gameId);
+  const firstTileDrawn = isReplacement
+    ? await drawReplacementTile(gameId, connectionId, afterKong)
+    : await drawTile(gameId, connectionId);
+  const game = await getGameByGameId(gameId);
+  const { extractedTiles, hasBonusTiles } = RulesetFactory.getRuleset(game?.gameType, game?.gameVersion);
+  const { tile: tileDrawn, bonusTiles } = hasBonusTiles
+    ? await replaceBonusTiles(gameId, connectionId, firstTileDrawn, [], extractedTiles)
+    : { tile: firstTileDrawn, bonusTiles: [] };
+
+  if (bonusTiles.length > 0) {
+    await broadcastRevealBonusTiles(ws, gameId, connectionId, bonusTiles);
+  }
+
+  // Drawing a replacement tile for a quad reveals a new kan-dora indicator
+  if (afterKong) {
+    await broadcastDoraIndicators(ws, gameId);
+  }
 
   if (!tileDrawn || tileDrawn === '') {
-    // Double check to make sure tile index reach 144
-    const currentIndex = (await getCurrentTileIndex(gameId)) as number;
-    if (currentIndex !== Wall.DEFAULT_WALL_LENGTH) {
-      throw Error('broadcastDrawTileToUser: Draw empty tile while currentIndex did not reach 144');
+    // Double check to make sure there is no tile left in the live wall
+    const remainingTileCount = await getRemainingTileCount(gameId);
+    if (remainingTileCount > 0) {
+      throw Error('broadcastDrawTileToUser: Draw empty tile while there are tiles left in the wall');
     }
 
     // Users must exist in the game
@@ -347,8 +536,23 @@ export const broadcastDrawTileToUser = async (
     const connectionIds = getConnectionIdsFromUsers(users);
     await broadcastDrawRound(ws, gameId, connectionId, connectionIds);
 
-    const currentDealer = (await getCurrentDealer(gameId)) as number;
-    await startNewRoundAndSendUpdates(ws, gameId, connectionId, users, currentDealer);
+    // Nobody pays in a draw round, but the round is still added to the score sheet,
+    // unless users have already won in the round (Sichuan) and their wins were added instead
+    const { dealer: currentDealer, currentWind, hands } = (await getGameStateByGameId(gameId, [
+      'dealer',
+      'currentWind',
+      'hands',
+    ])) as GameState;
+    if (!hands.some(({ hasWon }) => hasWon)) {
+      await settleRoundAndSendUpdates(ws, gameId, connectionIds, {
+        dealer: currentDealer,
+        wind: currentWind,
+        points: 0,
+        deltas: connectionIds.map(() => 0),
+      });
+    }
+
+    await startNewRoundAndSendUpdates(ws, gameId, users, currentDealer);
     return;
   }
 
@@ -392,16 +596,26 @@ export const broadcastPlayedTileToUsers = async (
  * @param {string[]} connectionIds connection ids of all users
  * @param {string} connectionId connectionId of winner
  * @param {HandPointResults} handPointResults A winning hand with tiles and points
+ * @param {WinSource} winSource where the winning tile came from (and who discarded it)
+ * @param {DoraResults} dora dora indicators and dora counted in the winning hand, undefined without a dead wall
+ * @param {number} nextTurn seat taking the next turn if the round goes on after the win (Sichuan)
  */
 export const broadcastWinningTiles = async (
   ws: WebSocketClient,
   connectionIds: string[],
   connectionId: string,
   handPointResults: HandPointResults,
+  winSource: WinSource,
+  dora?: DoraResults,
+  nextTurn?: number,
 ): Promise<void> => {
   const wsResponse = createWinningTilesResponse({
     connectionId,
     handPointResults,
+    winType: winSource.winType,
+    discarderConnectionId: winSource.discarderConnectionId,
+    dora,
+    nextTurn,
   });
   await Promise.all(connectionIds.map((cid) => ws.send(wsResponse, cid)));
 };
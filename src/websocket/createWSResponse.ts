@@ -20,6 +20,14 @@ import {
   SelfPlayTilePayload,
   TestGameUpdatePayload,
   DrawRoundPayload,
+  RevealBonusTilesPayload,
+  WaitingTilesPayload,
+  ScoreUpdatePayload,
+  GameOverPayload,
+  RiichiPayload,
+  DoraIndicatorsPayload,
+  CharlestonPayload,
+  MissingSuitPayload,
 } from '../types/payload';
 import { WebSocketResponse } from '../types/response';
 import { WebSocketActionsEnum } from '../enums/WebSocketActionsEnum';
@@ -174,6 +182,13 @@ export const createPlayedTileInteractionResponse = (payload: PlayedTileInteracti
   return createWSResponse(WebSocketActionsEnum.PLAYED_TILE_INTERACTION, payload);
 };
 
+/**
+ * Create WIN_ROUND response object.
+ */
+export const createWinRoundResponse = (): WebSocketResponse => {
+  return createWSResponse(WebSocketActionsEnum.WIN_ROUND, {});
+};
+
 /**
  * Create WINNING_TILE response object for WIN_ROUND request
  * @param {WinningTilesPayload} payload payload object
@@ -206,6 +221,70 @@ export const createDrawRoundResponse = (payload: DrawRoundPayload): WebSocketRes
   return createWSResponse(WebSocketActionsEnum.DRAW_ROUND, payload);
 };
 
+/**
+ * Create REVEAL_BONUS_TILES response object.
+ * @param {RevealBonusTilesPayload} payload payload object
+ */
+export const createRevealBonusTilesResponse = (payload: RevealBonusTilesPayload): WebSocketResponse => {
+  return createWSResponse(WebSocketActionsEnum.REVEAL_BONUS_TILES, payload);
+};
+
+/**
+ * Create WAITING_TILES response object.
+ * @param {WaitingTilesPayload} payload payload object
+ */
+export const createWaitingTilesResponse = (payload: WaitingTilesPayload): WebSocketResponse => {
+  return createWSResponse(WebSocketActionsEnum.WAITING_TILES, payload);
+};
+
+/**
+ * Create SCORE_UPDATE response object.
+ * @param {ScoreUpdatePayload} payload payload object
+ */
+export const createScoreUpdateResponse = (payload: ScoreUpdatePayload): WebSocketResponse => {
+  return createWSResponse(WebSocketActionsEnum.SCORE_UPDATE, payload);
+};
+
+/**
+ * Create GAME_OVER response object.
+ * @param {GameOverPayload} payload payload object
+ */
+export const createGameOverResponse = (payload: GameOverPayload): WebSocketResponse => {
+  return createWSResponse(WebSocketActionsEnum.GAME_OVER, payload);
+};
+
+/**
+ * Create RIICHI response object.
+ * @param {RiichiPayload} payload payload object
+ */
+export const createRiichiResponse = (payload: RiichiPayload): WebSocketResponse => {
+  return createWSResponse(WebSocketActionsEnum.RIICHI, payload);
+};
+
+/**
+ * Create DORA_INDICATORS response object.
+ * @param {DoraIndicatorsPayload} payload payload object
+ */
+export const createDoraIndicatorsResponse = (payload: DoraIndicatorsPayload): WebSocketResponse => {
+  return createWSResponse(WebSocketActionsEnum.DORA_INDICATORS, payload);
+};
+
+/**
+ * Create CHARLESTON response object.
+ * @param {CharlestonPayload} payload payload object
+ */
+export const createCharlestonResponse = (payload: CharlestonPayload): WebSocketResponse => {
+  return createWSResponse(WebSocketActionsEnum.CHARLESTON, payload);
+};
+
+/**
+ * Create DECLARE_MISSING_SUIT response object.
+ * @param {MissingSuitPayload} payload payload object
+ */
+export const createMissingSuitResponse = (payload: MissingSuitPayload): WebSocketResponse => {
+  return createWSResponse(WebSocketActionsEnum.DECLARE_MISSING_SUIT, payload);
+};
+
 /* ----------------------------------------------------------------------------
  * Success and Failure Response
  * ------------------------------------------------------------------------- */